@@ -38,5 +38,23 @@ export default defineConfig({
     command: 'npm run dev',
     url: 'http://localhost:3007',
     reuseExistingServer: !process.env.CI,
+    env: {
+      // Run against the scripted mock provider unless a real one is requested
+      LLM_PROVIDER: process.env.LLM_PROVIDER || 'mock',
+      // Every spec calls the API from localhost, so they all share one client's quota
+      RATE_LIMIT_REQUESTS_PER_MINUTE: '1000',
+      RATE_LIMIT_CALLS_PER_MINUTE: '10000',
+      RATE_LIMIT_TOKENS_PER_MINUTE: '10000000',
+      // The rate limiting spec stands in for a proxy, giving each test its own client IP
+      TRUST_PROXY: 'true',
+      // Sign-in works but isn't required, so the other specs stay anonymous
+      AUTH_SECRET: 'playwright-session-secret',
+      AUTH_ADMIN_USERNAME: 'admin',
+      AUTH_ADMIN_PASSWORD: 'playwright-admin-password',
+      // Deliberately slow reply so specs can interact with an in-flight request
+      MOCK_PROVIDER_SCRIPT: JSON.stringify([
+        { match: 'slow mock request', response: 'Slow mock answer.', delayMs: 8000 }
+      ]),
+    },
   },
 });
\ No newline at end of file
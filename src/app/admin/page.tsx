@@ -0,0 +1,19 @@
+/**
+ * Admin Page - models, prompts, fusion tuning and usage (the middleware only lets admins in)
+ */
+
+import AppLayout from '@/components/AppLayout';
+import AdminConsole from '@/components/AdminConsole';
+
+export default function AdminPage() {
+  return (
+    <AppLayout>
+      <AdminConsole />
+    </AppLayout>
+  );
+}
+
+export const metadata = {
+  title: 'Admin - ChatQora',
+  description: 'Manage models, prompts, fusion settings and usage.',
+};
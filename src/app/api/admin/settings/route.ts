@@ -0,0 +1,81 @@
+/**
+ * Admin Settings API - runtime settings for prompts, fusion, web search trust and models (admins only)
+ *
+ * GET    /api/admin/settings                  current settings, defaults and the registered models
+ * PATCH  /api/admin/settings                  AppSettingsPatch, applied to the next request
+ * DELETE /api/admin/settings?section=prompts  back to defaults (one section, or everything)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { adminRequiredResponse, getAdminUser } from '@/lib/adminAccess';
+import { appSettings, DEFAULT_SETTINGS, getSettingsProblems, SETTINGS_SECTIONS, type AppSettingsPatch, type SettingsSection } from '@/lib/appSettings';
+import { modelRegistry } from '@/lib/modelRegistry';
+
+// The SQLite settings backend needs the Node.js runtime
+export const runtime = 'nodejs';
+
+const listModels = () => modelRegistry.getAll().map(({ id, name, icon, roles, enabled }) => ({ id, name, icon, roles, enabled }));
+
+export async function GET(request: NextRequest) {
+  if (!getAdminUser(request)) return adminRequiredResponse(request);
+  try {
+    return NextResponse.json({
+      settings: appSettings.get(),
+      overrides: appSettings.getOverrides(),
+      defaults: DEFAULT_SETTINGS,
+      models: listModels(),
+      backend: appSettings.backendName
+    });
+  } catch (error) {
+    const err = error as Error;
+    console.error('GET /api/admin/settings Error:', err.message);
+    return NextResponse.json({ error: 'Failed to load settings', details: err.message }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  const admin = getAdminUser(request);
+  if (!admin) return adminRequiredResponse(request);
+  try {
+    const patch = await request.json().catch(() => null);
+    const problems = getSettingsProblems(patch);
+    if (problems.length > 0) {
+      return NextResponse.json({ error: 'Invalid settings', details: problems.join('; ') }, { status: 400 });
+    }
+
+    const { models } = patch as AppSettingsPatch;
+    if (models && !modelRegistry.getAll().some(model => models[model.id]?.enabled ?? model.enabled)) {
+      return NextResponse.json({ error: 'Invalid settings', details: 'At least one model must stay enabled' }, { status: 400 });
+    }
+
+    const settings = appSettings.update(patch);
+    console.log(`🛠️ Settings changed by ${admin.username}: ${Object.keys(patch).join(', ')}`);
+    return NextResponse.json({ settings, overrides: appSettings.getOverrides(), models: listModels() });
+  } catch (error) {
+    const err = error as Error;
+    console.error('PATCH /api/admin/settings Error:', err.message);
+    return NextResponse.json({ error: 'Failed to save settings', details: err.message }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const admin = getAdminUser(request);
+  if (!admin) return adminRequiredResponse(request);
+  try {
+    const section = new URL(request.url).searchParams.get('section');
+    if (section && !SETTINGS_SECTIONS.includes(section as SettingsSection)) {
+      return NextResponse.json(
+        { error: 'Invalid section', details: `section must be one of: ${SETTINGS_SECTIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const settings = appSettings.reset((section as SettingsSection) || undefined);
+    console.log(`🛠️ Settings reset by ${admin.username}: ${section || 'all'}`);
+    return NextResponse.json({ settings, overrides: appSettings.getOverrides(), models: listModels() });
+  } catch (error) {
+    const err = error as Error;
+    console.error('DELETE /api/admin/settings Error:', err.message);
+    return NextResponse.json({ error: 'Failed to reset settings', details: err.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Admin Usage API - upstream calls, tokens and cost per user or IP and for the health probes (admins only)
+ *
+ * GET /api/admin/usage   { usage, totals }, most recently active first
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { adminRequiredResponse, getAdminUser } from '@/lib/adminAccess';
+import { userUsageStore, type UserUsage } from '@/lib/userUsage';
+import { userStore } from '@/lib/userStore';
+
+// The SQLite usage backend needs the Node.js runtime
+export const runtime = 'nodejs';
+
+// Costs are fractions of a cent; summed floats pick up noise
+const roundCost = (cost: number): number => Math.round(cost * 1e8) / 1e8;
+
+export async function GET(request: NextRequest) {
+  if (!getAdminUser(request)) return adminRequiredResponse(request);
+  try {
+    const usage: UserUsage[] = userUsageStore.list().map(entry => {
+      const account = entry.subject.startsWith('user:') ? userStore.get(entry.subject.slice('user:'.length)) : undefined;
+      return {
+        ...entry,
+        cost: roundCost(entry.cost),
+        user: account && { username: account.username, name: account.name, role: account.role }
+      };
+    });
+
+    const totals = usage.reduce(
+      (sum, entry) => ({
+        requests: sum.requests + entry.requests,
+        calls: sum.calls + entry.calls,
+        promptTokens: sum.promptTokens + entry.promptTokens,
+        completionTokens: sum.completionTokens + entry.completionTokens,
+        cost: roundCost(sum.cost + entry.cost)
+      }),
+      { requests: 0, calls: 0, promptTokens: 0, completionTokens: 0, cost: 0 }
+    );
+
+    return NextResponse.json({ usage, totals, backend: userUsageStore.name, timestamp: new Date().toISOString() });
+  } catch (error) {
+    const err = error as Error;
+    console.error('GET /api/admin/usage Error:', err.message);
+    return NextResponse.json({ error: 'Failed to load usage', details: err.message }, { status: 500 });
+  }
+}
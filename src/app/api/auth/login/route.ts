@@ -0,0 +1,53 @@
+/**
+ * Login API
+ *
+ * POST /api/auth/login   { username, password } -> { user } and a session cookie
+ * The username may also be the account's email.
+ * Failed attempts are throttled per account and per client IP; once over, the answer is 429 with Retry-After.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate, userStore } from '@/lib/userStore';
+import { createSessionToken, setSessionCookie } from '@/lib/session';
+import { loginThrottle } from '@/lib/loginThrottle';
+import { describeWait } from '@/lib/rateLimit';
+
+// bcrypt and the SQLite user store need the Node.js runtime
+export const runtime = 'nodejs';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const username = typeof body?.username === 'string' ? body.username.trim() : '';
+    const password = typeof body?.password === 'string' ? body.password : '';
+    if (!username || !password) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: 'username and password are required' },
+        { status: 400 }
+      );
+    }
+
+    // The username and email of one account share its failures
+    const attempt = { account: userStore.findByLogin(username)?.id ?? username.toLowerCase(), headers: request.headers };
+    const retryAfter = loginThrottle.getRetryAfter(attempt);
+    if (retryAfter > 0) {
+      return NextResponse.json(
+        { error: 'Too many failed sign-ins', details: `Try again in ${describeWait(retryAfter)}.` },
+        { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+      );
+    }
+
+    const user = await authenticate(userStore, username, password);
+    if (!user) {
+      loginThrottle.recordFailure(attempt);
+      console.warn(`⚠️ Failed login for "${username}"`);
+      return NextResponse.json({ error: 'Invalid credentials' }, { status: 401 });
+    }
+
+    return setSessionCookie(NextResponse.json({ user }), createSessionToken(user));
+  } catch (error) {
+    const err = error as Error;
+    console.error('POST /api/auth/login Error:', err.message);
+    return NextResponse.json({ error: 'Login failed', details: err.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,12 @@
+/**
+ * Logout API
+ *
+ * POST /api/auth/logout   clears the session cookie
+ */
+
+import { NextResponse } from 'next/server';
+import { clearSessionCookie } from '@/lib/session';
+
+export async function POST() {
+  return clearSessionCookie(NextResponse.json({ success: true }));
+}
@@ -0,0 +1,33 @@
+/**
+ * Current user API
+ *
+ * GET /api/auth/me   { user } for a valid session, else 401 with { user: null }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { userStore } from '@/lib/userStore';
+import { clearSessionCookie, getSession } from '@/lib/session';
+
+// The SQLite user store needs the Node.js runtime
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = getSession(request);
+    if (!session) {
+      return NextResponse.json({ user: null }, { status: 401 });
+    }
+
+    // The token outlives an account that has since been removed
+    const user = userStore.get(session.userId);
+    if (!user) {
+      return clearSessionCookie(NextResponse.json({ user: null }, { status: 401 }));
+    }
+
+    return NextResponse.json({ user, expiresAt: new Date(session.expiresAt * 1000).toISOString() });
+  } catch (error) {
+    const err = error as Error;
+    console.error('GET /api/auth/me Error:', err.message);
+    return NextResponse.json({ error: 'Failed to load user', details: err.message }, { status: 500 });
+  }
+}
@@ -3,6 +3,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { modelRegistry } from '@/lib/modelRegistry';
 
 export async function POST(request: NextRequest) {
   try {
@@ -29,23 +30,24 @@ export async function POST(request: NextRequest) {
 
     const startTime = Date.now();
 
-    // Smart model routing
-    let selectedModel = 'meta-llama/llama-3.3-8b-instruct:free'; // Phoenix Core (default)
+    // Smart model routing (models come from the registry by role)
+    const generalModel = modelRegistry.getModelForRole('general');
+    let selectedModel = generalModel.id;
     let strategy = 'single';
-    let reasoning = 'Fast general response with Phoenix Core';
+    let reasoning = `Fast general response with ${modelRegistry.getDisplayName(generalModel.id)}`;
 
-    // Route to Oracle Core for complex/technical queries
+    // Route to the reasoning model for complex/technical queries
     if (message.length > 200 || 
         /\b(analyze|compare|comprehensive|detailed|complex|advanced|technical|code|programming|explain.*detail)\b/i.test(message)) {
-      selectedModel = 'openai/gpt-oss-20b:free';
-      reasoning = 'Complex query routed to Oracle Core for detailed analysis';
+      selectedModel = modelRegistry.getModelForRole('reasoning').id;
+      reasoning = `Complex query routed to ${modelRegistry.getDisplayName(selectedModel)} for detailed analysis`;
     }
     
-    // Route to Iris Core for vision-related queries
+    // Route to the vision model for vision-related queries
     if (attachments.length > 0 || 
         /\b(image|picture|photo|visual|diagram|chart|graph|vision|see|look|show|view)\b/i.test(message)) {
-      selectedModel = 'qwen/qwen2.5-vl-32b-instruct:free';
-      reasoning = 'Vision-related query routed to Iris Core for multimodal processing';
+      selectedModel = modelRegistry.getModelForRole('vision').id;
+      reasoning = `Vision-related query routed to ${modelRegistry.getDisplayName(selectedModel)} for multimodal processing`;
     }
 
     // Determine fusion strategy for future enhancement
@@ -85,13 +87,6 @@ export async function POST(request: NextRequest) {
     const aiData = await apiResponse.json();
     const processingTime = Date.now() - startTime;
 
-    // Get model display names
-    const modelNames: Record<string, string> = {
-      'meta-llama/llama-3.3-8b-instruct:free': 'Phoenix Core',
-      'openai/gpt-oss-20b:free': 'Oracle Core',
-      'qwen/qwen2.5-vl-32b-instruct:free': 'Iris Core'
-    };
-
     // Generate smart suggestions based on content
     const suggestions = generateSuggestions(message, aiData.response || '');
     const relatedQueries = generateRelatedQueries(message);
@@ -131,7 +126,7 @@ export async function POST(request: NextRequest) {
       },
       metadata: {
         processingTime,
-        modelUsed: modelNames[selectedModel] || selectedModel,
+        modelUsed: modelRegistry.getDisplayName(selectedModel),
         strategy,
         reasoning,
         fusion: {
@@ -152,7 +147,7 @@ export async function POST(request: NextRequest) {
     };
 
     console.log('✅ Clean Chat Response:', {
-      model: modelNames[selectedModel],
+      model: modelRegistry.getDisplayName(selectedModel),
       strategy,
       processingTime: `${processingTime}ms`,
       confidence: Math.round(cleanResponse.message.metadata.confidence * 100) + '%'
@@ -265,10 +260,10 @@ export async function GET() {
   return NextResponse.json({
     status: 'Clean Chat API is running',
     timestamp: new Date().toISOString(),
-    models: {
-      'Phoenix Core': 'General intelligence and fast responses',
-      'Oracle Core': 'Advanced reasoning and technical queries', 
-      'Iris Core': 'Vision processing and multimodal content'
-    }
+    models: Object.fromEntries(
+      (['general', 'reasoning', 'vision'] as const)
+        .map(role => modelRegistry.getModelForRole(role))
+        .map(model => [modelRegistry.getDisplayName(model.id), model.description])
+    )
   });
 }
\ No newline at end of file
@@ -1,8 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { performWebSearch, createSearchContext, shouldUseWebSearch } from '@/utils/webSearch';
-import { FusionEngine } from '@/lib/FusionEngine';
-import { CHATGPT_STYLE_SYSTEM_PROMPT } from '@/lib/chatgpt-style-prompt';
+import { FusionEngine, FusionImage, FusionProgress, FusionTokenCallback, FusionStrategyType, FUSION_STRATEGIES, MAX_ITERATIVE_ROUNDS } from '@/lib/FusionEngine';
+import { createSSEStream, SSE_HEADERS } from '@/lib/sse';
+import { modelRegistry } from '@/lib/modelRegistry';
+import { requestRegistry } from '@/lib/requestRegistry';
+import { responseCache, searchCache } from '@/lib/responseCache';
+import { UsageLedger } from '@/lib/usage';
+import { JsonSchema, completeStructured, getSchemaProblems } from '@/lib/structuredOutput';
+import { toolRegistry } from '@/lib/tools';
+import { evaluatorRegistry, EvaluatorName } from '@/lib/evaluators';
+import { circuitBreakers } from '@/lib/circuitBreaker';
+import { healthProber } from '@/lib/healthProber';
+import { conversationStore } from '@/lib/conversationStore';
+import { getRequestUser, withUserCookie } from '@/lib/requestUser';
+import { rateLimiter, getRateLimitSubject, describeRateLimit, RateLimitDecision } from '@/lib/rateLimit';
+import { getProvider, ProviderError, ProviderMessage, ProviderContentPart } from '@/lib/providers';
+import { appSettings, FUSION_TIME_LIMITS } from '@/lib/appSettings';
+import { userUsageStore } from '@/lib/userUsage';
 import { enhanceSystemPromptWithTone } from '@/lib/tone-analyzer';
+import type { RateLimitErrorBody } from '@/types/chat';
 
 // Response sanitization function
 function sanitizeResponse(response: string): string {
@@ -32,19 +48,40 @@ function sanitizeResponse(response: string): string {
   return sanitized;
 }
 
+interface GeneratedRecommendation {
+  text: string;
+  category: 'follow_up' | 'deeper' | 'practical' | 'alternative';
+  reasoning?: string;
+}
+
+const RECOMMENDATIONS_SCHEMA: JsonSchema = {
+  type: 'array',
+  minItems: 1,
+  maxItems: 4,
+  items: {
+    type: 'object',
+    required: ['text', 'category'],
+    properties: {
+      text: { type: 'string', minLength: 5, description: 'Specific follow-up question based on the actual response content' },
+      category: { enum: ['follow_up', 'deeper', 'practical', 'alternative'] },
+      reasoning: { type: 'string', description: 'Why this specific question would be valuable given what was just discussed' }
+    }
+  }
+};
+
 // Dynamic recommendation generation using LLM
 async function generateDynamicRecommendations(
   userQuestion: string, 
   aiResponse: string, 
-  conversationContext: Array<{ role: string; content: string; model?: string }>
+  conversationContext: Array<{ role: string; content: string; model?: string }>,
+  usageLedger: UsageLedger
 ) {
-  try {
-    // Create a focused prompt for generating contextual recommendations
-    const contextSummary = conversationContext.length > 0 
-      ? conversationContext.map(msg => `${msg.role}: ${msg.content}`).join('\n')
-      : 'No previous context';
+  // Create a focused prompt for generating contextual recommendations
+  const contextSummary = conversationContext.length > 0 
+    ? conversationContext.map(msg => `${msg.role}: ${msg.content}`).join('\n')
+    : 'No previous context';
 
-    const recommendationPrompt = `You are an intelligent conversation assistant. Based on the conversation below, generate 4 FRESH, contextual follow-up questions that build specifically on what was just discussed.
+  const recommendationTask = `You are an intelligent conversation assistant. Based on the conversation below, generate 4 FRESH, contextual follow-up questions that build specifically on what was just discussed.
 
 CONVERSATION CONTEXT:
 ${contextSummary}
@@ -61,98 +98,38 @@ Generate 4 NEW, intelligent follow-up questions that:
 5. Help the user dive deeper into the topic or apply what they learned
 
 Each question should feel like a natural continuation of the conversation.
-
-Format as JSON array:
-[
-  {
-    "text": "Specific follow-up question based on the actual response content",
-    "category": "follow_up|deeper|practical|alternative", 
-    "reasoning": "Why this specific question would be valuable given what was just discussed"
-  }
-]
-
 Focus on being contextual and specific - not generic. Timestamp: ${Date.now()}`;
 
-    const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${process.env.OPENROUTER_API_KEY}`,
-        'Content-Type': 'application/json',
-        'HTTP-Referer': 'https://your-app.pages.dev',
-        'X-Title': 'AI Chat Hub - Recommendations'
-      },
-      body: JSON.stringify({
-        model: 'meta-llama/llama-3.3-8b-instruct:free', // Use fast model for recommendations
-        messages: [
-          {
-            role: 'user',
-            content: recommendationPrompt
-          }
-        ],
+  try {
+    const model = modelRegistry.getModelForRole('recommendations').id;
+    const result = await completeStructured<GeneratedRecommendation[]>(recommendationTask, RECOMMENDATIONS_SCHEMA, async prompt => {
+      const recommendationRequest = {
+        model,
+        messages: [{ role: 'user' as const, content: prompt }],
         temperature: 0.7,
-        max_tokens: 800
-      })
+        maxTokens: 800,
+        title: 'AI Chat Hub - Recommendations'
+      };
+      const completion = await getProvider().complete(recommendationRequest);
+      usageLedger.record('recommendations', recommendationRequest, completion);
+      return completion.content;
     });
 
-    if (!response.ok) {
-      console.warn('Failed to generate dynamic recommendations, falling back to empty array');
+    if (!result.valid || !result.value) {
+      console.warn('Recommendations did not match the schema, falling back to empty array:', result.errors.slice(0, 3));
       return [];
     }
 
-    const data = await response.json();
-    const recommendationsText = data.choices[0].message.content;
-    
-    // Parse the JSON response
-    try {
-      // Clean the response text - remove markdown formatting and extract JSON
-      let cleanedText = recommendationsText.trim();
-      
-      // Remove markdown code blocks if present
-      if (cleanedText.includes('```')) {
-        const jsonMatch = cleanedText.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
-        if (jsonMatch) {
-          cleanedText = jsonMatch[1].trim();
-        }
-      }
-      
-      // If it starts with plain text, try to find JSON array
-      if (!cleanedText.startsWith('[')) {
-        const jsonMatch = cleanedText.match(/(\[[\s\S]*\])/);
-        if (jsonMatch) {
-          cleanedText = jsonMatch[1].trim();
-        } else {
-          // If no JSON array found, fall back to empty array
-          console.warn('No valid JSON array found in recommendations response:', cleanedText.substring(0, 200));
-          return [];
-        }
-      }
-      
-      const recommendations = JSON.parse(cleanedText);
-      
-      // Validate that it's an array
-      if (!Array.isArray(recommendations)) {
-        console.warn('Recommendations response is not an array:', recommendations);
-        return [];
-      }
-      
-      // Add confidence scores and IDs  
-      return recommendations.map((rec: {
-        text: string;
-        category?: string;
-        reasoning?: string;
-      }, index: number) => ({
-        id: `dynamic_${Date.now()}_${index}`,
-        text: rec.text,
-        category: rec.category || 'follow_up',
-        reasoning: rec.reasoning || 'AI-generated contextual suggestion',
-        confidence: 0.85 + (Math.random() * 0.1) // 85-95% confidence for LLM recommendations
-      }));
-    } catch (parseError) {
-      console.warn('Failed to parse recommendations JSON:', parseError, 'Raw text:', recommendationsText.substring(0, 200));
-      return [];
-    }
+    // Add confidence scores and IDs  
+    return result.value.map((rec, index) => ({
+      id: `dynamic_${Date.now()}_${index}`,
+      text: rec.text,
+      category: rec.category,
+      reasoning: rec.reasoning || 'AI-generated contextual suggestion',
+      confidence: 0.85 + (Math.random() * 0.1) // 85-95% confidence for LLM recommendations
+    }));
   } catch (error) {
-    console.warn('Error generating dynamic recommendations:', error);
+    console.warn('Failed to generate dynamic recommendations, falling back to empty array:', error);
     return [];
   }
 }
@@ -181,8 +158,8 @@ function extractConversationTopics(conversationContext: Array<{ role: string; co
   return Array.from(importantWords).slice(0, 5).join(', ');
 }
 
-// Add edge runtime configuration for Cloudflare compatibility
-export const runtime = 'edge';
+// Node.js runtime: cancellation needs POST and DELETE to share the in-process request registry
+export const runtime = 'nodejs';
 
 // GET handler for system health checks and other query actions
 export async function GET(request: NextRequest) {
@@ -191,20 +168,23 @@ export async function GET(request: NextRequest) {
     const action = searchParams.get('action');
 
     if (action === 'health') {
-      // Return system health status
+      // Probing starts with the first health request; probe=true waits for a round no older than the probe interval
+      healthProber.start();
+      if (searchParams.get('probe') === 'true') {
+        await healthProber.refresh();
+      }
+
       return NextResponse.json({
         health: {
-          models: {
-            'meta-llama/llama-3.3-70b-instruct:free': { status: 'online' },
-            'meta-llama/llama-3.3-8b-instruct:free': { status: 'online' },
-            'openai/gpt-oss-20b:free': { status: 'online' }
-          },
-          overall: {
-            status: 'optimal',
-            score: 100
+          ...healthProber.getHealth(),
+          circuits: circuitBreakers.getStatuses(),
+          cache: {
+            responses: responseCache.getStats(),
+            search: searchCache.getStats()
           },
           timestamp: new Date().toISOString(),
-          apiConfigured: !!process.env.OPENROUTER_API_KEY
+          provider: getProvider().name,
+          apiConfigured: getProvider().isConfigured()
         }
       });
     }
@@ -233,17 +213,51 @@ export async function DELETE(request: NextRequest) {
     const action = searchParams.get('action');
     const sessionId = searchParams.get('sessionId');
 
-    if (action === 'clear') {
-      // For now, this is a no-op since we don't persist sessions server-side
-      // In the future, this could clear session data from a database
-      console.log(`Clearing session: ${sessionId}`);
-      
+    if (action === 'cancel') {
+      const requestId = searchParams.get('requestId');
+      if (!requestId) {
+        return NextResponse.json(
+          { error: 'requestId is required' },
+          { status: 400 }
+        );
+      }
+
+      // Aborts every model call and the synthesis call; the original POST returns the partial result.
+      // Only the user that sent the request can cancel it, so someone else's id is simply not found.
+      if (!requestRegistry.cancel(getRequestUser(request).id, requestId)) {
+        return NextResponse.json(
+          { error: 'Request not found or already completed', requestId },
+          { status: 404 }
+        );
+      }
+
       return NextResponse.json({
+        success: true,
+        cancelled: true,
+        requestId,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    if (action === 'clear') {
+      if (!sessionId) {
+        return NextResponse.json(
+          { error: 'sessionId is required' },
+          { status: 400 }
+        );
+      }
+
+      // The session is a stored conversation; clearing keeps it (and its title) but drops its messages
+      const user = getRequestUser(request);
+      const cleared = !!conversationStore.clearMessages(user.id, sessionId);
+      console.log(`Clearing session: ${sessionId}${cleared ? '' : ' (not stored)'}`);
+
+      return withUserCookie(NextResponse.json({
         success: true,
         message: 'Session cleared successfully',
         sessionId,
         timestamp: new Date().toISOString()
-      });
+      }), user);
     }
 
     // Default response for unknown actions
@@ -263,16 +277,102 @@ export async function DELETE(request: NextRequest) {
   }
 }
 
+interface ChatRequestParams {
+  message: string;
+  attachments: ChatAttachment[];
+  model: string;
+  conversationContext: Array<{ role: string; content: string; model?: string; isCorrection?: boolean }>;
+  systemPrompt?: string;
+  enableWebSearch: boolean;
+  maxSources: number;
+  fusionStrategy: FusionStrategyType;
+  iterativeRounds?: number;
+  models?: string[];
+  maxResponseTime?: number;
+  qualityThreshold?: number;
+  regenerate: boolean;
+  responseSchema?: JsonSchema;
+  tools?: string[];
+  evaluators?: EvaluatorName[];
+  requestId: string;
+  signal: AbortSignal;
+  usageLedger: UsageLedger;
+}
+
+// The model that stands for fusion in `model`; any other value is one enabled model's id
+const FUSION_MODEL = 'AI Fusion';
+
+const isTextModel = (id: unknown): boolean =>
+  typeof id === 'string' && modelRegistry.getEnabled().some(model => model.id === id && model.modalities.includes('text'));
+
+interface ChatAttachment {
+  base64?: string;
+  url?: string;
+  mimeType?: string;
+}
+
+// Attachments fusion can use: anything with image data or a URL, unless it says it isn't an image
+function toFusionImages(attachments: ChatAttachment[]): FusionImage[] {
+  return attachments
+    .filter(attachment => !attachment.mimeType || attachment.mimeType.startsWith('image/'))
+    .map(attachment => ({ url: attachment.base64 || attachment.url || '' }))
+    .filter(image => image.url);
+}
+
+function getRateLimitHeaders(decision: RateLimitDecision): Record<string, string> {
+  return {
+    'X-RateLimit-Limit': String(decision.limit),
+    'X-RateLimit-Remaining': String(decision.remaining)
+  };
+}
+
+function rateLimitResponse(decision: RateLimitDecision): NextResponse {
+  const rule = decision.exceeded!;
+  const retryAfter = decision.retryAfterSeconds ?? 1;
+  const body: RateLimitErrorBody = {
+    error: 'Rate limit exceeded',
+    details: describeRateLimit(rule, retryAfter),
+    rateLimit: { ...rule, retryAfter }
+  };
+  return NextResponse.json(body, {
+    status: 429,
+    headers: { ...getRateLimitHeaders(decision), 'Retry-After': String(retryAfter) }
+  });
+}
+
+// What the request cost upstream; cached answers never reached a model
+function recordUpstreamUsage(subject: string, usageLedger: UsageLedger): void {
+  const usage = usageLedger.getSummary();
+  rateLimiter.record(subject, { calls: usage.calls - usage.cachedCalls, tokens: usage.totalTokens });
+  userUsageStore.record(subject, usage);
+}
+
+interface ChatStreamCallbacks {
+  onProgress?: (progress: FusionProgress) => void;
+  onToken?: FusionTokenCallback;
+}
+
 export async function POST(request: NextRequest) {
   try {
     const { 
       message, 
       attachments = [],
-      model = 'AI Fusion', // Default to fusion
+      model = FUSION_MODEL, // Default to fusion; a model id asks that model alone
       conversationContext = [],
       systemPrompt,
       enableWebSearch = false,
-      maxSources = 5
+      maxSources = 5,
+      stream = false,
+      fusionStrategy = 'auto',
+      iterativeRounds,
+      models, // Fusion with these models instead of every fusion model
+      maxResponseTime, // Override the admin's fusion time budget and quality threshold
+      qualityThreshold,
+      regenerate = false, // Models answer anew instead of from the response cache
+      responseSchema,
+      tools,
+      evaluators,
+      requestId = crypto.randomUUID()
     } = await request.json();
 
     console.log('API Request:', { 
@@ -282,6 +382,9 @@ export async function POST(request: NextRequest) {
       attachmentsCount: attachments.length,
       enableWebSearch,
       maxSources,
+      stream,
+      requestId,
+      fusionStrategy,
       fusionMode: 'Always AI Fusion'
     });
 
@@ -292,92 +395,339 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Check if API key is configured
-    if (!process.env.OPENROUTER_API_KEY) {
-      console.error('OPENROUTER_API_KEY not configured');
+    if (!FUSION_STRATEGIES.includes(fusionStrategy)) {
+      return NextResponse.json(
+        { error: 'Unknown fusionStrategy', details: `Expected one of: ${FUSION_STRATEGIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (iterativeRounds !== undefined && !(Number.isInteger(iterativeRounds) && iterativeRounds >= 1 && iterativeRounds <= MAX_ITERATIVE_ROUNDS)) {
+      return NextResponse.json(
+        { error: 'Invalid iterativeRounds', details: `Expected an integer from 1 to ${MAX_ITERATIVE_ROUNDS}` },
+        { status: 400 }
+      );
+    }
+
+    if (model !== FUSION_MODEL && !isTextModel(model)) {
+      return NextResponse.json(
+        { error: 'Unknown model', details: `Expected "${FUSION_MODEL}" or the id of an enabled model` },
+        { status: 400 }
+      );
+    }
+
+    if (models !== undefined && !(Array.isArray(models) && models.length > 0 && models.every(isTextModel))) {
+      return NextResponse.json(
+        { error: 'Invalid models', details: 'Expected a non-empty array of enabled model ids' },
+        { status: 400 }
+      );
+    }
+
+    if (maxResponseTime !== undefined && !(Number.isInteger(maxResponseTime) && maxResponseTime >= FUSION_TIME_LIMITS.min && maxResponseTime <= FUSION_TIME_LIMITS.max)) {
+      return NextResponse.json(
+        { error: 'Invalid maxResponseTime', details: `Expected a whole number of ms from ${FUSION_TIME_LIMITS.min} to ${FUSION_TIME_LIMITS.max}` },
+        { status: 400 }
+      );
+    }
+
+    if (qualityThreshold !== undefined && !(typeof qualityThreshold === 'number' && qualityThreshold >= 0 && qualityThreshold <= 1)) {
+      return NextResponse.json(
+        { error: 'Invalid qualityThreshold', details: 'Expected a number from 0 to 1' },
+        { status: 400 }
+      );
+    }
+
+    if (responseSchema !== undefined && model !== FUSION_MODEL) {
+      return NextResponse.json(
+        { error: 'Invalid responseSchema', details: `Structured output needs "${FUSION_MODEL}"` },
+        { status: 400 }
+      );
+    }
+
+    const schemaProblems = responseSchema === undefined ? [] : getSchemaProblems(responseSchema);
+    if (schemaProblems.length > 0) {
       return NextResponse.json(
-        { error: 'OpenRouter API key not configured' },
+        { error: 'Invalid responseSchema', details: schemaProblems.slice(0, 5).join('; ') },
+        { status: 400 }
+      );
+    }
+
+    // `tools: true` offers every registered tool; an array picks some by name
+    const toolNames: string[] | undefined = tools === true ? toolRegistry.getNames() : tools || undefined;
+    if (toolNames !== undefined && !(Array.isArray(toolNames) && toolNames.every(name => toolRegistry.has(name)))) {
+      return NextResponse.json(
+        { error: 'Invalid tools', details: `Expected true or an array of: ${toolRegistry.getNames().join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // Overrides the strategy's default evaluators
+    if (evaluators !== undefined && !(Array.isArray(evaluators) && evaluators.length > 0 && evaluators.every(name => evaluatorRegistry.has(name)))) {
+      return NextResponse.json(
+        { error: 'Invalid evaluators', details: `Expected a non-empty array of: ${evaluatorRegistry.getNames().join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // Check if the model provider is configured (API key / base URL)
+    const provider = getProvider();
+    if (!provider.isConfigured()) {
+      console.error(`LLM provider "${provider.name}" not configured`);
+      return NextResponse.json(
+        { error: 'Model provider not configured', details: 'Set OPENROUTER_API_KEY, or LLM_PROVIDER=openai-compatible / mock' },
         { status: 500 }
       );
     }
 
-    // Perform web search if enabled and relevant
-    let webSearchResults = null;
-    let searchContext = '';
-    const shouldSearch = enableWebSearch && message && shouldUseWebSearch(message);
+    // Request ids are the client's own, so they are kept apart per user (account or anonymous cookie)
+    const user = getRequestUser(request);
+
+    // Checked after validation so malformed requests don't use up the client's quota. A rejected client
+    // still gets its cookie, so its next request has a quota of its own.
+    const rateLimitSubject = getRateLimitSubject(request.headers, user);
+    const rateLimit = rateLimiter.check(rateLimitSubject);
+    if (!rateLimit.allowed) {
+      return withUserCookie(rateLimitResponse(rateLimit), user);
+    }
+
+    const chatParams: ChatRequestParams = {
+      message,
+      attachments,
+      model,
+      conversationContext,
+      systemPrompt,
+      enableWebSearch,
+      maxSources,
+      fusionStrategy,
+      iterativeRounds,
+      models,
+      maxResponseTime,
+      qualityThreshold,
+      regenerate: regenerate === true,
+      responseSchema,
+      tools: toolNames,
+      evaluators,
+      requestId,
+      signal: requestRegistry.register(user.id, requestId),
+      // Every model call for this request, fusion and recommendations alike, is billed here
+      usageLedger: new UsageLedger()
+    };
+
+    // Streaming mode: fusion progress, synthesis tokens and the final payload as server-sent events
+    if (stream) {
+      // A client that disconnects mid-stream is treated like pressing Stop
+      const sse = createSSEStream(() => requestRegistry.cancel(user.id, requestId));
+
+      (async () => {
+        try {
+          sse.send('start', { requestId });
+          const payload = await processChatRequest(chatParams, {
+            onProgress: progress => sse.send('progress', progress),
+            onToken: token => sse.send('token', { text: token })
+          });
+          sse.send('done', payload);
+        } catch (error: unknown) {
+          const err = error as { message?: string };
+          console.error('Streaming chat error:', err.message);
+          sse.send('error', {
+            error: 'Failed to get response from AI',
+            details: err.message
+          });
+        } finally {
+          requestRegistry.complete(user.id, requestId, chatParams.signal);
+          recordUpstreamUsage(rateLimitSubject, chatParams.usageLedger);
+          sse.close();
+        }
+      })();
+
+      return withUserCookie(new NextResponse(sse.stream, { headers: { ...SSE_HEADERS, ...getRateLimitHeaders(rateLimit) } }), user);
+    }
+
+    try {
+      return withUserCookie(NextResponse.json(await processChatRequest(chatParams), { headers: getRateLimitHeaders(rateLimit) }), user);
+    } finally {
+      requestRegistry.complete(user.id, requestId, chatParams.signal);
+      recordUpstreamUsage(rateLimitSubject, chatParams.usageLedger);
+    }
+
+  } catch (error: unknown) {
+    const err = error as { message?: string; name?: string };
+    
+    // Handle abort/timeout errors gracefully
+    if (err.name === 'AbortError' || err.message?.includes('aborted') || err.message?.includes('terminated')) {
+      return NextResponse.json(
+        { error: 'Request was cancelled or timed out' },
+        { status: 408 } // Request Timeout
+      );
+    }
+    
+    console.error('OpenRouter API Error:', err.message);
+    
+    return NextResponse.json(
+      { 
+        error: 'Failed to get response from AI',
+        details: err.message 
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Runs web search, AI Fusion and (if fusion fails) the single-model fallback.
+// Returns the JSON payload sent to the client in both regular and streaming mode.
+async function processChatRequest(
+  params: ChatRequestParams,
+  callbacks: ChatStreamCallbacks = {}
+) {
+  const {
+    message,
+    attachments,
+    model,
+    conversationContext,
+    systemPrompt,
+    enableWebSearch,
+    maxSources,
+    fusionStrategy,
+    iterativeRounds,
+    models,
+    maxResponseTime,
+    qualityThreshold,
+    regenerate,
+    responseSchema,
+    tools,
+    evaluators,
+    requestId,
+    signal,
+    usageLedger
+  } = params;
+
+  // Perform web search if enabled and relevant
+  let webSearchResults = null;
+  let searchContext = '';
+  const shouldSearch = enableWebSearch && message && shouldUseWebSearch(message);
+  
+  if (shouldSearch) {
+    console.log('Performing web search for query:', message.substring(0, 100));
+    callbacks.onProgress?.({
+      stage: 'initializing',
+      modelProgress: {},
+      synthesisProgress: 0,
+      message: 'Searching the web...'
+    });
+    webSearchResults = await performWebSearch(message, maxSources);
     
-    if (shouldSearch) {
-      console.log('Performing web search for query:', message.substring(0, 100));
-      webSearchResults = await performWebSearch(message, maxSources);
-      
-      if (webSearchResults.success && webSearchResults.sources.length > 0) {
-        searchContext = createSearchContext(webSearchResults.sources, message);
-        console.log(`Web search completed: ${webSearchResults.sources.length} sources found`);
-      } else if (webSearchResults.error) {
-        console.warn('Web search failed:', webSearchResults.error);
-      }
+    if (webSearchResults.success && webSearchResults.sources.length > 0) {
+      searchContext = createSearchContext(webSearchResults.sources, message);
+      console.log(`Web search completed: ${webSearchResults.sources.length} sources found`);
+    } else if (webSearchResults.error) {
+      console.warn('Web search failed:', webSearchResults.error);
     }
+  }
 
+  // A model id skips fusion and asks that model below, as fusion's fallback does
+  if (model === FUSION_MODEL) {
     // Always use AI Fusion as the default architecture
     console.log('Processing AI Fusion request (default architecture)');
-    
+  
     const fusionEngine = new FusionEngine();
-    
+    const fusionSettings = appSettings.get().fusion;
+  
     try {
       // Use the new Turbo fusion method for 50% faster responses
       const fusionResult = await fusionEngine.processFusionQueryTurbo({
-        query: message,
+        query: message || 'Please describe this image',
         conversationContext: conversationContext.map((msg: { role: string; content: string }) => ({
           role: msg.role,
           content: searchContext ? `${msg.content}\n\nWeb Context: ${searchContext}` : msg.content
         })),
-        fusionStrategy: 'consensus' as 'consensus' | 'specialized' | 'iterative',
+        fusionStrategy,
+        iterativeRounds,
+        models,
+        fresh: regenerate,
         includeIndividualResponses: true,
-        timeout: 20000 // 20-second timeout for better reliability
-      });
+        timeout: 20000, // 20-second timeout for better reliability
+        maxResponseTime: maxResponseTime ?? fusionSettings.maxResponseTime,
+        qualityThreshold: qualityThreshold ?? fusionSettings.qualityThreshold,
+        signal,
+        usageLedger,
+        responseSchema,
+        tools,
+        evaluators,
+        images: toFusionImages(attachments)
+      }, callbacks.onProgress, callbacks.onToken);
+      if (!fusionResult.cancelled) {
+        healthProber.recordFusion({ success: true, processingTime: fusionResult.processingTime });
+      }
 
-      // Generate dynamic recommendations for fusion response
-      const dynamicRecommendations = await generateDynamicRecommendations(
+      // Generate dynamic recommendations for fusion response (not worth a model call for a stopped answer or extracted data)
+      const dynamicRecommendations = fusionResult.cancelled || responseSchema ? [] : await generateDynamicRecommendations(
         message,
         fusionResult.fusedResponse,
-        conversationContext
+        conversationContext,
+        usageLedger
       );
 
-      return NextResponse.json({
-        response: sanitizeResponse(fusionResult.fusedResponse),
+      return {
+        requestId,
+        cancelled: !!fusionResult.cancelled,
+        // Sanitizing would rewrite URLs inside JSON values
+        response: responseSchema ? fusionResult.fusedResponse : sanitizeResponse(fusionResult.fusedResponse),
+        structured: fusionResult.structured,
         model: 'Turbo AI Fusion',
         sources: webSearchResults?.sources || [],
         webSearchUsed: shouldSearch,
         dynamicRecommendations,
         fusion: {
           strategy: fusionResult.fusionStrategy,
+          iterations: fusionResult.iterations,
+          rebuttals: fusionResult.rebuttals,
+          disagreements: fusionResult.disagreements,
           modelsUsed: fusionResult.modelsUsed,
           individualResponses: fusionResult.individualResponses,
           processingTime: fusionResult.processingTime,
           confidence: fusionResult.confidence,
           qualityScore: fusionResult.metadata.qualityScore,
+          quality: fusionResult.quality,
+          attributions: fusionResult.attributions,
+          imageDescription: fusionResult.imageDescription,
           speedImprovement: fusionResult.processingTime < 20000 ? `${Math.round(((30000 - fusionResult.processingTime) / 30000) * 100)}% faster` : 'Standard speed'
         },
         metadata: {
           ...fusionResult.metadata,
           turboMode: true,
-          targetResponseTime: '15 seconds',
+          targetResponseTime: `${Math.round((maxResponseTime ?? fusionSettings.maxResponseTime) / 1000)} seconds`,
           actualResponseTime: `${Math.round(fusionResult.processingTime / 1000)}s`
         },
+        // Includes the recommendations call, which runs after fusion metadata is built
+        usage: usageLedger.getSummary(),
         timestamp: new Date().toISOString()
-      });
+      };
 
     } catch (fusionError) {
       console.error('AI Fusion failed, using fallback:', fusionError);
+      if (signal.aborted) {
+        return { requestId, cancelled: true, response: '', model: 'Turbo AI Fusion' };
+      }
+      healthProber.recordFusion({ success: false, processingTime: 0 });
+      // The single-model chat below knows nothing about schemas; report the failure instead
+      if (responseSchema) throw fusionError;
       // The processFusionQueryWithFallback already handles fallback, but in case of total failure:
     }
+  } else {
+    callbacks.onProgress?.({
+      stage: 'querying',
+      modelProgress: {},
+      synthesisProgress: 0,
+      message: `Asking ${modelRegistry.getDisplayName(model)}...`
+    });
+  }
 
-    // Build messages array with optional system prompt and conversation context
-    const messages: Array<{ role: string; content: string | Array<{ type: string; text?: string; image_url?: { url: string } }> }> = [];
-    
-    // Add system prompt with current date, temporal guidelines, and tone adaptation
-    const currentDate = new Date().toISOString().split('T')[0]; // YYYY-MM-DD format
-    const baseChatGPTPrompt = `${CHATGPT_STYLE_SYSTEM_PROMPT}
+  // Build messages array with optional system prompt and conversation context
+  const messages: ProviderMessage[] = [];
+  
+  // Add system prompt with current date, temporal guidelines, and tone adaptation
+  const currentDate = new Date().toISOString().split('T')[0]; // YYYY-MM-DD format
+  const baseChatGPTPrompt = `${appSettings.get().prompts.system}
 
 TEMPORAL GUIDELINES:
 - Current date: ${currentDate}
@@ -392,199 +742,177 @@ LINK POLICY:
 - Suggest search terms instead of providing direct links
 - If referencing sources, describe them without providing URLs`;
 
-    // Enhance with tone-specific guidance based on the user's question
-    let enhancedSystemPrompt = systemPrompt || enhanceSystemPromptWithTone(baseChatGPTPrompt, message);
+  // Enhance with tone-specific guidance based on the user's question
+  let enhancedSystemPrompt = systemPrompt || enhanceSystemPromptWithTone(baseChatGPTPrompt, message);
 
-    if (searchContext) {
-      enhancedSystemPrompt += '\n\n' + searchContext;
-    }
-    
-    messages.push({
-      role: 'system',
-      content: enhancedSystemPrompt
-    });
-    
-    // Check for corrections in recent context
-    const hasRecentCorrections = conversationContext.some((msg: { role: string; content: string; isCorrection?: boolean }) => msg.isCorrection);
-    if (hasRecentCorrections) {
-      enhancedSystemPrompt += '\n\nIMPORTANT: The user has recently made corrections. Be extra careful about temporal accuracy and avoid generating URLs. Acknowledge any corrections gracefully and provide accurate information.';
-    }
+  if (searchContext) {
+    enhancedSystemPrompt += '\n\n' + searchContext;
+  }
+  
+  messages.push({
+    role: 'system',
+    content: enhancedSystemPrompt
+  });
+  
+  // Check for corrections in recent context
+  const hasRecentCorrections = conversationContext.some((msg: { role: string; content: string; isCorrection?: boolean }) => msg.isCorrection);
+  if (hasRecentCorrections) {
+    enhancedSystemPrompt += '\n\nIMPORTANT: The user has recently made corrections. Be extra careful about temporal accuracy and avoid generating URLs. Acknowledge any corrections gracefully and provide accurate information.';
+  }
 
-    // Enhanced conversation context processing
-    if (conversationContext && Array.isArray(conversationContext) && conversationContext.length > 0) {
-      // Smart context window management - keep recent messages + important context
-      const processedContext = conversationContext
-        .slice(-10) // Last 10 messages for better context
-        .filter((msg: { role: string; content: string }) => {
-          // Filter out very short or repetitive messages to save tokens
-          const content = msg.content?.trim() || '';
-          return content.length > 2 && !['ok', 'yes', 'no', 'thanks'].includes(content.toLowerCase());
-        })
-        .map((msg: { role: string; content: string }, index: number) => ({
-          ...msg,
-          timestamp: new Date(),
-          isRecent: index >= conversationContext.length - 5 // Last 5 are "recent"
-        }));
-
-      // Add conversation context with priority for recent messages
-      processedContext.forEach((msg: { 
-        role: string; 
-        content: string; 
-        attachments?: Array<{ base64?: string; url?: string }>; 
-        isCorrection?: boolean;
-        isRecent?: boolean;
-        timestamp?: Date;
-      }) => {
-        if (msg.attachments && msg.attachments.length > 0) {
-          // For context messages with attachments, format for vision models
-          const content = [
-            { type: 'text', text: msg.content || 'See image' },
-            ...msg.attachments.map((attachment: { base64?: string; url?: string }) => ({
-              type: 'image_url',
-              image_url: { url: attachment.base64 || attachment.url || '' }
-            }))
-          ];
-          messages.push({
-            role: msg.role,
-            content: content
-          });
-        } else {
-          // Truncate very long messages to preserve context window
-          const truncatedContent = msg.content.length > 1000 
-            ? msg.content.substring(0, 1000) + '...' 
-            : msg.content;
-            
-          messages.push({
-            role: msg.role,
-            content: truncatedContent
-          });
-        }
-      });
+  // Enhanced conversation context processing
+  if (conversationContext && Array.isArray(conversationContext) && conversationContext.length > 0) {
+    // Smart context window management - keep recent messages + important context
+    const processedContext = conversationContext
+      .slice(-10) // Last 10 messages for better context
+      .filter((msg: { role: string; content: string }) => {
+        // Filter out very short or repetitive messages to save tokens
+        const content = msg.content?.trim() || '';
+        return content.length > 2 && !['ok', 'yes', 'no', 'thanks'].includes(content.toLowerCase());
+      })
+      .map((msg: { role: string; content: string }, index: number) => ({
+        ...msg,
+        timestamp: new Date(),
+        isRecent: index >= conversationContext.length - 5 // Last 5 are "recent"
+      }));
 
-      // Add conversation flow context if long conversation
-      if (conversationContext.length > 15) {
-        const topicSummary = extractConversationTopics(conversationContext);
-        if (topicSummary) {
-          enhancedSystemPrompt += `\n\nCONVERSATION TOPICS: This ongoing conversation has covered: ${topicSummary}. Build on these topics naturally.`;
-        }
+    // Add conversation context with priority for recent messages
+    processedContext.forEach((msg: { 
+      role: string; 
+      content: string; 
+      attachments?: Array<{ base64?: string; url?: string }>; 
+      isCorrection?: boolean;
+      isRecent?: boolean;
+      timestamp?: Date;
+    }) => {
+      if (msg.attachments && msg.attachments.length > 0) {
+        // For context messages with attachments, format for vision models
+        const content: ProviderContentPart[] = [
+          { type: 'text', text: msg.content || 'See image' },
+          ...msg.attachments.map((attachment: { base64?: string; url?: string }) => ({
+            type: 'image_url' as const,
+            image_url: { url: attachment.base64 || attachment.url || '' }
+          }))
+        ];
+        messages.push({
+          role: msg.role as ProviderMessage['role'],
+          content: content
+        });
+      } else {
+        // Truncate very long messages to preserve context window
+        const truncatedContent = msg.content.length > 1000 
+          ? msg.content.substring(0, 1000) + '...' 
+          : msg.content;
+          
+        messages.push({
+          role: msg.role as ProviderMessage['role'],
+          content: truncatedContent
+        });
       }
-    }
-    
-    // Add current user message with attachments if any
-    if (attachments && attachments.length > 0) {
-      const content = [
-        { type: 'text', text: message || 'Please describe this image' },
-        ...attachments.map((attachment: { base64?: string; url?: string }) => ({
-          type: 'image_url',
-          image_url: { url: attachment.base64 || attachment.url || '' }
-        }))
-      ];
-      messages.push({
-        role: 'user',
-        content: content
-      });
-    } else {
-      messages.push({
-        role: 'user',
-        content: message
-      });
-    }
-
-    // Use fetch instead of axios for edge runtime compatibility
-    const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${process.env.OPENROUTER_API_KEY}`,
-        'Content-Type': 'application/json',
-        'HTTP-Referer': 'https://your-app.pages.dev', // Update with your Cloudflare Pages URL
-        'X-Title': 'AI Chat Hub'
-      },
-      body: JSON.stringify({
-        model: model === 'AI Fusion' ? 'meta-llama/llama-3.3-8b-instruct:free' : model,
-        messages: messages,
-      })
     });
 
-    if (!response.ok) {
-      const errorData = await response.text();
-      console.error('OpenRouter API Error:', {
-        status: response.status,
-        statusText: response.statusText,
-        error: errorData,
-        model,
-        messageLength: messages.length
-      });
-      
-      // Parse error to provide more specific user feedback
-      let errorMessage = 'Failed to get response from AI';
-      if (response.status === 404) {
-        errorMessage = 'The selected AI model is currently unavailable. Please try a different model.';
-      } else if (response.status === 429) {
-        errorMessage = 'The AI service is currently rate-limited. Please wait a moment and try again.';
-      } else if (response.status >= 500) {
-        errorMessage = 'The AI service is experiencing issues. Please try again in a few moments.';
+    // Add conversation flow context if long conversation
+    if (conversationContext.length > 15) {
+      const topicSummary = extractConversationTopics(conversationContext);
+      if (topicSummary) {
+        enhancedSystemPrompt += `\n\nCONVERSATION TOPICS: This ongoing conversation has covered: ${topicSummary}. Build on these topics naturally.`;
       }
-      
-      throw new Error(errorMessage);
     }
-
-    const data = await response.json();
-    let aiResponse = data.choices[0].message.content;
-
-    // Post-process response to sanitize links and add disclaimers
-    aiResponse = sanitizeResponse(aiResponse);
-
-    // Generate dynamic recommendations using the LLM
-    console.log('🔄 Generating fresh recommendations for response:', {
-      userMessagePreview: message.substring(0, 50),
-      responsePreview: aiResponse.substring(0, 50),
-      contextLength: conversationContext.length
+  }
+  
+  // Add current user message with attachments if any
+  if (attachments && attachments.length > 0) {
+    const content: ProviderContentPart[] = [
+      { type: 'text', text: message || 'Please describe this image' },
+      ...attachments.map((attachment: { base64?: string; url?: string }) => ({
+        type: 'image_url' as const,
+        image_url: { url: attachment.base64 || attachment.url || '' }
+      }))
+    ];
+    messages.push({
+      role: 'user',
+      content: content
     });
-    
-    const recommendations = await generateDynamicRecommendations(
-      message,
-      aiResponse,
-      conversationContext.slice(-3) // Last 3 exchanges for context
-    );
-
-    console.log('✨ Generated recommendations:', {
-      count: recommendations.length,
-      preview: recommendations.map(r => r.text.substring(0, 30))
+  } else {
+    messages.push({
+      role: 'user',
+      content: message
     });
+  }
 
-    return NextResponse.json({
-      response: aiResponse,
-      model: model,
-      usage: data.usage,
-      contextSize: messages.length,
-      estimatedTokens: messages.reduce((acc: number, msg: { content: string | object }) => {
-        const contentLength = typeof msg.content === 'string' ? msg.content.length : JSON.stringify(msg.content).length;
-        return acc + Math.ceil(contentLength / 4);
-      }, 0),
-      sources: webSearchResults?.sources || [],
-      webSearchUsed: shouldSearch && webSearchResults?.success,
-      dynamicRecommendations: recommendations
-    });
+  const chatRequest = {
+    model: model === FUSION_MODEL ? modelRegistry.getModelForRole('general').id : model,
+    messages,
+    signal,
+    title: 'AI Chat Hub'
+  };
+  let completion;
+  try {
+    completion = await getProvider().complete(chatRequest);
+    usageLedger.record('chat', chatRequest, completion);
+  } catch (error) {
+    if (signal.aborted) {
+      return { requestId, cancelled: true, response: '', model };
+    }
 
-  } catch (error: unknown) {
-    const err = error as { message?: string; name?: string };
+    const status = error instanceof ProviderError ? error.status : undefined;
+    console.error('Model provider error:', {
+      status,
+      error: (error as Error).message,
+      model,
+      messageLength: messages.length
+    });
     
-    // Handle abort/timeout errors gracefully
-    if (err.name === 'AbortError' || err.message?.includes('aborted') || err.message?.includes('terminated')) {
-      return NextResponse.json(
-        { error: 'Request was cancelled or timed out' },
-        { status: 408 } // Request Timeout
-      );
+    // Parse error to provide more specific user feedback
+    let errorMessage = 'Failed to get response from AI';
+    if (status === 404) {
+      errorMessage = 'The selected AI model is currently unavailable. Please try a different model.';
+    } else if (status === 429) {
+      errorMessage = 'The AI service is currently rate-limited. Please wait a moment and try again.';
+    } else if (status && status >= 500) {
+      errorMessage = 'The AI service is experiencing issues. Please try again in a few moments.';
     }
     
-    console.error('OpenRouter API Error:', err.message);
-    
-    return NextResponse.json(
-      { 
-        error: 'Failed to get response from AI',
-        details: err.message 
-      },
-      { status: 500 }
-    );
+    throw new Error(errorMessage);
   }
-}
\ No newline at end of file
+
+  let aiResponse = completion.content;
+
+  // Post-process response to sanitize links and add disclaimers
+  aiResponse = sanitizeResponse(aiResponse);
+
+  // Generate dynamic recommendations using the LLM
+  console.log('🔄 Generating fresh recommendations for response:', {
+    userMessagePreview: message.substring(0, 50),
+    responsePreview: aiResponse.substring(0, 50),
+    contextLength: conversationContext.length
+  });
+  
+  const recommendations = await generateDynamicRecommendations(
+    message,
+    aiResponse,
+    conversationContext.slice(-3), // Last 3 exchanges for context
+    usageLedger
+  );
+
+  console.log('✨ Generated recommendations:', {
+    count: recommendations.length,
+    preview: recommendations.map(r => r.text.substring(0, 30))
+  });
+
+  return {
+    requestId,
+    cancelled: false,
+    response: aiResponse,
+    model: model,
+    usage: usageLedger.getSummary(),
+    contextSize: messages.length,
+    estimatedTokens: messages.reduce((acc: number, msg: { content: string | object }) => {
+      const contentLength = typeof msg.content === 'string' ? msg.content.length : JSON.stringify(msg.content).length;
+      return acc + Math.ceil(contentLength / 4);
+    }, 0),
+    sources: webSearchResults?.sources || [],
+    webSearchUsed: shouldSearch && webSearchResults?.success,
+    dynamicRecommendations: recommendations
+  };
+}
@@ -0,0 +1,55 @@
+/**
+ * Conversation messages API
+ *
+ * POST /api/conversations/:id/messages   { messages } appends them in order
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { conversationStore, getMessageProblems } from '@/lib/conversationStore';
+import { getRequestUser, withUserCookie } from '@/lib/requestUser';
+
+export const runtime = 'nodejs';
+
+const MAX_MESSAGES_PER_APPEND = 200;
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const user = getRequestUser(request);
+  const { id } = await params;
+  try {
+    const body = await request.json().catch(() => null);
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: 'Expected a JSON object' },
+        { status: 400 }
+      );
+    }
+    const { messages } = body;
+
+    const messageProblems = getMessageProblems(messages);
+    if (messageProblems.length > 0 || messages.length === 0 || messages.length > MAX_MESSAGES_PER_APPEND) {
+      return NextResponse.json(
+        {
+          error: 'Invalid messages',
+          details: messageProblems.length ? messageProblems.slice(0, 5).join('; ') : `Expected 1 to ${MAX_MESSAGES_PER_APPEND} messages`
+        },
+        { status: 400 }
+      );
+    }
+
+    const conversation = conversationStore.appendMessages(user.id, id, messages);
+    if (!conversation) {
+      return withUserCookie(NextResponse.json({ error: 'Conversation not found', id }, { status: 404 }), user);
+    }
+
+    return withUserCookie(NextResponse.json({ conversation }), user);
+
+  } catch (error: unknown) {
+    const err = error as { message?: string };
+    console.error('POST /api/conversations/:id/messages Error:', err.message);
+
+    return NextResponse.json(
+      { error: 'Failed to append messages', details: err.message },
+      { status: 500 }
+    );
+  }
+}
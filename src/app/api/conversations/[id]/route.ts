@@ -0,0 +1,134 @@
+/**
+ * Conversation API - one conversation of the current user
+ *
+ * GET    /api/conversations/:id                   the conversation with its messages
+ * GET    /api/conversations/:id?export=<format>   it as a markdown, json, html or pdf download
+ * PATCH  /api/conversations/:id                   { title } renames it; { activeLeafId } shows the branch ending
+ *                                                 at that message (null: the newest one)
+ * DELETE /api/conversations/:id                   deletes it and its messages
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { conversationStore, MAX_TITLE_LENGTH } from '@/lib/conversationStore';
+import { getRequestUser, withUserCookie } from '@/lib/requestUser';
+import { EXPORT_FORMATS, exportConversations, isExportFormat } from '@/lib/export';
+
+export const runtime = 'nodejs';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const notFound = (id: string) => NextResponse.json(
+  { error: 'Conversation not found', id },
+  { status: 404 }
+);
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const user = getRequestUser(request);
+  const { id } = await params;
+  try {
+    const exportFormat = new URL(request.url).searchParams.get('export');
+    if (exportFormat !== null && !isExportFormat(exportFormat)) {
+      return NextResponse.json(
+        { error: 'Invalid export format', details: `Expected one of ${Object.keys(EXPORT_FORMATS).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const conversation = conversationStore.get(user.id, id);
+    if (!conversation) return withUserCookie(notFound(id), user);
+
+    if (exportFormat !== null) {
+      const file = exportConversations([conversation], exportFormat);
+      return withUserCookie(new NextResponse(file.content, {
+        headers: { 'Content-Type': file.mimeType, 'Content-Disposition': `attachment; filename="${file.fileName}"` }
+      }), user);
+    }
+
+    return withUserCookie(NextResponse.json({ conversation }), user);
+
+  } catch (error: unknown) {
+    const err = error as { message?: string };
+    console.error('GET /api/conversations/:id Error:', err.message);
+
+    return NextResponse.json(
+      { error: 'Failed to load conversation', details: err.message },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const user = getRequestUser(request);
+  const { id } = await params;
+  try {
+    const body = await request.json().catch(() => null);
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: 'Expected a JSON object' },
+        { status: 400 }
+      );
+    }
+    const { title, activeLeafId } = body;
+
+    if (title === undefined && activeLeafId === undefined) {
+      return NextResponse.json(
+        { error: 'Nothing to change', details: 'Expected a title or an activeLeafId' },
+        { status: 400 }
+      );
+    }
+
+    if (title !== undefined && !(typeof title === 'string' && title.trim() && title.length <= MAX_TITLE_LENGTH)) {
+      return NextResponse.json(
+        { error: 'Invalid title', details: `Expected a non-empty string of at most ${MAX_TITLE_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    if (activeLeafId !== undefined) {
+      const existing = conversationStore.get(user.id, id);
+      if (!existing) return withUserCookie(notFound(id), user);
+      if (activeLeafId !== null && !existing.messages.some(message => message.id === activeLeafId)) {
+        return NextResponse.json(
+          { error: 'Invalid activeLeafId', details: 'Expected the id of one of the conversation\'s messages, or null' },
+          { status: 400 }
+        );
+      }
+    }
+
+    let conversation = title !== undefined ? conversationStore.rename(user.id, id, title.trim()) : undefined;
+    if (activeLeafId !== undefined) conversation = conversationStore.setActiveLeaf(user.id, id, activeLeafId);
+    if (!conversation) return withUserCookie(notFound(id), user);
+
+    return withUserCookie(NextResponse.json({ conversation }), user);
+
+  } catch (error: unknown) {
+    const err = error as { message?: string };
+    console.error('PATCH /api/conversations/:id Error:', err.message);
+
+    return NextResponse.json(
+      { error: 'Failed to update conversation', details: err.message },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const user = getRequestUser(request);
+  const { id } = await params;
+  try {
+    if (!conversationStore.delete(user.id, id)) return withUserCookie(notFound(id), user);
+
+    return withUserCookie(NextResponse.json({ success: true, id }), user);
+
+  } catch (error: unknown) {
+    const err = error as { message?: string };
+    console.error('DELETE /api/conversations/:id Error:', err.message);
+
+    return NextResponse.json(
+      { error: 'Failed to delete conversation', details: err.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,188 @@
+/**
+ * Conversations API - the signed-in (or anonymous cookie) user's conversations
+ *
+ * GET  /api/conversations                    summaries, most recently updated first
+ * GET  /api/conversations?include=messages   full conversations
+ * GET  /api/conversations?export=<format>    all of them as a markdown, json, html or pdf download
+ * GET  /api/conversations?q=<query>          full-text search over their messages, titles and sources;
+ *                                            narrowed with from, to, model and webSearch=true|false
+ * POST /api/conversations                    { id, title?, messages?, createdAt?, updatedAt? } creates one
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { conversationStore, getMessageProblems, isValidConversationId, MAX_MESSAGES_PER_CONVERSATION, MAX_TITLE_LENGTH } from '@/lib/conversationStore';
+import { getRequestUser, withUserCookie } from '@/lib/requestUser';
+import { EXPORT_FORMATS, exportConversations, isExportFormat } from '@/lib/export';
+import { ConversationSearchIndex, SearchFilters } from '@/lib/conversationSearch';
+import type { Conversation } from '@/types/chat';
+
+// The SQLite backend needs the Node.js runtime
+export const runtime = 'nodejs';
+
+const MAX_SEARCH_LIMIT = 200;
+const MAX_CACHED_INDEXES = 100;
+
+// Each user's search index stays between requests; sync() re-reads only conversations that changed
+const searchIndexes = new Map<string, ConversationSearchIndex>();
+
+function getSearchIndex(userId: string): ConversationSearchIndex {
+  const index = searchIndexes.get(userId) ?? new ConversationSearchIndex();
+  // Re-inserted so the Map stays in least recently used order for eviction
+  searchIndexes.delete(userId);
+  searchIndexes.set(userId, index);
+  if (searchIndexes.size > MAX_CACHED_INDEXES) searchIndexes.delete(searchIndexes.keys().next().value!);
+
+  index.sync(conversationStore.list(userId), id => conversationStore.get(userId, id));
+  return index;
+}
+
+/** The search filters in the query string, or why they are invalid */
+function getSearchFilters(searchParams: URLSearchParams): SearchFilters | string {
+  const filters: SearchFilters = {};
+  for (const key of ['from', 'to'] as const) {
+    const value = searchParams.get(key);
+    if (value === null) continue;
+    if (isNaN(Date.parse(value))) return `${key} must be an ISO date`;
+    filters[key] = value;
+  }
+
+  const model = searchParams.get('model');
+  if (model) filters.model = model;
+
+  const webSearch = searchParams.get('webSearch');
+  if (webSearch !== null) {
+    if (webSearch !== 'true' && webSearch !== 'false') return 'webSearch must be true or false';
+    filters.webSearch = webSearch === 'true';
+  }
+  return filters;
+}
+
+export async function GET(request: NextRequest) {
+  const user = getRequestUser(request);
+  try {
+    const { searchParams } = new URL(request.url);
+    const exportFormat = searchParams.get('export');
+    if (exportFormat !== null && !isExportFormat(exportFormat)) {
+      return NextResponse.json(
+        { error: 'Invalid export format', details: `Expected one of ${Object.keys(EXPORT_FORMATS).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const query = searchParams.get('q');
+    if (query !== null) {
+      const filters = getSearchFilters(searchParams);
+      const limit = Number(searchParams.get('limit') ?? 50);
+      if (typeof filters === 'string' || !(Number.isInteger(limit) && limit >= 1 && limit <= MAX_SEARCH_LIMIT)) {
+        return NextResponse.json(
+          { error: 'Invalid search', details: typeof filters === 'string' ? filters : `limit must be 1 to ${MAX_SEARCH_LIMIT}` },
+          { status: 400 }
+        );
+      }
+
+      const index = getSearchIndex(user.id);
+      const { hits, total } = index.search(query, filters, limit);
+      return withUserCookie(NextResponse.json({ query, hits, total, models: index.getModels() }), user);
+    }
+
+    const summaries = conversationStore.list(user.id);
+
+    if (exportFormat !== null || searchParams.get('include') === 'messages') {
+      const conversations = summaries
+        .map(summary => conversationStore.get(user.id, summary.id))
+        .filter((conversation): conversation is Conversation => !!conversation);
+
+      if (exportFormat !== null) {
+        const file = exportConversations(conversations, exportFormat);
+        return withUserCookie(new NextResponse(file.content, {
+          headers: { 'Content-Type': file.mimeType, 'Content-Disposition': `attachment; filename="${file.fileName}"` }
+        }), user);
+      }
+      return withUserCookie(NextResponse.json({ conversations }), user);
+    }
+
+    return withUserCookie(NextResponse.json({ conversations: summaries }), user);
+
+  } catch (error: unknown) {
+    const err = error as { message?: string };
+    console.error('GET /api/conversations Error:', err.message);
+
+    return NextResponse.json(
+      { error: 'Failed to load conversations', details: err.message },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const user = getRequestUser(request);
+  try {
+    const body = await request.json().catch(() => null);
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: 'Expected a JSON object' },
+        { status: 400 }
+      );
+    }
+    const { id = `chat-${Date.now()}`, title, messages = [], createdAt, updatedAt } = body;
+
+    if (!isValidConversationId(id)) {
+      return NextResponse.json(
+        { error: 'Invalid id', details: 'Expected up to 100 letters, digits, "-" or "_"' },
+        { status: 400 }
+      );
+    }
+
+    if (title !== undefined && !(typeof title === 'string' && title.trim() && title.length <= MAX_TITLE_LENGTH)) {
+      return NextResponse.json(
+        { error: 'Invalid title', details: `Expected a non-empty string of at most ${MAX_TITLE_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    // Uploaded offline or imported chats keep their own dates
+    const badDate = [createdAt, updatedAt].find(date => date !== undefined && !(typeof date === 'string' && !isNaN(Date.parse(date))));
+    if (badDate !== undefined) {
+      return NextResponse.json(
+        { error: 'Invalid date', details: 'createdAt and updatedAt must be ISO date strings' },
+        { status: 400 }
+      );
+    }
+
+    const messageProblems = getMessageProblems(messages);
+    if (messageProblems.length > 0 || messages.length > MAX_MESSAGES_PER_CONVERSATION) {
+      return NextResponse.json(
+        {
+          error: 'Invalid messages',
+          details: messageProblems.length ? messageProblems.slice(0, 5).join('; ') : `Expected at most ${MAX_MESSAGES_PER_CONVERSATION} messages`
+        },
+        { status: 400 }
+      );
+    }
+
+    if (conversationStore.get(user.id, id)) {
+      return NextResponse.json(
+        { error: 'Conversation already exists', id },
+        { status: 409 }
+      );
+    }
+
+    const conversation = conversationStore.create(user.id, {
+      id,
+      title: title?.trim(),
+      messages,
+      createdAt: createdAt && new Date(createdAt).toISOString(),
+      updatedAt: updatedAt && new Date(updatedAt).toISOString()
+    });
+    return withUserCookie(NextResponse.json({ conversation }, { status: 201 }), user);
+
+  } catch (error: unknown) {
+    const err = error as { message?: string };
+    console.error('POST /api/conversations Error:', err.message);
+
+    return NextResponse.json(
+      { error: 'Failed to create conversation', details: err.message },
+      { status: 500 }
+    );
+  }
+}
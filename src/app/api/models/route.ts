@@ -0,0 +1,42 @@
+/**
+ * Models API - what a chat request can choose from: the enabled models (and which of them answer
+ * in fusion by default), the fusion strategies, and the time budget and quality threshold used
+ * when a request doesn't set its own
+ */
+
+import { NextResponse } from 'next/server';
+import { modelRegistry } from '@/lib/modelRegistry';
+import { FUSION_STRATEGIES } from '@/lib/FusionEngine';
+import { appSettings, FUSION_TIME_LIMITS } from '@/lib/appSettings';
+import type { ModelChoices } from '@/types/chat';
+
+// The SQLite settings backend needs the Node.js runtime
+export const runtime = 'nodejs';
+
+export async function GET() {
+  try {
+    const { maxResponseTime, qualityThreshold } = appSettings.get().fusion;
+    const choices: ModelChoices = {
+      models: modelRegistry.getEnabled()
+        .filter(model => model.modalities.includes('text'))
+        .map(model => ({
+          id: model.id,
+          name: modelRegistry.getDisplayName(model.id),
+          fusion: modelRegistry.getFusionRole(model) !== undefined
+        })),
+      strategies: [...FUSION_STRATEGIES],
+      defaults: { maxResponseTime, qualityThreshold },
+      limits: { maxResponseTime: FUSION_TIME_LIMITS }
+    };
+    return NextResponse.json(choices);
+
+  } catch (error: unknown) {
+    const err = error as { message?: string };
+    console.error('GET /api/models Error:', err.message);
+
+    return NextResponse.json(
+      { error: 'Failed to load models', details: err.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Model Stats API - per-model latency percentiles, error rates and throughput
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { modelStatsStore } from '@/lib/modelStats';
+
+// Stats backends use the filesystem / SQLite
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const modelId = searchParams.get('modelId');
+
+    if (modelId) {
+      return NextResponse.json({
+        backend: modelStatsStore.backendName,
+        model: modelStatsStore.getSnapshot(modelId),
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    return NextResponse.json({
+      backend: modelStatsStore.backendName,
+      models: modelStatsStore.getAllSnapshots(),
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error: unknown) {
+    const err = error as { message?: string };
+    console.error('GET /api/models/stats Error:', err.message);
+
+    return NextResponse.json(
+      { error: 'Failed to load model stats', details: err.message },
+      { status: 500 }
+    );
+  }
+}
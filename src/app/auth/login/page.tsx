@@ -0,0 +1,24 @@
+'use client';
+
+/**
+ * Sign-in Page - where the landing page's "Sign in" link and the auth middleware send visitors
+ */
+
+import { useRouter } from 'next/navigation';
+import LoginForm from '@/components/LoginForm';
+
+// Only same-site paths, so ?next= can't send someone to another site after signing in
+const getReturnPath = (): string => {
+  const next = new URLSearchParams(window.location.search).get('next');
+  return next && next.startsWith('/') && !next.startsWith('//') ? next : '/improved-chat';
+};
+
+export default function LoginPage() {
+  const router = useRouter();
+
+  return (
+    <div className="min-h-screen bg-white dark:bg-gray-900">
+      <LoginForm onSuccess={() => router.replace(getReturnPath())} />
+    </div>
+  );
+}
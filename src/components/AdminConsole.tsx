@@ -0,0 +1,346 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  AdminModel,
+  AdminUsage,
+  SettingsSection,
+  getAdminSettings,
+  getAdminUsage,
+  resetAdminSettings,
+  updateAdminSettings
+} from '@/lib/adminApi';
+import type { AppSettings, AppSettingsPatch } from '@/types/chat';
+
+const FUSION_ROLES = ['primary', 'analytical', 'creative'] as const;
+
+const SECTION_CLASS = 'p-4 sm:p-6 bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 shadow-sm';
+const INPUT_CLASS = 'w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500 dark:bg-gray-700 dark:text-white';
+const BUTTON_CLASS = 'px-3 py-1.5 text-sm rounded-lg disabled:opacity-50';
+
+const toLines = (domains: string[]) => domains.join('\n');
+const fromLines = (text: string) => text.split('\n').map(line => line.trim().toLowerCase()).filter(Boolean);
+
+const formatCost = (cost: number) => (cost > 0 && cost < 0.01 ? '<$0.01' : `$${cost.toFixed(2)}`);
+
+interface SectionHeaderProps {
+  title: string;
+  description: string;
+  overridden: boolean;
+  busy: boolean;
+  onSave?: () => void;
+  onReset: () => void;
+}
+
+function SectionHeader({ title, description, overridden, busy, onSave, onReset }: SectionHeaderProps) {
+  return (
+    <div className="flex flex-wrap items-start justify-between gap-2 mb-4">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+          {title}
+          {overridden && <span className="ml-2 px-2 py-0.5 text-xs font-medium bg-teal-100 dark:bg-teal-900/40 text-teal-700 dark:text-teal-300 rounded-full">Customized</span>}
+        </h2>
+        <p className="text-sm text-gray-500 dark:text-gray-400">{description}</p>
+      </div>
+      <div className="flex space-x-2">
+        <button
+          onClick={onReset}
+          disabled={busy || !overridden}
+          className={`${BUTTON_CLASS} bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600`}
+          title="Go back to the built-in defaults"
+        >
+          Reset
+        </button>
+        {onSave && (
+          <button
+            onClick={onSave}
+            disabled={busy}
+            className={`${BUTTON_CLASS} bg-teal-600 hover:bg-teal-700 text-white`}
+          >
+            {busy ? 'Saving...' : 'Save'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function AdminConsole() {
+  const [settings, setSettings] = useState<AppSettings | null>(null);
+  const [overrides, setOverrides] = useState<AppSettingsPatch>({});
+  const [models, setModels] = useState<AdminModel[]>([]);
+  const [draft, setDraft] = useState<AppSettings | null>(null);
+  const [domainText, setDomainText] = useState({ high: '', medium: '' });
+  const [usage, setUsage] = useState<AdminUsage | null>(null);
+  const [busySection, setBusySection] = useState<SettingsSection | null>(null);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  const apply = useCallback((result: { settings: AppSettings; overrides: AppSettingsPatch; models: AdminModel[] }) => {
+    setSettings(result.settings);
+    setOverrides(result.overrides);
+    setModels(result.models);
+    setDraft(result.settings);
+    setDomainText({
+      high: toLines(result.settings.webSearch.highTrustDomains),
+      medium: toLines(result.settings.webSearch.mediumTrustDomains)
+    });
+  }, []);
+
+  const loadUsage = useCallback(async () => {
+    try {
+      setUsage(await getAdminUsage());
+    } catch (loadError) {
+      setError((loadError as Error).message);
+    }
+  }, []);
+
+  useEffect(() => {
+    getAdminSettings().then(apply).catch(loadError => setError((loadError as Error).message));
+    loadUsage();
+  }, [apply, loadUsage]);
+
+  const run = async (section: SettingsSection, action: () => ReturnType<typeof getAdminSettings>, message: string) => {
+    setBusySection(section);
+    setError('');
+    setNotice('');
+    try {
+      apply(await action());
+      setNotice(message);
+    } catch (saveError) {
+      setError((saveError as Error).message);
+    } finally {
+      setBusySection(null);
+    }
+  };
+
+  const save = (section: SettingsSection, patch: AppSettingsPatch) =>
+    run(section, () => updateAdminSettings(patch), 'Saved. New requests use the change right away.');
+
+  const reset = (section: SettingsSection) =>
+    run(section, () => resetAdminSettings(section), 'Restored the defaults.');
+
+  if (!settings || !draft) {
+    return (
+      <div className="max-w-5xl mx-auto p-4 sm:p-6 text-sm text-gray-600 dark:text-gray-400">
+        {error ? <p className="text-red-600 dark:text-red-400">{error}</p> : 'Loading admin console...'}
+      </div>
+    );
+  }
+
+  const updateDraft = (change: (current: AppSettings) => AppSettings) => setDraft(current => current && change(current));
+
+  return (
+    <div className="max-w-5xl mx-auto p-4 sm:p-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Admin Console</h1>
+        <p className="text-sm text-gray-500 dark:text-gray-400">Changes are stored on the server and apply to the next request, no redeploy needed.</p>
+      </div>
+
+      {(error || notice) && (
+        <div
+          className={`p-3 rounded-lg text-sm border ${error
+            ? 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800 text-red-800 dark:text-red-200'
+            : 'bg-teal-50 dark:bg-teal-900/20 border-teal-200 dark:border-teal-800 text-teal-800 dark:text-teal-200'}`}
+          role={error ? 'alert' : 'status'}
+        >
+          {error || notice}
+        </div>
+      )}
+
+      <section className={SECTION_CLASS}>
+        <SectionHeader
+          title="Models"
+          description="Disabled models are skipped by fusion, routing and health probes."
+          overridden={!!overrides.models && Object.keys(overrides.models).length > 0}
+          busy={busySection === 'models'}
+          onReset={() => reset('models')}
+        />
+        <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+          {models.map(model => (
+            <li key={model.id} className="flex items-center justify-between py-2">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{model.icon} {model.name}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{model.id} • {model.roles.join(', ')}</p>
+              </div>
+              <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300 flex-shrink-0">
+                <input
+                  type="checkbox"
+                  checked={model.enabled}
+                  disabled={busySection === 'models'}
+                  onChange={event => save('models', { models: { [model.id]: { enabled: event.target.checked } } })}
+                  className="w-4 h-4 accent-teal-600"
+                />
+                <span>{model.enabled ? 'Enabled' : 'Disabled'}</span>
+              </label>
+            </li>
+          ))}
+        </ul>
+      </section>
+
+      <section className={SECTION_CLASS}>
+        <SectionHeader
+          title="Prompts"
+          description="The single-model chat system prompt and what each fusion model is asked to contribute."
+          overridden={!!overrides.prompts}
+          busy={busySection === 'prompts'}
+          onSave={() => save('prompts', { prompts: draft.prompts })}
+          onReset={() => reset('prompts')}
+        />
+        <label htmlFor="system-prompt" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">System prompt</label>
+        <textarea
+          id="system-prompt"
+          rows={10}
+          value={draft.prompts.system}
+          onChange={event => updateDraft(current => ({ ...current, prompts: { ...current.prompts, system: event.target.value } }))}
+          className={`${INPUT_CLASS} font-mono mb-4`}
+        />
+        {FUSION_ROLES.map(role => (
+          <div key={role} className="mb-3">
+            <label htmlFor={`role-${role}`} className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1 capitalize">{role} role</label>
+            <textarea
+              id={`role-${role}`}
+              rows={3}
+              value={draft.prompts.fusionRoles[role]}
+              onChange={event => updateDraft(current => ({
+                ...current,
+                prompts: { ...current.prompts, fusionRoles: { ...current.prompts.fusionRoles, [role]: event.target.value } }
+              }))}
+              className={INPUT_CLASS}
+            />
+          </div>
+        ))}
+      </section>
+
+      <section className={SECTION_CLASS}>
+        <SectionHeader
+          title="Fusion"
+          description="How long fusion waits for models, and how good an answer must be to stop waiting early."
+          overridden={!!overrides.fusion}
+          busy={busySection === 'fusion'}
+          onSave={() => save('fusion', { fusion: draft.fusion })}
+          onReset={() => reset('fusion')}
+        />
+        <div className="grid sm:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="fusion-time" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Time budget (seconds)</label>
+            <input
+              id="fusion-time"
+              type="number"
+              min={3}
+              max={120}
+              step={1}
+              value={draft.fusion.maxResponseTime / 1000}
+              onChange={event => updateDraft(current => ({
+                ...current,
+                fusion: { ...current.fusion, maxResponseTime: Math.round(Number(event.target.value) * 1000) }
+              }))}
+              className={INPUT_CLASS}
+            />
+          </div>
+          <div>
+            <label htmlFor="fusion-quality" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Quality threshold (0-1)</label>
+            <input
+              id="fusion-quality"
+              type="number"
+              min={0}
+              max={1}
+              step={0.05}
+              value={draft.fusion.qualityThreshold}
+              onChange={event => updateDraft(current => ({
+                ...current,
+                fusion: { ...current.fusion, qualityThreshold: Number(event.target.value) }
+              }))}
+              className={INPUT_CLASS}
+            />
+          </div>
+        </div>
+      </section>
+
+      <section className={SECTION_CLASS}>
+        <SectionHeader
+          title="Web Search Trust"
+          description="Sources from these domains get a higher trust score. One domain per line."
+          overridden={!!overrides.webSearch}
+          busy={busySection === 'webSearch'}
+          onSave={() => save('webSearch', {
+            webSearch: { highTrustDomains: fromLines(domainText.high), mediumTrustDomains: fromLines(domainText.medium) }
+          })}
+          onReset={() => reset('webSearch')}
+        />
+        <div className="grid sm:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="high-trust" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">High trust</label>
+            <textarea
+              id="high-trust"
+              rows={10}
+              value={domainText.high}
+              onChange={event => setDomainText(current => ({ ...current, high: event.target.value }))}
+              className={`${INPUT_CLASS} font-mono`}
+            />
+          </div>
+          <div>
+            <label htmlFor="medium-trust" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Medium trust</label>
+            <textarea
+              id="medium-trust"
+              rows={10}
+              value={domainText.medium}
+              onChange={event => setDomainText(current => ({ ...current, medium: event.target.value }))}
+              className={`${INPUT_CLASS} font-mono`}
+            />
+          </div>
+        </div>
+      </section>
+
+      <section className={SECTION_CLASS}>
+        <div className="flex items-start justify-between mb-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Usage</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Upstream calls and cost per signed-in user, API token or IP.
+              {usage && ` ${usage.totals.requests.toLocaleString()} requests, ${formatCost(usage.totals.cost)} in total.`}
+            </p>
+          </div>
+          <button
+            onClick={loadUsage}
+            className={`${BUTTON_CLASS} bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600`}
+          >
+            🔄 Refresh
+          </button>
+        </div>
+        {usage && usage.usage.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left">
+              <thead className="text-xs uppercase text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                <tr>
+                  <th className="py-2 pr-4">Who</th>
+                  <th className="py-2 pr-4 text-right">Requests</th>
+                  <th className="py-2 pr-4 text-right">Model calls</th>
+                  <th className="py-2 pr-4 text-right">Tokens</th>
+                  <th className="py-2 pr-4 text-right">Cost</th>
+                  <th className="py-2">Last seen</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 dark:divide-gray-700 text-gray-700 dark:text-gray-300">
+                {usage.usage.map(entry => (
+                  <tr key={entry.subject}>
+                    <td className="py-2 pr-4">
+                      {entry.user ? `${entry.user.name} (${entry.user.username})` : entry.subject}
+                    </td>
+                    <td className="py-2 pr-4 text-right">{entry.requests.toLocaleString()}</td>
+                    <td className="py-2 pr-4 text-right" title={`${entry.cachedCalls} answered from cache`}>{entry.calls.toLocaleString()}</td>
+                    <td className="py-2 pr-4 text-right">{(entry.promptTokens + entry.completionTokens).toLocaleString()}</td>
+                    <td className="py-2 pr-4 text-right">{formatCost(entry.cost)}</td>
+                    <td className="py-2">{new Date(entry.lastSeen).toLocaleString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400">{usage ? 'No chat requests yet.' : 'Loading usage...'}</p>
+        )}
+      </section>
+    </div>
+  );
+}
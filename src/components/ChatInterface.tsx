@@ -4,9 +4,11 @@ import { useState, useRef, useEffect, useCallback } from 'react';
 import { Message, SystemHealth, QueryAnalysis, RoutingDecision } from '@/types/chat';
 import { smartChatAgent, SmartRecommendation } from '@/lib/SmartChatAgent';
 import { conversationManager } from '@/lib/ConversationContext';
+import { syncConversations, messageSync } from '@/lib/conversationApi';
 import RichMessageRenderer from './RichMessageRenderer';
 import FusionProgress from './FusionProgress';
-// import FusionComparison from './FusionComparison';
+import FusionComparison from './FusionComparison';
+import SystemStatusPanel, { getHealthDotClass, getHealthLabel } from './SystemStatusPanel';
 
 interface ChatInterfaceProps {
   className?: string;
@@ -21,6 +23,7 @@ export default function ChatInterface({ className = '' }: ChatInterfaceProps) {
 
   // Enhanced features
   const [systemHealth, setSystemHealth] = useState<SystemHealth | null>(null);
+  const [showSystemStatus, setShowSystemStatus] = useState(false);
   const [webSearchEnabled, setWebSearchEnabled] = useState(false);
   const [currentStrategy, setCurrentStrategy] = useState<string>('auto');
   const [processingStage, setProcessingStage] = useState<string>('');
@@ -70,8 +73,9 @@ export default function ChatInterface({ className = '' }: ChatInterfaceProps) {
     // Load system health on mount
     fetchSystemHealth();
     
-    // Load saved conversation from localStorage
-    loadSavedConversation();
+    // Load saved conversation from localStorage, then from the server
+    const cachedMessages = loadSavedConversation();
+    syncWithServer(cachedMessages);
     
     // Initialize conversation context
     conversationManager.initializeConversation(sessionId, []);
@@ -103,6 +107,13 @@ export default function ChatInterface({ className = '' }: ChatInterfaceProps) {
     }
   }, [messages]);
 
+  // The server only gets an exchange once the answer is in
+  useEffect(() => {
+    if (!isLoading) {
+      messageSync.push(sessionId, messages, messages[0] ? messages[0].content.slice(0, 50) : undefined);
+    }
+  }, [messages, isLoading, sessionId]);
+
   useEffect(() => {
     // Auto-scroll to bottom
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -126,24 +137,19 @@ export default function ChatInterface({ className = '' }: ChatInterfaceProps) {
     };
   }, [showRecommendations]);
 
-  const fetchSystemHealth = async () => {
+  // Probe results from the server's health prober; `probe` waits for a fresh round of probes
+  const fetchSystemHealth = async (probe = false) => {
     try {
       const { healthCheckService } = await import('@/lib/healthCheck');
-      const healthStatus = await healthCheckService.getHealth();
-      // Convert simple health status to SystemHealth object
-      setSystemHealth({
-        models: {},
-        fusion: { strategiesAvailable: ['single', 'sequential'], averageProcessingTime: 0, successRate: 100 },
-        search: { providersOnline: ['default'], averageQueryTime: 0, cacheHitRate: 0 },
-        overall: { status: healthStatus === 'good' ? 'optimal' : healthStatus === 'degraded' ? 'degraded' : 'critical', score: healthStatus === 'good' ? 100 : healthStatus === 'degraded' ? 50 : 0, uptime: 100, activeConnections: 1 }
-      });
+      const health = await healthCheckService.getHealth(probe);
+      if (health) setSystemHealth(health);
     } catch (error) {
       console.error('Failed to fetch system health:', error);
     }
   };
 
-  // localStorage functions for conversation persistence
-  const loadSavedConversation = useCallback(() => {
+  // localStorage is the offline copy of the session's conversation; the server has the full one
+  const loadSavedConversation = useCallback((): Message[] => {
     try {
       const savedConversation = localStorage.getItem(`chat-${sessionId}`);
       if (savedConversation) {
@@ -156,11 +162,32 @@ export default function ChatInterface({ className = '' }: ChatInterfaceProps) {
           }));
           setMessages(messagesWithDates);
           console.log(`Loaded ${messagesWithDates.length} messages from storage`);
+          return messagesWithDates;
         }
       }
     } catch (error) {
       console.warn('Failed to load saved conversation:', error);
     }
+    return [];
+  }, [sessionId]);
+
+  const syncWithServer = useCallback(async (cachedMessages: Message[]) => {
+    try {
+      const now = new Date().toISOString();
+      const conversations = await syncConversations([{
+        id: sessionId,
+        title: cachedMessages[0]?.content.slice(0, 50) || 'New Chat',
+        messages: cachedMessages,
+        createdAt: now,
+        updatedAt: now
+      }]);
+      const stored = conversations.find(conversation => conversation.id === sessionId);
+      // The local copy keeps only the last 50 messages
+      setMessages(prev => (stored && stored.messages.length > prev.length ? stored.messages : prev));
+      messageSync.markSynced(sessionId, stored?.messages.length ?? 0);
+    } catch (error) {
+      console.warn('⚠️ Conversations server unreachable, using the offline copy:', (error as Error).message);
+    }
   }, [sessionId]);
 
   const saveConversationToStorage = useCallback(() => {
@@ -505,7 +532,9 @@ export default function ChatInterface({ className = '' }: ChatInterfaceProps) {
       });
 
       if (!response.ok) {
-        throw new Error('Failed to get response');
+        // Rate limit (429) and validation errors carry a sentence to show in details
+        const errorBody = await response.json().catch(() => null);
+        throw new Error(errorBody?.details || errorBody?.error || 'Failed to get response');
       }
 
       const data = await response.json();
@@ -532,7 +561,7 @@ export default function ChatInterface({ className = '' }: ChatInterfaceProps) {
             sources: data.sources || [],
             analysis: smartAnalysis.analysis,
             routing: smartAnalysis.routing,
-            fusion: data.fusion || null
+            fusion: data.fusion || undefined
           }
         };
         setMessages(prev => [...prev, assistantMessage]);
@@ -607,8 +636,9 @@ export default function ChatInterface({ className = '' }: ChatInterfaceProps) {
       setSuggestions([]);
       setSmartRecommendations([]);
       
-      // Clear localStorage
+      // Clear localStorage; the clear action emptied the server's copy
       localStorage.removeItem(`chat-${sessionId}`);
+      messageSync.markSynced(sessionId, 0);
       
       // Initialize new conversation context
       conversationManager.initializeConversation(sessionId, []);
@@ -631,7 +661,14 @@ export default function ChatInterface({ className = '' }: ChatInterfaceProps) {
       sequential: '🔄',
       parallel: '⚡⚡',
       consensus: '🤝',
-      auto: '🎯'
+      auto: '🎯',
+      fast: '⚡',
+      adaptive: '🧠',
+      specialized: '🎓',
+      iterative: '🔁',
+      debate: '⚖️',
+      structured: '🧾',
+      streaming: '🌊'
     };
     return icons[strategy as keyof typeof icons] || '🤖';
   };
@@ -642,7 +679,14 @@ export default function ChatInterface({ className = '' }: ChatInterfaceProps) {
       sequential: 'Sequential Fusion',
       parallel: 'Parallel Fusion',
       consensus: 'Consensus Fusion',
-      auto: 'Smart Routing'
+      auto: 'Smart Routing',
+      fast: 'Fast Fusion',
+      adaptive: 'Adaptive Fusion',
+      specialized: 'Specialized Fusion',
+      iterative: 'Iterative Fusion',
+      debate: 'Debate Fusion',
+      structured: 'Structured Output',
+      streaming: 'Streaming Fusion'
     };
     return names[strategy as keyof typeof names] || 'Processing';
   };
@@ -802,7 +846,7 @@ export default function ChatInterface({ className = '' }: ChatInterfaceProps) {
                         </span>
                         {message.metadata?.fusion && (
                           <span className="text-xs text-purple-600 dark:text-purple-400 bg-purple-100 dark:bg-purple-900/20 px-2 py-0.5 rounded">
-                            {getStrategyIcon(message.metadata.fusion.strategy.type)} {getStrategyName(message.metadata.fusion.strategy.type)}
+                            {getStrategyIcon(message.metadata.fusion.strategy)} {getStrategyName(message.metadata.fusion.strategy)}
                           </span>
                         )}
                       </div>
@@ -908,13 +952,13 @@ export default function ChatInterface({ className = '' }: ChatInterfaceProps) {
                         </div>
                       )}
                       
-                      {/* Fusion Comparison - Disabled until FusionMetadata matches component requirements */}
-                      {/* {message.metadata?.fusion && (
+                      {/* Fusion Comparison */}
+                      {message.metadata?.fusion && (
                         <FusionComparison 
                           fusionData={message.metadata.fusion} 
                           fusedResponse={message.content}
                         />
-                      )} */}
+                      )}
                     </div>
                   </div>
                 </div>
@@ -1205,13 +1249,30 @@ export default function ChatInterface({ className = '' }: ChatInterfaceProps) {
         <div className="flex items-center justify-between mt-3 text-xs text-gray-500 dark:text-gray-400 flex-wrap gap-2">
           <div className="flex items-center space-x-2 sm:space-x-3">
             <span className="flex items-center space-x-1">
-              <span className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></span>
-              <span className="hidden sm:inline">Phoenix, Oracle, Wizard, GPT Cores Online</span>
-              <span className="sm:hidden">AI Online</span>
+              <span className={`w-2 h-2 rounded-full animate-pulse ${getHealthDotClass(systemHealth)}`}></span>
+              <span className="hidden sm:inline">{getHealthLabel(systemHealth)}</span>
+              <span className="sm:hidden">{systemHealth?.overall.status === 'critical' ? 'AI Offline' : 'AI Online'}</span>
             </span>
-            {systemHealth?.overall.score && (
-              <span className="bg-green-100 dark:bg-green-900/20 text-green-700 dark:text-green-300 px-2 py-0.5 rounded">
-                Health: {systemHealth.overall.score}%
+            {systemHealth && (
+              <span className="relative">
+                <button
+                  type="button"
+                  onClick={() => setShowSystemStatus(prev => !prev)}
+                  className="bg-green-100 dark:bg-green-900/20 text-green-700 dark:text-green-300 px-2 py-0.5 rounded hover:opacity-80"
+                  aria-expanded={showSystemStatus}
+                  title="Show model and search status"
+                >
+                  Health: {systemHealth.overall.score}%
+                </button>
+                {showSystemStatus && (
+                  <div className="absolute bottom-full left-0 mb-2 z-50">
+                    <SystemStatusPanel
+                      health={systemHealth}
+                      onRefresh={() => fetchSystemHealth(true)}
+                      onClose={() => setShowSystemStatus(false)}
+                    />
+                  </div>
+                )}
               </span>
             )}
           </div>
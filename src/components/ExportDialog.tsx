@@ -0,0 +1,117 @@
+'use client';
+
+import { useState } from 'react';
+import type { Conversation } from '@/types/chat';
+import { EXPORT_FORMATS, ExportFormat, ExportFile, exportConversations } from '@/lib/export';
+import { pluralize } from '@/lib/export/common';
+
+interface ExportDialogProps {
+  conversations: Conversation[];
+  onClose: () => void;
+}
+
+const FORMAT_HINTS: Record<ExportFormat, string> = {
+  markdown: 'Plain text with sources as footnotes',
+  json: 'Everything, including fusion and source metadata',
+  html: 'A standalone page formatted like the chat',
+  pdf: 'Printable document'
+};
+
+function downloadFile(file: ExportFile) {
+  const blob = new Blob([file.content], { type: file.mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export default function ExportDialog({ conversations, onClose }: ExportDialogProps) {
+  const [format, setFormat] = useState<ExportFormat>('markdown');
+  const [error, setError] = useState('');
+  const subject = conversations.length === 1 ? `"${conversations[0].title}"` : pluralize(conversations.length, 'conversation');
+
+  // Built from the local copy, so chats that haven't synced yet are included
+  const handleExport = () => {
+    try {
+      downloadFile(exportConversations(conversations, format));
+      onClose();
+    } catch (err) {
+      console.error('⚠️ Export failed:', err);
+      setError('Export failed. Please try another format.');
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="export-dialog-title"
+      onClick={onClose}
+    >
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl max-w-md w-full p-6" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-1">
+          <h2 id="export-dialog-title" className="text-lg font-semibold text-gray-900 dark:text-white">Export</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+            aria-label="Close"
+          >
+            <svg className="w-5 h-5 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4 truncate">{subject}</p>
+
+        <div className="space-y-2" role="radiogroup" aria-label="Format">
+          {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(option => (
+            <label
+              key={option}
+              className={`flex items-start gap-3 p-3 border rounded-lg cursor-pointer transition-colors ${
+                format === option
+                  ? 'border-purple-500 bg-purple-50 dark:bg-purple-900/20'
+                  : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700/50'
+              }`}
+            >
+              <input
+                type="radio"
+                name="export-format"
+                value={option}
+                checked={format === option}
+                onChange={() => setFormat(option)}
+                className="mt-1 accent-purple-600"
+              />
+              <span>
+                <span className="block text-sm font-medium text-gray-900 dark:text-white">{EXPORT_FORMATS[option].label}</span>
+                <span className="block text-xs text-gray-500 dark:text-gray-400">{FORMAT_HINTS[option]}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+
+        {error && <p className="mt-3 text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+        <div className="flex justify-end gap-2 mt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={conversations.length === 0}
+            className="px-4 py-2 text-sm font-medium text-white bg-purple-600 hover:bg-purple-700 disabled:opacity-50 rounded-lg transition-colors"
+          >
+            Download
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
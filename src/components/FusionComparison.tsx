@@ -1,29 +1,26 @@
 'use client';
 
 import React, { useState } from 'react';
+import type { FusionDetails, DebateRebuttal, QualityReport, FusionAttribution } from '@/types/chat';
+
+// Provenance highlight per contributing model, in individualResponses order
+const SOURCE_COLORS = [
+  'bg-blue-100 dark:bg-blue-900/40',
+  'bg-green-100 dark:bg-green-900/40',
+  'bg-purple-100 dark:bg-purple-900/40',
+  'bg-orange-100 dark:bg-orange-900/40',
+  'bg-pink-100 dark:bg-pink-900/40',
+  'bg-teal-100 dark:bg-teal-900/40'
+];
+const SYNTHESIS_ONLY_STYLE = 'underline decoration-dashed decoration-red-400 underline-offset-4';
 
 interface FusionComparisonProps {
-  fusionData: {
-    strategy: string;
-    modelsUsed: string[];
-    individualResponses: Array<{
-      model: string;
-      modelName: string;
-      response: string;
-      confidence: number;
-      processingTime: number;
-      role: 'primary' | 'creative' | 'technical' | 'analytical';
-      status: 'success' | 'error' | 'timeout';
-    }>;
-    processingTime: number;
-    confidence: number;
-    qualityScore: number;
-  };
+  fusionData: FusionDetails;
   fusedResponse: string;
 }
 
 export default function FusionComparison({ fusionData, fusedResponse }: FusionComparisonProps) {
-  const [activeTab, setActiveTab] = useState<'fused' | 'individual' | 'comparison'>('fused');
+  const [activeTab, setActiveTab] = useState<'fused' | 'individual' | 'comparison' | 'debate' | 'tools'>('fused');
   const [selectedModel, setSelectedModel] = useState<string | null>(null);
 
   const getRoleColor = (role: string) => {
@@ -46,8 +43,28 @@ export default function FusionComparison({ fusionData, fusedResponse }: FusionCo
     }
   };
 
+  const getStanceStyle = (stance: DebateRebuttal['stance']) => {
+    switch (stance) {
+      case 'rebuttal': return 'text-red-600 bg-red-100 dark:text-red-300 dark:bg-red-900/20';
+      case 'concession': return 'text-green-600 bg-green-100 dark:text-green-300 dark:bg-green-900/20';
+      default: return 'text-amber-600 bg-amber-100 dark:text-amber-300 dark:bg-amber-900/20';
+    }
+  };
+
   const successfulResponses = fusionData.individualResponses.filter(r => r.status === 'success');
-  const avgIndividualConfidence = successfulResponses.reduce((sum, r) => sum + r.confidence, 0) / successfulResponses.length;
+  const avgIndividualConfidence = successfulResponses.length > 0
+    ? successfulResponses.reduce((sum, r) => sum + r.confidence, 0) / successfulResponses.length
+    : 0;
+  const disagreements = fusionData.disagreements || [];
+  const rebuttals = fusionData.rebuttals || [];
+  const hasDebate = disagreements.length > 0 || rebuttals.length > 0;
+  const attributions = fusionData.attributions || [];
+  const sourceColors = Object.fromEntries(
+    fusionData.individualResponses.map((response, index) => [response.model, SOURCE_COLORS[index % SOURCE_COLORS.length]])
+  );
+  const toolInvocations = fusionData.individualResponses.flatMap(response =>
+    (response.toolInvocations || []).map(invocation => ({ ...invocation, modelName: response.modelName }))
+  );
 
   return (
     <div className="mt-4 border border-purple-200 dark:border-purple-800 rounded-xl overflow-hidden">
@@ -114,6 +131,30 @@ export default function FusionComparison({ fusionData, fusedResponse }: FusionCo
         >
           📊 Comparison
         </button>
+        {hasDebate && (
+          <button
+            onClick={() => setActiveTab('debate')}
+            className={`px-6 py-3 text-sm font-medium transition-colors ${
+              activeTab === 'debate'
+                ? 'bg-white dark:bg-gray-800 text-purple-600 dark:text-purple-400 border-b-2 border-purple-600'
+                : 'text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white'
+            }`}
+          >
+            ⚖️ Disagreements ({disagreements.length})
+          </button>
+        )}
+        {toolInvocations.length > 0 && (
+          <button
+            onClick={() => setActiveTab('tools')}
+            className={`px-6 py-3 text-sm font-medium transition-colors ${
+              activeTab === 'tools'
+                ? 'bg-white dark:bg-gray-800 text-purple-600 dark:text-purple-400 border-b-2 border-purple-600'
+                : 'text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white'
+            }`}
+          >
+            🛠️ Tool Calls ({toolInvocations.length})
+          </button>
+        )}
       </div>
 
       <div className="p-6">
@@ -131,9 +172,29 @@ export default function FusionComparison({ fusionData, fusedResponse }: FusionCo
                 </span>
               </div>
               <div className="prose prose-sm max-w-none dark:prose-invert text-gray-700 dark:text-gray-300">
-                {fusedResponse}
+                {attributions.length > 0
+                  ? <ProvenanceText text={fusedResponse} attributions={attributions} sourceColors={sourceColors} />
+                  : fusedResponse}
               </div>
             </div>
+            {fusionData.imageDescription && (
+              <details className="text-sm text-gray-600 dark:text-gray-400">
+                <summary className="cursor-pointer font-medium">👁️ Image description given to text-only models</summary>
+                <p className="mt-2 whitespace-pre-wrap">{fusionData.imageDescription}</p>
+              </details>
+            )}
+            {attributions.length > 0 && (
+              <div className="flex flex-wrap items-center gap-3 text-xs text-gray-600 dark:text-gray-400">
+                <span className="font-medium">Sources:</span>
+                {successfulResponses.map(response => (
+                  <span key={response.model} className={`px-2 py-0.5 rounded ${sourceColors[response.model]}`}>
+                    {response.modelName}
+                  </span>
+                ))}
+                <span className={SYNTHESIS_ONLY_STYLE}>Added by synthesis</span>
+              </div>
+            )}
+            {fusionData.quality && <QualityBreakdown quality={fusionData.quality} />}
           </div>
         )}
 
@@ -165,6 +226,17 @@ export default function FusionComparison({ fusionData, fusedResponse }: FusionCo
                       <span>{Math.round(response.confidence * 100)}%</span>
                       <span>•</span>
                       <span>{response.processingTime}ms</span>
+                      {response.toolInvocations?.length ? (
+                        <>
+                          <span>•</span>
+                          <span title="Tool calls">🛠️ {response.toolInvocations.length}</span>
+                        </>
+                      ) : null}
+                      {response.imageInput && (
+                        <span title={response.imageInput === 'direct' ? 'Saw the attached images' : 'Read the image description'}>
+                          {response.imageInput === 'direct' ? '👁️' : '📝'}
+                        </span>
+                      )}
                       <div className={`w-2 h-2 rounded-full ${response.status === 'success' ? 'bg-green-500' : 'bg-red-500'}`}></div>
                     </div>
                   </div>
@@ -174,10 +246,11 @@ export default function FusionComparison({ fusionData, fusedResponse }: FusionCo
                       <div className="prose prose-sm max-w-none dark:prose-invert">
                         {response.response || (
                           <div className="text-red-500 text-sm">
-                            Error: {response.status === 'error' ? 'Model failed to respond' : 'Request timed out'}
+                            Error: {response.status === 'error' ? 'Model failed to respond' : response.status === 'cancelled' ? 'Stopped by user' : 'Request timed out'}
                           </div>
                         )}
                       </div>
+                      {response.quality && <QualityBreakdown quality={response.quality} />}
                     </div>
                   )}
                 </div>
@@ -280,7 +353,158 @@ export default function FusionComparison({ fusionData, fusedResponse }: FusionCo
             </div>
           </div>
         )}
+
+        {/* Debate Tab */}
+        {activeTab === 'debate' && (
+          <div className="space-y-6">
+            <div className="space-y-3">
+              <h4 className="font-medium text-gray-900 dark:text-white">Points of Disagreement</h4>
+              {disagreements.length === 0 ? (
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  The models agreed on every point.
+                </p>
+              ) : (
+                disagreements.map((disagreement, index) => (
+                  <div key={index} className="border border-gray-200 dark:border-gray-700 rounded-lg p-4">
+                    <div className="font-medium text-gray-900 dark:text-white mb-2">
+                      {disagreement.topic}
+                    </div>
+                    <ul className="space-y-1 mb-3 text-sm text-gray-700 dark:text-gray-300">
+                      {disagreement.positions.map((position, positionIndex) => (
+                        <li key={positionIndex}>
+                          <span className="font-medium">{position.model}:</span> {position.position}
+                        </li>
+                      ))}
+                    </ul>
+                    {disagreement.resolution && (
+                      <div className="text-sm bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-300 rounded p-2">
+                        <span className="font-medium">Resolution:</span> {disagreement.resolution}
+                      </div>
+                    )}
+                  </div>
+                ))
+              )}
+            </div>
+
+            {rebuttals.length > 0 && (
+              <div className="space-y-3">
+                <h4 className="font-medium text-gray-900 dark:text-white">Rebuttals</h4>
+                {rebuttals.map((rebuttal, index) => (
+                  <div key={index} className="border border-gray-200 dark:border-gray-700 rounded-lg p-4">
+                    <div className="flex items-center space-x-2 mb-2">
+                      <span className="font-medium text-gray-900 dark:text-white">
+                        {rebuttal.modelName}
+                      </span>
+                      <span className={`px-2 py-1 rounded text-xs font-medium ${getStanceStyle(rebuttal.stance)}`}>
+                        {rebuttal.stance}
+                      </span>
+                    </div>
+                    <div className="prose prose-sm max-w-none dark:prose-invert text-gray-700 dark:text-gray-300">
+                      {rebuttal.response}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Tool Calls Tab */}
+        {activeTab === 'tools' && (
+          <div className="space-y-3">
+            {toolInvocations.map((invocation, index) => (
+              <div key={index} className="border border-gray-200 dark:border-gray-700 rounded-lg p-4">
+                <div className="flex items-center justify-between mb-2">
+                  <div className="flex items-center space-x-2">
+                    <span className="font-mono text-sm font-medium text-gray-900 dark:text-white">
+                      {invocation.tool}
+                    </span>
+                    <span className="text-xs text-gray-500 dark:text-gray-400">
+                      by {invocation.modelName} • round {invocation.round} • {invocation.durationMs}ms
+                    </span>
+                  </div>
+                  <div className={`w-2 h-2 rounded-full ${invocation.status === 'success' ? 'bg-green-500' : 'bg-red-500'}`}></div>
+                </div>
+                <pre className="text-xs bg-gray-50 dark:bg-gray-900 rounded p-2 mb-2 overflow-x-auto whitespace-pre-wrap">
+                  {JSON.stringify(invocation.arguments, null, 2)}
+                </pre>
+                <pre className={`text-xs rounded p-2 overflow-x-auto whitespace-pre-wrap max-h-48 ${
+                  invocation.status === 'success'
+                    ? 'bg-green-50 dark:bg-green-900/20 text-gray-800 dark:text-gray-200'
+                    : 'bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300'
+                }`}>
+                  {invocation.result}
+                </pre>
+              </div>
+            ))}
+          </div>
+        )}
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+// Why an answer scored what it did: each evaluator's score and the components behind it
+function QualityBreakdown({ quality }: { quality: QualityReport }) {
+  return (
+    <div className="mt-3 space-y-3" onClick={event => event.stopPropagation()}>
+      <h4 className="text-sm font-medium text-gray-900 dark:text-white">
+        Score breakdown: {Math.round(quality.score * 100)}%
+      </h4>
+      {quality.evaluations.map(evaluation => (
+        <div key={evaluation.evaluator} className="border border-gray-200 dark:border-gray-700 rounded-lg p-3">
+          <div className="flex items-center justify-between mb-2 text-sm">
+            <span className="font-medium capitalize text-gray-800 dark:text-gray-200">{evaluation.evaluator}</span>
+            <span className="text-gray-600 dark:text-gray-400">{Math.round(evaluation.score * 100)}%</span>
+          </div>
+          <ul className="space-y-1 text-xs text-gray-600 dark:text-gray-400">
+            {evaluation.breakdown.map(component => (
+              <li key={component.name} className="flex items-start justify-between gap-3">
+                <span>
+                  <span className="font-medium text-gray-700 dark:text-gray-300">{component.name}</span>
+                  {' '}({Math.round(component.weight * 100)}% weight): {component.detail}
+                </span>
+                <span className="shrink-0">{Math.round(component.score * 100)}%</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+
+// Fused answer with each attributed sentence highlighted in its main source's color. Sentences are
+// found by text, not offset, because the displayed answer may have been sanitized after fusion.
+function ProvenanceText({ text, attributions, sourceColors }: {
+  text: string;
+  attributions: FusionAttribution[];
+  sourceColors: Record<string, string>;
+}) {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+
+  attributions.forEach((attribution, index) => {
+    const start = text.indexOf(attribution.text, cursor);
+    if (start === -1) return;
+
+    if (start > cursor) parts.push(text.slice(cursor, start));
+    const title = attribution.synthesisOnly
+      ? 'Not found in any model answer: added by the synthesis'
+      : attribution.sources.map(source => `${source.modelName}: ${Math.round(source.similarity * 100)}% similar`).join('\n');
+    parts.push(
+      <span
+        key={index}
+        title={title}
+        className={`rounded px-0.5 ${attribution.synthesisOnly ? SYNTHESIS_ONLY_STYLE : sourceColors[attribution.sources[0].model] ?? ''}`}
+      >
+        {attribution.text}
+      </span>
+    );
+    cursor = start + attribution.text.length;
+  });
+
+  parts.push(text.slice(cursor));
+  return <>{parts}</>;
+}
@@ -1,29 +1,25 @@
 'use client';
 
 import React from 'react';
+import { modelRegistry } from '@/lib/modelRegistry';
 
 interface FusionProgressProps {
   progress: {
-    stage: 'initializing' | 'querying' | 'synthesizing' | 'completed' | 'error';
+    stage: 'initializing' | 'querying' | 'synthesizing' | 'iterating' | 'debating' | 'completed' | 'error';
     modelProgress: { [modelId: string]: number };
     synthesisProgress: number;
     message: string;
   };
 }
 
-const modelNames: { [key: string]: { name: string; icon: string; color: string } } = {
-  'meta-llama/llama-3.3-70b-instruct:free': { name: 'Llama 70B', icon: '🧠', color: 'bg-blue-500' },
-  'meta-llama/llama-3.3-8b-instruct:free': { name: 'Llama 8B', icon: '⚡', color: 'bg-green-500' },
-  'microsoft/wizardlm-2-8x22b:free': { name: 'WizardLM', icon: '✨', color: 'bg-purple-500' },
-  'openai/gpt-oss-20b:free': { name: 'GPT OSS', icon: '🤖', color: 'bg-orange-500' }
-};
-
 export default function FusionProgress({ progress }: FusionProgressProps) {
   const getStageIcon = (stage: string) => {
     switch (stage) {
       case 'initializing': return '🚀';
       case 'querying': return '🔄';
       case 'synthesizing': return '🧬';
+      case 'iterating': return '🔁';
+      case 'debating': return '⚖️';
       case 'completed': return '✅';
       case 'error': return '❌';
       default: return '⚙️';
@@ -35,6 +31,8 @@ export default function FusionProgress({ progress }: FusionProgressProps) {
       case 'initializing': return 'Initializing Fusion Engine...';
       case 'querying': return 'Querying AI Models in Parallel...';
       case 'synthesizing': return 'Synthesizing Enhanced Response...';
+      case 'iterating': return 'Refining Draft with Critique...';
+      case 'debating': return 'Models Are Debating...';
       case 'completed': return 'Fusion Complete!';
       case 'error': return 'Fusion Error';
       default: return 'Processing...';
@@ -63,8 +61,9 @@ export default function FusionProgress({ progress }: FusionProgressProps) {
             AI Model Processing:
           </h4>
           {Object.entries(progress.modelProgress).map(([modelId, modelProgress]) => {
-            const model = modelNames[modelId];
-            if (!model) return null;
+            const definition = modelRegistry.get(modelId);
+            if (!definition) return null;
+            const model = { name: definition.shortName, icon: definition.icon, color: definition.color };
             
             return (
               <div key={modelId} className="flex items-center space-x-3">
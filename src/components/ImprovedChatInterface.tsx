@@ -1,10 +1,21 @@
 'use client';
 
-import { useState, useRef, useEffect, useCallback } from 'react';
-import { Message, SystemHealth, QueryAnalysis, RoutingDecision } from '@/types/chat';
+import { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { Message, SystemHealth, QueryAnalysis, RoutingDecision, WebSource, FusionDetails, UsageSummary, ConversationSummary, AnswerOptions } from '@/types/chat';
 import { smartChatAgent, SmartRecommendation } from '@/lib/SmartChatAgent';
 import { conversationManager } from '@/lib/ConversationContext';
+import { readSSEStream } from '@/lib/sse';
+import { Conversation, syncConversations, messageSync, renameConversation, deleteConversation, setActiveBranch } from '@/lib/conversationApi';
+import type { FusionProgress as FusionProgressEvent } from '@/lib/FusionEngine';
+import { importConversations, ImportError, IMPORT_SOURCES } from '@/lib/import';
+import { pluralize } from '@/lib/export/common';
+import { ConversationSearchIndex, SearchFilters, SearchHit } from '@/lib/conversationSearch';
+import { buildMessageTree, getActiveBranch, getBranchTo, getLatestLeaf, getSiblings } from '@/lib/messageTree';
 import RichMessageRenderer from './RichMessageRenderer';
+import FusionComparison from './FusionComparison';
+import SystemStatusPanel, { getHealthDotClass, getHealthLabel } from './SystemStatusPanel';
+import ExportDialog from './ExportDialog';
+import RegenerateDialog, { describeAnswerOptions } from './RegenerateDialog';
 // import FusionProgress from './FusionProgress';
 import { Button } from './ui/button';
 import { Card, CardContent } from './ui/card';
@@ -15,7 +26,8 @@ import Link from 'next/link';
 interface ChatHistory {
   id: string;
   title: string;
-  messages: Message[];
+  messages: Message[]; // Every branch; see messageTree
+  activeLeafId?: string;
   lastUpdate: Date;
   createdAt: Date;
 }
@@ -29,9 +41,64 @@ interface ChatInterfaceProps {
   className?: string;
 }
 
+const toConversation = (chat: ChatHistory): Conversation => ({
+  id: chat.id,
+  title: chat.title,
+  messages: chat.messages,
+  createdAt: chat.createdAt.toISOString(),
+  updatedAt: chat.lastUpdate.toISOString(),
+  activeLeafId: chat.activeLeafId
+});
+
+const toSummary = (chat: ChatHistory): ConversationSummary => ({
+  id: chat.id,
+  title: chat.title,
+  messageCount: chat.messages.length,
+  createdAt: chat.createdAt.toISOString(),
+  updatedAt: chat.lastUpdate.toISOString()
+});
+
+const toChatHistory = (conversation: Conversation): ChatHistory => ({
+  id: conversation.id,
+  title: conversation.title,
+  messages: conversation.messages,
+  activeLeafId: conversation.activeLeafId,
+  createdAt: new Date(conversation.createdAt),
+  lastUpdate: new Date(conversation.updatedAt)
+});
+
+// The branch on show follows the chat to other devices; if the server can't be told, it stays local
+const saveActiveBranch = (chatId: string, leafId: string) => {
+  setActiveBranch(chatId, leafId).catch(error => {
+    console.warn('⚠️ Could not save the branch on show:', (error as Error).message);
+  });
+};
+
+const countToolCalls = (fusion?: FusionDetails): number =>
+  fusion?.individualResponses.reduce((sum, response) => sum + (response.toolInvocations?.length || 0), 0) ?? 0;
+
+type SearchRange = 'any' | 'week' | 'month' | 'year';
+
+const SEARCH_RANGE_DAYS: Record<Exclude<SearchRange, 'any'>, number> = { week: 7, month: 31, year: 365 };
+
+// Final payload of POST /api/chat (the `done` event in streaming mode)
+interface ChatResponsePayload {
+  response: string;
+  model: string;
+  sources?: WebSource[];
+  webSearchUsed?: boolean;
+  dynamicRecommendations?: SmartRecommendation[];
+  fusion?: FusionDetails;
+  usage?: UsageSummary;
+  requestId?: string;
+  cancelled?: boolean;
+  error?: string;
+}
+
 export default function ImprovedChatInterface({ className = '' }: ChatInterfaceProps) {
   // Core state
-  const [messages, setMessages] = useState<Message[]>([]);
+  const [messages, setMessages] = useState<Message[]>([]); // Every branch of the open chat
+  const [activeLeafId, setActiveLeafId] = useState<string | undefined>(undefined);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
@@ -42,10 +109,21 @@ export default function ImprovedChatInterface({ className = '' }: ChatInterfaceP
   const [showSidebar, setShowSidebar] = useState<boolean>(true);
   const [editingTitleId, setEditingTitleId] = useState<string>('');
   const [editingTitle, setEditingTitle] = useState<string>('');
+  const [exportTarget, setExportTarget] = useState<Conversation[] | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchRange, setSearchRange] = useState<SearchRange>('any');
+  const [searchModel, setSearchModel] = useState('');
+  const [searchWeb, setSearchWeb] = useState<'any' | 'yes' | 'no'>('any');
+  const [highlightedMessageId, setHighlightedMessageId] = useState('');
+  const [editingMessageId, setEditingMessageId] = useState('');
+  const [editingContent, setEditingContent] = useState('');
+  const [regenerateTarget, setRegenerateTarget] = useState<Message | null>(null);
 
   // Enhanced features
   const [systemHealth, setSystemHealth] = useState<SystemHealth | null>(null);
+  const [showSystemStatus, setShowSystemStatus] = useState(false);
   const [webSearchEnabled, setWebSearchEnabled] = useState(false);
+  const [toolsEnabled, setToolsEnabled] = useState(false);
   const [currentStrategy, setCurrentStrategy] = useState<string>('auto');
   const [processingStage, setProcessingStage] = useState<string>('');
   const [confidence, setConfidence] = useState<number>(0);
@@ -54,6 +132,10 @@ export default function ImprovedChatInterface({ className = '' }: ChatInterfaceP
   const [thinkingDots, setThinkingDots] = useState<number>(1);
   const [dynamicLoadingMessage, setDynamicLoadingMessage] = useState<string>('');
   const [processingKeywords, setProcessingKeywords] = useState<string[]>([]);
+  const [streamingMessageId, setStreamingMessageId] = useState<string>('');
+  const [isStopping, setIsStopping] = useState(false);
+  const [expandedFusionId, setExpandedFusionId] = useState<string>('');
+  const activeRequestIdRef = useRef<string>('');
   
   // Smart Agent features
   const [smartRecommendations, setSmartRecommendations] = useState<SmartRecommendation[]>([]);
@@ -68,10 +150,19 @@ export default function ImprovedChatInterface({ className = '' }: ChatInterfaceP
 
   // Refs
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const currentChatIdRef = useRef('');
   const inputRef = useRef<HTMLTextAreaElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const searchIndexRef = useRef(new ConversationSearchIndex());
+  const scrollTargetRef = useRef(''); // Message a search hit opens at, instead of the bottom
+
+  // What is shown and sent as context is the active branch, not every message
+  const tree = useMemo(() => buildMessageTree(messages), [messages]);
+  const branch = useMemo(() => getActiveBranch(messages, activeLeafId), [messages, activeLeafId]);
 
   // Conversation management functions
-  const loadConversationsFromStorage = useCallback(() => {
+  // localStorage is the offline copy: shown at once, then replaced by the server's conversations
+  const loadConversationsFromStorage = useCallback((): ConversationStorage | null => {
     try {
       const saved = localStorage.getItem('chatqora-conversations');
       if (saved) {
@@ -95,11 +186,14 @@ export default function ImprovedChatInterface({ className = '' }: ChatInterfaceP
         if (parsed.currentChatId && chatsWithDates[parsed.currentChatId]) {
           setCurrentChatId(parsed.currentChatId);
           setMessages(chatsWithDates[parsed.currentChatId].messages);
+          setActiveLeafId(chatsWithDates[parsed.currentChatId].activeLeafId);
         }
+        return { currentChatId: parsed.currentChatId, chats: chatsWithDates };
       }
     } catch (error) {
       console.error('Failed to load conversations:', error);
     }
+    return null;
   }, []);
 
   const saveConversationsToStorage = useCallback((chats: { [chatId: string]: ChatHistory }, currentId: string) => {
@@ -114,6 +208,52 @@ export default function ImprovedChatInterface({ className = '' }: ChatInterfaceP
     }
   }, []);
 
+  const syncWithServer = useCallback(async (cached: ConversationStorage | null) => {
+    try {
+      const conversations = await syncConversations(Object.values(cached?.chats ?? {}).map(toConversation));
+      const serverChats = Object.fromEntries(conversations.map(conversation => [conversation.id, toChatHistory(conversation)]));
+
+      // Chats created since the page loaded aren't on the server until their first message
+      setChatHistory(prev => {
+        const merged = { ...prev, ...serverChats };
+        saveConversationsToStorage(merged, currentChatIdRef.current);
+        return merged;
+      });
+
+      // Another device may have continued the open chat
+      const current = serverChats[currentChatIdRef.current];
+      if (current) {
+        setMessages(prev => (current.messages.length > prev.length ? current.messages : prev));
+      }
+      console.log(`☁️ Synced ${conversations.length} conversations with the server`);
+    } catch (error) {
+      console.warn('⚠️ Conversations server unreachable, using the offline copy:', (error as Error).message);
+    }
+  }, [saveConversationsToStorage]);
+
+  // Imported chats join the offline copy and reach the server through the usual sync
+  const importChats = useCallback(async (file: File) => {
+    try {
+      const { source, conversations, skipped } = importConversations(JSON.parse(await file.text()));
+      const added = conversations.filter(conversation => !chatHistory[conversation.id]);
+      const updatedChats = { ...chatHistory, ...Object.fromEntries(added.map(conversation => [conversation.id, toChatHistory(conversation)])) };
+      setChatHistory(updatedChats);
+      saveConversationsToStorage(updatedChats, currentChatId);
+
+      const alreadyImported = conversations.length - added.length;
+      setCopyNotification(`Imported ${pluralize(added.length, 'chat')} from ${IMPORT_SOURCES[source]}${alreadyImported > 0 ? ` (${alreadyImported} already here)` : ''}`);
+      setTimeout(() => setCopyNotification(''), 3000);
+      console.log(`📥 Imported ${added.length} chats from ${IMPORT_SOURCES[source]}, ${alreadyImported} already here, ${skipped} empty or too long`);
+
+      if (added.length > 0) await syncWithServer({ currentChatId, chats: updatedChats });
+    } catch (error) {
+      console.error('Failed to import conversations:', error);
+      setError(error instanceof ImportError
+        ? error.message
+        : error instanceof SyntaxError ? 'That file is not valid JSON.' : 'Failed to import conversations.');
+    }
+  }, [chatHistory, currentChatId, saveConversationsToStorage, syncWithServer]);
+
   const generateChatTitle = useCallback((firstMessage: string): string => {
     // Generate title from first message (truncate and clean)
     const title = firstMessage
@@ -137,6 +277,7 @@ export default function ImprovedChatInterface({ className = '' }: ChatInterfaceP
     setChatHistory(updatedChats);
     setCurrentChatId(newChatId);
     setMessages([]);
+    setActiveLeafId(undefined);
     setError('');
     setSmartRecommendations([]);
     
@@ -144,13 +285,18 @@ export default function ImprovedChatInterface({ className = '' }: ChatInterfaceP
     conversationManager.initializeConversation(newChatId, []);
     
     saveConversationsToStorage(updatedChats, newChatId);
+    // Not on the server yet; its first message creates it there
+    messageSync.markSynced(newChatId, 0);
     console.log('📝 Created new chat:', newChatId);
   }, [chatHistory, saveConversationsToStorage]);
 
-  const switchToChat = useCallback((chatId: string) => {
+  // leafId shows another branch than the one the chat was left on
+  const switchToChat = useCallback((chatId: string, leafId?: string) => {
     if (chatHistory[chatId]) {
+      const shownLeafId = leafId ?? chatHistory[chatId].activeLeafId;
       setCurrentChatId(chatId);
       setMessages(chatHistory[chatId].messages);
+      setActiveLeafId(shownLeafId);
       setError('');
       setSmartRecommendations([]);
       
@@ -160,9 +306,10 @@ export default function ImprovedChatInterface({ className = '' }: ChatInterfaceP
       }
       
       // Update conversation context
-      conversationManager.initializeConversation(chatId, chatHistory[chatId].messages);
+      conversationManager.initializeConversation(chatId, getActiveBranch(chatHistory[chatId].messages, shownLeafId));
       
       saveConversationsToStorage(chatHistory, chatId);
+      if (leafId) saveActiveBranch(chatId, leafId);
       console.log('🔄 Switched to chat:', chatId);
     }
   }, [chatHistory, saveConversationsToStorage]);
@@ -181,6 +328,7 @@ export default function ImprovedChatInterface({ className = '' }: ChatInterfaceP
         )[0];
         setCurrentChatId(latestChatId);
         setMessages(updatedChats[latestChatId].messages);
+        setActiveLeafId(updatedChats[latestChatId].activeLeafId);
         saveConversationsToStorage(updatedChats, latestChatId);
       } else {
         createNewChat();
@@ -190,6 +338,9 @@ export default function ImprovedChatInterface({ className = '' }: ChatInterfaceP
       saveConversationsToStorage(updatedChats, currentChatId);
     }
     
+    deleteConversation(chatId).catch(error => {
+      console.warn('⚠️ Could not delete chat on the server:', (error as Error).message);
+    });
     console.log('🗑️ Deleted chat:', chatId);
   }, [chatHistory, currentChatId, saveConversationsToStorage, createNewChat]);
 
@@ -205,18 +356,27 @@ export default function ImprovedChatInterface({ className = '' }: ChatInterfaceP
       };
       setChatHistory(updatedChats);
       saveConversationsToStorage(updatedChats, currentChatId);
+      // A chat without messages isn't on the server yet and gets its title when it is created
+      if (updatedChats[chatId].messages.length > 0) {
+        renameConversation(chatId, newTitle.trim()).catch(error => {
+          console.warn('⚠️ Could not rename chat on the server:', (error as Error).message);
+        });
+      }
       console.log('✏️ Updated chat title:', chatId, newTitle);
     }
     setEditingTitleId('');
     setEditingTitle('');
   }, [chatHistory, currentChatId, saveConversationsToStorage]);
 
-  const updateCurrentChatWithMessages = useCallback((newMessages: Message[]) => {
+  const updateCurrentChatWithMessages = useCallback((newMessages: Message[], leafId?: string) => {
     if (currentChatId && chatHistory[currentChatId]) {
+      const chat = chatHistory[currentChatId];
       const updatedChat: ChatHistory = {
-        ...chatHistory[currentChatId],
+        ...chat,
         messages: newMessages,
-        lastUpdate: new Date(),
+        activeLeafId: leafId,
+        // Showing another branch isn't an update
+        lastUpdate: newMessages === chat.messages ? chat.lastUpdate : new Date(),
         // Update title if this is the first message
         title: newMessages.length === 1 ? generateChatTitle(newMessages[0].content) : chatHistory[currentChatId].title
       };
@@ -226,7 +386,7 @@ export default function ImprovedChatInterface({ className = '' }: ChatInterfaceP
       saveConversationsToStorage(updatedChats, currentChatId);
       
       // Update conversation context
-      newMessages.forEach(msg => {
+      getActiveBranch(newMessages, leafId).forEach(msg => {
         conversationManager.addMessage(currentChatId, msg);
       });
     }
@@ -235,17 +395,18 @@ export default function ImprovedChatInterface({ className = '' }: ChatInterfaceP
   const loadUsageHints = useCallback(async () => {
     try {
       const hints = smartChatAgent.generateUsageSuggestions({
-        previousQueries: messages.map(m => m.content).slice(-10)
+        previousQueries: branch.map(m => m.content).slice(-10)
       });
       setUsageHints(hints);
     } catch (error) {
       console.error('Failed to load usage hints:', error);
     }
-  }, [messages]);
+  }, [branch]);
 
   useEffect(() => {
     // Load conversations from storage first
-    loadConversationsFromStorage();
+    const cachedConversations = loadConversationsFromStorage();
+    syncWithServer(cachedConversations);
     
     // If no conversations exist, create a new chat
     const saved = localStorage.getItem('chatqora-conversations');
@@ -279,6 +440,7 @@ export default function ImprovedChatInterface({ className = '' }: ChatInterfaceP
       conversationManager.initializeConversation(newChatId, []);
       
       saveConversationsToStorage(updatedChats, newChatId);
+      messageSync.markSynced(newChatId, 0);
       
       setInput(initialMessage);
       // Auto-send the message after a brief delay
@@ -311,25 +473,89 @@ export default function ImprovedChatInterface({ className = '' }: ChatInterfaceP
   // Save conversation when messages change
   useEffect(() => {
     if (messages.length > 0 && currentChatId) {
-      updateCurrentChatWithMessages(messages);
+      updateCurrentChatWithMessages(messages, activeLeafId);
     }
-  }, [messages, currentChatId]);
+  }, [messages, activeLeafId, currentChatId]);
+
+  useEffect(() => {
+    currentChatIdRef.current = currentChatId;
+  }, [currentChatId]);
+
+  // The server only gets finished messages, not every streamed token
+  useEffect(() => {
+    if (!isLoading && currentChatId) {
+      messageSync.push(currentChatId, messages, chatHistory[currentChatId]?.title);
+    }
+  }, [messages, isLoading, currentChatId, chatHistory]);
+
+  // Scrolls to the message a search hit opened at, if any; false when there was none
+  const scrollToTarget = (): boolean => {
+    const target = scrollTargetRef.current;
+    if (!target) return false;
+    scrollTargetRef.current = '';
+    document.getElementById(`message-${target}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    return true;
+  };
 
   useEffect(() => {
+    if (scrollToTarget()) return;
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
 
-  const fetchSystemHealth = async () => {
+  // Flipping to another version leaves the scroll position alone, unless a search hit asked for it
+  useEffect(() => {
+    scrollToTarget();
+  }, [activeLeafId]);
+
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const timer = setTimeout(() => setHighlightedMessageId(''), 2500);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId]);
+
+  // The index follows the offline copy, which holds the server's conversations once synced
+  const searchResults = useMemo(() => {
+    if (!searchQuery.trim()) return null;
+    const index = searchIndexRef.current;
+    index.sync(Object.values(chatHistory).map(toSummary), id => chatHistory[id] && toConversation(chatHistory[id]));
+
+    const filters: SearchFilters = {};
+    if (searchRange !== 'any') filters.from = new Date(Date.now() - SEARCH_RANGE_DAYS[searchRange] * 24 * 60 * 60 * 1000).toISOString();
+    if (searchModel) filters.model = searchModel;
+    if (searchWeb !== 'any') filters.webSearch = searchWeb === 'yes';
+    return { ...index.search(searchQuery, filters), models: index.getModels() };
+  }, [chatHistory, searchQuery, searchRange, searchModel, searchWeb]);
+
+  // Shows the branch ending at leafId in the open chat
+  const selectBranch = (leafId: string) => {
+    setActiveLeafId(leafId);
+    saveActiveBranch(currentChatId, leafId);
+  };
+
+  const openSearchHit = (hit: SearchHit) => {
+    setHighlightedMessageId(hit.messageId);
+    const isOpen = hit.conversationId === currentChatId;
+    const chat = isOpen ? { messages, activeLeafId } : chatHistory[hit.conversationId];
+    // A hit on a branch that isn't on show shows that branch
+    const leafId = chat && !getActiveBranch(chat.messages, chat.activeLeafId).some(message => message.id === hit.messageId)
+      ? getLatestLeaf(buildMessageTree(chat.messages), hit.messageId)
+      : undefined;
+
+    if (isOpen && !leafId) {
+      document.getElementById(`message-${hit.messageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      return;
+    }
+    scrollTargetRef.current = hit.messageId;
+    if (isOpen) selectBranch(leafId!);
+    else switchToChat(hit.conversationId, leafId);
+  };
+
+  // Probe results from the server's health prober; `probe` waits for a fresh round of probes
+  const fetchSystemHealth = async (probe = false) => {
     try {
       const { healthCheckService } = await import('@/lib/healthCheck');
-      const healthStatus = await healthCheckService.getHealth();
-      // Convert simple health status to SystemHealth object
-      setSystemHealth({
-        models: {},
-        fusion: { strategiesAvailable: ['single', 'sequential'], averageProcessingTime: 0, successRate: 100 },
-        search: { providersOnline: ['default'], averageQueryTime: 0, cacheHitRate: 0 },
-        overall: { status: healthStatus === 'good' ? 'optimal' : healthStatus === 'degraded' ? 'degraded' : 'critical', score: healthStatus === 'good' ? 100 : healthStatus === 'degraded' ? 50 : 0, uptime: 100, activeConnections: 1 }
-      });
+      const health = await healthCheckService.getHealth(probe);
+      if (health) setSystemHealth(health);
     } catch (error) {
       console.error('Failed to fetch system health:', error);
     }
@@ -417,7 +643,7 @@ export default function ImprovedChatInterface({ className = '' }: ChatInterfaceP
       }, 500);
       
       messageInterval = setInterval(() => {
-        const lastMessage = messages[messages.length - 1];
+        const lastMessage = branch[branch.length - 1];
         const userQuery = lastMessage?.role === 'user' ? lastMessage.content : '';
         const dynamic = getDynamicProcessingMessages(processingProgress, userQuery);
         setDynamicLoadingMessage(dynamic.message);
@@ -432,83 +658,30 @@ export default function ImprovedChatInterface({ className = '' }: ChatInterfaceP
       clearInterval(interval);
       clearInterval(messageInterval);
     };
-  }, [isLoading, processingProgress, messages]);
-
-  // Enhanced processing stages simulation
-  const simulateProcessingStages = (message: string) => {
-    const hasComplexWords = /\b(analyze|compare|comprehensive|detailed|complex|advanced|technical|algorithm|implementation)\b/i.test(message);
-    const loadingStages = getDynamicLoadingStages(message.length, hasComplexWords);
-    
-    let currentStageIndex = 0;
-    const stageInterval = setInterval(() => {
-      if (currentStageIndex < loadingStages.length) {
-        const stage = loadingStages[currentStageIndex];
-        setProcessingStage(stage.stage);
-        setActiveModel(stage.model);
-        setProcessingProgress(stage.progress);
-        currentStageIndex++;
-      } else {
-        clearInterval(stageInterval);
+  }, [isLoading, processingProgress, branch]);
+
+  // Maps a streamed FusionProgress event onto the 0-100 progress bar
+  const getFusionProgressPercent = (progress: FusionProgressEvent): number => {
+    switch (progress.stage) {
+      case 'initializing':
+        return 5;
+      case 'querying':
+      case 'early_completion': {
+        const total = progress.totalModels || Object.keys(progress.modelProgress).length || 1;
+        const completed = progress.completedModels ?? Object.values(progress.modelProgress).filter(p => p >= 100).length;
+        return Math.round(10 + (completed / total) * 50);
       }
-    }, getVariableStageDelay(currentStageIndex, loadingStages.length));
-
-    return stageInterval;
-  };
-
-  // Enhanced dynamic loading stages
-  const getDynamicLoadingStages = (queryLength: number, hasComplexWords: boolean) => {
-    const baseStages = [
-      { stage: 'Initializing request handler...', model: 'Neural Gateway', progress: 3 },
-      { stage: 'Parsing query semantics...', model: 'Language Processor', progress: 8 },
-      { stage: 'Analyzing complexity metrics...', model: 'Smart Router', progress: 15 },
-    ];
-
-    if (queryLength > 200 || hasComplexWords) {
-      const complexStages = [
-        { stage: 'Engaging ChatQora reasoning matrix...', model: 'ChatQora Core Prime', progress: 25 },
-        { stage: 'Activating deep analysis modules...', model: 'ChatQora Cognitive Engine', progress: 35 },
-        { stage: 'Processing multi-dimensional context...', model: 'Context Analyzer', progress: 45 },
-        { stage: 'Synthesizing comprehensive insights...', model: 'Knowledge Synthesizer', progress: 60 },
-        { stage: 'Cross-referencing expert databases...', model: 'Domain Specialist', progress: 75 }
-      ];
-      baseStages.push(...complexStages);
-    } else if (queryLength < 50) {
-      const quickStages = [
-        { stage: 'Spinning up ChatQora rapid core...', model: 'ChatQora Lightning', progress: 25 },
-        { stage: 'Executing fast-track processing...', model: 'Speed Optimizer', progress: 45 },
-        { stage: 'Delivering instant insights...', model: 'Rapid Response Unit', progress: 65 }
-      ];
-      baseStages.push(...quickStages);
-    } else {
-      const standardStages = [
-        { stage: 'Initializing multi-core processing...', model: 'ChatQora Fusion Core', progress: 25 },
-        { stage: 'Coordinating AI model collaboration...', model: 'Model Orchestrator', progress: 35 },
-        { stage: 'Executing parallel computation...', model: 'Distributed Processor', progress: 50 },
-        { stage: 'Integrating diverse perspectives...', model: 'Perspective Merger', progress: 65 }
-      ];
-      baseStages.push(...standardStages);
-    }
-
-    const finalStages = [
-      { stage: 'Conducting accuracy validation...', model: 'Quality Assurance AI', progress: 82 },
-      { stage: 'Optimizing user experience...', model: 'UX Enhancement Engine', progress: 88 },
-      { stage: 'Preparing intelligent delivery...', model: 'Smart Delivery System', progress: 94 },
-      { stage: 'Finalizing premium response...', model: 'Response Optimizer', progress: 98 }
-    ];
-
-    baseStages.push(...finalStages);
-    return baseStages;
-  };
-
-  const getVariableStageDelay = (stageIndex: number, totalStages: number): number => {
-    const progress = stageIndex / totalStages;
-    
-    if (progress < 0.2) {
-      return 300 + Math.random() * 200; // 300-500ms
-    } else if (progress < 0.7) {
-      return 600 + Math.random() * 400; // 600-1000ms
-    } else {
-      return 250 + Math.random() * 150; // 250-400ms
+      case 'iterating':
+        // Drafting fills the first part of the bar, each critique/revise round an equal share of the rest
+        return progress.iteration?.round ? Math.round(30 + progress.synthesisProgress * 0.65) : 15;
+      case 'debating':
+      case 'synthesizing':
+      case 'streaming':
+        return Math.round(60 + progress.synthesisProgress * 0.35);
+      case 'completed':
+        return 100;
+      default:
+        return 0;
     }
   };
 
@@ -516,6 +689,19 @@ export default function ImprovedChatInterface({ className = '' }: ChatInterfaceP
     e.preventDefault();
     if (!input.trim() || isLoading) return;
 
+    // Ensure we have a current chat
+    if (!currentChatId) {
+      createNewChat();
+      return;
+    }
+
+    const content = input.trim();
+    setInput('');
+    await askQuestion(content, branch);
+  };
+
+  // Adds a question after `history`, the branch it continues, and answers it
+  const askQuestion = async (content: string, history: Message[]) => {
     const correctionPatterns = [
       /actually.*is.*(\d{4})/i,
       /correct.*date.*is/i,
@@ -527,26 +713,32 @@ export default function ImprovedChatInterface({ className = '' }: ChatInterfaceP
       /that.*link.*doesn't.*work/i
     ];
     
-    const isCorrection = correctionPatterns.some(pattern => pattern.test(input.trim()));
+    const isCorrection = correctionPatterns.some(pattern => pattern.test(content));
 
     const userMessage: Message = {
       id: Date.now().toString(),
       role: 'user',
-      content: input.trim(),
+      content,
       timestamp: new Date(),
+      parentId: history[history.length - 1]?.id ?? null,
       metadata: {
         isCorrection
       }
     };
 
-    // Ensure we have a current chat
-    if (!currentChatId) {
-      createNewChat();
-      return;
-    }
-
+    // The newest message's branch is the one on show
     setMessages(prev => [...prev, userMessage]);
-    setInput('');
+    setActiveLeafId(undefined);
+    await requestAnswer(userMessage, history);
+  };
+
+  /**
+   * Answers `userMessage` with `history` (the messages before it on its branch) as context.
+   * With `options` it regenerates: the models are asked again, as chosen, rather than reusing a
+   * contextual or cached answer. Resolves to whether an answer was added.
+   */
+  const requestAnswer = async (userMessage: Message, history: Message[], options?: AnswerOptions): Promise<boolean> => {
+    const regenerate = options !== undefined;
     setIsLoading(true);
     setError('');
     setProcessingStage('Analyzing query with Smart Agent...');
@@ -560,7 +752,7 @@ export default function ImprovedChatInterface({ className = '' }: ChatInterfaceP
     console.log('🤖 Smart routing decision:', shouldCallResult);
 
     // Try contextual response first for simple interactions
-    if (!shouldCallResult.shouldCall) {
+    if (!regenerate && !shouldCallResult.shouldCall) {
       const contextResponse = conversationManager.generateContextualResponse(userMessage.content, currentChatId);
       
       if (contextResponse) {
@@ -570,6 +762,7 @@ export default function ImprovedChatInterface({ className = '' }: ChatInterfaceP
           role: 'assistant',
           content: contextResponse,
           timestamp: new Date(),
+          parentId: userMessage.id,
           metadata: {
             fromCache: true,
             processingTime: 150,
@@ -584,18 +777,19 @@ export default function ImprovedChatInterface({ className = '' }: ChatInterfaceP
           console.log('✅ Used contextual response:', shouldCallResult.reason);
         }, 150);
         
-        return;
+        return true;
       }
     }
 
     // Check for cached response
     const cachedResponse = conversationManager.getCachedResponse(userMessage.content);
-    if (cachedResponse && shouldCallResult.reason === 'Cached response available') {
+    if (!regenerate && cachedResponse && shouldCallResult.reason === 'Cached response available') {
       const assistantMessage: Message = {
         id: (Date.now() + 1).toString(),
         role: 'assistant',
         content: cachedResponse,
         timestamp: new Date(),
+        parentId: userMessage.id,
         metadata: {
           fromCache: true,
           processingTime: 200,
@@ -610,15 +804,14 @@ export default function ImprovedChatInterface({ className = '' }: ChatInterfaceP
         console.log('✅ Used cached response for query');
       }, 200);
       
-      return;
+      return true;
     }
 
-    let stageInterval: NodeJS.Timeout | undefined;
-
+    let answered = false;
     try {
       const smartAnalysis = await smartChatAgent.processQuery(
         userMessage.content,
-        messages.slice(-5).map(m => m.content)
+        history.slice(-5).map(m => m.content)
       );
 
       setQueryAnalysis(smartAnalysis.analysis);
@@ -634,8 +827,10 @@ export default function ImprovedChatInterface({ className = '' }: ChatInterfaceP
       setCurrentStrategy(smartAnalysis.routing.strategy);
       setConfidence(smartAnalysis.routing.confidence);
 
-      stageInterval = simulateProcessingStages(userMessage.content);
       const startTime = Date.now();
+      const assistantMessageId = (Date.now() + 1).toString();
+      const requestId = `req_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`;
+      activeRequestIdRef.current = requestId;
       const response = await fetch('/api/chat', {
         method: 'POST',
         headers: {
@@ -643,10 +838,18 @@ export default function ImprovedChatInterface({ className = '' }: ChatInterfaceP
         },
         body: JSON.stringify({
           message: userMessage.content,
-          model: 'AI Fusion',
+          model: options?.model ?? 'AI Fusion',
+          fusionStrategy: options?.fusionStrategy,
+          models: options?.models,
+          maxResponseTime: options?.maxResponseTime,
+          qualityThreshold: options?.qualityThreshold,
+          regenerate: regenerate || undefined,
           enableWebSearch: webSearchEnabled,
+          tools: toolsEnabled || undefined,
           maxSources: 5,
-          conversationContext: [...messages, userMessage].slice(-6).map(msg => ({
+          stream: true,
+          requestId,
+          conversationContext: [...history, userMessage].slice(-6).map(msg => ({
             role: msg.role,
             content: msg.content,
             model: msg.metadata?.model,
@@ -655,74 +858,205 @@ export default function ImprovedChatInterface({ className = '' }: ChatInterfaceP
         }),
       });
 
-      if (!response.ok) {
-        throw new Error('Failed to get response');
+      if (!response.ok || !response.body) {
+        // Rate limit (429) and validation errors carry a sentence to show in details
+        const errorBody = await response.json().catch(() => null);
+        throw new Error(errorBody?.details || errorBody?.error || 'Failed to get response');
       }
 
-      const data = await response.json();
+      // Render the answer as it arrives: progress events drive the loading bubble,
+      // token events grow a placeholder assistant message, done carries the final payload
+      let streamedContent = '';
+      let data: ChatResponsePayload | null = null;
+      let streamError = '';
+
+      await readSSEStream(response.body, ({ event, data: rawData }) => {
+        const eventData = JSON.parse(rawData);
+
+        if (event === 'progress') {
+          const progress = eventData as FusionProgressEvent;
+          setProcessingStage(progress.message);
+          setProcessingProgress(getFusionProgressPercent(progress));
+          if (progress.totalModels) {
+            setActiveModel(`${progress.completedModels ?? 0}/${progress.totalModels} models`);
+          }
+        } else if (event === 'token') {
+          const isFirstToken = streamedContent.length === 0;
+          streamedContent += eventData.text;
+          const partialContent = streamedContent;
+
+          if (isFirstToken) {
+            setStreamingMessageId(assistantMessageId);
+            setMessages(prev => [...prev, {
+              id: assistantMessageId,
+              role: 'assistant',
+              content: partialContent,
+              timestamp: new Date(),
+              parentId: userMessage.id
+            }]);
+            setActiveLeafId(undefined);
+          } else {
+            setMessages(prev => prev.map(msg =>
+              msg.id === assistantMessageId ? { ...msg, content: partialContent } : msg
+            ));
+          }
+        } else if (event === 'done') {
+          data = eventData as ChatResponsePayload;
+        } else if (event === 'error') {
+          streamError = eventData.details || eventData.error || 'Unknown error';
+        }
+      });
+
+      const finalData = data as ChatResponsePayload | null;
       
-      if (data.response) {
+      if (finalData?.response) {
         const assistantMessage: Message = {
-          id: (Date.now() + 1).toString(),
+          id: assistantMessageId,
           role: 'assistant',
-          content: data.response,
+          content: finalData.response,
           timestamp: new Date(),
+          parentId: userMessage.id,
           metadata: {
-            model: data.model,
+            model: finalData.model,
             processingTime: Date.now() - startTime,
-            confidence: data.fusion ? data.fusion.confidence : smartAnalysis.routing.confidence,
-            sources: data.sources || [],
+            confidence: finalData.fusion ? finalData.fusion.confidence : smartAnalysis.routing.confidence,
+            sources: finalData.sources || [],
             analysis: smartAnalysis.analysis,
             routing: smartAnalysis.routing,
-            fusion: data.fusion || null
+            fusion: finalData.fusion || undefined,
+            usage: finalData.usage,
+            cancelled: finalData.cancelled || undefined,
+            answerOptions: options && Object.keys(options).length > 0 ? options : undefined
           }
         };
-        setMessages(prev => [...prev, assistantMessage]);
+        setMessages(prev => prev.some(msg => msg.id === assistantMessageId)
+          ? prev.map(msg => msg.id === assistantMessageId ? assistantMessage : msg)
+          : [...prev, assistantMessage]
+        );
+        setActiveLeafId(undefined);
+        answered = true;
         
-        // Cache response if appropriate
-        if (conversationManager.shouldCacheResponse(userMessage.content, data.response)) {
+        // Cache response if appropriate (never a partial answer)
+        if (!finalData.cancelled && conversationManager.shouldCacheResponse(userMessage.content, finalData.response)) {
           conversationManager.cacheResponse(
             userMessage.content, 
-            data.response, 
-            JSON.stringify({ model: data.model, webSearchUsed: data.webSearchUsed }), 
-            data.fusion ? data.fusion.confidence : 0.8
+            finalData.response, 
+            JSON.stringify({ model: finalData.model, webSearchUsed: finalData.webSearchUsed }), 
+            finalData.fusion ? finalData.fusion.confidence : 0.8
           );
           console.log('💾 Cached response for future use');
         }
         
-        const dynamicRecommendations = data.dynamicRecommendations || [];
+        const dynamicRecommendations = finalData.dynamicRecommendations || [];
         setSmartRecommendations(dynamicRecommendations);
         
         // Add to smart agent history
-        smartChatAgent.addToHistory('assistant', data.response, data.model, smartAnalysis.analysis);
+        smartChatAgent.addToHistory('assistant', finalData.response, finalData.model, smartAnalysis.analysis);
         loadUsageHints();
+      } else if (finalData?.cancelled) {
+        // Stopped before any model answered: nothing to keep
+        setMessages(prev => prev.filter(msg => msg.id !== assistantMessageId));
       } else {
-        throw new Error(data.error || 'Unknown error');
+        // Drop a half-streamed answer rather than leaving it looking complete
+        setMessages(prev => prev.filter(msg => msg.id !== assistantMessageId));
+        throw new Error(streamError || 'Unknown error');
       }
 
     } catch (error) {
       console.error('Chat error:', error);
       setError((error as Error).message || 'Something went wrong. Please try again.');
     } finally {
-      if (stageInterval) {
-        clearInterval(stageInterval);
-      }
+      activeRequestIdRef.current = '';
       setIsLoading(false);
+      setIsStopping(false);
+      setStreamingMessageId('');
       setProcessingStage('');
       setProcessingProgress(0);
       setActiveModel('');
     }
+    return answered;
+  };
+
+  // Asks the server to abort every model call for the in-flight request.
+  // The stream stays open and finishes with a 'done' event carrying the partial answer.
+  const stopGeneration = async () => {
+    const requestId = activeRequestIdRef.current;
+    if (!requestId || isStopping) return;
+
+    setIsStopping(true);
+    setProcessingStage('Stopping...');
+    try {
+      await fetch(`/api/chat?action=cancel&requestId=${encodeURIComponent(requestId)}`, {
+        method: 'DELETE'
+      });
+    } catch (error) {
+      console.error('Failed to cancel request:', error);
+      setIsStopping(false);
+    }
+  };
+
+  // Editing a question or regenerating an answer adds a new version beside the old one
+  const startEditing = (message: Message) => {
+    setEditingMessageId(message.id);
+    setEditingContent(message.content);
+  };
+
+  const submitEdit = async (original: Message) => {
+    const content = editingContent.trim();
+    setEditingMessageId('');
+    setEditingContent('');
+    if (!content || content === original.content || isLoading) return;
+    await askQuestion(content, getBranchTo(tree, original.id).slice(0, -1));
+  };
+
+  const regenerateAnswer = async (answer: Message, options: AnswerOptions) => {
+    setRegenerateTarget(null);
+    if (isLoading) return;
+    const history = getBranchTo(tree, answer.id).slice(0, -1);
+    const question = history.pop();
+    if (question?.role !== 'user') return;
+
+    // Until the new answer arrives the branch on show ends at the question
+    const previousLeafId = activeLeafId;
+    setActiveLeafId(question.id);
+    if (!(await requestAnswer(question, history, options))) setActiveLeafId(previousLeafId);
+  };
+
+  // Another version shows with the latest conversation that followed it
+  const showVersion = (version: Message) => {
+    if (!isLoading) selectBranch(getLatestLeaf(tree, version.id));
+  };
+
+  // A new chat holding the branch up to messageId, to carry on separately
+  const forkChat = (messageId: string) => {
+    const forked = getBranchTo(tree, messageId);
+    const newChatId = `chat-${Date.now()}`;
+    const newChat: ChatHistory = {
+      id: newChatId,
+      title: `${chatHistory[currentChatId]?.title ?? 'New Chat'} (fork)`,
+      messages: forked,
+      lastUpdate: new Date(),
+      createdAt: new Date()
+    };
+
+    const updatedChats = { ...chatHistory, [newChatId]: newChat };
+    setChatHistory(updatedChats);
+    setCurrentChatId(newChatId);
+    setMessages(forked);
+    setActiveLeafId(undefined);
+    setError('');
+    setSmartRecommendations([]);
+    conversationManager.initializeConversation(newChatId, forked);
+    saveConversationsToStorage(updatedChats, newChatId);
+    // Created on the server by the next push, like a new chat's first message
+    messageSync.markSynced(newChatId, 0);
+    console.log('🍴 Forked chat:', newChatId);
   };
 
   const clearChat = async () => {
     try {
-      if (currentChatId) {
-        await fetch(`/api/chat?action=clear&sessionId=${currentChatId}`, {
-          method: 'DELETE'
-        });
-      }
-      
-      // Create a new chat instead of just clearing
+      // Create a new chat instead of just clearing; the old one stays in the history, so its
+      // stored messages are kept too
       createNewChat();
     } catch (error) {
       console.error('Failed to clear chat:', error);
@@ -740,7 +1074,14 @@ export default function ImprovedChatInterface({ className = '' }: ChatInterfaceP
       sequential: '🔄',
       parallel: '⚡⚡',
       consensus: '🤝',
-      auto: '🎯'
+      auto: '🎯',
+      fast: '⚡',
+      adaptive: '🧠',
+      specialized: '🎓',
+      iterative: '🔁',
+      debate: '⚖️',
+      structured: '🧾',
+      streaming: '🌊'
     };
     return icons[strategy as keyof typeof icons] || '🤖';
   };
@@ -751,7 +1092,14 @@ export default function ImprovedChatInterface({ className = '' }: ChatInterfaceP
       sequential: 'Sequential Fusion',
       parallel: 'Parallel Fusion',
       consensus: 'Consensus Fusion',
-      auto: 'Smart Routing'
+      auto: 'Smart Routing',
+      fast: 'Fast Fusion',
+      adaptive: 'Adaptive Fusion',
+      specialized: 'Specialized Fusion',
+      iterative: 'Iterative Fusion',
+      debate: 'Debate Fusion',
+      structured: 'Structured Output',
+      streaming: 'Streaming Fusion'
     };
     return names[strategy as keyof typeof names] || 'Processing';
   };
@@ -770,7 +1118,57 @@ export default function ImprovedChatInterface({ className = '' }: ChatInterfaceP
   };
 
   // Claude-style Sidebar Content Component
-  const SidebarContent = () => {
+  // Called rather than rendered as a component, so the search box keeps its focus across re-renders
+  // Versions of a message (‹ 2/3 ›), then edit or regenerate, and fork into a new chat
+  const renderMessageActions = (message: Message) => {
+    const versions = getSiblings(tree, message.id);
+    const version = versions.indexOf(message);
+    const canRegenerate = message.role === 'assistant' && tree.byId.get(tree.parents.get(message.id) ?? '')?.role === 'user';
+    const actionClass = "px-1.5 py-0.5 rounded hover:bg-gray-100 dark:hover:bg-gray-800 hover:text-gray-700 dark:hover:text-gray-200 disabled:opacity-40 disabled:pointer-events-none";
+
+    return (
+      <div className={cn("mt-1 flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400", message.role === 'user' ? 'justify-end mr-4 sm:mr-8' : 'justify-start')}>
+        {versions.length > 1 && (
+          <div className="flex items-center" role="group" aria-label="Versions">
+            <button
+              onClick={() => showVersion(versions[version - 1])}
+              disabled={isLoading || version <= 0}
+              className={actionClass}
+              aria-label="Previous version"
+            >
+              ‹
+            </button>
+            <span className="tabular-nums">{version + 1}/{versions.length}</span>
+            <button
+              onClick={() => showVersion(versions[version + 1])}
+              disabled={isLoading || version >= versions.length - 1}
+              className={actionClass}
+              aria-label="Next version"
+            >
+              ›
+            </button>
+          </div>
+        )}
+        <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity duration-200">
+          {message.role === 'user' && (
+            <button onClick={() => startEditing(message)} disabled={isLoading} className={actionClass} title="Edit and ask again">
+              Edit
+            </button>
+          )}
+          {canRegenerate && (
+            <button onClick={() => setRegenerateTarget(message)} disabled={isLoading} className={actionClass} title="Ask for another answer">
+              Regenerate
+            </button>
+          )}
+          <button onClick={() => forkChat(message.id)} disabled={isLoading} className={actionClass} title="Continue from here in a new chat">
+            Fork
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  const renderSidebarContent = () => {
     const sortedChats = Object.values(chatHistory).sort((a, b) => 
       b.lastUpdate.getTime() - a.lastUpdate.getTime()
     );
@@ -844,92 +1242,213 @@ export default function ImprovedChatInterface({ className = '' }: ChatInterfaceP
 
         {/* Chat History Section */}
         <div className="flex-1 px-3 mt-6 overflow-y-auto">
-          <div className="mb-3">
-            <h3 className="px-3 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">
-              Recents
-            </h3>
+          <div className="mb-4 space-y-2">
+            <input
+              type="search"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              placeholder="Search chats"
+              aria-label="Search chats"
+              className="w-full px-3 py-1.5 text-sm bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-white placeholder-gray-400 rounded-lg border-none outline-none focus:ring-2 focus:ring-purple-500"
+            />
+            {searchQuery.trim() && (
+              <div className="flex gap-1 text-xs">
+                <select
+                  value={searchRange}
+                  onChange={(e) => setSearchRange(e.target.value as SearchRange)}
+                  aria-label="Date"
+                  className="flex-1 min-w-0 px-1 py-1 bg-gray-50 dark:bg-gray-800 text-gray-600 dark:text-gray-300 rounded border border-gray-200 dark:border-gray-700"
+                >
+                  <option value="any">Any time</option>
+                  <option value="week">Past week</option>
+                  <option value="month">Past month</option>
+                  <option value="year">Past year</option>
+                </select>
+                <select
+                  value={searchModel}
+                  onChange={(e) => setSearchModel(e.target.value)}
+                  aria-label="Model"
+                  className="flex-1 min-w-0 px-1 py-1 bg-gray-50 dark:bg-gray-800 text-gray-600 dark:text-gray-300 rounded border border-gray-200 dark:border-gray-700"
+                >
+                  <option value="">Any model</option>
+                  {searchResults?.models.map(model => <option key={model} value={model}>{model}</option>)}
+                </select>
+                <select
+                  value={searchWeb}
+                  onChange={(e) => setSearchWeb(e.target.value as 'any' | 'yes' | 'no')}
+                  aria-label="Web search"
+                  className="flex-1 min-w-0 px-1 py-1 bg-gray-50 dark:bg-gray-800 text-gray-600 dark:text-gray-300 rounded border border-gray-200 dark:border-gray-700"
+                >
+                  <option value="any">Web or not</option>
+                  <option value="yes">With web search</option>
+                  <option value="no">Without</option>
+                </select>
+              </div>
+            )}
           </div>
 
-          {sortedChats.length === 0 ? (
-            <div className="text-center py-8">
-              <p className="text-gray-400 dark:text-gray-500 text-sm">No conversations yet</p>
+          {searchResults ? (
+            <div aria-live="polite">
+              <h3 className="px-3 mb-2 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                {searchResults.total === 0 ? 'No matches' : pluralize(searchResults.total, 'match')}
+              </h3>
+              <div className="space-y-0.5">
+                {searchResults.hits.map(hit => (
+                  <button
+                    key={`${hit.conversationId}-${hit.messageId}`}
+                    onClick={() => openSearchHit(hit)}
+                    className="w-full text-left rounded-lg px-3 py-2 text-sm hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
+                  >
+                    <div className="flex items-baseline justify-between gap-2">
+                      <span className="truncate font-medium text-gray-900 dark:text-white">{hit.conversationTitle}</span>
+                      <span className="flex-shrink-0 text-xs text-gray-400">{new Date(hit.timestamp).toLocaleDateString()}</span>
+                    </div>
+                    <div className="mt-0.5 text-xs text-gray-500 dark:text-gray-400 line-clamp-3">
+                      <span className="font-medium">{hit.role === 'user' ? 'You' : 'ChatQora'}{hit.webSearch && ' 🌐'}: </span>
+                      {hit.snippet.map((part, index) => (
+                        part.highlight
+                          ? <mark key={index} className="bg-yellow-200 dark:bg-yellow-700/60 text-inherit rounded-sm">{part.text}</mark>
+                          : <span key={index}>{part.text}</span>
+                      ))}
+                    </div>
+                  </button>
+                ))}
+              </div>
             </div>
           ) : (
-            <div className="space-y-0.5">
-              {sortedChats.slice(0, 20).map((chat) => (
-                <div
-                  key={chat.id}
-                  className={cn(
-                    "group relative rounded-lg px-3 py-2 cursor-pointer transition-colors text-sm",
-                    currentChatId === chat.id
-                      ? "bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-white"
-                      : "text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-850"
+            <>
+              <div className="mb-3 flex items-center justify-between">
+                <h3 className="px-3 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Recents
+                </h3>
+                <div className="flex items-center">
+                  <button
+                    onClick={() => importInputRef.current?.click()}
+                    className="px-2 text-xs text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
+                    title="Import chats from a ChatGPT, Claude or ChatQora export"
+                  >
+                    Import
+                  </button>
+                  <input
+                    ref={importInputRef}
+                    type="file"
+                    accept=".json,application/json"
+                    className="hidden"
+                    aria-label="Import chats"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      e.target.value = '';
+                      if (file) importChats(file);
+                    }}
+                  />
+                  {sortedChats.length > 0 && (
+                    <button
+                      onClick={() => setExportTarget(sortedChats.map(toConversation))}
+                      className="px-2 text-xs text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
+                      title="Export all chats"
+                    >
+                      Export all
+                    </button>
                   )}
-                  onClick={() => switchToChat(chat.id)}
-                >
-                  <div className="flex items-center justify-between">
-                    <div className="flex-1 min-w-0">
-                      {editingTitleId === chat.id ? (
-                        <input
-                          type="text"
-                          value={editingTitle}
-                          onChange={(e) => setEditingTitle(e.target.value)}
-                          onBlur={() => updateChatTitle(chat.id, editingTitle)}
-                          onKeyDown={(e) => {
-                            if (e.key === 'Enter') {
-                              updateChatTitle(chat.id, editingTitle);
-                            } else if (e.key === 'Escape') {
-                              setEditingTitleId('');
-                              setEditingTitle('');
-                            }
-                          }}
-                          className="w-full bg-transparent border-none outline-none text-sm text-gray-900 dark:text-white"
-                          autoFocus
-                          onClick={(e) => e.stopPropagation()}
-                        />
-                      ) : (
-                        <div className="truncate pr-6">{chat.title}</div>
+                </div>
+              </div>
+
+              {sortedChats.length === 0 ? (
+                <div className="text-center py-8">
+                  <p className="text-gray-400 dark:text-gray-500 text-sm">No conversations yet</p>
+                </div>
+              ) : (
+                <div className="space-y-0.5">
+                  {sortedChats.slice(0, 20).map((chat) => (
+                    <div
+                      key={chat.id}
+                      className={cn(
+                        "group relative rounded-lg px-3 py-2 cursor-pointer transition-colors text-sm",
+                        currentChatId === chat.id
+                          ? "bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-white"
+                          : "text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-850"
                       )}
-                    </div>
+                      onClick={() => switchToChat(chat.id)}
+                    >
+                      <div className="flex items-center justify-between">
+                        <div className="flex-1 min-w-0">
+                          {editingTitleId === chat.id ? (
+                            <input
+                              type="text"
+                              value={editingTitle}
+                              onChange={(e) => setEditingTitle(e.target.value)}
+                              onBlur={() => updateChatTitle(chat.id, editingTitle)}
+                              onKeyDown={(e) => {
+                                if (e.key === 'Enter') {
+                                  updateChatTitle(chat.id, editingTitle);
+                                } else if (e.key === 'Escape') {
+                                  setEditingTitleId('');
+                                  setEditingTitle('');
+                                }
+                              }}
+                              className="w-full bg-transparent border-none outline-none text-sm text-gray-900 dark:text-white"
+                              autoFocus
+                              onClick={(e) => e.stopPropagation()}
+                            />
+                          ) : (
+                            <div className="truncate pr-6">{chat.title}</div>
+                          )}
+                        </div>
 
-                    {/* Actions - show on hover */}
-                    <div className="absolute right-3 top-1/2 -translate-y-1/2 flex items-center space-x-1 opacity-0 group-hover:opacity-100 transition-opacity bg-white dark:bg-gray-800 rounded shadow-sm">
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          setEditingTitleId(chat.id);
-                          setEditingTitle(chat.title);
-                        }}
-                        className="w-5 h-5 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
-                        aria-label="Edit title"
-                      >
-                        <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
-                        </svg>
-                      </Button>
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          if (window.confirm('Delete this chat?')) {
-                            deleteChat(chat.id);
-                          }
-                        }}
-                        className="w-5 h-5 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
-                        aria-label="Delete chat"
-                      >
-                        <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                        </svg>
-                      </Button>
+                        {/* Actions - show on hover */}
+                        <div className="absolute right-3 top-1/2 -translate-y-1/2 flex items-center space-x-1 opacity-0 group-hover:opacity-100 transition-opacity bg-white dark:bg-gray-800 rounded shadow-sm">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setEditingTitleId(chat.id);
+                              setEditingTitle(chat.title);
+                            }}
+                            className="w-5 h-5 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                            aria-label="Edit title"
+                          >
+                            <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                            </svg>
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setExportTarget([toConversation(chat)]);
+                            }}
+                            className="w-5 h-5 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                            aria-label="Export chat"
+                          >
+                            <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                            </svg>
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              if (window.confirm('Delete this chat?')) {
+                                deleteChat(chat.id);
+                              }
+                            }}
+                            className="w-5 h-5 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                            aria-label="Delete chat"
+                          >
+                            <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                            </svg>
+                          </Button>
+                        </div>
+                      </div>
                     </div>
-                  </div>
+                  ))}
                 </div>
-              ))}
-            </div>
+              )}
+            </>
           )}
         </div>
 
@@ -1046,6 +1565,25 @@ export default function ImprovedChatInterface({ className = '' }: ChatInterfaceP
                 {webSearchEnabled ? 'Web' : 'Local'}
               </span>
             </Button>
+
+            {/* Tool Calling Toggle: lets models search, calculate and run code mid-answer */}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setToolsEnabled(!toolsEnabled)}
+              className={cn(
+                "flex items-center space-x-2 transition-colors touch-manipulation",
+                toolsEnabled
+                  ? 'bg-gradient-to-r from-amber-100 to-orange-100 text-amber-700 dark:bg-gradient-to-r dark:from-amber-900/20 dark:to-orange-900/20 dark:text-amber-300 hover:from-amber-200 hover:to-orange-200 dark:hover:from-amber-900/30 dark:hover:to-orange-900/30'
+                  : 'text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300'
+              )}
+              aria-label={toolsEnabled ? 'Disable tools' : 'Enable tools'}
+            >
+              <span aria-hidden="true">🛠️</span>
+              <span className="text-sm font-medium hidden sm:inline">
+                {toolsEnabled ? 'Tools on' : 'Tools'}
+              </span>
+            </Button>
           </div>
         </div>
       </header>
@@ -1057,7 +1595,7 @@ export default function ImprovedChatInterface({ className = '' }: ChatInterfaceP
           <div className="fixed inset-0 z-40 lg:hidden" aria-labelledby="sidebar-title" role="dialog" aria-modal="true">
             <div className="fixed inset-0 bg-black bg-opacity-25" onClick={() => setShowSidebar(false)}></div>
             <div className="fixed inset-y-0 left-0 flex w-80 flex-col bg-white dark:bg-gray-900 shadow-xl">
-              <SidebarContent />
+              {renderSidebarContent()}
             </div>
           </div>
         </>
@@ -1067,7 +1605,7 @@ export default function ImprovedChatInterface({ className = '' }: ChatInterfaceP
         {/* Desktop Sidebar - Always visible when showSidebar is true */}
         {showSidebar && (
           <div className="hidden lg:flex lg:w-80 lg:flex-col lg:border-r lg:border-gray-200 lg:dark:border-gray-700 lg:bg-white lg:dark:bg-gray-900">
-            <SidebarContent />
+            {renderSidebarContent()}
           </div>
         )}
 
@@ -1080,7 +1618,7 @@ export default function ImprovedChatInterface({ className = '' }: ChatInterfaceP
         role="main"
         aria-label="Chat messages"
       >
-        {messages.length === 0 ? (
+        {branch.length === 0 ? (
           /* Claude-style Welcome Screen */
           <div className="h-full flex items-center justify-center px-4 py-6">
             <div className="max-w-2xl w-full text-center">
@@ -1200,8 +1738,12 @@ export default function ImprovedChatInterface({ className = '' }: ChatInterfaceP
         ) : (
           /* ChatGPT-style Message Layout */
           <div className="px-3 sm:px-4 py-3 pb-32 space-y-3">
-            {messages.map((message, index) => (
-              <div key={index} className="group">
+            {branch.map(message => (
+              <div
+                key={message.id}
+                id={`message-${message.id}`}
+                className={cn("group rounded-lg transition-colors duration-700", highlightedMessageId === message.id && "bg-yellow-50 dark:bg-yellow-900/20")}
+              >
                 <div className={cn("flex", message.role === 'user' ? 'justify-end' : 'justify-start')}>
                   <div className={cn("max-w-4xl w-full flex", message.role === 'user' ? 'flex-row-reverse' : 'flex-row')}>
                     {/* Avatar */}
@@ -1236,7 +1778,15 @@ export default function ImprovedChatInterface({ className = '' }: ChatInterfaceP
                           <>
                             <span className="mx-2" aria-hidden="true">•</span>
                             <span className="text-xs text-teal-600 dark:text-teal-400 bg-teal-100 dark:bg-teal-900/20 px-2 py-0.5 rounded">
-                              {getStrategyIcon(message.metadata.fusion.strategy.type)} {getStrategyName(message.metadata.fusion.strategy.type)}
+                              {getStrategyIcon(message.metadata.fusion.strategy)} {getStrategyName(message.metadata.fusion.strategy)}
+                            </span>
+                          </>
+                        )}
+                        {message.metadata?.answerOptions && (
+                          <>
+                            <span className="mx-2" aria-hidden="true">•</span>
+                            <span className="text-xs text-purple-600 dark:text-purple-400" title="How this version was regenerated">
+                              {describeAnswerOptions(message.metadata.answerOptions)}
                             </span>
                           </>
                         )}
@@ -1266,7 +1816,39 @@ export default function ImprovedChatInterface({ className = '' }: ChatInterfaceP
                               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
                             </svg>
                           </button>
-                          {message.role === 'user' ? (
+                          {editingMessageId === message.id ? (
+                            <form
+                              onSubmit={(e) => {
+                                e.preventDefault();
+                                submitEdit(message);
+                              }}
+                              className="space-y-2"
+                            >
+                              <textarea
+                                value={editingContent}
+                                onChange={(e) => setEditingContent(e.target.value)}
+                                onKeyDown={(e) => {
+                                  if (e.key === 'Escape') setEditingMessageId('');
+                                  if (e.key === 'Enter' && !e.shiftKey) {
+                                    e.preventDefault();
+                                    submitEdit(message);
+                                  }
+                                }}
+                                rows={3}
+                                autoFocus
+                                className="w-full resize-y rounded-md bg-white/10 p-2 text-sm text-white placeholder-white/60 focus:outline-none focus:ring-2 focus:ring-white/50"
+                                aria-label="Edited message"
+                              />
+                              <div className="flex justify-end gap-2 text-xs">
+                                <button type="button" onClick={() => setEditingMessageId('')} className="px-2 py-1 rounded hover:bg-white/10">
+                                  Cancel
+                                </button>
+                                <button type="submit" disabled={!editingContent.trim()} className="px-2 py-1 rounded bg-white text-teal-700 font-medium disabled:opacity-50">
+                                  Send
+                                </button>
+                              </div>
+                            </form>
+                          ) : message.role === 'user' ? (
                             <div className="prose prose-sm max-w-none prose-invert">
                               {message.content}
                             </div>
@@ -1282,6 +1864,8 @@ export default function ImprovedChatInterface({ className = '' }: ChatInterfaceP
                         </div>
                       </div>
 
+                      {editingMessageId !== message.id && renderMessageActions(message)}
+
                       {/* Message Metadata */}
                       {message.metadata?.processingTime && (
                         <div className={cn("mt-1 text-xs text-gray-500 dark:text-gray-400", message.role === 'user' ? 'text-right mr-4 sm:mr-8' : 'text-left')}>
@@ -1292,6 +1876,40 @@ export default function ImprovedChatInterface({ className = '' }: ChatInterfaceP
                           {(message.metadata.sources?.length || 0) > 0 && (
                             <> • {message.metadata.sources?.length} sources</>
                           )}
+                          {message.metadata.usage && (
+                            <span title={`${message.metadata.usage.promptTokens} prompt + ${message.metadata.usage.completionTokens} completion tokens across ${message.metadata.usage.calls} calls`}>
+                              {' '}• {message.metadata.usage.estimated ? '~' : ''}{message.metadata.usage.totalTokens.toLocaleString()} tokens
+                              {message.metadata.usage.cost > 0 && <> • ${message.metadata.usage.cost.toFixed(4)}</>}
+                            </span>
+                          )}
+                          {message.metadata.cancelled && (
+                            <> • Stopped early</>
+                          )}
+                        </div>
+                      )}
+
+                      {/* Fusion Analysis (individual answers, debate disagreements) */}
+                      {message.role === 'assistant' && (message.metadata?.fusion?.individualResponses.length || 0) > 0 && (
+                        <div className="mt-2 mr-4 sm:mr-8">
+                          <button
+                            onClick={() => setExpandedFusionId(expandedFusionId === message.id ? '' : message.id)}
+                            className="text-xs text-teal-600 dark:text-teal-400 hover:underline"
+                            aria-expanded={expandedFusionId === message.id}
+                          >
+                            {expandedFusionId === message.id ? 'Hide fusion analysis' : 'Show fusion analysis'}
+                            {(message.metadata?.fusion?.disagreements?.length || 0) > 0 && (
+                              <> • {message.metadata?.fusion?.disagreements?.length} disagreements</>
+                            )}
+                            {countToolCalls(message.metadata?.fusion) > 0 && (
+                              <> • {countToolCalls(message.metadata?.fusion)} tool calls</>
+                            )}
+                          </button>
+                          {expandedFusionId === message.id && message.metadata?.fusion && (
+                            <FusionComparison
+                              fusionData={message.metadata.fusion}
+                              fusedResponse={message.content}
+                            />
+                          )}
                         </div>
                       )}
 
@@ -1351,8 +1969,8 @@ export default function ImprovedChatInterface({ className = '' }: ChatInterfaceP
               </div>
             ))}
             
-            {/* Loading State */}
-            {isLoading && (
+            {/* Loading State - hidden once the streamed answer starts rendering */}
+            {isLoading && !streamingMessageId && (
               <div className="group">
                 <div className="flex justify-start">
                   <div className="max-w-4xl w-full flex flex-row">
@@ -1374,7 +1992,7 @@ export default function ImprovedChatInterface({ className = '' }: ChatInterfaceP
                       <div className="flex items-baseline mb-2 text-sm text-gray-500 dark:text-gray-400">
                         <span className="font-medium">ChatQora</span>
                         <span className="mx-2" aria-hidden="true">•</span>
-                        <span>{dynamicLoadingMessage || processingStage || 'Thinking...'}</span>
+                        <span>{processingStage || dynamicLoadingMessage || 'Thinking...'}</span>
                         {activeModel && (
                           <>
                             <span className="mx-2" aria-hidden="true">•</span>
@@ -1583,30 +2201,64 @@ export default function ImprovedChatInterface({ className = '' }: ChatInterfaceP
                 }}
                 aria-describedby="input-help"
               />
-              <Button
-                type="submit"
-                disabled={!input.trim() || isLoading}
-                variant="chatqora"
-                size="icon"
-                className="absolute right-2 bottom-2 w-10 h-10 sm:w-8 sm:h-8 shadow-md transition-all duration-200 touch-manipulation"
-                aria-label="Send message"
-              >
-                <svg className="w-5 h-5 sm:w-4 sm:h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
-                </svg>
-              </Button>
+              {isLoading ? (
+                <Button
+                  type="button"
+                  onClick={stopGeneration}
+                  disabled={isStopping}
+                  variant="chatqora"
+                  size="icon"
+                  className="absolute right-2 bottom-2 w-10 h-10 sm:w-8 sm:h-8 shadow-md transition-all duration-200 touch-manipulation"
+                  aria-label="Stop generating"
+                  title="Stop generating"
+                >
+                  <svg className="w-4 h-4 sm:w-3 sm:h-3" fill="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+                    <rect x="5" y="5" width="14" height="14" rx="2" />
+                  </svg>
+                </Button>
+              ) : (
+                <Button
+                  type="submit"
+                  disabled={!input.trim()}
+                  variant="chatqora"
+                  size="icon"
+                  className="absolute right-2 bottom-2 w-10 h-10 sm:w-8 sm:h-8 shadow-md transition-all duration-200 touch-manipulation"
+                  aria-label="Send message"
+                >
+                  <svg className="w-5 h-5 sm:w-4 sm:h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
+                  </svg>
+                </Button>
+              )}
             </div>
           </div>
           
           <div className="flex items-center justify-between mt-2 text-xs text-gray-500 dark:text-gray-400">
             <div className="flex items-center space-x-3">
               <span className="flex items-center space-x-1">
-                <span className="w-2 h-2 bg-green-500 rounded-full animate-pulse" aria-hidden="true"></span>
-                <span>AI Models Online</span>
+                <span className={`w-2 h-2 rounded-full animate-pulse ${getHealthDotClass(systemHealth)}`} aria-hidden="true"></span>
+                <span>{getHealthLabel(systemHealth)}</span>
               </span>
-              {systemHealth?.overall.score && (
-                <span className="bg-gradient-to-r from-teal-100 to-cyan-100 dark:from-teal-900/20 dark:to-cyan-900/20 text-teal-700 dark:text-teal-300 px-2 py-0.5 rounded">
-                  Health: {systemHealth.overall.score}%
+              {systemHealth && (
+                <span className="relative">
+                  <button
+                    type="button"
+                    onClick={() => setShowSystemStatus(prev => !prev)}
+                    className="bg-gradient-to-r from-teal-100 to-cyan-100 dark:from-teal-900/20 dark:to-cyan-900/20 text-teal-700 dark:text-teal-300 px-2 py-0.5 rounded hover:opacity-80"
+                    aria-expanded={showSystemStatus}
+                    title="Show model and search status"
+                  >
+                    Health: {systemHealth.overall.score}%
+                  </button>
+                  {showSystemStatus && (
+                    <div className="absolute bottom-full left-0 mb-2 z-50">
+                      <SystemStatusPanel
+                        health={systemHealth}
+                        onRefresh={() => fetchSystemHealth(true)}
+                        onClose={() => setShowSystemStatus(false)}
+                      />
+                    </div>
+                  )}
                 </span>
               )}
             </div>
@@ -1624,6 +2276,17 @@ export default function ImprovedChatInterface({ className = '' }: ChatInterfaceP
         </div>
       </div>
 
+      {exportTarget && (
+        <ExportDialog conversations={exportTarget} onClose={() => setExportTarget(null)} />
+      )}
+
+      {regenerateTarget && (
+        <RegenerateDialog
+          onRegenerate={(options) => regenerateAnswer(regenerateTarget, options)}
+          onClose={() => setRegenerateTarget(null)}
+        />
+      )}
+
       {/* Copy Notification Toast */}
       {copyNotification && (
         <div className="fixed top-4 left-1/2 transform -translate-x-1/2 z-50">
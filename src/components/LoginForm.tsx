@@ -5,9 +5,10 @@ import { useAuth } from '@/contexts/AuthContext';
 
 interface LoginFormProps {
   onClose?: () => void;
+  onSuccess?: () => void;
 }
 
-export default function LoginForm({ onClose }: LoginFormProps) {
+export default function LoginForm({ onClose, onSuccess }: LoginFormProps) {
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [isLoading, setIsLoading] = useState(false);
@@ -21,6 +22,7 @@ export default function LoginForm({ onClose }: LoginFormProps) {
 
     const success = await login(username, password);
     if (success) {
+      onSuccess?.();
       onClose?.();
     } else {
       setError('Invalid credentials');
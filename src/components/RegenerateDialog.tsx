@@ -0,0 +1,220 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { AnswerOptions, ModelChoices } from '@/types/chat';
+import { pluralize } from '@/lib/export/common';
+
+interface RegenerateDialogProps {
+  onRegenerate: (options: AnswerOptions) => void;
+  onClose: () => void;
+}
+
+const shortName = (id: string): string => id.split('/').pop()?.split(':')[0] || id;
+
+const capitalize = (text: string): string => text.charAt(0).toUpperCase() + text.slice(1);
+
+/** One line saying how an answer was regenerated, to tell its versions apart */
+export function describeAnswerOptions({ model, fusionStrategy, models, maxResponseTime, qualityThreshold }: AnswerOptions): string {
+  if (model) return `${shortName(model)} only`;
+  return [
+    fusionStrategy && fusionStrategy !== 'auto' ? `${capitalize(fusionStrategy)} fusion` : 'Fusion',
+    models && (models.length === 1 ? shortName(models[0]) : pluralize(models.length, 'model')),
+    maxResponseTime && `${maxResponseTime / 1000}s budget`,
+    qualityThreshold !== undefined && `${Math.round(qualityThreshold * 100)}% quality bar`
+  ].filter(Boolean).join(' · ');
+}
+
+export default function RegenerateDialog({ onRegenerate, onClose }: RegenerateDialogProps) {
+  const [choices, setChoices] = useState<ModelChoices | null>(null);
+  const [error, setError] = useState('');
+  const [mode, setMode] = useState<'fusion' | 'single'>('fusion');
+  const [strategy, setStrategy] = useState('auto');
+  const [fusionModels, setFusionModels] = useState<string[]>([]);
+  const [singleModel, setSingleModel] = useState('');
+  const [seconds, setSeconds] = useState(15);
+  const [threshold, setThreshold] = useState(0.7);
+
+  useEffect(() => {
+    fetch('/api/models')
+      .then(response => (response.ok ? response.json() : Promise.reject(new Error(`Request failed with ${response.status}`))))
+      .then((loaded: ModelChoices) => {
+        setChoices(loaded);
+        setFusionModels(loaded.models.filter(model => model.fusion).map(model => model.id));
+        setSingleModel(loaded.models[0]?.id ?? '');
+        setSeconds(loaded.defaults.maxResponseTime / 1000);
+        setThreshold(loaded.defaults.qualityThreshold);
+      })
+      .catch(err => {
+        console.error('⚠️ Could not load models:', err);
+        setError('Could not load the models. Please try again.');
+      });
+  }, []);
+
+  const limits = choices?.limits.maxResponseTime;
+  const maxResponseTime = Math.round(seconds * 1000);
+  const isValid = !!choices && (mode === 'single'
+    ? !!singleModel
+    : fusionModels.length > 0 && maxResponseTime >= limits!.min && maxResponseTime <= limits!.max);
+
+  // Only what differs from the defaults is sent, so a plain regenerate stays one click
+  const handleRegenerate = () => {
+    if (!choices || !isValid) return;
+    if (mode === 'single') {
+      onRegenerate({ model: singleModel });
+      return;
+    }
+    const defaultModels = choices.models.filter(model => model.fusion).map(model => model.id);
+    const sameModels = fusionModels.length === defaultModels.length && defaultModels.every(id => fusionModels.includes(id));
+    onRegenerate({
+      ...(strategy !== 'auto' && { fusionStrategy: strategy }),
+      ...(!sameModels && { models: fusionModels }),
+      ...(maxResponseTime !== choices.defaults.maxResponseTime && { maxResponseTime }),
+      ...(threshold !== choices.defaults.qualityThreshold && { qualityThreshold: threshold })
+    });
+  };
+
+  const toggleModel = (id: string) => {
+    setFusionModels(prev => (prev.includes(id) ? prev.filter(model => model !== id) : [...prev, id]));
+  };
+
+  const fieldClass = "w-full px-3 py-2 text-sm border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-900 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-purple-500";
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="regenerate-dialog-title"
+      onClick={onClose}
+    >
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl max-w-md w-full p-6 max-h-[90vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-1">
+          <h2 id="regenerate-dialog-title" className="text-lg font-semibold text-gray-900 dark:text-white">Regenerate</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+            aria-label="Close"
+          >
+            <svg className="w-5 h-5 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">The current answer is kept as another version.</p>
+
+        {!choices && !error && <p className="text-sm text-gray-500 dark:text-gray-400">Loading models...</p>}
+
+        {choices && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-2" role="radiogroup" aria-label="Mode">
+              {(['fusion', 'single'] as const).map(option => (
+                <label
+                  key={option}
+                  className={`flex items-center gap-2 p-3 border rounded-lg cursor-pointer text-sm transition-colors ${
+                    mode === option
+                      ? 'border-purple-500 bg-purple-50 dark:bg-purple-900/20'
+                      : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700/50'
+                  }`}
+                >
+                  <input
+                    type="radio"
+                    name="regenerate-mode"
+                    checked={mode === option}
+                    onChange={() => setMode(option)}
+                    className="accent-purple-600"
+                  />
+                  <span className="font-medium text-gray-900 dark:text-white">{option === 'fusion' ? 'AI Fusion' : 'Single model'}</span>
+                </label>
+              ))}
+            </div>
+
+            {mode === 'single' ? (
+              <label className="block text-sm text-gray-700 dark:text-gray-300">
+                Model
+                <select value={singleModel} onChange={(e) => setSingleModel(e.target.value)} className={`${fieldClass} mt-1`}>
+                  {choices.models.map(model => (
+                    <option key={model.id} value={model.id}>{model.name}</option>
+                  ))}
+                </select>
+              </label>
+            ) : (
+              <>
+                <label className="block text-sm text-gray-700 dark:text-gray-300">
+                  Strategy
+                  <select value={strategy} onChange={(e) => setStrategy(e.target.value)} className={`${fieldClass} mt-1`}>
+                    {choices.strategies.map(option => (
+                      <option key={option} value={option}>{option === 'auto' ? 'Auto (picked from the question)' : capitalize(option)}</option>
+                    ))}
+                  </select>
+                </label>
+
+                <fieldset>
+                  <legend className="text-sm text-gray-700 dark:text-gray-300 mb-1">Models</legend>
+                  <div className="space-y-1">
+                    {choices.models.map(model => (
+                      <label key={model.id} className="flex items-center gap-2 text-sm text-gray-900 dark:text-white">
+                        <input
+                          type="checkbox"
+                          checked={fusionModels.includes(model.id)}
+                          onChange={() => toggleModel(model.id)}
+                          className="accent-purple-600"
+                        />
+                        {model.name}
+                      </label>
+                    ))}
+                  </div>
+                  {fusionModels.length === 0 && <p className="mt-1 text-xs text-red-600 dark:text-red-400">Pick at least one model.</p>}
+                </fieldset>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <label className="block text-sm text-gray-700 dark:text-gray-300">
+                    Time budget (s)
+                    <input
+                      type="number"
+                      min={limits!.min / 1000}
+                      max={limits!.max / 1000}
+                      step={1}
+                      value={seconds}
+                      onChange={(e) => setSeconds(Number(e.target.value))}
+                      className={`${fieldClass} mt-1`}
+                    />
+                  </label>
+                  <label className="block text-sm text-gray-700 dark:text-gray-300">
+                    Quality threshold ({Math.round(threshold * 100)}%)
+                    <input
+                      type="range"
+                      min={0}
+                      max={1}
+                      step={0.05}
+                      value={threshold}
+                      onChange={(e) => setThreshold(Number(e.target.value))}
+                      className="w-full mt-3 accent-purple-600"
+                    />
+                  </label>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        {error && <p className="mt-3 text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+        <div className="flex justify-end gap-2 mt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleRegenerate}
+            disabled={!isValid}
+            className="px-4 py-2 text-sm font-medium text-white bg-purple-600 hover:bg-purple-700 disabled:opacity-50 rounded-lg transition-colors"
+          >
+            Regenerate
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -16,7 +16,7 @@ interface SidebarItem {
   comingSoon?: boolean;
 }
 
-const getNavigationItems = (_isUserAdmin: boolean): SidebarItem[] => {
+const getNavigationItems = (isUserAdmin: boolean): SidebarItem[] => {
   const items: SidebarItem[] = [
     { 
       name: 'Home', 
@@ -34,10 +34,17 @@ const getNavigationItems = (_isUserAdmin: boolean): SidebarItem[] => {
       icon: '🎨',
       badge: 'New',
       description: 'Modern ChatGPT-style interface'
+    },
+    {
+      name: 'Admin',
+      href: '/admin',
+      icon: '🛠️',
+      description: 'Models, prompts and usage',
+      adminOnly: true
     }
   ];
 
-  return items;
+  return items.filter(item => !item.adminOnly || isUserAdmin);
 };
 
 export default function Sidebar() {
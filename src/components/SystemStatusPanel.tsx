@@ -0,0 +1,134 @@
+'use client';
+
+import React, { useState } from 'react';
+import type { ModelHealth, SystemHealth } from '@/types/chat';
+
+interface SystemStatusPanelProps {
+  health: SystemHealth;
+  onRefresh?: () => Promise<void>;
+  onClose?: () => void;
+}
+
+const STATUS_DOT: Record<ModelHealth['status'], string> = {
+  online: 'bg-green-500',
+  degraded: 'bg-yellow-500',
+  offline: 'bg-red-500'
+};
+
+const OVERALL_STYLE: Record<SystemHealth['overall']['status'], string> = {
+  optimal: 'text-green-700 dark:text-green-300',
+  good: 'text-teal-700 dark:text-teal-300',
+  degraded: 'text-yellow-700 dark:text-yellow-300',
+  critical: 'text-red-700 dark:text-red-300'
+};
+
+// Footer indicator in the chat interfaces: green until a model is unhealthy, grey before the first check
+export function getHealthDotClass(health: SystemHealth | null): string {
+  if (!health) return 'bg-gray-400';
+  return { optimal: 'bg-green-500', good: 'bg-green-500', degraded: 'bg-yellow-500', critical: 'bg-red-500' }[health.overall.status];
+}
+
+export function getHealthLabel(health: SystemHealth | null): string {
+  if (!health) return 'Checking AI models...';
+  const models = Object.values(health.models);
+  const online = models.filter(model => model.status !== 'offline').length;
+  return online === models.length ? 'AI Models Online' : `${online} of ${models.length} AI Models Online`;
+}
+
+const formatMs = (ms: number) => (ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${ms}ms`);
+
+const formatCheck = (iso?: string) => (iso ? new Date(iso).toLocaleTimeString() : 'not checked yet');
+
+export default function SystemStatusPanel({ health, onRefresh, onClose }: SystemStatusPanelProps) {
+  const [refreshing, setRefreshing] = useState(false);
+
+  const refresh = async () => {
+    if (!onRefresh || refreshing) return;
+    setRefreshing(true);
+    try {
+      await onRefresh();
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const models = Object.entries(health.models);
+
+  return (
+    <div
+      className="w-80 max-w-[calc(100vw-2rem)] p-4 bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 shadow-lg text-xs text-gray-700 dark:text-gray-300"
+      role="dialog"
+      aria-label="System status"
+    >
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <h3 className="text-sm font-semibold text-gray-900 dark:text-white">System Status</h3>
+          <span className={`font-medium capitalize ${OVERALL_STYLE[health.overall.status]}`}>
+            {health.overall.status} • {health.overall.score}%
+          </span>
+        </div>
+        <div className="flex items-center space-x-2">
+          {onRefresh && (
+            <button
+              onClick={refresh}
+              disabled={refreshing}
+              className="px-2 py-1 rounded bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50"
+              title="Probe every model now"
+            >
+              {refreshing ? 'Probing...' : '🔄 Probe'}
+            </button>
+          )}
+          {onClose && (
+            <button onClick={onClose} className="px-1 text-gray-400 hover:text-gray-600" aria-label="Close system status">
+              ✕
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 mb-3">
+        <div>Uptime: <span className="font-medium">{health.overall.uptime}%</span></div>
+        <div>Active requests: <span className="font-medium">{health.overall.activeConnections}</span></div>
+      </div>
+
+      <h4 className="font-semibold text-gray-900 dark:text-white mb-1">Models</h4>
+      <ul className="space-y-1.5 mb-3">
+        {models.map(([id, model]) => (
+          <li key={id} title={model.lastError ? `Last error: ${model.lastError}` : `Last probe: ${formatCheck(model.lastCheck)}`}>
+            <div className="flex items-center justify-between">
+              <span className="flex items-center space-x-1.5 truncate">
+                <span className={`w-2 h-2 rounded-full flex-shrink-0 ${STATUS_DOT[model.status]}`} aria-hidden="true"></span>
+                <span className="truncate">{model.name}</span>
+              </span>
+              <span className="flex-shrink-0 text-gray-500 dark:text-gray-400">
+                {model.lastCheck ? `${formatMs(model.responseTime)} • ${model.uptime}% up` : model.status}
+              </span>
+            </div>
+            {model.errorRate > 0 && (
+              <div className="pl-3.5 text-red-600 dark:text-red-400">
+                {Math.round(model.errorRate * 100)}% of recent probes failed{model.circuit !== 'closed' ? ` • circuit ${model.circuit.replace('_', '-')}` : ''}
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <h4 className="font-semibold text-gray-900 dark:text-white mb-1">Fusion</h4>
+      <div className="mb-3">
+        {health.fusion.strategiesAvailable.length} strategies available •{' '}
+        {Math.round(health.fusion.successRate * 100)}% success
+        {health.fusion.averageProcessingTime > 0 && ` • ${formatMs(health.fusion.averageProcessingTime)} avg`}
+      </div>
+
+      <h4 className="font-semibold text-gray-900 dark:text-white mb-1">Web Search</h4>
+      <div>
+        {health.search.lastCheck
+          ? health.search.providersOnline.length
+            ? `${health.search.providersOnline.join(', ')} online • ${formatMs(health.search.averageQueryTime)} avg`
+            : 'Provider unreachable, using fallback sources'
+          : 'Not checked yet'}
+        {' • '}{Math.round(health.search.cacheHitRate * 100)}% cache hits
+      </div>
+    </div>
+  );
+}
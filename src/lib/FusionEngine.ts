@@ -1,25 +1,62 @@
+import { modelRegistry, FusionRole } from '@/lib/modelRegistry';
+import { getProvider, LLMProvider, ProviderMessage, ProviderContentPart, CompletionRequest, CompletionResult, ProviderError, isTimedOut, timeoutReason } from '@/lib/providers';
+import { modelStatsStore, classifyModelError } from '@/lib/modelStats';
+import { circuitBreakers, CircuitOpenError, CircuitState } from '@/lib/circuitBreaker';
+import { responseCache, createCacheKey, getTtlForQuery } from '@/lib/responseCache';
+import { UsageLedger, UsagePurpose, UsageSummary, estimateTokens } from '@/lib/usage';
+import { JsonSchema, StructuredOutput, completeStructured } from '@/lib/structuredOutput';
+import { toolRegistry } from '@/lib/tools';
+import { evaluatorRegistry, getStrategyEvaluators, EvaluatorName, QualityReport } from '@/lib/evaluators';
+import { attributeSources } from '@/lib/provenance';
+import { appSettings } from '@/lib/appSettings';
+import type { FusionAttribution, FusionDisagreement, DebateRebuttal, ToolInvocation } from '@/types/chat';
+
 export interface ModelResponse {
   model: string;
   modelName: string;
   response: string;
   confidence: number;
   processingTime: number;
-  role: 'primary' | 'creative' | 'analytical';
-  status: 'success' | 'error' | 'timeout';
+  role: FusionRole;
+  status: 'success' | 'error' | 'timeout' | 'cancelled';
   error?: string;
   tokens?: number;
   priority?: number;
+  toolInvocations?: ToolInvocation[]; // Tools the model called before answering, in call order
+  quality?: QualityReport; // Breakdown behind confidence
+  imageInput?: 'direct' | 'description'; // With images attached: saw them, or read the vision model's description
 }
 
+// 'auto' picks fast/consensus/adaptive from the query; any other value is used as given
+export const FUSION_STRATEGIES = ['auto', 'fast', 'consensus', 'adaptive', 'specialized', 'iterative', 'debate'] as const;
+export type FusionStrategyType = typeof FUSION_STRATEGIES[number];
+
+export const DEFAULT_ITERATIVE_ROUNDS = 2;
+export const MAX_ITERATIVE_ROUNDS = 4;
+export const MAX_TOOL_ROUNDS = 3;
+
 export interface FusionRequest {
   query: string;
   conversationContext?: Array<{ role: string; content: string }>;
-  fusionStrategy: 'consensus' | 'specialized' | 'iterative' | 'fast' | 'adaptive';
+  fusionStrategy: FusionStrategyType;
+  iterativeRounds?: number; // Critique/revise rounds for the iterative strategy
   includeIndividualResponses: boolean;
   timeout?: number;
   maxResponseTime?: number;
   enableStreaming?: boolean;
   qualityThreshold?: number;
+  signal?: AbortSignal; // Aborts every model and synthesis call; whatever finished is returned
+  usageLedger?: UsageLedger; // Shared with the caller so calls outside fusion (recommendations) add to the same totals
+  responseSchema?: JsonSchema; // Structured output: every answer and the fused result must validate against it
+  tools?: string[]; // Tool registry names offered to each model's answer call; none when omitted
+  evaluators?: EvaluatorName[]; // Replaces the strategy's evaluators (see STRATEGY_EVALUATORS)
+  images?: FusionImage[]; // Attached images: shown to vision models, described for the rest
+  models?: string[]; // Enabled model ids that answer instead of the fusion models
+  fresh?: boolean; // Every model answers anew rather than from the response cache (regenerating)
+}
+
+export interface FusionImage {
+  url: string; // data: URL or a URL the provider can fetch
 }
 
 export interface FusionResult {
@@ -30,15 +67,36 @@ export interface FusionResult {
   confidence: number;
   modelsUsed: string[];
   synthesisModel: string;
+  cancelled?: boolean;
+  iterations?: FusionIteration[]; // Iterative strategy only, one entry per completed round
+  rebuttals?: DebateRebuttal[]; // Debate strategy only
+  disagreements?: FusionDisagreement[]; // Debate strategy only, as settled by the judge
+  structured?: StructuredOutput; // Only when request.responseSchema was given; fusedResponse holds the same JSON
+  quality?: QualityReport; // Breakdown behind confidence and metadata.qualityScore; absent for cancelled results
+  attributions?: FusionAttribution[]; // Which model answers each sentence of fusedResponse came from
+  imageDescription?: string; // What text-only models were told the attached images show
   metadata: {
     totalTokens: number;
-    costSavings: string;
+    promptTokens: number;
+    completionTokens: number;
+    cost: number; // USD for every call made for this request so far
     qualityScore: number;
+    usage: UsageSummary;
   };
 }
 
+export interface FusionIteration {
+  round: number;
+  draft: string; // Answer the round started from
+  critique: string;
+  critiqueModel: string;
+  revision: string;
+  revisionModel: string;
+  processingTime: number;
+}
+
 export interface FusionProgress {
-  stage: 'initializing' | 'querying' | 'synthesizing' | 'streaming' | 'completed' | 'error' | 'early_completion';
+  stage: 'initializing' | 'querying' | 'synthesizing' | 'iterating' | 'debating' | 'streaming' | 'completed' | 'error' | 'early_completion' | 'cancelled';
   modelProgress: { [modelId: string]: number };
   synthesisProgress: number;
   message: string;
@@ -46,123 +104,290 @@ export interface FusionProgress {
   completedModels?: number;
   totalModels?: number;
   estimatedTimeRemaining?: number;
+  iteration?: { round: number; totalRounds: number; step: 'drafting' | 'critiquing' | 'revising' };
 }
 
-export class FusionEngine {
-  private models = [
-    // {
-    //   id: 'meta-llama/llama-3.3-70b-instruct:free',
-    //   name: 'Llama 70B',
-    //   role: 'primary' as const,
-    //   specialties: ['reasoning', 'analysis', 'synthesis'],
-    //   priority: 1,
-    //   avgResponseTime: 12000,
-    //   reliability: 0.95
-    // },
-    {
-      id: 'meta-llama/llama-3.3-8b-instruct:free',
-      name: 'Llama 8B',
-      role: 'primary' as const,  // Upgraded to primary role
-      specialties: ['speed', 'reasoning', 'analysis'],
-      priority: 1,  // Now highest priority
-      avgResponseTime: 4000,
-      reliability: 0.98
-    },
-    {
-      id: 'openai/gpt-oss-20b:free',
-      name: 'GPT OSS',
-      role: 'creative' as const,
-      specialties: ['creativity', 'alternatives', 'writing'],
-      priority: 2,
-      avgResponseTime: 8000,
-      reliability: 0.92
-    }
-  ];
-
-  private apiKey: string;
-  private baseUrl = 'https://openrouter.ai/api/v1/chat/completions';
-  private responseCache = new Map<string, { response: string; timestamp: number; ttl: number; confidence: number; tokens: number }>();
-  private requestQueue = new Map<string, Promise<ModelResponse>>();
-  private modelPerformanceStats = new Map<string, { avgTime: number; successRate: number; lastUpdate: number }>();
-  private activeRequests = new Map<string, AbortController>();
-  private streamingSupported = true;
+export type FusionTokenCallback = (token: string) => void;
 
-  constructor() {
-    this.apiKey = process.env.OPENROUTER_API_KEY || '';
-    
-    // Clean cache every 10 minutes
-    setInterval(() => this.cleanCache(), 10 * 60 * 1000);
-    
-    // Initialize performance tracking
-    this.initializePerformanceTracking();
+// The debate judge replies with its disagreement list first, then the answer; only the answer is streamed
+const JUDGE_DISAGREEMENTS_MARKER = 'DISAGREEMENTS:';
+const JUDGE_ANSWER_MARKER = 'FINAL ANSWER:';
+
+interface FusionModel {
+  id: string;
+  name: string;
+  role: FusionRole;
+  specialties: string[];
+  priority: number;
+  avgResponseTime: number;
+  reliability: number;
+}
+
+export class FusionEngine {
+  // Read on every access so registry changes (enable/disable) apply without a restart
+  private get models(): FusionModel[] {
+    const modelIds = this.modelIds;
+    const definitions = modelIds
+      ? modelRegistry.getEnabled().filter(model => modelIds.includes(model.id)).sort((a, b) => a.performance.priority - b.performance.priority)
+      : modelRegistry.getFusionModels();
+    return definitions.map(model => ({
+      id: model.id,
+      name: model.shortName,
+      role: modelRegistry.getFusionRole(model) ?? 'primary',
+      specialties: model.specialties,
+      priority: model.performance.priority,
+      avgResponseTime: model.performance.avgResponseTime,
+      reliability: model.performance.reliability
+    }));
   }
 
-  private initializePerformanceTracking() {
-    // Initialize with baseline stats for each model
-    this.models.forEach(model => {
-      this.modelPerformanceStats.set(model.id, {
-        avgTime: model.avgResponseTime,
-        successRate: model.reliability,
-        lastUpdate: Date.now()
-      });
-    });
+  private provider: LLMProvider;
+  private streamingSupported = true;
+  private usage = new UsageLedger(); // Replaced per request by startUsage()
+  private evaluators: EvaluatorName[] = getStrategyEvaluators('auto'); // Set per request by useEvaluators()
+  private images: FusionImage[] = []; // Set per request by prepareImages()
+  private modelIds: string[] | null = null; // Set per request by useModels(); null is every fusion model
+  private fresh = false; // Set per request by useModels()
+  private imageDescription: string | null = null;
+
+  constructor(provider: LLMProvider = getProvider()) {
+    this.provider = provider;
   }
 
-  private updateModelPerformance(modelId: string, responseTime: number, success: boolean) {
-    const stats = this.modelPerformanceStats.get(modelId);
-    if (stats) {
-      // Exponential moving average for response time
-      stats.avgTime = stats.avgTime * 0.8 + responseTime * 0.2;
-      
-      // Update success rate
-      stats.successRate = stats.successRate * 0.9 + (success ? 1 : 0) * 0.1;
-      stats.lastUpdate = Date.now();
-    }
+  // Feeds the process-wide stats store; user cancellations and calls skipped by an open circuit
+  // say nothing new about the model and are left out
+  private recordModelCall(
+    modelId: string,
+    startTime: number,
+    outcome: { completion?: CompletionResult; error?: unknown },
+    signal?: AbortSignal
+  ) {
+    if (signal?.aborted || outcome.error instanceof CircuitOpenError) return;
+
+    modelStatsStore.record({
+      modelId,
+      latencyMs: Date.now() - startTime,
+      success: !!outcome.completion,
+      errorType: outcome.error !== undefined ? classifyModelError(outcome.error) : undefined,
+      completionTokens: outcome.completion?.usage?.completionTokens ?? (outcome.completion ? estimateTokens(outcome.completion.content) : undefined)
+    });
   }
   
-  private getCacheKey(modelId: string, prompt: string): string {
-    // Create a hash-like key (simplified for this implementation)
-    return `${modelId}:${prompt.slice(0, 100)}:${prompt.length}`;
+  // Individual model call through the process-wide cache; identical prompts in flight share one call.
+  // Only real calls reach the stats store and are billed, so cache hits don't skew latency or cost.
+  private async completeCached(
+    completionRequest: CompletionRequest,
+    query: string,
+    userSignal?: AbortSignal,
+    purpose: UsagePurpose = 'model'
+  ): Promise<CompletionResult> {
+    const { model, messages, temperature, maxTokens, topP } = completionRequest;
+    const tools = completionRequest.tools?.map(tool => tool.name).join(',');
+    const key = createCacheKey(model, JSON.stringify(messages), temperature, maxTokens, topP, tools);
+    let called = false;
+
+    const completion = await responseCache.getOrCompute(key, async () => {
+      called = true;
+      const startTime = Date.now();
+      try {
+        const completion = await this.provider.complete(completionRequest);
+        this.recordModelCall(model, startTime, { completion }, userSignal);
+        return completion;
+      } catch (error) {
+        this.recordModelCall(model, startTime, { error }, userSignal);
+        throw error;
+      }
+    }, {
+      ttlMs: getTtlForQuery(query),
+      signal: completionRequest.signal,
+      refresh: this.fresh,
+      shouldCache: completion => completion.content.trim().length > 0
+    });
+
+    this.usage.record(purpose, completionRequest, completion, { cached: !called });
+    return completion;
   }
-  
-  private getFromCache(key: string): string | null {
-    const cached = this.responseCache.get(key);
-    if (cached && Date.now() - cached.timestamp < cached.ttl) {
-      return cached.response;
+
+  // Offers request.tools to the model and runs whatever it calls, feeding the results back until it
+  // answers in text. The last round withholds the tools so the model has to answer.
+  private async completeWithTools(
+    completionRequest: CompletionRequest,
+    request: FusionRequest
+  ): Promise<{ completion: CompletionResult; toolInvocations: ToolInvocation[] }> {
+    const toolInvocations: ToolInvocation[] = [];
+    const tools = request.tools?.length ? toolRegistry.getDefinitions(request.tools) : [];
+    if (tools.length === 0) {
+      return { completion: await this.completeCached(completionRequest, request.query, request.signal), toolInvocations };
     }
-    if (cached) {
-      this.responseCache.delete(key); // Expired
+
+    const messages = [...completionRequest.messages];
+    for (let round = 1; ; round++) {
+      const offerTools = round <= MAX_TOOL_ROUNDS;
+      let completion: CompletionResult;
+      try {
+        completion = await this.completeCached(
+          { ...completionRequest, messages: [...messages], tools: offerTools ? tools : undefined },
+          request.query,
+          request.signal
+        );
+      } catch (error) {
+        // Models without tool support reject the request outright; answer without tools instead
+        if (round === 1 && error instanceof ProviderError && [400, 404, 422].includes(error.status ?? 0)) {
+          console.warn(`⚠️ ${completionRequest.model} rejected tool calling, answering without tools:`, error.message);
+          return { completion: await this.completeCached(completionRequest, request.query, request.signal), toolInvocations };
+        }
+        throw error;
+      }
+
+      if (!offerTools || !completion.toolCalls?.length) {
+        return { completion, toolInvocations };
+      }
+
+      messages.push({ role: 'assistant', content: completion.content, toolCalls: completion.toolCalls });
+      const results = await Promise.all(completion.toolCalls.map(call =>
+        toolRegistry.execute(call, { signal: request.signal }, round)
+      ));
+      results.forEach(result => messages.push({ role: 'tool', toolCallId: result.id, content: result.result }));
+      toolInvocations.push(...results);
     }
-    return null;
   }
-  
-  private setCache(key: string, response: string, ttlMinutes = 30): void {
-    this.responseCache.set(key, {
-      response,
-      timestamp: Date.now(),
-      ttl: ttlMinutes * 60 * 1000,
-      confidence: 0.8,
-      tokens: Math.ceil(response.length / 4) // Rough token estimate
-    });
+
+  // Direct provider calls (synthesis, streamed steps) skip the cache but still land in the usage ledger
+  private async completeWithUsage(purpose: UsagePurpose, completionRequest: CompletionRequest): Promise<CompletionResult> {
+    const completion = await this.provider.complete(completionRequest);
+    this.usage.record(purpose, completionRequest, completion);
+    return completion;
   }
-  
-  private cleanCache(): void {
-    const now = Date.now();
-    for (const [key, value] of this.responseCache.entries()) {
-      if (now - value.timestamp > value.ttl) {
-        this.responseCache.delete(key);
-      }
+
+  private async streamWithUsage(
+    purpose: UsagePurpose,
+    completionRequest: CompletionRequest,
+    onToken: (token: string) => void
+  ): Promise<CompletionResult> {
+    const completion = await this.provider.stream(completionRequest, onToken);
+    this.usage.record(purpose, completionRequest, completion);
+    return completion;
+  }
+
+  // Streamed calls skip the cache, so their stats are recorded here
+  private async streamModelAnswer(
+    completionRequest: CompletionRequest,
+    userSignal: AbortSignal | undefined,
+    onToken: (token: string) => void,
+    purpose: UsagePurpose = 'model'
+  ): Promise<CompletionResult> {
+    const startTime = Date.now();
+    try {
+      const completion = await this.streamWithUsage(purpose, completionRequest, onToken);
+      this.recordModelCall(completionRequest.model, startTime, { completion }, userSignal);
+      return completion;
+    } catch (error) {
+      this.recordModelCall(completionRequest.model, startTime, { error }, userSignal);
+      throw error;
     }
   }
 
+  // One ledger per request; callers pass their own to add non-fusion calls to the same totals
+  private startUsage(request: FusionRequest): void {
+    this.usage = request.usageLedger ?? new UsageLedger();
+  }
+
+  // Exact token and cost totals for everything this request has called so far
+  private buildMetadata(qualityScore: number): FusionResult['metadata'] {
+    const usage = this.usage.getSummary();
+    return {
+      totalTokens: usage.totalTokens,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      cost: usage.cost,
+      qualityScore,
+      usage
+    };
+  }
+
+  // The request's chosen models replace the fusion set; fresh (regenerate) skips the response cache
+  private useModels(request: FusionRequest): void {
+    this.modelIds = request.models?.length ? request.models : null;
+    this.fresh = !!request.fresh;
+  }
+
+  // The request's own evaluators win; otherwise the strategy picks them
+  private useEvaluators(request: FusionRequest, strategy: string): void {
+    this.evaluators = request.evaluators?.length ? request.evaluators : getStrategyEvaluators(strategy);
+  }
+
+  // Per-answer score from the evaluators that need no model call; peers are the other answers so far.
+  // Sets confidence and quality on the response and returns it.
+  private async scoreAnswer(query: string, response: ModelResponse, peers: ModelResponse[] = []): Promise<ModelResponse> {
+    if (response.status !== 'success') return response;
+
+    const quality = await evaluatorRegistry.evaluate({
+      query,
+      answer: response.response,
+      peers: peers.filter(peer => peer !== response && peer.status === 'success').map(peer => peer.response)
+    }, this.evaluators);
+    response.quality = quality;
+    response.confidence = quality.score;
+    return response;
+  }
+
+  // Rescores every answer against all the others once they are in
+  private async scoreAnswers(query: string, responses: ModelResponse[]): Promise<void> {
+    await Promise.all(responses.map(response => this.scoreAnswer(query, response, responses)));
+  }
+
+  // Final answer: every selected evaluator runs, including the judge's model call
+  private async evaluateFused(request: FusionRequest, answer: string, responses: ModelResponse[]): Promise<QualityReport> {
+    const judge = modelRegistry.getModelForRole('reasoning');
+    return evaluatorRegistry.evaluate({
+      query: request.query,
+      answer,
+      peers: responses.filter(response => response.status === 'success').map(response => response.response)
+    }, this.evaluators, {
+      complete: async prompt => (await this.runModelStep(judge.id, prompt, request, {
+        purpose: 'evaluation',
+        temperature: 0,
+        maxTokens: 500,
+        timeout: 10000,
+        title: 'ChatQora - Answer Evaluation'
+      })).content
+    });
+  }
+
   // NEW: Ultra-fast fusion method - 50% faster than original
   async processFusionQueryTurbo(
     request: FusionRequest,
-    progressCallback?: (progress: FusionProgress) => void
+    progressCallback?: (progress: FusionProgress) => void,
+    tokenCallback?: FusionTokenCallback
+  ): Promise<FusionResult> {
+    const result = await this.runFusionQueryTurbo(request, progressCallback, tokenCallback);
+
+    // Every strategy gets provenance; structured JSON has no sentences to trace
+    if (!request.responseSchema && result.fusedResponse) {
+      result.attributions = attributeSources(result.fusedResponse, result.individualResponses);
+    }
+    if (this.imageDescription) {
+      result.imageDescription = this.imageDescription;
+    }
+    return result;
+  }
+
+  private async runFusionQueryTurbo(
+    request: FusionRequest,
+    progressCallback?: (progress: FusionProgress) => void,
+    tokenCallback?: FusionTokenCallback
   ): Promise<FusionResult> {
     const startTime = Date.now();
     const maxResponseTime = request.maxResponseTime || 15000; // Hard limit: 15 seconds
-    const qualityThreshold = request.qualityThreshold || 0.7;
+    const qualityThreshold = request.qualityThreshold ?? 0.7;
+    this.startUsage(request);
+    this.useModels(request);
+    // Answers that weren't produced by a stream still reach a streaming client as one token
+    let tokensSent = false;
+    const onToken = tokenCallback && ((token: string) => {
+      tokensSent = true;
+      tokenCallback(token);
+    });
     
     try {
       progressCallback?.({
@@ -175,16 +400,36 @@ export class FusionEngine {
         estimatedTimeRemaining: maxResponseTime
       });
 
-      // OPTIMIZATION 1: Adaptive strategy selection based on query complexity
-      const adaptiveStrategy = this.selectOptimalStrategy(request.query, maxResponseTime);
+      // OPTIMIZATION 1: The caller's strategy wins; 'auto' picks one from query complexity
+      const strategy = !request.fusionStrategy || request.fusionStrategy === 'auto'
+        ? this.selectOptimalStrategy(request.query, maxResponseTime)
+        : request.fusionStrategy;
+      this.useEvaluators(request, request.responseSchema ? 'structured' : request.enableStreaming && !['iterative', 'debate'].includes(strategy) ? 'streaming' : strategy);
+      await this.prepareImages(request, progressCallback);
+
+      if (request.responseSchema) {
+        return await this.processStructured(request, progressCallback, startTime, maxResponseTime);
+      }
+      if (strategy === 'iterative') {
+        return await this.processIterative(request, progressCallback, onToken, startTime, maxResponseTime);
+      }
+      if (strategy === 'debate') {
+        return await this.processDebate(request, progressCallback, onToken, startTime, maxResponseTime, qualityThreshold);
+      }
       
       // OPTIMIZATION 2: Smart model ordering based on performance and query type
-      const prioritizedModels = this.getPrioritizedModels(request.query, adaptiveStrategy);
+      const prioritizedModels = this.getPrioritizedModels(request.query, strategy);
       
       // OPTIMIZATION 3: Early completion with streaming
       if (request.enableStreaming) {
-        return await this.processWithStreaming(request, prioritizedModels, progressCallback, maxResponseTime);
+        return await this.processWithStreaming(request, prioritizedModels, progressCallback, maxResponseTime, onToken);
       }
+
+      // Fast mode answers with one model instead of a synthesis: stream the lead model while the
+      // others answer, and take its answer when it succeeds. Tool calls need the non-streaming loop.
+      const leadTokenCallback = strategy === 'fast' && onToken && this.streamingSupported && !request.tools?.length
+        ? this.createStreamingHandler(onToken, progressCallback)
+        : undefined;
       
       // OPTIMIZATION 4: Parallel execution with early completion
       const modelResponses = await this.executeModelsWithEarlyCompletion(
@@ -192,24 +437,42 @@ export class FusionEngine {
         prioritizedModels,
         progressCallback,
         maxResponseTime,
-        qualityThreshold
+        qualityThreshold,
+        leadTokenCallback
       );
 
       const successfulResponses = modelResponses.filter(r => r.status === 'success');
+
+      if (request.signal?.aborted) {
+        const partial = successfulResponses.length > 0 ? this.selectBestResponse(successfulResponses).response : '';
+        return this.buildCancelledResult(modelResponses, partial, strategy, startTime, progressCallback);
+      }
       
       // OPTIMIZATION 5: Lightweight synthesis or best-response fallback
       let fusedResponse: string;
       let synthesisModel: string;
+      const streamedLead = leadTokenCallback && successfulResponses.find(r => r.model === prioritizedModels[0].id);
       
-      if (successfulResponses.length >= 2 && (Date.now() - startTime) < (maxResponseTime * 0.8)) {
+      if (streamedLead) {
+        // The client already has its tokens
+        fusedResponse = streamedLead.response;
+        synthesisModel = streamedLead.modelName + ' (Fast Mode)';
+      } else if (successfulResponses.length >= 2 && (Date.now() - startTime) < (maxResponseTime * 0.8)) {
         // We have time for synthesis
         fusedResponse = await this.lightweightSynthesis(
           request.query,
           successfulResponses,
-          adaptiveStrategy,
-          progressCallback
+          strategy,
+          progressCallback,
+          onToken,
+          request.signal
         );
         synthesisModel = 'Turbo AI Fusion';
+
+        // Stopped mid-synthesis: keep whatever was streamed
+        if (request.signal?.aborted) {
+          return this.buildCancelledResult(modelResponses, fusedResponse, strategy, startTime, progressCallback);
+        }
       } else if (successfulResponses.length >= 1) {
         // Use best single response
         const bestResponse = this.selectBestResponse(successfulResponses);
@@ -219,6 +482,11 @@ export class FusionEngine {
         throw new Error('All models failed or timed out');
       }
 
+      if (onToken && !tokensSent) {
+        onToken(fusedResponse);
+      }
+
+      const quality = await this.evaluateFused(request, fusedResponse, modelResponses);
       const processingTime = Date.now() - startTime;
 
       progressCallback?.({
@@ -233,19 +501,20 @@ export class FusionEngine {
       return {
         fusedResponse,
         individualResponses: modelResponses,
-        fusionStrategy: adaptiveStrategy,
+        fusionStrategy: strategy,
         processingTime,
-        confidence: this.calculateFusionConfidence(modelResponses),
+        confidence: quality.score,
         modelsUsed: successfulResponses.map(r => r.modelName),
         synthesisModel,
-        metadata: {
-          totalTokens: this.estimateTokens(fusedResponse),
-          costSavings: 'Free (Turbo Mode)',
-          qualityScore: this.calculateQualityScore(modelResponses)
-        }
+        quality,
+        metadata: this.buildMetadata(Math.round(quality.score * 100))
       };
 
     } catch (error) {
+      if (request.signal?.aborted) {
+        return this.buildCancelledResult([], '', 'cancelled', startTime, progressCallback);
+      }
+
       // OPTIMIZATION 6: Ultra-fast fallback (under 5 seconds)
       const fallbackTime = Date.now();
       if ((fallbackTime - startTime) < maxResponseTime - 5000) {
@@ -285,21 +554,30 @@ export class FusionEngine {
 
   // OPTIMIZATION 2: Performance-based model prioritization
   private getPrioritizedModels(query: string, strategy: string): typeof this.models {
-    const modelsCopy = [...this.models];
+    const modelsCopy = [...this.participants];
+    const circuitRank: Record<CircuitState, number> = { closed: 0, half_open: 1, open: 2 };
+    // Weight: speed (40%) + reliability (40%) + role relevance (20%); adaptive puts relevance at 50%
+    const relevanceWeight = strategy === 'adaptive' ? 0.5 : 0.2;
+    const score = (model: typeof this.models[0]) => {
+      const stats = modelStatsStore.getRoutingStats(model.id);
+      return ((1 / (stats.avgTime / 1000)) * 0.5 + stats.successRate * 0.5) * (1 - relevanceWeight)
+        + this.getRoleRelevance(model.role, query) * relevanceWeight;
+    };
     
-    // Sort by performance stats and query relevance
-    return modelsCopy.sort((a, b) => {
-      const statsA = this.modelPerformanceStats.get(a.id);
-      const statsB = this.modelPerformanceStats.get(b.id);
-      
-      if (!statsA || !statsB) return 0;
+    // Healthy circuits first, then sort by performance stats and query relevance
+    const ranked = modelsCopy.sort((a, b) => {
+      const circuitOrder = circuitRank[circuitBreakers.getState(a.id)] - circuitRank[circuitBreakers.getState(b.id)];
+      if (circuitOrder !== 0) return circuitOrder;
       
-      // Weight: speed (40%) + reliability (40%) + role relevance (20%)
-      const scoreA = (1 / (statsA.avgTime / 1000)) * 0.4 + statsA.successRate * 0.4 + this.getRoleRelevance(a.role, query) * 0.2;
-      const scoreB = (1 / (statsB.avgTime / 1000)) * 0.4 + statsB.successRate * 0.4 + this.getRoleRelevance(b.role, query) * 0.2;
-      
-      return scoreB - scoreA; // Higher score first
+      return score(b) - score(a); // Higher score first
     });
+
+    // Adaptive sizes the panel to the query: simple questions only go to the best-suited half.
+    // Models the caller chose and models needed for attached images are always asked.
+    if (strategy === 'adaptive' && !this.modelIds && this.images.length === 0 && !this.analyzeQueryComplexity(query)) {
+      return ranked.slice(0, Math.ceil(ranked.length / 2));
+    }
+    return ranked;
   }
 
   private getRoleRelevance(role: string, query: string): number {
@@ -323,15 +601,22 @@ export class FusionEngine {
     prioritizedModels: typeof this.models,
     progressCallback?: (progress: FusionProgress) => void,
     maxTime: number = 15000,
-    qualityThreshold: number = 0.7
+    qualityThreshold: number = 0.7,
+    leadTokenCallback?: FusionTokenCallback // Streams the first model's answer as it is written
   ): Promise<ModelResponse[]> {
     const startTime = Date.now();
     const responses: ModelResponse[] = [];
     const activePromises = new Map<string, Promise<ModelResponse>>();
     
-    // Start all models in parallel but monitor for early completion
-    for (const model of prioritizedModels) {
-      const promise = this.queryIndividualModelTurbo(model, request, progressCallback, maxTime);
+    // Start all models in parallel but monitor for early completion; each answer is scored
+    // against the ones already in as it arrives
+    for (const [index, model] of prioritizedModels.entries()) {
+      const promise = this.queryIndividualModelTurbo(model, request, progressCallback, maxTime, index === 0 ? leadTokenCallback : undefined)
+        .then(response => this.scoreAnswer(request.query, response, responses))
+        .then(response => {
+          responses.push(response);
+          return response;
+        });
       activePromises.set(model.id, promise);
     }
     
@@ -375,14 +660,14 @@ export class FusionEngine {
     const results = await Promise.allSettled([...activePromises.values()]);
     clearInterval(completionCheck);
     
-    return results.map((result, index) => {
+    const modelResponses = results.map((result, index) => {
       const model = prioritizedModels[index];
       
       if (result.status === 'fulfilled') {
-        this.updateModelPerformance(model.id, result.value.processingTime, result.value.status === 'success');
+        // Stats were recorded by queryIndividualModelTurbo
         return result.value;
       } else {
-        this.updateModelPerformance(model.id, maxTime, false);
+        modelStatsStore.record({ modelId: model.id, latencyMs: maxTime, success: false, errorType: 'timeout' });
         return {
           model: model.id,
           modelName: model.name,
@@ -395,6 +680,9 @@ export class FusionEngine {
         };
       }
     });
+
+    await this.scoreAnswers(request.query, modelResponses);
+    return modelResponses;
   }
 
   // Optimized individual model query with abort controller
@@ -402,83 +690,57 @@ export class FusionEngine {
     model: typeof this.models[0],
     request: FusionRequest,
     progressCallback?: (progress: FusionProgress) => void,
-    timeout: number = 15000
+    timeout: number = 15000,
+    onToken?: FusionTokenCallback // Streams the answer instead of using the cache and tools
   ): Promise<ModelResponse> {
     const startTime = Date.now();
     const abortController = new AbortController();
+    // Aborted by either the per-model timeout or the caller cancelling the whole request
+    const onCancel = () => abortController.abort();
+    request.signal?.addEventListener('abort', onCancel, { once: true });
+    if (request.signal?.aborted) abortController.abort();
     
     try {
-      // Set timeout
-      const timeoutId = setTimeout(() => abortController.abort(), timeout);
-      this.activeRequests.set(model.id, abortController);
+      // Set timeout; its abort reason tells it apart from a cancellation
+      const timeoutId = setTimeout(() => abortController.abort(timeoutReason(timeout)), timeout);
       
-      // Check cache first
       const specializedPrompt = this.createSpecializedPrompt(request.query, model.role, request.conversationContext);
-      const cacheKey = this.getCacheKey(model.id, specializedPrompt);
-      const cachedResponse = this.getFromCache(cacheKey);
-      
-      if (cachedResponse) {
-        clearTimeout(timeoutId);
-        this.activeRequests.delete(model.id);
-        return {
-          model: model.id,
-          modelName: model.name,
-          response: cachedResponse,
-          confidence: this.calculateResponseConfidence(cachedResponse),
-          processingTime: Date.now() - startTime,
-          role: model.role,
-          status: 'success'
-        };
-      }
 
-      // Optimized API request
-      const response = await fetch(this.baseUrl, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
-          'Content-Type': 'application/json',
-          'HTTP-Referer': 'https://chatqora.pages.dev',
-          'X-Title': 'ChatQora - Turbo AI Fusion'
-        },
-        body: JSON.stringify({
-          model: model.id,
-          messages: [
-            ...(request.conversationContext || []),
-            { role: 'user', content: specializedPrompt }
-          ],
-          temperature: this.getOptimalTemperature(model.role),
-          max_tokens: this.getOptimalMaxTokensTurbo(model.role, request.query),
-          top_p: 0.9
-        }),
-        signal: abortController.signal
-      });
+      // Optimized API request; served from the shared cache when the same prompt was answered recently
+      const completionRequest: CompletionRequest = {
+        model: model.id,
+        messages: this.createPromptMessages(model.id, specializedPrompt, request.conversationContext),
+        temperature: this.getOptimalTemperature(model.role),
+        maxTokens: this.getOptimalMaxTokensTurbo(model.role, request.query),
+        topP: 0.9,
+        signal: abortController.signal,
+        title: 'ChatQora - Turbo AI Fusion'
+      };
+      const { completion, toolInvocations } = onToken
+        ? { completion: await this.streamModelAnswer(completionRequest, request.signal, onToken), toolInvocations: [] }
+        : await this.completeWithTools(completionRequest, request);
 
       clearTimeout(timeoutId);
-      this.activeRequests.delete(model.id);
-
-      if (!response.ok) {
-        throw new Error(`${model.name} request failed: ${response.statusText}`);
-      }
 
-      const data = await response.json();
       const processingTime = Date.now() - startTime;
-      const responseText = data.choices[0].message.content;
-      
-      // Cache successful responses
-      this.setCache(cacheKey, responseText, 30);
+      const responseText = completion.content;
 
-      return {
+      return await this.scoreAnswer(request.query, {
         model: model.id,
         modelName: model.name,
         response: responseText,
-        confidence: this.calculateResponseConfidence(responseText),
+        confidence: 0,
         processingTime,
         role: model.role,
-        status: 'success'
-      };
+        status: 'success',
+        tokens: completion.usage?.completionTokens,
+        toolInvocations: toolInvocations.length > 0 ? toolInvocations : undefined,
+        imageInput: this.getImageInput(model.id)
+      });
 
     } catch (error) {
-      this.activeRequests.delete(model.id);
+      const cancelled = !!request.signal?.aborted;
+      const timedOut = !cancelled && isTimedOut(abortController.signal);
       
       return {
         model: model.id,
@@ -487,9 +749,11 @@ export class FusionEngine {
         confidence: 0,
         processingTime: Date.now() - startTime,
         role: model.role,
-        status: 'error',
-        error: (error as Error).message
+        status: cancelled ? 'cancelled' : timedOut ? 'timeout' : 'error',
+        error: cancelled ? 'Cancelled by user' : timedOut ? (abortController.signal.reason as Error).message : (error as Error).message
       };
+    } finally {
+      request.signal?.removeEventListener('abort', onCancel);
     }
   }
 
@@ -512,7 +776,9 @@ export class FusionEngine {
     originalQuery: string,
     responses: ModelResponse[],
     strategy: string,
-    progressCallback?: (progress: FusionProgress) => void
+    progressCallback?: (progress: FusionProgress) => void,
+    tokenCallback?: FusionTokenCallback,
+    signal?: AbortSignal
   ): Promise<string> {
     progressCallback?.({
       stage: 'synthesizing',
@@ -527,49 +793,113 @@ export class FusionEngine {
     }
 
     // Quick synthesis with reduced prompt
-    const synthPrompt = this.createLightweightFusionPrompt(originalQuery, responses);
+    const synthPrompt = this.createLightweightFusionPrompt(originalQuery, responses, strategy);
+    const synthesisModelId = modelRegistry.getModelForRole('synthesis').id;
+    const synthesisRequest = {
+      model: synthesisModelId,
+      messages: this.createPromptMessages(synthesisModelId, synthPrompt),
+      temperature: 0.1, // Very low for fast, focused synthesis
+      maxTokens: 1200, // Reduced tokens
+      topP: 0.8,
+      signal,
+      title: 'ChatQora - Fast Fusion'
+    };
+    let streamedContent = '';
     
     try {
-      const response = await fetch(this.baseUrl, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
-          'Content-Type': 'application/json',
-          'HTTP-Referer': 'https://chatqora.pages.dev',
-          'X-Title': 'ChatQora - Fast Fusion'
-        },
-        body: JSON.stringify({
-          model: 'meta-llama/llama-3.3-8b-instruct:free', // Use fast model for synthesis
-          messages: [{ role: 'user', content: synthPrompt }],
-          temperature: 0.1, // Very low for fast, focused synthesis
-          max_tokens: 1200, // Reduced tokens
-          top_p: 0.8
-        })
-      });
-
-      if (!response.ok) {
-        // Fallback to best response
-        return this.selectBestResponse(responses).response;
+      if (tokenCallback && this.streamingSupported) {
+        const onToken = this.createStreamingHandler(token => {
+          streamedContent += token;
+          tokenCallback(token);
+        }, progressCallback);
+        const streamed = await this.streamWithUsage('synthesis', synthesisRequest, onToken);
+        // An empty stream means the provider ignored the request; fall back like a failed call
+        return streamed.content || this.selectBestResponse(responses).response;
       }
 
-      const data = await response.json();
-      return data.choices[0].message.content;
+      const completion = await this.completeWithUsage('synthesis', synthesisRequest);
+      return completion.content;
       
     } catch {
+      // Cancelled mid-stream: the user already saw these tokens, so keep them
+      if (signal?.aborted && streamedContent) {
+        return streamedContent;
+      }
       // Fallback to best response
       return this.selectBestResponse(responses).response;
     }
   }
 
-  private createLightweightFusionPrompt(originalQuery: string, responses: ModelResponse[]): string {
-    const topResponses = responses
-      .sort((a, b) => b.confidence - a.confidence)
-      .slice(0, 2) // Only use top 2 responses
-      .map((r, i) => `**${i + 1}:** ${r.response.substring(0, 800)}`) // Truncate for speed
+  // Forwards each streamed content delta and emits throttled progress with the partial response
+  private createStreamingHandler(
+    tokenCallback: FusionTokenCallback,
+    progressCallback?: (progress: FusionProgress) => void
+  ): (token: string) => void {
+    let content = '';
+    let lastProgressAt = 0;
+
+    return (token: string) => {
+      content += token;
+      tokenCallback(token);
+
+      // Throttle progress updates; tokens already carry the text
+      if (Date.now() - lastProgressAt > 250) {
+        lastProgressAt = Date.now();
+        progressCallback?.({
+          stage: 'streaming',
+          modelProgress: this.getCompletedProgress(),
+          synthesisProgress: 75,
+          message: 'Streaming fused response...',
+          partialResponse: content
+        });
+      }
+    };
+  }
+
+  private createLightweightFusionPrompt(originalQuery: string, responses: ModelResponse[], strategy: string): string {
+    // Specialized: every model answered from its role, so keep each perspective instead of the top two
+    if (strategy === 'specialized') {
+      const perspectives = responses
+        .map(r => `**${r.role.toUpperCase()} (${r.modelName}${this.getImageInputLabel(r)}):** ${r.response.substring(0, 800)}`)
+        .join('\n\n');
+
+      return `Combine these specialist perspectives into one answer. Keep each specialist's strongest points in its own area and drop repetition:
+${this.createImageSynthesisNote()}
+Query: "${originalQuery}"
+
+${perspectives}
+
+Provide the combined answer:`;
+    }
+
+    // Consensus: every answer counts, and the synthesis keeps what they agree on
+    if (strategy === 'consensus') {
+      const answers = responses
+        .map((r, i) => `**${i + 1} (${r.modelName}${this.getImageInputLabel(r)}):** ${r.response.substring(0, 800)}`)
+        .join('\n\n');
+
+      return `Combine these AI responses into the answer they agree on. Lead with the points most of them make, keep a point only one of them makes only if it is clearly correct, and briefly note any real disagreement:
+${this.createImageSynthesisNote()}
+Query: "${originalQuery}"
+
+${answers}
+
+Provide the consensus answer:`;
+    }
+
+    // Adaptive: the synthesis builds on the two most confident answers
+    const ranked = [...responses].sort((a, b) => b.confidence - a.confidence);
+    const top = ranked.slice(0, 2); // Only use top 2 responses
+    // With images attached, keep at least one answer from a model that actually saw them
+    const bestDirect = ranked.find(r => r.imageInput === 'direct');
+    if (bestDirect && !top.includes(bestDirect)) top[top.length - 1] = bestDirect;
+
+    const topResponses = top
+      .map((r, i) => `**${i + 1}${this.getImageInputLabel(r)}:** ${r.response.substring(0, 800)}`) // Truncate for speed
       .join('\n\n');
 
     return `Quickly combine these AI responses into one better answer:
-
+${this.createImageSynthesisNote()}
 Query: "${originalQuery}"
 
 ${topResponses}
@@ -615,11 +945,8 @@ Provide a concise, accurate synthesis:`;
       confidence: response.confidence,
       modelsUsed: [fastModel.name],
       synthesisModel: fastModel.name + ' (Ultra-Fast)',
-      metadata: {
-        totalTokens: this.estimateTokens(response.response),
-        costSavings: 'Free (Emergency Mode)',
-        qualityScore: Math.round(response.confidence * 100)
-      }
+      quality: response.quality,
+      metadata: this.buildMetadata(Math.round(response.confidence * 100))
     };
   }
 
@@ -628,7 +955,8 @@ Provide a concise, accurate synthesis:`;
     request: FusionRequest,
     prioritizedModels: typeof this.models,
     progressCallback?: (progress: FusionProgress) => void,
-    maxTime: number = 15000
+    maxTime: number = 15000,
+    tokenCallback?: FusionTokenCallback
   ): Promise<FusionResult> {
     const startTime = Date.now();
     const modelResponses: ModelResponse[] = [];
@@ -673,7 +1001,7 @@ Provide a concise, accurate synthesis:`;
 
     // Continue with remaining models if we have time
     const remainingTime = maxTime - (Date.now() - startTime);
-    if (remainingTime > 3000) { // At least 3 seconds left
+    if (remainingTime > 3000 && !request.signal?.aborted) { // At least 3 seconds left
       const remainingModels = prioritizedModels.slice(1);
       const remainingPromises = remainingModels.map(model =>
         this.queryIndividualModelTurbo(model, request, progressCallback, remainingTime / remainingModels.length)
@@ -704,24 +1032,33 @@ Provide a concise, accurate synthesis:`;
       });
     }
 
+    await this.scoreAnswers(request.query, modelResponses);
     const processingTime = Date.now() - startTime;
     const successfulResponses = modelResponses.filter(r => r.status === 'success');
 
     // Quick synthesis if we have multiple good responses
     let finalResponse = bestCurrentResponse;
-    if (successfulResponses.length >= 2 && (Date.now() - startTime) < maxTime * 0.9) {
+    if (successfulResponses.length >= 2 && (Date.now() - startTime) < maxTime * 0.9 && !request.signal?.aborted) {
       try {
         finalResponse = await this.lightweightSynthesis(
           request.query,
           successfulResponses,
           'fast',
-          progressCallback
+          progressCallback,
+          tokenCallback,
+          request.signal
         );
       } catch {
         finalResponse = bestCurrentResponse; // Fallback
       }
     }
 
+    if (request.signal?.aborted) {
+      return this.buildCancelledResult(modelResponses, finalResponse, 'streaming', startTime, progressCallback);
+    }
+
+    const quality = await this.evaluateFused(request, finalResponse, modelResponses);
+
     progressCallback?.({
       stage: 'completed',
       modelProgress: this.getCompletedProgress(),
@@ -736,14 +1073,689 @@ Provide a concise, accurate synthesis:`;
       individualResponses: modelResponses,
       fusionStrategy: 'streaming',
       processingTime,
-      confidence: this.calculateFusionConfidence(modelResponses),
+      confidence: quality.score,
       modelsUsed: successfulResponses.map(r => r.modelName),
       synthesisModel: 'Streaming AI Fusion',
-      metadata: {
-        totalTokens: this.estimateTokens(finalResponse),
-        costSavings: 'Free (Streaming Mode)',
-        qualityScore: this.calculateQualityScore(modelResponses)
+      quality,
+      metadata: this.buildMetadata(Math.round(quality.score * 100))
+    };
+  }
+
+  // Result for a request stopped via request.signal: whatever responses (and streamed text) exist so far
+  private buildCancelledResult(
+    modelResponses: ModelResponse[],
+    partialResponse: string,
+    strategy: string,
+    startTime: number,
+    progressCallback?: (progress: FusionProgress) => void
+  ): FusionResult {
+    const processingTime = Date.now() - startTime;
+    const successfulResponses = modelResponses.filter(r => r.status === 'success');
+    // A stopped answer isn't evaluated; it borrows the average of the answers it was built from
+    const confidence = partialResponse && successfulResponses.length > 0
+      ? successfulResponses.reduce((sum, r) => sum + r.confidence, 0) / successfulResponses.length
+      : 0;
+
+    progressCallback?.({
+      stage: 'cancelled',
+      modelProgress: this.getPartialProgress(modelResponses, this.models),
+      synthesisProgress: 0,
+      message: `Stopped after ${Math.round(processingTime / 1000)}s`,
+      partialResponse,
+      completedModels: successfulResponses.length,
+      totalModels: this.models.length
+    });
+
+    return {
+      fusedResponse: partialResponse,
+      individualResponses: modelResponses,
+      fusionStrategy: strategy,
+      processingTime,
+      confidence,
+      modelsUsed: successfulResponses.map(r => r.modelName),
+      synthesisModel: 'Cancelled',
+      cancelled: true,
+      metadata: this.buildMetadata(Math.round(confidence * 100))
+    };
+  }
+
+  // Iterative strategy: one model drafts, a second critiques the draft against the query and the
+  // drafter revises. Repeats for request.iterativeRounds rounds or until the critic has nothing to add.
+  private async processIterative(
+    request: FusionRequest,
+    progressCallback?: (progress: FusionProgress) => void,
+    tokenCallback?: FusionTokenCallback,
+    startTime: number = Date.now(),
+    stepTimeout: number = 15000 // Per call, not for the whole loop
+  ): Promise<FusionResult> {
+    const totalRounds = Math.min(
+      Math.max(Math.round(request.iterativeRounds ?? DEFAULT_ITERATIVE_ROUNDS), 1),
+      MAX_ITERATIVE_ROUNDS
+    );
+    const { drafter, critic } = this.selectIterativeModels();
+    const iterations: FusionIteration[] = [];
+
+    const reportStep = (round: number, step: 'drafting' | 'critiquing' | 'revising', message: string) => {
+      const stepOffset = { drafting: 0, critiquing: 0.25, revising: 0.6 }[step];
+      progressCallback?.({
+        stage: 'iterating',
+        modelProgress: { [drafter.id]: round > 0 ? 100 : 0 },
+        synthesisProgress: round === 0 ? 0 : Math.round(((round - 1 + stepOffset) / totalRounds) * 100),
+        message,
+        iteration: { round, totalRounds, step }
+      });
+    };
+
+    reportStep(0, 'drafting', `${drafter.name} is drafting an answer...`);
+    const draftResponse = await this.queryIndividualModelTurbo(drafter, request, progressCallback, stepTimeout);
+    const modelResponses = [draftResponse];
+
+    if (request.signal?.aborted) {
+      return this.buildCancelledResult(modelResponses, '', 'iterative', startTime, progressCallback);
+    }
+    if (draftResponse.status !== 'success') {
+      throw new Error(`Iterative draft failed: ${draftResponse.error || draftResponse.status}`);
+    }
+
+    let answer = draftResponse.response;
+
+    for (let round = 1; round <= totalRounds; round++) {
+      const roundStart = Date.now();
+
+      reportStep(round, 'critiquing', `Round ${round}/${totalRounds}: ${critic.name} is reviewing the draft...`);
+      let critique: string;
+      try {
+        critique = (await this.runModelStep(critic.id, this.createCritiquePrompt(request.query, answer), request, {
+          purpose: 'critique',
+          temperature: 0.2,
+          maxTokens: 600,
+          timeout: stepTimeout,
+          title: 'ChatQora - Iterative Fusion'
+        })).content;
+      } catch (error) {
+        if (!request.signal?.aborted) {
+          console.warn(`⚠️ Iterative critique failed in round ${round}, keeping current answer:`, (error as Error).message);
+        }
+        break;
+      }
+      if (request.signal?.aborted) break;
+
+      if (/^\s*NO_CHANGES\b/i.test(critique) || !critique.trim()) {
+        iterations.push({ round, draft: answer, critique, critiqueModel: critic.name, revision: answer, revisionModel: drafter.name, processingTime: Date.now() - roundStart });
+        break;
+      }
+
+      reportStep(round, 'revising', `Round ${round}/${totalRounds}: ${drafter.name} is revising...`);
+      // Only the last round streams; earlier revisions would just be replaced on screen
+      let streamedRevision = '';
+      const onToken = round === totalRounds && tokenCallback
+        ? this.createStreamingHandler(token => {
+            streamedRevision += token;
+            tokenCallback(token);
+          }, progressCallback)
+        : undefined;
+
+      try {
+        const revision = await this.runModelStep(drafter.id, this.createRevisionPrompt(request.query, answer, critique), request, {
+          purpose: 'revision',
+          temperature: 0.5,
+          maxTokens: this.getOptimalMaxTokensTurbo(drafter.role, request.query),
+          timeout: stepTimeout,
+          title: 'ChatQora - Iterative Fusion',
+          onToken
+        });
+        const revised = revision.content.trim() ? revision.content : answer;
+        iterations.push({ round, draft: answer, critique, critiqueModel: critic.name, revision: revised, revisionModel: drafter.name, processingTime: Date.now() - roundStart });
+        answer = revised;
+      } catch (error) {
+        // Cancelled mid-stream: the user already saw these tokens, so keep them
+        if (request.signal?.aborted) {
+          if (streamedRevision) answer = streamedRevision;
+          break;
+        }
+        console.warn(`⚠️ Iterative revision failed in round ${round}, keeping current answer:`, (error as Error).message);
+        break;
       }
+    }
+
+    if (request.signal?.aborted) {
+      return { ...this.buildCancelledResult(modelResponses, answer, 'iterative', startTime, progressCallback), iterations };
+    }
+
+    const quality = await this.evaluateFused(request, answer, []);
+    const processingTime = Date.now() - startTime;
+    progressCallback?.({
+      stage: 'completed',
+      modelProgress: { [drafter.id]: 100 },
+      synthesisProgress: 100,
+      message: `Iterative fusion complete! ${iterations.length} round${iterations.length === 1 ? '' : 's'} (${Math.round(processingTime / 1000)}s)`,
+      completedModels: 1,
+      totalModels: 1
+    });
+
+    return {
+      fusedResponse: answer,
+      individualResponses: modelResponses,
+      fusionStrategy: 'iterative',
+      processingTime,
+      confidence: quality.score,
+      modelsUsed: iterations.length > 0 ? [...new Set([drafter.name, critic.name])] : [drafter.name],
+      synthesisModel: `${drafter.name} (Iterative)`,
+      iterations,
+      quality,
+      metadata: this.buildMetadata(Math.round(quality.score * 100))
+    };
+  }
+
+  // Drafter is the primary fusion model; the critic is the best reasoning model that isn't the drafter
+  private selectIterativeModels(): { drafter: FusionModel; critic: { id: string; name: string } } {
+    const fusionModels = this.models;
+    const primaryId = modelRegistry.getModelForRole('primary').id;
+    const drafter = fusionModels.find(model => model.id === primaryId) || fusionModels[0];
+
+    // A chosen model set critiques from within, if it has a second model
+    const chosenCritic = this.modelIds ? fusionModels.find(model => model.id !== drafter.id) : undefined;
+    const criticDefinition = (chosenCritic && modelRegistry.get(chosenCritic.id))
+      || modelRegistry.getByRole('reasoning').find(model => model.id !== drafter.id)
+      || modelRegistry.getEnabled().find(model => model.id !== drafter.id && model.modalities.includes('text'));
+
+    // Only one text model enabled: it critiques its own draft
+    const critic = criticDefinition
+      ? { id: criticDefinition.id, name: criticDefinition.shortName }
+      : { id: drafter.id, name: drafter.name };
+
+    return { drafter, critic };
+  }
+
+  // One follow-up call (critique, revision, rebuttal, verdict) with its own timeout, also aborted by request.signal
+  private async runModelStep(
+    modelId: string,
+    prompt: string,
+    request: FusionRequest,
+    options: {
+      purpose: UsagePurpose;
+      temperature: number;
+      maxTokens: number;
+      timeout: number;
+      title: string;
+      onToken?: (token: string) => void;
+    }
+  ): Promise<CompletionResult> {
+    const { purpose, temperature, maxTokens, timeout, title, onToken } = options;
+    const abortController = new AbortController();
+    const onCancel = () => abortController.abort();
+    request.signal?.addEventListener('abort', onCancel, { once: true });
+    if (request.signal?.aborted) abortController.abort();
+    const timeoutId = setTimeout(() => abortController.abort(timeoutReason(timeout)), timeout);
+
+    const completionRequest: CompletionRequest = {
+      model: modelId,
+      messages: this.createPromptMessages(modelId, prompt, request.conversationContext),
+      temperature,
+      maxTokens,
+      signal: abortController.signal,
+      title
+    };
+
+    try {
+      if (!onToken) {
+        return await this.completeCached(completionRequest, request.query, request.signal, purpose);
+      }
+
+      return await this.streamModelAnswer(completionRequest, request.signal, onToken, purpose);
+    } finally {
+      clearTimeout(timeoutId);
+      request.signal?.removeEventListener('abort', onCancel);
+    }
+  }
+
+  private createCritiquePrompt(query: string, draft: string): string {
+    return `You are reviewing another AI's answer before it is shown to the user.
+
+**User Query:** ${query}
+
+**Draft Answer:**
+${draft}
+
+List the concrete problems with the draft: factual errors, parts of the query it misses, unclear or unnecessary sections. Be specific and brief.
+If the draft already answers the query well, reply with exactly NO_CHANGES.`;
+  }
+
+  private createRevisionPrompt(query: string, draft: string, critique: string): string {
+    return `Revise your answer using the reviewer's feedback.
+
+**User Query:** ${query}
+
+**Your Previous Answer:**
+${draft}
+
+**Reviewer Feedback:**
+${critique}
+
+Write the improved answer only, without mentioning the review:`;
+  }
+
+  // Debate strategy: every model answers, then reads the others' answers and writes a rebuttal or
+  // concession. The synthesis model judges the exchange and lists the points the models disagreed on.
+  private async processDebate(
+    request: FusionRequest,
+    progressCallback?: (progress: FusionProgress) => void,
+    tokenCallback?: FusionTokenCallback,
+    startTime: number = Date.now(),
+    maxTime: number = 15000, // Per phase: openings, rebuttals, verdict
+    qualityThreshold: number = 0.7
+  ): Promise<FusionResult> {
+    const debaters = this.getPrioritizedModels(request.query, 'debate');
+    const openingResponses = await this.executeModelsWithEarlyCompletion(request, debaters, progressCallback, maxTime, qualityThreshold);
+    const openings = openingResponses.filter(r => r.status === 'success');
+    const bestOpening = () => openings.length > 0 ? this.selectBestResponse(openings).response : '';
+
+    if (request.signal?.aborted) {
+      return this.buildCancelledResult(openingResponses, bestOpening(), 'debate', startTime, progressCallback);
+    }
+    if (openings.length === 0) {
+      throw new Error('All models failed or timed out');
+    }
+
+    let rebuttals: DebateRebuttal[] = [];
+    let verdict: { answer: string; disagreements: FusionDisagreement[] } = { answer: bestOpening(), disagreements: [] };
+    let synthesisModel = `${this.selectBestResponse(openings).modelName} (Fast Mode)`;
+
+    // A single answer has nobody to argue with
+    if (openings.length >= 2) {
+      let completedRebuttals = 0;
+      const reportDebate = (message: string) => progressCallback?.({
+        stage: 'debating',
+        modelProgress: this.getCompletedProgress(),
+        synthesisProgress: Math.round((completedRebuttals / openings.length) * 40),
+        message,
+        completedModels: completedRebuttals,
+        totalModels: openings.length
+      });
+
+      reportDebate('Models are reviewing each other\'s answers...');
+      const rebuttalResults = await Promise.allSettled(openings.map(async opening => {
+        const others = openings.filter(other => other.model !== opening.model);
+        const completion = await this.runModelStep(opening.model, this.createRebuttalPrompt(request.query, opening, others), request, {
+          purpose: 'rebuttal',
+          temperature: 0.4,
+          maxTokens: 700,
+          timeout: maxTime,
+          title: 'ChatQora - Debate Fusion'
+        });
+        completedRebuttals += 1;
+        reportDebate(`${opening.modelName} responded to the other models`);
+        return this.parseRebuttal(opening, completion.content);
+      }));
+      rebuttals = rebuttalResults.flatMap(result => result.status === 'fulfilled' && result.value.response ? [result.value] : []);
+
+      if (request.signal?.aborted) {
+        return { ...this.buildCancelledResult(openingResponses, bestOpening(), 'debate', startTime, progressCallback), rebuttals };
+      }
+
+      progressCallback?.({
+        stage: 'synthesizing',
+        modelProgress: this.getCompletedProgress(),
+        synthesisProgress: 50,
+        message: 'Judging the debate...'
+      });
+
+      const judge = modelRegistry.getModelForRole('synthesis');
+      let streamedAnswer = '';
+      const onToken = tokenCallback
+        ? this.createSectionStreamFilter(JUDGE_ANSWER_MARKER, this.createStreamingHandler(token => {
+            streamedAnswer += token;
+            tokenCallback(token);
+          }, progressCallback))
+        : undefined;
+
+      try {
+        const completion = await this.runModelStep(judge.id, this.createJudgePrompt(request.query, openings, rebuttals), request, {
+          purpose: 'judge',
+          temperature: 0.2,
+          maxTokens: 1800,
+          timeout: maxTime,
+          title: 'ChatQora - Debate Fusion',
+          onToken
+        });
+        const parsed = this.parseJudgeVerdict(completion.content);
+        if (parsed.answer.trim()) {
+          verdict = parsed;
+          synthesisModel = `${judge.shortName} (Debate Judge)`;
+        }
+      } catch (error) {
+        // Cancelled mid-stream: the user already saw these tokens, so keep them
+        if (request.signal?.aborted) {
+          return { ...this.buildCancelledResult(openingResponses, streamedAnswer || bestOpening(), 'debate', startTime, progressCallback), rebuttals };
+        }
+        console.warn('⚠️ Debate judge failed, using the best opening answer:', (error as Error).message);
+      }
+    }
+
+    const quality = await this.evaluateFused(request, verdict.answer, openingResponses);
+    const processingTime = Date.now() - startTime;
+    progressCallback?.({
+      stage: 'completed',
+      modelProgress: this.getCompletedProgress(),
+      synthesisProgress: 100,
+      message: `Debate complete! ${verdict.disagreements.length} disagreement${verdict.disagreements.length === 1 ? '' : 's'} resolved (${Math.round(processingTime / 1000)}s)`,
+      completedModels: openings.length,
+      totalModels: debaters.length
+    });
+
+    return {
+      fusedResponse: verdict.answer,
+      individualResponses: openingResponses,
+      fusionStrategy: 'debate',
+      processingTime,
+      confidence: quality.score,
+      modelsUsed: openings.map(r => r.modelName),
+      synthesisModel,
+      rebuttals,
+      disagreements: verdict.disagreements,
+      quality,
+      metadata: this.buildMetadata(Math.round(quality.score * 100))
+    };
+  }
+
+  private createRebuttalPrompt(query: string, own: ModelResponse, others: ModelResponse[]): string {
+    const otherAnswers = others
+      .map(other => `**${other.modelName}:** ${other.response.substring(0, 1200)}`)
+      .join('\n\n');
+
+    return `You answered the user's query and other AI models answered it too. Respond to their answers.
+
+**User Query:** ${query}
+
+**Your Answer:**
+${own.response.substring(0, 1200)}
+
+**Other Answers:**
+${otherAnswers}
+
+Where they are wrong or leave something out, rebut it with reasons. Where they are right and you were wrong, concede it plainly.
+Start with one line: STANCE: REBUTTAL, STANCE: CONCESSION or STANCE: MIXED. Keep it brief.`;
+  }
+
+  private parseRebuttal(opening: ModelResponse, content: string): DebateRebuttal {
+    const stance = content.match(/^\s*\**STANCE:?\**\s*(REBUTTAL|CONCESSION|MIXED)\b\**\s*/i);
+    return {
+      model: opening.model,
+      modelName: opening.modelName,
+      stance: stance ? stance[1].toLowerCase() as DebateRebuttal['stance'] : 'mixed',
+      response: (stance ? content.slice(stance[0].length) : content).trim()
+    };
+  }
+
+  private createJudgePrompt(query: string, openings: ModelResponse[], rebuttals: DebateRebuttal[]): string {
+    const openingTexts = openings
+      .map(opening => `**${opening.modelName}:** ${opening.response.substring(0, 1200)}`)
+      .join('\n\n');
+    const rebuttalTexts = rebuttals.length > 0
+      ? rebuttals.map(rebuttal => `**${rebuttal.modelName} (${rebuttal.stance}):** ${rebuttal.response.substring(0, 800)}`).join('\n\n')
+      : '(none)';
+
+    return `You are judging a debate between AI models about the user's query.
+
+**User Query:** ${query}
+
+**Opening Answers:**
+${openingTexts}
+
+**Rebuttals:**
+${rebuttalTexts}
+
+Find the points where the models genuinely disagreed and settle each one on the merits. Then write the best final answer for the user.
+
+Reply in exactly this format:
+${JUDGE_DISAGREEMENTS_MARKER}
+[{"topic": "short name of the point", "positions": [{"model": "model name", "position": "what it claimed"}], "resolution": "which position holds and why"}]
+${JUDGE_ANSWER_MARKER}
+<the complete answer for the user, without mentioning the debate>
+
+Use [] for the list when the models agreed on everything.`;
+  }
+
+  // A judge that ignores the format still produces a usable answer, just without a disagreement list
+  private parseJudgeVerdict(content: string): { answer: string; disagreements: FusionDisagreement[] } {
+    const answerIndex = content.toUpperCase().indexOf(JUDGE_ANSWER_MARKER);
+    if (answerIndex === -1) {
+      return { answer: content.trim(), disagreements: [] };
+    }
+
+    const answer = content.slice(answerIndex + JUDGE_ANSWER_MARKER.length).trim();
+    const header = content.slice(0, answerIndex);
+    const listStart = header.indexOf('[');
+    const listEnd = header.lastIndexOf(']');
+    if (listStart === -1 || listEnd <= listStart) {
+      return { answer, disagreements: [] };
+    }
+
+    try {
+      const parsed: unknown = JSON.parse(header.slice(listStart, listEnd + 1));
+      if (!Array.isArray(parsed)) return { answer, disagreements: [] };
+
+      const disagreements = parsed.flatMap((item): FusionDisagreement[] => {
+        if (!item || typeof item.topic !== 'string' || !item.topic.trim()) return [];
+        const positions = Array.isArray(item.positions)
+          ? item.positions.filter((p: unknown): p is { model: string; position: string } =>
+              !!p && typeof (p as { model?: unknown }).model === 'string' && typeof (p as { position?: unknown }).position === 'string')
+          : [];
+        return [{
+          topic: item.topic.trim(),
+          positions: positions.map((p: { model: string; position: string }) => ({ model: p.model, position: p.position })),
+          resolution: typeof item.resolution === 'string' ? item.resolution : ''
+        }];
+      });
+      return { answer, disagreements };
+    } catch (error) {
+      console.warn('⚠️ Could not parse debate disagreements:', (error as Error).message);
+      return { answer, disagreements: [] };
+    }
+  }
+
+  // Structured output: every model answers with JSON for request.responseSchema and is re-prompted with
+  // the validation errors until it validates. The synthesis model merges the valid answers, validated again.
+  private async processStructured(
+    request: FusionRequest,
+    progressCallback?: (progress: FusionProgress) => void,
+    startTime: number = Date.now(),
+    maxTime: number = 15000 // Per model call, repairs included
+  ): Promise<FusionResult> {
+    const schema = request.responseSchema!;
+    const models = this.getPrioritizedModels(request.query, 'structured');
+    let completedModels = 0;
+
+    progressCallback?.({
+      stage: 'querying',
+      modelProgress: this.getInitialProgress(),
+      synthesisProgress: 0,
+      message: 'Requesting structured answers...',
+      completedModels,
+      totalModels: models.length
+    });
+
+    const answers = await Promise.all(models.map(async model => {
+      const modelStart = Date.now();
+      try {
+        const output = await completeStructured(request.query, schema, async (prompt, attempt) =>
+          (await this.runModelStep(model.id, prompt, request, {
+            purpose: attempt === 0 ? 'model' : 'repair',
+            temperature: attempt === 0 ? this.getOptimalTemperature(model.role) : 0.1,
+            maxTokens: this.getOptimalMaxTokensTurbo(model.role, request.query),
+            timeout: maxTime,
+            title: 'ChatQora - Structured Fusion'
+          })).content
+        );
+
+        completedModels += 1;
+        progressCallback?.({
+          stage: 'querying',
+          modelProgress: this.getCompletedProgress(),
+          synthesisProgress: 0,
+          message: `${model.name} ${output.valid ? 'returned valid JSON' : 'could not match the schema'}`,
+          completedModels,
+          totalModels: models.length
+        });
+
+        // Every repair round means the model needed help; an answer that never validated is worthless here
+        const confidence = output.valid ? Math.max(0.5, 0.9 - output.repairs * 0.15) : 0;
+        const response: ModelResponse = {
+          model: model.id,
+          modelName: model.name,
+          response: output.valid ? JSON.stringify(output.value, null, 2) : output.raw,
+          confidence,
+          quality: {
+            score: confidence,
+            evaluations: [{
+              evaluator: 'schema',
+              score: confidence,
+              breakdown: [{
+                name: 'Schema validation',
+                score: confidence,
+                weight: 1,
+                detail: output.valid
+                  ? `Valid after ${output.repairs} repair${output.repairs === 1 ? '' : 's'} (90%, minus 15% per repair)`
+                  : `Still invalid after ${output.repairs} repairs`
+              }]
+            }]
+          },
+          processingTime: Date.now() - modelStart,
+          role: model.role,
+          status: output.valid ? 'success' : 'error',
+          error: output.valid ? undefined : `Invalid JSON after ${output.repairs} repairs: ${output.errors[0]}`
+        };
+        return { response, output };
+      } catch (error) {
+        const cancelled = !!request.signal?.aborted;
+        const response: ModelResponse = {
+          model: model.id,
+          modelName: model.name,
+          response: '',
+          confidence: 0,
+          processingTime: Date.now() - modelStart,
+          role: model.role,
+          status: cancelled ? 'cancelled' : 'error',
+          error: cancelled ? 'Cancelled by user' : (error as Error).message
+        };
+        return { response, output: null };
+      }
+    }));
+
+    const modelResponses = answers.map(answer => answer.response);
+    // Fewest repairs first; ties keep the prioritized model order
+    const validAnswers = answers
+      .filter((answer): answer is { response: ModelResponse; output: StructuredOutput } => !!answer.output?.valid)
+      .sort((a, b) => a.output.repairs - b.output.repairs);
+
+    if (request.signal?.aborted) {
+      return this.buildCancelledResult(modelResponses, validAnswers[0]?.response.response ?? '', 'structured', startTime, progressCallback);
+    }
+    if (validAnswers.length === 0) {
+      const firstError = modelResponses.find(r => r.error)?.error ?? 'no model answered';
+      throw new Error(`No model produced JSON matching the schema (${firstError})`);
+    }
+
+    let structured = validAnswers[0].output;
+    let synthesisModel = `${validAnswers[0].response.modelName} (Best Valid Answer)`;
+
+    if (validAnswers.length >= 2) {
+      progressCallback?.({
+        stage: 'synthesizing',
+        modelProgress: this.getCompletedProgress(),
+        synthesisProgress: 50,
+        message: `Merging ${validAnswers.length} structured answers...`
+      });
+
+      const synthesizer = modelRegistry.getModelForRole('synthesis');
+      try {
+        const merged = await completeStructured(
+          this.createStructuredMergePrompt(request.query, validAnswers.map(answer => answer.response)),
+          schema,
+          async (prompt, attempt) => (await this.runModelStep(synthesizer.id, prompt, request, {
+            purpose: attempt === 0 ? 'synthesis' : 'repair',
+            temperature: 0.1,
+            maxTokens: 2000,
+            timeout: maxTime,
+            title: 'ChatQora - Structured Fusion'
+          })).content
+        );
+
+        if (merged.valid) {
+          structured = merged;
+          synthesisModel = `${synthesizer.shortName} (Structured Fusion)`;
+        } else {
+          console.warn('⚠️ Fused JSON failed validation, using the best model answer:', merged.errors[0]);
+        }
+      } catch (error) {
+        if (request.signal?.aborted) {
+          return this.buildCancelledResult(modelResponses, validAnswers[0].response.response, 'structured', startTime, progressCallback);
+        }
+        console.warn('⚠️ Structured synthesis failed, using the best model answer:', (error as Error).message);
+      }
+    }
+
+    const fusedResponse = JSON.stringify(structured.value, null, 2);
+    const quality = await this.evaluateFused(request, fusedResponse, validAnswers.map(answer => answer.response));
+    const processingTime = Date.now() - startTime;
+    progressCallback?.({
+      stage: 'completed',
+      modelProgress: this.getCompletedProgress(),
+      synthesisProgress: 100,
+      message: `Structured fusion complete! ${validAnswers.length}/${models.length} answers validated (${Math.round(processingTime / 1000)}s)`,
+      completedModels: validAnswers.length,
+      totalModels: models.length
+    });
+
+    return {
+      fusedResponse,
+      individualResponses: modelResponses,
+      fusionStrategy: 'structured',
+      processingTime,
+      confidence: quality.score,
+      modelsUsed: validAnswers.map(answer => answer.response.modelName),
+      synthesisModel,
+      structured,
+      quality,
+      metadata: this.buildMetadata(Math.round(quality.score * 100))
+    };
+  }
+
+  private createStructuredMergePrompt(query: string, answers: ModelResponse[]): string {
+    const answerTexts = answers
+      .map(answer => `**${answer.modelName}:**\n${answer.response.substring(0, 3000)}`)
+      .join('\n\n');
+
+    return `Several AI models answered the request below with JSON. Merge their answers into one.
+Keep values the models agree on, choose the best-supported value where they differ, and include every correct item.
+
+**Request:** ${query}
+
+**Model Answers:**
+${answerTexts}`;
+  }
+
+  // Forwards only the text after `marker`, without its leading whitespace
+  private createSectionStreamFilter(marker: string, onToken: (token: string) => void): (token: string) => void {
+    let buffer = '';
+    let inSection = false;
+    let trimming = true;
+
+    return (token: string) => {
+      let text = token;
+      if (!inSection) {
+        buffer += token;
+        const index = buffer.toUpperCase().indexOf(marker);
+        if (index === -1) return;
+        inSection = true;
+        text = buffer.slice(index + marker.length);
+      }
+      if (trimming) {
+        text = text.replace(/^\s+/, '');
+        if (!text) return;
+        trimming = false;
+      }
+      onToken(text);
     };
   }
 
@@ -766,6 +1778,8 @@ Provide a concise, accurate synthesis:`;
     progressCallback?: (progress: FusionProgress) => void
   ): Promise<FusionResult> {
     const startTime = Date.now();
+    this.startUsage(request);
+    this.useEvaluators(request, request.fusionStrategy);
     
     try {
       // Initialize
@@ -781,6 +1795,7 @@ Provide a concise, accurate synthesis:`;
         request, 
         progressCallback
       );
+      await this.scoreAnswers(request.query, modelResponses);
 
       // Step 2: Synthesize responses
       const fusedResponse = await this.synthesizeResponses(
@@ -791,6 +1806,7 @@ Provide a concise, accurate synthesis:`;
         progressCallback
       );
 
+      const quality = await this.evaluateFused(request, fusedResponse, modelResponses);
       const processingTime = Date.now() - startTime;
 
       progressCallback?.({
@@ -805,14 +1821,11 @@ Provide a concise, accurate synthesis:`;
         individualResponses: modelResponses,
         fusionStrategy: request.fusionStrategy,
         processingTime,
-        confidence: this.calculateFusionConfidence(modelResponses),
+        confidence: quality.score,
         modelsUsed: this.models.map(m => m.name),
-        synthesisModel: 'Llama 70B (Fusion Coordinator)',
-        metadata: {
-          totalTokens: this.estimateTokens(fusedResponse),
-          costSavings: 'Free (Open Source Models)',
-          qualityScore: this.calculateQualityScore(modelResponses)
-        }
+        synthesisModel: `${modelRegistry.getModelForRole('synthesis').shortName} (Fusion Coordinator)`,
+        quality,
+        metadata: this.buildMetadata(Math.round(quality.score * 100))
       };
 
     } catch (error) {
@@ -893,45 +1906,8 @@ Provide a concise, accurate synthesis:`;
         request.conversationContext
       );
 
-      // Check cache first
-      const cacheKey = this.getCacheKey(model.id, specializedPrompt);
-      const cachedResponse = this.getFromCache(cacheKey);
-      
-      if (cachedResponse) {
-        this.updateModelProgress(model.id, 100, progressCallback);
-        return {
-          model: model.id,
-          modelName: model.name,
-          response: cachedResponse,
-          confidence: this.calculateResponseConfidence(cachedResponse),
-          processingTime: Date.now() - startTime,
-          role: model.role,
-          status: 'success'
-        };
-      }
-      
-      // Check if request is already in progress (deduplication)
-      const requestKey = `${model.id}:${specializedPrompt}`;
-      if (this.requestQueue.has(requestKey)) {
-        return await this.requestQueue.get(requestKey)!;
-      }
-
-      // Create promise and add to queue
-      const requestPromise = this.makeModelRequest(model, specializedPrompt, request, progressCallback, startTime);
-      this.requestQueue.set(requestKey, requestPromise);
-      
-      try {
-        const result = await requestPromise;
-        
-        // Cache successful responses
-        if (result.status === 'success') {
-          this.setCache(cacheKey, result.response, 30); // Cache for 30 minutes
-        }
-        
-        return result;
-      } finally {
-        this.requestQueue.delete(requestKey);
-      }
+      // Cache lookup and in-flight deduplication happen in completeCached
+      return await this.makeModelRequest(model, specializedPrompt, request, progressCallback, startTime);
 
     } catch (error) {
       return {
@@ -955,44 +1931,31 @@ Provide a concise, accurate synthesis:`;
     startTime: number = Date.now()
   ): Promise<ModelResponse> {
     try {
-      const response = await fetch(this.baseUrl, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
-          'Content-Type': 'application/json',
-          'HTTP-Referer': 'https://chatqora.pages.dev',
-          'X-Title': 'ChatQora - Multi-Model Fusion'
-        },
-        body: JSON.stringify({
-          model: model.id,
-          messages: [
-            ...(request.conversationContext || []),
-            { role: 'user', content: specializedPrompt }
-          ],
-          temperature: this.getOptimalTemperature(model.role),
-          max_tokens: this.getOptimalMaxTokens(model.role, request.query)
-        })
-      });
-
-      if (!response.ok) {
-        throw new Error(`${model.name} request failed: ${response.statusText}`);
-      }
+      const completion = await this.completeCached({
+        model: model.id,
+        messages: [
+          ...this.toProviderMessages(request.conversationContext),
+          { role: 'user', content: specializedPrompt }
+        ],
+        temperature: this.getOptimalTemperature(model.role),
+        maxTokens: this.getOptimalMaxTokens(model.role, request.query),
+        title: 'ChatQora - Multi-Model Fusion'
+      }, request.query);
 
-      const data = await response.json();
       const processingTime = Date.now() - startTime;
 
       // Update progress
       this.updateModelProgress(model.id, 100, progressCallback);
 
-      return {
+      return await this.scoreAnswer(request.query, {
         model: model.id,
         modelName: model.name,
-        response: data.choices[0].message.content,
-        confidence: this.calculateResponseConfidence(data.choices[0].message.content),
+        response: completion.content,
+        confidence: 0,
         processingTime,
         role: model.role,
         status: 'success'
-      };
+      });
 
     } catch (error) {
       return {
@@ -1125,11 +2088,8 @@ Provide a concise, accurate synthesis:`;
       confidence: response.confidence,
       modelsUsed: [fastModel.name],
       synthesisModel: fastModel.name + ' (Fallback)',
-      metadata: {
-        totalTokens: this.estimateTokens(response.response),
-        costSavings: 'Free (Fallback Mode)',
-        qualityScore: Math.round(response.confidence * 100)
-      }
+      quality: response.quality,
+      metadata: this.buildMetadata(Math.round(response.confidence * 100))
     };
   }
 
@@ -1172,35 +2132,29 @@ Provide a concise, accurate synthesis:`;
       message: 'AI Fusion synthesis in progress...'
     });
 
-    // Use Llama 70B as fusion coordinator with optimized settings
-    const fusionResponse = await fetch(this.baseUrl, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${this.apiKey}`,
-        'Content-Type': 'application/json',
-        'HTTP-Referer': 'https://chatqora.pages.dev',
-        'X-Title': 'ChatQora - AI Fusion'
-      },
-      body: JSON.stringify({
-        model: 'meta-llama/llama-3.3-70b-instruct:free',
+    // Use the registry's synthesis model as fusion coordinator with optimized settings
+    try {
+      const fusionCompletion = await this.completeWithUsage('synthesis', {
+        model: modelRegistry.getModelForRole('synthesis').id,
         messages: [
-          ...(conversationContext || []),
+          ...this.toProviderMessages(conversationContext),
           { role: 'user', content: fusionPrompt }
         ],
         temperature: 0.2, // Lower temperature for faster, focused synthesis
-        max_tokens: 2000, // Reduced for faster processing
-        top_p: 0.9 // Add for more focused responses
-      })
-    });
+        maxTokens: 2000, // Reduced for faster processing
+        topP: 0.9, // Add for more focused responses
+        title: 'ChatQora - AI Fusion'
+      });
 
-    progressCallback?.({
-      stage: 'synthesizing',
-      modelProgress: this.getCompletedProgress(),
-      synthesisProgress: 85,
-      message: 'Finalizing AI Fusion response...'
-    });
+      progressCallback?.({
+        stage: 'synthesizing',
+        modelProgress: this.getCompletedProgress(),
+        synthesisProgress: 85,
+        message: 'Finalizing AI Fusion response...'
+      });
 
-    if (!fusionResponse.ok) {
+      return fusionCompletion.content;
+    } catch {
       // Smart fallback to highest confidence response
       const bestResponse = successfulResponses.reduce((best, current) => 
         current.confidence > best.confidence ? current : best
@@ -1208,9 +2162,6 @@ Provide a concise, accurate synthesis:`;
       console.log('Fusion synthesis failed, using best individual response');
       return bestResponse.response;
     }
-
-    const fusionData = await fusionResponse.json();
-    return fusionData.choices[0].message.content;
   }
 
   // Optimized fusion prompt for faster synthesis
@@ -1255,11 +2206,8 @@ ${responseTexts}
     role: ModelResponse['role'],
     context?: Array<{ role: string; content: string }>
   ): string {
-    const roleInstructions = {
-      primary: "You are the Primary Analysis AI. Provide comprehensive, well-reasoned responses with logical structure. Use real-world examples, analogies, and practical scenarios to make complex concepts accessible. Think 'textbook meets friendly expert' - detailed but relatable.",
-      analytical: "You are the Quick Insights AI. Focus on key facts, validation, and concise analysis. Include relevant examples and analogies to clarify your points quickly and effectively.",
-      creative: "You are the Creative Perspectives AI. Offer innovative approaches, alternatives, and creative solutions. Use analogies, metaphors, and creative examples to illustrate your ideas."
-    };
+    // Editable in the admin console
+    const roleInstructions = appSettings.get().prompts.fusionRoles;
 
     // Format conversation context if available
     let contextString = '';
@@ -1326,44 +2274,6 @@ Provide the synthesized response that leverages the collective intelligence of a
     return temperatures[role];
   }
 
-  private calculateResponseConfidence(response: string): number {
-    // Simple confidence calculation based on response characteristics
-    const length = response.length;
-    const hasStructure = /\d+\.|•|\n-|\n\*/.test(response);
-    const hasExamples = /example|for instance|such as/i.test(response);
-    
-    let confidence = 0.5; // Base confidence
-    
-    if (length > 200) confidence += 0.2;
-    if (hasStructure) confidence += 0.15;
-    if (hasExamples) confidence += 0.15;
-    
-    return Math.min(confidence, 1.0);
-  }
-
-  private calculateFusionConfidence(responses: ModelResponse[]): number {
-    const successfulResponses = responses.filter(r => r.status === 'success');
-    const avgConfidence = successfulResponses.reduce((sum, r) => sum + r.confidence, 0) / successfulResponses.length;
-    
-    // Fusion typically increases confidence due to multiple perspectives
-    return Math.min(avgConfidence + 0.15, 1.0);
-  }
-
-  private calculateQualityScore(responses: ModelResponse[]): number {
-    const successfulCount = responses.filter(r => r.status === 'success').length;
-    const baseScore = (successfulCount / this.models.length) * 100;
-    
-    // Bonus for having diverse perspectives
-    const diversityBonus = successfulCount >= 3 ? 10 : 0;
-    
-    return Math.min(baseScore + diversityBonus, 100);
-  }
-
-  private estimateTokens(text: string): number {
-    // Rough estimation: ~4 characters per token
-    return Math.ceil(text.length / 4);
-  }
-
   private getInitialProgress(): { [modelId: string]: number } {
     return this.models.reduce((acc, model) => {
       acc[model.id] = 0;
@@ -1493,69 +2403,35 @@ Provide the synthesized response that leverages the collective intelligence of a
         request.conversationContext
       );
 
-      // Check cache first
-      const cacheKey = this.getCacheKey(model.id, specializedPrompt);
-      const cachedResponse = this.getFromCache(cacheKey);
-      
-      if (cachedResponse) {
-        this.updateModelProgress(model.id, 100, progressCallback);
-        return {
-          model: model.id,
-          modelName: model.name,
-          response: cachedResponse,
-          confidence: this.calculateResponseConfidence(cachedResponse),
-          processingTime: Date.now() - startTime,
-          role: model.role,
-          status: 'success'
-        };
-      }
-
       // Make request with aggressive timeout
-      const response = await this.withTimeout(
-        fetch(this.baseUrl, {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${this.apiKey}`,
-            'Content-Type': 'application/json',
-            'HTTP-Referer': 'https://chatqora.pages.dev',
-            'X-Title': 'ChatQora - Turbo AI Fusion'
-          },
-          body: JSON.stringify({
-            model: model.id,
-            messages: [
-              ...(request.conversationContext || []),
-              { role: 'user', content: specializedPrompt }
-            ],
-            temperature: this.getOptimalTemperature(model.role),
-            max_tokens: Math.min(this.getOptimalMaxTokens(model.role, request.query), 1500), // Reduced for speed
-            top_p: 0.9 // More focused for speed
-          })
-        }),
+      // A call that outlives the timeout still finishes, is recorded and lands in the shared cache
+      const completion = await this.withTimeout(
+        this.completeCached({
+          model: model.id,
+          messages: [
+            ...this.toProviderMessages(request.conversationContext),
+            { role: 'user', content: specializedPrompt }
+          ],
+          temperature: this.getOptimalTemperature(model.role),
+          maxTokens: Math.min(this.getOptimalMaxTokens(model.role, request.query), 1500), // Reduced for speed
+          topP: 0.9, // More focused for speed
+          title: 'ChatQora - Turbo AI Fusion'
+        }, request.query),
         timeout
       );
 
-      if (!response.ok) {
-        throw new Error(`${model.name} request failed: ${response.status}`);
-      }
-
-      const data = await response.json();
       const processingTime = Date.now() - startTime;
       this.updateModelProgress(model.id, 100, progressCallback);
 
-      const result = {
+      return await this.scoreAnswer(request.query, {
         model: model.id,
         modelName: model.name,
-        response: data.choices[0].message.content,
-        confidence: this.calculateResponseConfidence(data.choices[0].message.content),
+        response: completion.content,
+        confidence: 0,
         processingTime,
         role: model.role,
-        status: 'success' as const
-      };
-
-      // Cache successful responses
-      this.setCache(cacheKey, result.response, 30);
-      
-      return result;
+        status: 'success'
+      });
 
     } catch (error) {
       return {
@@ -1598,8 +2474,7 @@ Provide the synthesized response that leverages the collective intelligence of a
       return successfulResponses[0].response;
     }
 
-    // Always use fast 8B model for synthesis (70B commented out)
-    const synthesisModel = 'meta-llama/llama-3.3-8b-instruct:free';
+    const synthesisModel = modelRegistry.getModelForRole('synthesis').id;
 
     // Simplified fusion prompt for speed
     const fusionPrompt = this.createTurboFusionPrompt(originalQuery, successfulResponses);
@@ -1611,30 +2486,23 @@ Provide the synthesized response that leverages the collective intelligence of a
       message: `Synthesizing with ${isComplex ? 'powerful' : 'speed'} model...`
     });
 
-    const fusionResponse = await this.withTimeout(
-      fetch(this.baseUrl, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
-          'Content-Type': 'application/json',
-          'HTTP-Referer': 'https://chatqora.pages.dev',
-          'X-Title': 'ChatQora - Turbo Synthesis'
-        },
-        body: JSON.stringify({
+    try {
+      const fusionCompletion = await this.withTimeout(
+        this.completeWithUsage('synthesis', {
           model: synthesisModel,
           messages: [
-            ...(conversationContext || []),
+            ...this.toProviderMessages(conversationContext),
             { role: 'user', content: fusionPrompt }
           ],
           temperature: 0.1, // Very focused for speed
-          max_tokens: isComplex ? 2000 : 1500, // Reduced for speed
-          top_p: 0.8
-        })
-      }),
-      8000 // 8s timeout for synthesis
-    );
-
-    if (!fusionResponse.ok) {
+          maxTokens: isComplex ? 2000 : 1500, // Reduced for speed
+          topP: 0.8,
+          title: 'ChatQora - Turbo Synthesis'
+        }),
+        8000 // 8s timeout for synthesis
+      );
+      return fusionCompletion.content;
+    } catch {
       // Quick fallback to best response
       const bestResponse = successfulResponses.reduce((best, current) => 
         current.confidence > best.confidence ? current : best
@@ -1642,9 +2510,6 @@ Provide the synthesized response that leverages the collective intelligence of a
       console.log('Turbo synthesis failed, using best response');
       return bestResponse.response;
     }
-
-    const fusionData = await fusionResponse.json();
-    return fusionData.choices[0].message.content;
   }
 
   // Simplified fusion prompt for speed
@@ -1666,6 +2531,127 @@ ${responseTexts}
 Create a comprehensive, well-structured answer that combines the best insights:`;
   }
 
+  // Attached images go to vision models as image parts; every other model gets the vision model's
+  // description as a system message instead
+  private createPromptMessages(
+    modelId: string,
+    prompt: string,
+    context?: Array<{ role: string; content: string }>
+  ): ProviderMessage[] {
+    const messages = this.toProviderMessages(context);
+    if (this.images.length === 0) {
+      return [...messages, { role: 'user', content: prompt }];
+    }
+
+    if (modelRegistry.supportsModality(modelId, 'image')) {
+      const content: ProviderContentPart[] = [
+        { type: 'text', text: prompt },
+        ...this.images.map(image => ({ type: 'image_url' as const, image_url: { url: image.url } }))
+      ];
+      return [...messages, { role: 'user', content }];
+    }
+
+    const imageCount = `${this.images.length} image${this.images.length === 1 ? '' : 's'}`;
+    const imageContext = this.imageDescription
+      ? `The user attached ${imageCount}. You cannot see them; a vision model described them as follows:\n\n${this.imageDescription}`
+      : `The user attached ${imageCount} that could not be described. If the answer depends on them, say so.`;
+    return [...messages, { role: 'system', content: imageContext }, { role: 'user', content: prompt }];
+  }
+
+  private getImageInput(modelId: string): ModelResponse['imageInput'] {
+    if (this.images.length === 0) return undefined;
+    return modelRegistry.supportsModality(modelId, 'image') ? 'direct' : 'description';
+  }
+
+  private getImageInputLabel(response: ModelResponse): string {
+    if (response.imageInput === 'direct') return ', saw the images';
+    if (response.imageInput === 'description') return ', from the image description';
+    return '';
+  }
+
+  private createImageSynthesisNote(): string {
+    if (this.images.length === 0) return '';
+    return `
+The user attached images. Answers marked "saw the images" looked at them directly; the others only read a description. Trust the first kind on what the images show.
+`;
+  }
+
+  // First enabled model with the vision role that accepts images, else any image-capable model
+  private getVisionModel() {
+    return modelRegistry.getByRole('vision').find(model => model.modalities.includes('image'))
+      ?? modelRegistry.getEnabled().find(model => model.modalities.includes('image'));
+  }
+
+  // Fusion models, plus the vision model when images are attached and no fusion model can see them
+  private get participants(): FusionModel[] {
+    const models = this.models;
+    if (this.images.length === 0 || models.some(model => modelRegistry.supportsModality(model.id, 'image'))) {
+      return models;
+    }
+
+    const vision = this.getVisionModel();
+    if (!vision || models.some(model => model.id === vision.id)) return models;
+    return [...models, {
+      id: vision.id,
+      name: vision.shortName,
+      role: 'primary',
+      specialties: vision.specialties,
+      priority: vision.performance.priority,
+      avgResponseTime: vision.performance.avgResponseTime,
+      reliability: vision.performance.reliability
+    }];
+  }
+
+  // One vision call per request describes the images for every model that can't see them
+  private async prepareImages(request: FusionRequest, progressCallback?: (progress: FusionProgress) => void): Promise<void> {
+    this.images = request.images ?? [];
+    this.imageDescription = null;
+    if (this.images.length === 0) return;
+
+    const describer = this.getVisionModel();
+    if (!describer) {
+      console.warn('⚠️ Images attached but no image-capable model is enabled; text-only models will only be told about them');
+      return;
+    }
+
+    progressCallback?.({
+      stage: 'initializing',
+      modelProgress: {},
+      synthesisProgress: 0,
+      message: `${describer.shortName} is looking at the attached image${this.images.length === 1 ? '' : 's'}...`
+    });
+
+    try {
+      const completion = await this.runModelStep(describer.id, this.createImageDescriptionPrompt(request.query), request, {
+        purpose: 'vision',
+        temperature: 0.2,
+        maxTokens: 800,
+        timeout: 20000,
+        title: 'ChatQora - Image Description'
+      });
+      this.imageDescription = completion.content.trim() || null;
+    } catch (error) {
+      if (!request.signal?.aborted) {
+        console.warn('⚠️ Image description failed:', (error as Error).message);
+      }
+    }
+  }
+
+  private createImageDescriptionPrompt(query: string): string {
+    return `Describe the attached image${this.images.length === 1 ? '' : 's'} for AI models that cannot see ${this.images.length === 1 ? 'it' : 'them'}.
+They will use your description to answer the user's question, so include every detail relevant to it: objects, people, layout, colors, numbers, charts and all visible text (transcribed exactly).
+Describe only what is visible; do not answer the question.
+
+**User's Question:** ${query}`;
+  }
+
+  // Conversation context arrives loosely typed from the client; keep only roles providers accept
+  private toProviderMessages(context?: Array<{ role: string; content: string }>): ProviderMessage[] {
+    return (context || [])
+      .filter(msg => msg.role === 'user' || msg.role === 'assistant' || msg.role === 'system')
+      .map(msg => ({ role: msg.role as ProviderMessage['role'], content: msg.content }));
+  }
+
   // Enhanced single response fallback
   private enhanceSingleResponse(response: ModelResponse, startTime: number): FusionResult {
     return {
@@ -1676,11 +2662,8 @@ Create a comprehensive, well-structured answer that combines the best insights:`
       confidence: response.confidence,
       modelsUsed: [response.modelName],
       synthesisModel: response.modelName + ' (Direct)',
-      metadata: {
-        totalTokens: this.estimateTokens(response.response),
-        costSavings: 'Free (Single Model)',
-        qualityScore: Math.round(response.confidence * 100)
-      }
+      quality: response.quality,
+      metadata: this.buildMetadata(Math.round(response.confidence * 100))
     };
   }
 }
\ No newline at end of file
@@ -1,3 +1,5 @@
+import { modelRegistry } from '@/lib/modelRegistry';
+
 export interface ModelCapabilities {
   id: string;
   name: string;
@@ -37,48 +39,19 @@ export interface SmartRecommendation {
 }
 
 export class SmartChatAgent {
-  private models: ModelCapabilities[] = [
-    {
-      id: 'meta-llama/llama-3.3-70b-instruct:free',
-      name: 'Llama 3.3 70B',
-      strengths: ['reasoning', 'analysis', 'complex_tasks', 'technical_writing'],
-      weaknesses: ['speed', 'creative_writing'],
-      optimalTokenRange: [100, 8000],
-      costEfficiency: 'medium',
-      speed: 'slow',
-      reasoning: 'expert'
-    },
-    {
-      id: 'meta-llama/llama-3.3-8b-instruct:free',
-      name: 'Llama 3.3 8B',
-      strengths: ['speed', 'efficiency', 'quick_responses', 'simple_tasks'],
-      weaknesses: ['complex_reasoning', 'long_context'],
-      optimalTokenRange: [10, 2000],
-      costEfficiency: 'high',
-      speed: 'fast',
-      reasoning: 'basic'
-    },
-    {
-      id: 'microsoft/wizardlm-2-8x22b:free',
-      name: 'WizardLM 2 8x22B',
-      strengths: ['creativity', 'nuanced_understanding', 'complex_reasoning', 'writing'],
-      weaknesses: ['speed'],
-      optimalTokenRange: [50, 6000],
-      costEfficiency: 'high',
-      speed: 'medium',
-      reasoning: 'expert'
-    },
-    {
-      id: 'openai/gpt-oss-20b:free',
-      name: 'GPT OSS 20B',
-      strengths: ['balanced_performance', 'general_tasks', 'coding', 'analysis'],
-      weaknesses: ['specialized_domains'],
-      optimalTokenRange: [30, 4000],
-      costEfficiency: 'high',
-      speed: 'medium',
-      reasoning: 'advanced'
-    }
-  ];
+  // Routing candidates come from the shared model registry
+  private get models(): ModelCapabilities[] {
+    return modelRegistry.getByRole('routing').map(model => ({
+      id: model.id,
+      name: model.name,
+      strengths: model.strengths,
+      weaknesses: model.weaknesses,
+      optimalTokenRange: model.traits.optimalTokenRange,
+      costEfficiency: model.traits.costEfficiency,
+      speed: model.traits.speed,
+      reasoning: model.traits.reasoning
+    }));
+  }
 
   private conversationHistory: Array<{
     role: string;
@@ -0,0 +1,23 @@
+/**
+ * Admin access
+ * The middleware already turns away sessions without the admin role; routes check again against the
+ * user store, since a session token keeps the role it was issued with until it expires.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/session';
+import { userStore, type AuthUser } from '@/lib/userStore';
+
+export function getAdminUser(request: NextRequest): AuthUser | null {
+  const session = getSession(request);
+  const user = session ? userStore.get(session.userId) : undefined;
+  return user?.role === 'admin' ? user : null;
+}
+
+export function adminRequiredResponse(request: NextRequest): NextResponse {
+  const signedIn = !!getSession(request);
+  return NextResponse.json(
+    { error: signedIn ? 'Forbidden' : 'Authentication required', details: 'Only admins can use the admin console' },
+    { status: signedIn ? 403 : 401 }
+  );
+}
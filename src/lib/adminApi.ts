@@ -0,0 +1,49 @@
+/**
+ * Admin API client
+ * Browser side of /api/admin for the admin console.
+ */
+
+import type { AppSettings, AppSettingsPatch, UserUsage } from '@/types/chat';
+
+export type SettingsSection = keyof AppSettingsPatch;
+
+export interface AdminModel {
+  id: string;
+  name: string;
+  icon: string;
+  roles: string[];
+  enabled: boolean;
+}
+
+export interface AdminSettings {
+  settings: AppSettings;
+  overrides: AppSettingsPatch;
+  models: AdminModel[];
+}
+
+export interface AdminUsage {
+  usage: UserUsage[];
+  totals: { requests: number; calls: number; promptTokens: number; completionTokens: number; cost: number };
+}
+
+async function request<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(path, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init.headers }
+  });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.details || body.error || `Request failed with ${response.status}`);
+  }
+  return body as T;
+}
+
+export const getAdminSettings = (): Promise<AdminSettings> => request('/api/admin/settings');
+
+export const updateAdminSettings = (patch: AppSettingsPatch): Promise<AdminSettings> =>
+  request('/api/admin/settings', { method: 'PATCH', body: JSON.stringify(patch) });
+
+export const resetAdminSettings = (section: SettingsSection): Promise<AdminSettings> =>
+  request(`/api/admin/settings?section=${section}`, { method: 'DELETE' });
+
+export const getAdminUsage = (): Promise<AdminUsage> => request('/api/admin/usage');
@@ -0,0 +1,282 @@
+/**
+ * App Settings
+ * What admins can change from the console without a redeploy: the chat system prompt, fusion role
+ * instructions, fusion time budget and quality threshold, web search trust domains and which models
+ * are enabled. Only overrides are stored, so a setting nobody touched follows the code's default.
+ * Every read goes through get(), which reloads the stored overrides, so a change applies to the next
+ * request in every process sharing the database. The memory backend only lives in its own process.
+ *
+ * Backend is chosen with SETTINGS_BACKEND: "sqlite" (default, DATA_DIR/chatqora.db) or "memory".
+ */
+
+import { getSqliteDatabase } from '@/lib/storage/sqlite';
+import { modelRegistry } from '@/lib/modelRegistry';
+import { CHATGPT_STYLE_SYSTEM_PROMPT, FUSION_ROLE_INSTRUCTIONS } from '@/lib/chatgpt-style-prompt';
+import type { AppSettings, AppSettingsPatch } from '@/types/chat';
+
+export type { AppSettings, AppSettingsPatch };
+
+export type SettingsSection = keyof AppSettingsPatch;
+
+export const SETTINGS_SECTIONS: SettingsSection[] = ['prompts', 'fusion', 'webSearch', 'models'];
+
+export const FUSION_TIME_LIMITS = { min: 3000, max: 120_000 }; // ms
+const MAX_PROMPT_LENGTH = 20_000;
+const MAX_DOMAINS = 200;
+const DOMAIN = /^[a-z0-9-]+(\.[a-z0-9-]+)+$/;
+const FUSION_ROLE_KEYS = Object.keys(FUSION_ROLE_INSTRUCTIONS);
+
+// As enabled in src/config/models.json, before any override
+const CONFIGURED_ENABLED = new Map(modelRegistry.getAll().map(model => [model.id, model.enabled]));
+
+export const DEFAULT_SETTINGS: Omit<AppSettings, 'models'> = {
+  prompts: {
+    system: CHATGPT_STYLE_SYSTEM_PROMPT,
+    fusionRoles: { ...FUSION_ROLE_INSTRUCTIONS }
+  },
+  fusion: {
+    maxResponseTime: 15000,
+    qualityThreshold: 0.7
+  },
+  webSearch: {
+    highTrustDomains: [
+      'wikipedia.org', 'github.com', 'stackoverflow.com',
+      'mozilla.org', 'w3.org', 'ietf.org', 'rfc-editor.org',
+      'microsoft.com', 'google.com', 'apple.com', 'amazon.com',
+      'ieee.org', 'acm.org', 'nature.com', 'science.org',
+      'nist.gov', 'nih.gov', 'cdc.gov', 'fda.gov'
+    ],
+    mediumTrustDomains: [
+      'medium.com', 'dev.to', 'hashnode.com', 'freecodecamp.org',
+      'codecademy.com', 'tutorialspoint.com', 'geeksforgeeks.org',
+      'techcrunch.com', 'arstechnica.com', 'wired.com'
+    ]
+  }
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Why a patch can't be applied; empty when it can */
+export function getSettingsProblems(patch: unknown): string[] {
+  if (!isRecord(patch)) return ['settings must be an object'];
+  const problems = Object.keys(patch)
+    .filter(key => !SETTINGS_SECTIONS.includes(key as SettingsSection))
+    .map(key => `unknown section "${key}"`);
+
+  const checkPrompt = (value: unknown, path: string) => {
+    if (typeof value !== 'string' || !value.trim() || value.length > MAX_PROMPT_LENGTH) {
+      problems.push(`${path} must be a non-empty string of at most ${MAX_PROMPT_LENGTH.toLocaleString('en-US')} characters`);
+    }
+  };
+
+  const { prompts, fusion, webSearch, models } = patch;
+  if (prompts !== undefined) {
+    if (!isRecord(prompts)) {
+      problems.push('prompts must be an object');
+    } else {
+      if (prompts.system !== undefined) checkPrompt(prompts.system, 'prompts.system');
+      if (prompts.fusionRoles !== undefined) {
+        if (!isRecord(prompts.fusionRoles)) {
+          problems.push('prompts.fusionRoles must be an object');
+        } else {
+          Object.entries(prompts.fusionRoles).forEach(([role, instruction]) => {
+            if (!FUSION_ROLE_KEYS.includes(role)) problems.push(`prompts.fusionRoles.${role} is not a fusion role (${FUSION_ROLE_KEYS.join(', ')})`);
+            else checkPrompt(instruction, `prompts.fusionRoles.${role}`);
+          });
+        }
+      }
+    }
+  }
+
+  if (fusion !== undefined) {
+    if (!isRecord(fusion)) {
+      problems.push('fusion must be an object');
+    } else {
+      const { maxResponseTime, qualityThreshold } = fusion;
+      if (maxResponseTime !== undefined && (typeof maxResponseTime !== 'number' || !Number.isInteger(maxResponseTime)
+        || maxResponseTime < FUSION_TIME_LIMITS.min || maxResponseTime > FUSION_TIME_LIMITS.max)) {
+        problems.push(`fusion.maxResponseTime must be a whole number of ms between ${FUSION_TIME_LIMITS.min} and ${FUSION_TIME_LIMITS.max}`);
+      }
+      if (qualityThreshold !== undefined && (typeof qualityThreshold !== 'number' || !(qualityThreshold >= 0 && qualityThreshold <= 1))) {
+        problems.push('fusion.qualityThreshold must be a number between 0 and 1');
+      }
+    }
+  }
+
+  if (webSearch !== undefined) {
+    if (!isRecord(webSearch)) {
+      problems.push('webSearch must be an object');
+    } else {
+      (['highTrustDomains', 'mediumTrustDomains'] as const).forEach(key => {
+        const domains = webSearch[key];
+        if (domains === undefined) return;
+        if (!Array.isArray(domains) || domains.length > MAX_DOMAINS) {
+          problems.push(`webSearch.${key} must be an array of at most ${MAX_DOMAINS} domains`);
+          return;
+        }
+        domains.forEach((domain, index) => {
+          if (typeof domain !== 'string' || !DOMAIN.test(domain)) problems.push(`webSearch.${key}[${index}] must be a lowercase domain such as example.org`);
+        });
+      });
+    }
+  }
+
+  if (models !== undefined) {
+    if (!isRecord(models)) {
+      problems.push('models must be an object keyed by model id');
+    } else {
+      Object.entries(models).forEach(([id, override]) => {
+        if (!CONFIGURED_ENABLED.has(id)) problems.push(`models["${id}"] is not a registered model`);
+        else if (!isRecord(override) || typeof override.enabled !== 'boolean') problems.push(`models["${id}"].enabled must be a boolean`);
+      });
+    }
+  }
+
+  return problems;
+}
+
+// Later values win; sections are merged key by key
+function mergePatches(base: AppSettingsPatch, patch: AppSettingsPatch): AppSettingsPatch {
+  const merged: AppSettingsPatch = { ...base };
+  if (patch.prompts) {
+    merged.prompts = {
+      ...base.prompts,
+      ...patch.prompts,
+      fusionRoles: patch.prompts.fusionRoles || base.prompts?.fusionRoles
+        ? { ...base.prompts?.fusionRoles, ...patch.prompts.fusionRoles }
+        : undefined
+    };
+  }
+  if (patch.fusion) merged.fusion = { ...base.fusion, ...patch.fusion };
+  if (patch.webSearch) merged.webSearch = { ...base.webSearch, ...patch.webSearch };
+  if (patch.models) merged.models = { ...base.models, ...patch.models };
+  return JSON.parse(JSON.stringify(merged)) as AppSettingsPatch; // Drops the undefined keys
+}
+
+export interface SettingsBackend {
+  readonly name: string;
+  load(): AppSettingsPatch;
+  save(overrides: AppSettingsPatch): void;
+}
+
+class MemorySettingsBackend implements SettingsBackend {
+  readonly name = 'memory';
+  private overrides: AppSettingsPatch = {};
+
+  load(): AppSettingsPatch {
+    return this.overrides;
+  }
+
+  save(overrides: AppSettingsPatch): void {
+    this.overrides = overrides;
+  }
+}
+
+class SqliteSettingsBackend implements SettingsBackend {
+  readonly name = 'sqlite';
+
+  constructor() {
+    getSqliteDatabase().exec(`
+      CREATE TABLE IF NOT EXISTS app_settings (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )
+    `);
+  }
+
+  load(): AppSettingsPatch {
+    const row = getSqliteDatabase().prepare("SELECT value FROM app_settings WHERE key = 'overrides'").get() as { value: string } | undefined;
+    try {
+      return row ? JSON.parse(row.value) as AppSettingsPatch : {};
+    } catch (error) {
+      console.warn('⚠️ Stored settings are unreadable, using defaults:', (error as Error).message);
+      return {};
+    }
+  }
+
+  save(overrides: AppSettingsPatch): void {
+    getSqliteDatabase()
+      .prepare("INSERT INTO app_settings (key, value, updated_at) VALUES ('overrides', ?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at")
+      .run(JSON.stringify(overrides), new Date().toISOString());
+  }
+}
+
+export function createSettingsBackend(kind: string = process.env.SETTINGS_BACKEND || 'sqlite'): SettingsBackend {
+  return kind === 'memory' ? new MemorySettingsBackend() : new SqliteSettingsBackend();
+}
+
+export class AppSettingsStore {
+  private overrides: AppSettingsPatch;
+
+  constructor(private backend: SettingsBackend = createSettingsBackend()) {
+    this.overrides = backend.load();
+    this.applyModelOverrides();
+  }
+
+  get backendName(): string {
+    return this.backend.name;
+  }
+
+  /** Current settings: defaults with the stored overrides on top */
+  get(): AppSettings {
+    this.reload();
+    const { prompts, fusion, webSearch } = this.overrides;
+    return {
+      prompts: {
+        system: prompts?.system ?? DEFAULT_SETTINGS.prompts.system,
+        fusionRoles: { ...DEFAULT_SETTINGS.prompts.fusionRoles, ...prompts?.fusionRoles }
+      },
+      fusion: { ...DEFAULT_SETTINGS.fusion, ...fusion },
+      webSearch: { ...DEFAULT_SETTINGS.webSearch, ...webSearch },
+      models: Object.fromEntries(modelRegistry.getAll().map(model => [model.id, { enabled: model.enabled }]))
+    };
+  }
+
+  /** Just what differs from the defaults */
+  getOverrides(): AppSettingsPatch {
+    this.reload();
+    return mergePatches({}, this.overrides);
+  }
+
+  /** Applies a patch already checked with getSettingsProblems */
+  update(patch: AppSettingsPatch): AppSettings {
+    this.reload();
+    this.overrides = mergePatches(this.overrides, patch);
+    this.backend.save(this.overrides);
+    this.applyModelOverrides();
+    return this.get();
+  }
+
+  /** Drops the overrides of one section, or all of them */
+  reset(section?: SettingsSection): AppSettings {
+    if (section) {
+      this.reload();
+      const rest = { ...this.overrides };
+      delete rest[section];
+      this.overrides = rest;
+    } else {
+      this.overrides = {};
+    }
+    this.backend.save(this.overrides);
+    this.applyModelOverrides();
+    return this.get();
+  }
+
+  // Another process may have saved a change since this one last looked
+  private reload(): void {
+    const stored = this.backend.load();
+    if (JSON.stringify(stored) === JSON.stringify(this.overrides)) return;
+    this.overrides = stored;
+    this.applyModelOverrides();
+  }
+
+  private applyModelOverrides(): void {
+    CONFIGURED_ENABLED.forEach((enabled, id) => {
+      modelRegistry.setEnabled(id, this.overrides.models?.[id]?.enabled ?? enabled);
+    });
+  }
+}
+
+export const appSettings = new AppSettingsStore();
@@ -0,0 +1,155 @@
+/**
+ * Circuit Breakers
+ * One breaker per model. After CIRCUIT_FAILURE_THRESHOLD consecutive failed calls (default 3) the model
+ * is skipped for CIRCUIT_COOLDOWN_MS (default 30s), or for as long as the provider's Retry-After asked.
+ * Then a single trial call decides: success closes the circuit, failure reopens it with double the cooldown.
+ */
+
+import { ProviderError } from '@/lib/providers/types';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitStatus {
+  modelId: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  trips: number; // Times the circuit has opened since the process started
+  cooldownMs: number; // Length of the current (or next) open period
+  retryAt?: string; // ISO time the open circuit lets a trial call through
+  lastError?: string;
+}
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number;
+  cooldownMs: number;
+  maxCooldownMs: number;
+}
+
+interface Circuit {
+  consecutiveFailures: number;
+  trips: number;
+  cooldownMs: number;
+  openUntil: number; // 0 while closed
+  trialInFlight: boolean;
+  lastError?: string;
+}
+
+/** Thrown instead of calling a model whose circuit is open */
+export class CircuitOpenError extends ProviderError {
+  constructor(modelId: string, retryInMs: number) {
+    super(
+      `${modelId} is temporarily skipped after repeated failures (retry in ${Math.ceil(retryInMs / 1000)}s)`,
+      'circuit-breaker',
+      503,
+      retryInMs
+    );
+    this.name = 'CircuitOpenError';
+  }
+}
+
+const DEFAULT_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: Number(process.env.CIRCUIT_FAILURE_THRESHOLD) || 3,
+  cooldownMs: Number(process.env.CIRCUIT_COOLDOWN_MS) || 30_000,
+  maxCooldownMs: 5 * 60_000
+};
+
+export class CircuitBreakerRegistry {
+  private circuits = new Map<string, Circuit>();
+
+  constructor(private options: CircuitBreakerOptions = DEFAULT_OPTIONS) {}
+
+  getState(modelId: string): CircuitState {
+    const circuit = this.circuits.get(modelId);
+    if (!circuit || circuit.openUntil === 0) return 'closed';
+    return Date.now() < circuit.openUntil ? 'open' : 'half_open';
+  }
+
+  /** Throws CircuitOpenError when the call must be skipped; while half-open only one trial call passes */
+  beforeCall(modelId: string): void {
+    const circuit = this.circuits.get(modelId);
+    const state = this.getState(modelId);
+    if (!circuit || state === 'closed') return;
+
+    if (state === 'open') {
+      throw new CircuitOpenError(modelId, circuit.openUntil - Date.now());
+    }
+    if (circuit.trialInFlight) {
+      throw new CircuitOpenError(modelId, 0);
+    }
+    circuit.trialInFlight = true;
+  }
+
+  recordSuccess(modelId: string): void {
+    const circuit = this.circuits.get(modelId);
+    if (!circuit) return;
+
+    if (circuit.openUntil !== 0) {
+      console.log(`🟢 Circuit closed for ${modelId}`);
+    }
+    circuit.consecutiveFailures = 0;
+    circuit.openUntil = 0;
+    circuit.cooldownMs = this.options.cooldownMs;
+    circuit.trialInFlight = false;
+  }
+
+  /**
+   * Counts a failed call. openForMs opens the circuit right away for at least that long
+   * (a Retry-After too long to wait out); a failed trial call reopens it with double the cooldown.
+   */
+  recordFailure(modelId: string, error: unknown, openForMs?: number): void {
+    const circuit = this.getOrCreate(modelId);
+    const failedTrial = this.getState(modelId) === 'half_open';
+
+    circuit.consecutiveFailures += 1;
+    circuit.lastError = (error as Error)?.message;
+    circuit.trialInFlight = false;
+
+    if (failedTrial) {
+      circuit.cooldownMs = Math.min(circuit.cooldownMs * 2, this.options.maxCooldownMs);
+    }
+    if (failedTrial || openForMs !== undefined || circuit.consecutiveFailures >= this.options.failureThreshold) {
+      const cooldownMs = Math.min(Math.max(circuit.cooldownMs, openForMs ?? 0), this.options.maxCooldownMs);
+      circuit.openUntil = Date.now() + cooldownMs;
+      circuit.trips += 1;
+      console.warn(`🔴 Circuit open for ${modelId} (${Math.round(cooldownMs / 1000)}s): ${circuit.lastError}`);
+    }
+  }
+
+  /** A call that ended without a verdict (cancelled, bad request) frees the half-open trial slot */
+  release(modelId: string): void {
+    const circuit = this.circuits.get(modelId);
+    if (circuit) circuit.trialInFlight = false;
+  }
+
+  getStatuses(): CircuitStatus[] {
+    return [...this.circuits.entries()].map(([modelId, circuit]) => {
+      const state = this.getState(modelId);
+      return {
+        modelId,
+        state,
+        consecutiveFailures: circuit.consecutiveFailures,
+        trips: circuit.trips,
+        cooldownMs: circuit.cooldownMs,
+        retryAt: state === 'open' ? new Date(circuit.openUntil).toISOString() : undefined,
+        lastError: circuit.lastError
+      };
+    });
+  }
+
+  reset(modelId?: string): void {
+    if (modelId) this.circuits.delete(modelId);
+    else this.circuits.clear();
+  }
+
+  private getOrCreate(modelId: string): Circuit {
+    let circuit = this.circuits.get(modelId);
+    if (!circuit) {
+      circuit = { consecutiveFailures: 0, trips: 0, cooldownMs: this.options.cooldownMs, openUntil: 0, trialInFlight: false };
+      this.circuits.set(modelId, circuit);
+    }
+    return circuit;
+  }
+}
+
+/** Process-wide breakers shared by every provider call */
+export const circuitBreakers = new CircuitBreakerRegistry();
@@ -0,0 +1,152 @@
+/**
+ * Conversation API client
+ * Browser side of /api/conversations. The server is the source of truth; localStorage is an offline
+ * cache the chat interfaces render from at once and keep writing to. syncConversations pushes what
+ * the cache has and the server doesn't (chats started or continued offline), and messageSync sends
+ * each new message once it is final.
+ */
+
+import type { Conversation, Message } from '@/types/chat';
+
+export type { Conversation };
+
+export class ConversationApiError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'ConversationApiError';
+  }
+}
+
+async function request<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(path, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init.headers }
+  });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new ConversationApiError(body.details || body.error || `Request failed with ${response.status}`, response.status);
+  }
+  return body as T;
+}
+
+// JSON turns message timestamps into strings
+const revive = (conversation: Conversation): Conversation => ({
+  ...conversation,
+  messages: conversation.messages.map(message => ({ ...message, timestamp: new Date(message.timestamp) }))
+});
+
+export async function listConversations(): Promise<Conversation[]> {
+  const { conversations } = await request<{ conversations: Conversation[] }>('/api/conversations?include=messages');
+  return conversations.map(revive);
+}
+
+export async function createConversation(conversation: {
+  id: string;
+  title?: string;
+  messages?: Message[];
+  createdAt?: string;
+  updatedAt?: string;
+}): Promise<Conversation> {
+  const body = await request<{ conversation: Conversation }>('/api/conversations', {
+    method: 'POST',
+    body: JSON.stringify(conversation)
+  });
+  return revive(body.conversation);
+}
+
+export async function appendMessages(id: string, messages: Message[]): Promise<Conversation> {
+  const body = await request<{ conversation: Conversation }>(`/api/conversations/${encodeURIComponent(id)}/messages`, {
+    method: 'POST',
+    body: JSON.stringify({ messages })
+  });
+  return revive(body.conversation);
+}
+
+export async function renameConversation(id: string, title: string): Promise<Conversation> {
+  const body = await request<{ conversation: Conversation }>(`/api/conversations/${encodeURIComponent(id)}`, {
+    method: 'PATCH',
+    body: JSON.stringify({ title })
+  });
+  return revive(body.conversation);
+}
+
+/** Remembers which branch is on show; null goes back to the newest message's */
+export async function setActiveBranch(id: string, activeLeafId: string | null): Promise<Conversation> {
+  const body = await request<{ conversation: Conversation }>(`/api/conversations/${encodeURIComponent(id)}`, {
+    method: 'PATCH',
+    body: JSON.stringify({ activeLeafId })
+  });
+  return revive(body.conversation);
+}
+
+export async function deleteConversation(id: string): Promise<void> {
+  await request(`/api/conversations/${encodeURIComponent(id)}`, { method: 'DELETE' });
+}
+
+/**
+ * Remembers how many of each conversation's messages the server has, so only new ones are sent.
+ * Conversations it hasn't been told about (the server couldn't be reached yet) are left alone.
+ */
+class MessageSync {
+  private synced = new Map<string, number>();
+
+  markSynced(id: string, count: number): void {
+    this.synced.set(id, count);
+  }
+
+  /** Appends the messages past the synced count, creating the conversation if the server lacks it */
+  async push(id: string, messages: Message[], title?: string): Promise<void> {
+    const count = this.synced.get(id);
+    if (count === undefined || messages.length <= count) return;
+
+    // Counted as sent straight away so a change during the request doesn't send them twice
+    this.synced.set(id, messages.length);
+    try {
+      await appendMessages(id, messages.slice(count));
+    } catch (error) {
+      if (error instanceof ConversationApiError && error.status === 404 && count === 0) {
+        await createConversation({ id, title, messages }).catch(createError => this.failed(id, count, createError));
+        return;
+      }
+      this.failed(id, count, error);
+    }
+  }
+
+  // Left for the next push or sync to retry
+  private failed(id: string, count: number, error: unknown): void {
+    this.synced.set(id, count);
+    console.warn(`⚠️ Could not save messages of ${id}, kept in the offline copy:`, (error as Error).message);
+  }
+}
+
+export const messageSync = new MessageSync();
+
+/**
+ * Uploads cached conversations the server doesn't have and messages it is missing from the end of
+ * ones it does, then returns the server's conversations (most recently updated first).
+ * Empty cached chats stay local until they get a message.
+ */
+export async function syncConversations(cached: Conversation[]): Promise<Conversation[]> {
+  const server = new Map((await listConversations()).map(conversation => [conversation.id, conversation]));
+
+  for (const local of cached) {
+    const remote = server.get(local.id);
+    if (!remote) {
+      if (local.messages.length > 0) {
+        const { id, title, messages, createdAt, updatedAt } = local;
+        server.set(local.id, await createConversation({ id, title, messages, createdAt, updatedAt }));
+      }
+      continue;
+    }
+
+    const isAhead = local.messages.length > remote.messages.length
+      && remote.messages.every((message, index) => message.id === local.messages[index].id);
+    if (isAhead) {
+      server.set(local.id, await appendMessages(local.id, local.messages.slice(remote.messages.length)));
+    }
+  }
+
+  const conversations = [...server.values()].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  conversations.forEach(conversation => messageSync.markSynced(conversation.id, conversation.messages.length));
+  return conversations;
+}
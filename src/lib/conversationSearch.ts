@@ -0,0 +1,268 @@
+/**
+ * Conversation Search
+ * A full-text index over every message of a user's conversations: the message text, the
+ * conversation title and the titles of the sources an answer cited, ranked with BM25 (title hits
+ * count double, source titles half). Every query word has to match somewhere; the last one also
+ * matches as a prefix so results follow the user's typing. Hits carry a highlighted snippet and can
+ * be narrowed by date, model and whether web search was used.
+ *
+ * Runs in the browser over the offline copy and on the server over the conversation store
+ * (GET /api/conversations?q=...). sync() only re-indexes conversations that changed since.
+ */
+
+import type { Conversation, ConversationSummary, Message } from '@/types/chat';
+import { buildMessageTree } from '@/lib/messageTree';
+
+export interface SearchFilters {
+  from?: string; // ISO date; a bare YYYY-MM-DD "to" date includes that whole day
+  to?: string;
+  model?: string;
+  webSearch?: boolean;
+}
+
+export interface SnippetPart {
+  text: string;
+  highlight: boolean;
+}
+
+export interface SearchHit {
+  conversationId: string;
+  conversationTitle: string;
+  messageId: string;
+  role: Message['role'];
+  timestamp: string;
+  models: string[];
+  webSearch: boolean;
+  score: number;
+  snippet: SnippetPart[];
+}
+
+export interface SearchResults {
+  hits: SearchHit[];
+  total: number;
+}
+
+interface IndexedMessage {
+  key: string;
+  conversationId: string;
+  conversationTitle: string;
+  message: Message;
+  time: number;
+  models: string[];
+  webSearch: boolean;
+  terms: Map<string, number>; // Weighted term frequency across the fields
+  length: number;
+}
+
+const K1 = 1.2;
+const B = 0.75;
+const FIELD_WEIGHTS = { content: 1, title: 2, sources: 0.5 };
+const SNIPPET_LENGTH = 160;
+const DEFAULT_LIMIT = 50;
+const STOP_WORDS = new Set(['a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'how', 'i', 'in', 'is', 'it', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'what', 'with']);
+const WORD = /[\p{L}\p{N}]+/gu;
+
+/** Lowercase and without accents, so "Café" finds "cafe" */
+const normalize = (word: string): string => word.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '');
+
+const tokenize = (text: string): string[] => (text.match(WORD) ?? []).map(normalize);
+
+const getModels = (message: Message): string[] => {
+  const models = new Set([message.model, message.metadata?.model, ...(message.metadata?.fusion?.modelsUsed ?? [])]);
+  models.delete(undefined);
+  return [...models] as string[];
+};
+
+const conversationVersion = ({ title, updatedAt, messageCount }: ConversationSummary): string => `${updatedAt}|${messageCount}|${title}`;
+
+/** The end of a YYYY-MM-DD day, or the exact time given */
+function toTime(date: string, endOfDay: boolean): number {
+  const time = new Date(date).getTime();
+  return endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(date) ? time + 24 * 60 * 60 * 1000 - 1 : time;
+}
+
+export class ConversationSearchIndex {
+  private documents = new Map<string, IndexedMessage>();
+  private postings = new Map<string, Map<string, number>>();
+  private conversations = new Map<string, { version: string; keys: string[] }>();
+  private totalLength = 0;
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * Re-indexes conversations whose title, message count or update time changed, indexes new ones
+   * and drops those no longer listed. `load` is only called for the ones that need indexing.
+   */
+  sync(summaries: ConversationSummary[], load: (id: string) => Conversation | undefined): void {
+    const listed = new Set(summaries.map(summary => summary.id));
+    for (const id of this.conversations.keys()) {
+      if (!listed.has(id)) this.remove(id);
+    }
+    for (const summary of summaries) {
+      if (this.conversations.get(summary.id)?.version === conversationVersion(summary)) continue;
+      const conversation = load(summary.id);
+      if (conversation) this.add(conversation, conversationVersion(summary));
+      else this.remove(summary.id);
+    }
+  }
+
+  add(conversation: Conversation, version = conversationVersion({ ...conversation, messageCount: conversation.messages.length })): void {
+    this.remove(conversation.id);
+    const titleTerms = tokenize(conversation.title);
+    const { children } = buildMessageTree(conversation.messages);
+    const keys = conversation.messages.map(message => {
+      const answers = children.get(message.id) ?? [];
+      const sources = message.metadata?.sources ?? [];
+      const document: IndexedMessage = {
+        key: `${conversation.id}\u0000${message.id}`,
+        conversationId: conversation.id,
+        conversationTitle: conversation.title,
+        message,
+        time: new Date(message.timestamp).getTime(),
+        models: getModels(message),
+        // A question counts as searched when one of its answers cited the web
+        webSearch: sources.length > 0 || (message.role === 'user' && answers.some(answer => answer.role === 'assistant' && (answer.metadata?.sources?.length ?? 0) > 0)),
+        terms: new Map(),
+        length: 0
+      };
+
+      const addTerms = (terms: string[], weight: number) => {
+        terms.forEach(term => document.terms.set(term, (document.terms.get(term) ?? 0) + weight));
+        document.length += terms.length * weight;
+      };
+      addTerms(tokenize(message.content), FIELD_WEIGHTS.content);
+      addTerms(titleTerms, FIELD_WEIGHTS.title);
+      addTerms(sources.flatMap(source => tokenize(source.title)), FIELD_WEIGHTS.sources);
+
+      this.documents.set(document.key, document);
+      this.totalLength += document.length;
+      document.terms.forEach((frequency, term) => {
+        if (!this.postings.has(term)) this.postings.set(term, new Map());
+        this.postings.get(term)!.set(document.key, frequency);
+      });
+      return document.key;
+    });
+    this.conversations.set(conversation.id, { version, keys });
+  }
+
+  remove(conversationId: string): void {
+    const indexed = this.conversations.get(conversationId);
+    if (!indexed) return;
+    for (const key of indexed.keys) {
+      const document = this.documents.get(key);
+      if (!document) continue;
+      document.terms.forEach((_, term) => {
+        const posting = this.postings.get(term);
+        posting?.delete(key);
+        if (posting?.size === 0) this.postings.delete(term);
+      });
+      this.totalLength -= document.length;
+      this.documents.delete(key);
+    }
+    this.conversations.delete(conversationId);
+  }
+
+  /** Models that answered in the indexed conversations, for a filter menu */
+  getModels(): string[] {
+    const models = new Set<string>();
+    this.documents.forEach(document => document.models.forEach(model => models.add(model)));
+    return [...models].sort();
+  }
+
+  search(query: string, filters: SearchFilters = {}, limit = DEFAULT_LIMIT): SearchResults {
+    const typed = tokenize(query);
+    const words = [...new Set(typed)];
+    const meaningful = words.filter(word => !STOP_WORDS.has(word));
+    const terms = meaningful.length > 0 ? meaningful : words;
+    if (terms.length === 0 || this.documents.size === 0) return { hits: [], total: 0 };
+
+    // Each query word as the index terms it matches; only the last one also matches as a prefix
+    const lastIsPrefix = typed[typed.length - 1] === terms[terms.length - 1] && terms[terms.length - 1].length >= 2 && !/\s$/.test(query);
+    const expanded = terms.map((term, index) => {
+      if (!(lastIsPrefix && index === terms.length - 1)) return this.postings.has(term) ? [term] : [];
+      return [...this.postings.keys()].filter(candidate => candidate.startsWith(term));
+    });
+    if (expanded.some(matches => matches.length === 0)) return { hits: [], total: 0 };
+
+    const averageLength = this.totalLength / this.documents.size;
+    const scores = new Map<string, number>();
+    const matchedTerms = new Set(expanded.flat());
+    expanded.forEach((matches, index) => {
+      const wordScores = new Map<string, number>();
+      for (const term of matches) {
+        const posting = this.postings.get(term)!;
+        const idf = Math.log(1 + (this.documents.size - posting.size + 0.5) / (posting.size + 0.5));
+        posting.forEach((frequency, key) => {
+          const document = this.documents.get(key)!;
+          const score = idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * document.length / averageLength));
+          wordScores.set(key, Math.max(wordScores.get(key) ?? 0, score));
+        });
+      }
+      // A document stays in the running only while it matches every word so far
+      if (index === 0) {
+        wordScores.forEach((score, key) => scores.set(key, score));
+      } else {
+        scores.forEach((score, key) => {
+          const wordScore = wordScores.get(key);
+          if (wordScore === undefined) scores.delete(key);
+          else scores.set(key, score + wordScore);
+        });
+      }
+    });
+
+    const from = filters.from ? toTime(filters.from, false) : -Infinity;
+    const to = filters.to ? toTime(filters.to, true) : Infinity;
+    const model = filters.model?.toLowerCase();
+    const matching = [...scores.entries()]
+      .map(([key, score]) => ({ document: this.documents.get(key)!, score }))
+      .filter(({ document }) => document.time >= from && document.time <= to
+        && (!model || document.models.some(candidate => candidate.toLowerCase() === model))
+        && (filters.webSearch === undefined || document.webSearch === filters.webSearch))
+      .sort((a, b) => b.score - a.score || b.document.time - a.document.time);
+
+    return {
+      total: matching.length,
+      hits: matching.slice(0, limit).map(({ document, score }) => ({
+        conversationId: document.conversationId,
+        conversationTitle: document.conversationTitle,
+        messageId: document.message.id,
+        role: document.message.role,
+        timestamp: new Date(document.time).toISOString(),
+        models: document.models,
+        webSearch: document.webSearch,
+        score: Math.round(score * 1000) / 1000,
+        snippet: getSnippet(document.message.content, matchedTerms)
+      }))
+    };
+  }
+}
+
+/** About SNIPPET_LENGTH characters of the message around its first match, matches highlighted */
+export function getSnippet(content: string, terms: Set<string>): SnippetPart[] {
+  const text = content.replace(/```\w*\n?/g, '').replace(/[#*_>`]+/g, '').replace(/\s+/g, ' ').trim();
+  const matches = [...text.matchAll(WORD)]
+    .filter(match => terms.has(normalize(match[0])))
+    .map(match => ({ start: match.index!, end: match.index! + match[0].length }));
+
+  // Starts a quarter of the way before the first match, on a word boundary
+  let windowStart = Math.max(0, (matches[0]?.start ?? 0) - SNIPPET_LENGTH / 4);
+  if (windowStart > 0) windowStart = text.lastIndexOf(' ', windowStart) + 1;
+  const windowEnd = Math.min(text.length, windowStart + SNIPPET_LENGTH);
+
+  const parts: SnippetPart[] = [];
+  let position = windowStart;
+  for (const { start: matchStart, end } of matches) {
+    if (matchStart < windowStart) continue;
+    if (end > windowEnd) break;
+    if (matchStart > position) parts.push({ text: text.slice(position, matchStart), highlight: false });
+    parts.push({ text: text.slice(matchStart, end), highlight: true });
+    position = end;
+  }
+  if (position < windowEnd) parts.push({ text: text.slice(position, windowEnd), highlight: false });
+
+  if (windowStart > 0) parts.unshift({ text: '…', highlight: false });
+  if (windowEnd < text.length) parts.push({ text: '…', highlight: false });
+  return parts;
+}
@@ -0,0 +1,288 @@
+/**
+ * Conversation Store
+ * Each user's conversations and their messages, behind a repository so the API doesn't care where
+ * they live. Messages are only ever appended (or cleared), so the SQLite backend keeps one row per
+ * message and an append never rewrites the conversation. Edits and regenerations are appended too,
+ * as siblings (see messageTree); activeLeafId remembers which branch was last on show.
+ *
+ * Backend is chosen with CONVERSATION_BACKEND: "sqlite" (default, DATA_DIR/chatqora.db) or "memory".
+ * Unlike the caches and stats, conversations are user data, so they persist unless told otherwise.
+ */
+
+import { getSqliteDatabase } from '@/lib/storage/sqlite';
+import type { Conversation, ConversationSummary, Message } from '@/types/chat';
+
+export type { Conversation, ConversationSummary };
+
+export const DEFAULT_CONVERSATION_TITLE = 'New Chat';
+export const MAX_TITLE_LENGTH = 200;
+// A created or imported conversation is written in one transaction
+export const MAX_MESSAGES_PER_CONVERSATION = 5000;
+
+export interface NewConversation {
+  id: string;
+  title?: string;
+  messages?: Message[];
+  /** ISO dates; set when a conversation is uploaded or imported from elsewhere, otherwise now */
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+/** Every method is scoped to one user; another user's conversation ids are simply not found */
+export interface ConversationRepository {
+  readonly name: string;
+  /** Most recently updated first */
+  list(userId: string): ConversationSummary[];
+  get(userId: string, id: string): Conversation | undefined;
+  create(userId: string, conversation: NewConversation): Conversation;
+  appendMessages(userId: string, id: string, messages: Message[]): Conversation | undefined;
+  rename(userId: string, id: string, title: string): Conversation | undefined;
+  /** Shows the branch ending at leafId (null: the newest message's) without moving the conversation up the list */
+  setActiveLeaf(userId: string, id: string, leafId: string | null): Conversation | undefined;
+  clearMessages(userId: string, id: string): Conversation | undefined;
+  delete(userId: string, id: string): boolean;
+}
+
+const MESSAGE_ROLES = ['user', 'assistant', 'system'];
+const CONVERSATION_ID = /^[\w-]{1,100}$/;
+
+export const isValidConversationId = (id: unknown): id is string => typeof id === 'string' && CONVERSATION_ID.test(id);
+
+/** Why a request body's messages can't be stored; empty when they can */
+export function getMessageProblems(messages: unknown): string[] {
+  if (!Array.isArray(messages)) return ['messages must be an array'];
+  return messages.flatMap((message, index) => {
+    const problems: string[] = [];
+    if (typeof message !== 'object' || message === null) return [`messages[${index}] must be an object`];
+    if (typeof message.id !== 'string' || !message.id) problems.push(`messages[${index}].id must be a non-empty string`);
+    if (!MESSAGE_ROLES.includes(message.role)) problems.push(`messages[${index}].role must be one of: ${MESSAGE_ROLES.join(', ')}`);
+    if (typeof message.content !== 'string') problems.push(`messages[${index}].content must be a string`);
+    if (message.parentId !== undefined && message.parentId !== null && typeof message.parentId !== 'string') {
+      problems.push(`messages[${index}].parentId must be a string or null`);
+    }
+    return problems;
+  });
+}
+
+const toSummary = (conversation: Conversation): ConversationSummary => ({
+  id: conversation.id,
+  title: conversation.title,
+  messageCount: conversation.messages.length,
+  createdAt: conversation.createdAt,
+  updatedAt: conversation.updatedAt
+});
+
+class MemoryConversationRepository implements ConversationRepository {
+  readonly name = 'memory';
+  private users = new Map<string, Map<string, Conversation>>();
+
+  private conversations(userId: string): Map<string, Conversation> {
+    let conversations = this.users.get(userId);
+    if (!conversations) {
+      conversations = new Map();
+      this.users.set(userId, conversations);
+    }
+    return conversations;
+  }
+
+  list(userId: string): ConversationSummary[] {
+    return [...this.conversations(userId).values()]
+      .map(toSummary)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  get(userId: string, id: string): Conversation | undefined {
+    const conversation = this.conversations(userId).get(id);
+    return conversation && { ...conversation, messages: [...conversation.messages] };
+  }
+
+  create(userId: string, { id, title, messages = [], createdAt, updatedAt }: NewConversation): Conversation {
+    const now = new Date().toISOString();
+    const conversation: Conversation = {
+      id,
+      title: title || DEFAULT_CONVERSATION_TITLE,
+      messages: [...messages],
+      createdAt: createdAt ?? now,
+      updatedAt: updatedAt ?? createdAt ?? now
+    };
+    this.conversations(userId).set(id, conversation);
+    return this.get(userId, id)!;
+  }
+
+  // A new message is the newest, so its branch is the one on show
+  appendMessages(userId: string, id: string, messages: Message[]): Conversation | undefined {
+    return this.update(userId, id, conversation => ({ messages: [...conversation.messages, ...messages], activeLeafId: undefined }));
+  }
+
+  rename(userId: string, id: string, title: string): Conversation | undefined {
+    return this.update(userId, id, () => ({ title }));
+  }
+
+  setActiveLeaf(userId: string, id: string, leafId: string | null): Conversation | undefined {
+    const conversation = this.conversations(userId).get(id);
+    if (!conversation) return undefined;
+    this.conversations(userId).set(id, { ...conversation, activeLeafId: leafId ?? undefined });
+    return this.get(userId, id);
+  }
+
+  clearMessages(userId: string, id: string): Conversation | undefined {
+    return this.update(userId, id, () => ({ messages: [], activeLeafId: undefined }));
+  }
+
+  delete(userId: string, id: string): boolean {
+    return this.conversations(userId).delete(id);
+  }
+
+  private update(userId: string, id: string, change: (conversation: Conversation) => Partial<Conversation>): Conversation | undefined {
+    const conversation = this.conversations(userId).get(id);
+    if (!conversation) return undefined;
+    this.conversations(userId).set(id, { ...conversation, ...change(conversation), updatedAt: new Date().toISOString() });
+    return this.get(userId, id);
+  }
+}
+
+interface ConversationRow {
+  id: string;
+  title: string;
+  created_at: string;
+  updated_at: string;
+  active_leaf_id: string | null;
+  message_count: number;
+}
+
+class SqliteConversationRepository implements ConversationRepository {
+  readonly name = 'sqlite';
+
+  constructor() {
+    getSqliteDatabase().exec(`
+      CREATE TABLE IF NOT EXISTS conversations (
+        user_id TEXT NOT NULL,
+        id TEXT NOT NULL,
+        title TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (user_id, id)
+      );
+      CREATE INDEX IF NOT EXISTS conversations_by_update ON conversations (user_id, updated_at);
+      CREATE TABLE IF NOT EXISTS conversation_messages (
+        user_id TEXT NOT NULL,
+        conversation_id TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        message TEXT NOT NULL,
+        PRIMARY KEY (user_id, conversation_id, position)
+      );
+    `);
+    // Databases created before branching lack the column
+    const columns = getSqliteDatabase().prepare('PRAGMA table_info(conversations)').all() as Array<{ name: string }>;
+    if (!columns.some(column => column.name === 'active_leaf_id')) {
+      getSqliteDatabase().exec('ALTER TABLE conversations ADD COLUMN active_leaf_id TEXT');
+    }
+  }
+
+  list(userId: string): ConversationSummary[] {
+    const rows = getSqliteDatabase().prepare(`
+      SELECT c.id, c.title, c.created_at, c.updated_at,
+        (SELECT COUNT(*) FROM conversation_messages m WHERE m.user_id = c.user_id AND m.conversation_id = c.id) AS message_count
+      FROM conversations c WHERE c.user_id = ? ORDER BY c.updated_at DESC
+    `).all(userId) as ConversationRow[];
+    return rows.map(row => ({
+      id: row.id,
+      title: row.title,
+      messageCount: row.message_count,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    }));
+  }
+
+  get(userId: string, id: string): Conversation | undefined {
+    const db = getSqliteDatabase();
+    const row = db
+      .prepare('SELECT id, title, created_at, updated_at, active_leaf_id FROM conversations WHERE user_id = ? AND id = ?')
+      .get(userId, id) as Omit<ConversationRow, 'message_count'> | undefined;
+    if (!row) return undefined;
+
+    const messages = db
+      .prepare('SELECT message FROM conversation_messages WHERE user_id = ? AND conversation_id = ? ORDER BY position')
+      .all(userId, id) as Array<{ message: string }>;
+    return {
+      id: row.id,
+      title: row.title,
+      messages: messages.map(message => JSON.parse(message.message) as Message),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      ...(row.active_leaf_id && { activeLeafId: row.active_leaf_id })
+    };
+  }
+
+  create(userId: string, { id, title, messages = [], createdAt, updatedAt }: NewConversation): Conversation {
+    const now = new Date().toISOString();
+    getSqliteDatabase().transaction(() => {
+      getSqliteDatabase()
+        .prepare('INSERT INTO conversations (user_id, id, title, created_at, updated_at) VALUES (?, ?, ?, ?, ?)')
+        .run(userId, id, title || DEFAULT_CONVERSATION_TITLE, createdAt ?? now, updatedAt ?? createdAt ?? now);
+      this.insertMessages(userId, id, messages, 0);
+    })();
+    return this.get(userId, id)!;
+  }
+
+  appendMessages(userId: string, id: string, messages: Message[]): Conversation | undefined {
+    const db = getSqliteDatabase();
+    return db.transaction(() => {
+      if (!this.touch(userId, id, undefined, true)) return undefined;
+      const { next } = db
+        .prepare('SELECT COALESCE(MAX(position) + 1, 0) AS next FROM conversation_messages WHERE user_id = ? AND conversation_id = ?')
+        .get(userId, id) as { next: number };
+      this.insertMessages(userId, id, messages, next);
+      return this.get(userId, id);
+    })();
+  }
+
+  rename(userId: string, id: string, title: string): Conversation | undefined {
+    return this.touch(userId, id, title) ? this.get(userId, id) : undefined;
+  }
+
+  setActiveLeaf(userId: string, id: string, leafId: string | null): Conversation | undefined {
+    const changes = getSqliteDatabase()
+      .prepare('UPDATE conversations SET active_leaf_id = ? WHERE user_id = ? AND id = ?')
+      .run(leafId, userId, id).changes;
+    return changes > 0 ? this.get(userId, id) : undefined;
+  }
+
+  clearMessages(userId: string, id: string): Conversation | undefined {
+    const db = getSqliteDatabase();
+    return db.transaction(() => {
+      if (!this.touch(userId, id, undefined, true)) return undefined;
+      db.prepare('DELETE FROM conversation_messages WHERE user_id = ? AND conversation_id = ?').run(userId, id);
+      return this.get(userId, id);
+    })();
+  }
+
+  delete(userId: string, id: string): boolean {
+    const db = getSqliteDatabase();
+    return db.transaction(() => {
+      db.prepare('DELETE FROM conversation_messages WHERE user_id = ? AND conversation_id = ?').run(userId, id);
+      return db.prepare('DELETE FROM conversations WHERE user_id = ? AND id = ?').run(userId, id).changes > 0;
+    })();
+  }
+
+  // Bumps updated_at (and sets the title, if given, or resets the branch on show when the messages
+  // change); false when the conversation doesn't exist
+  private touch(userId: string, id: string, title?: string, messagesChanged = false): boolean {
+    return getSqliteDatabase()
+      .prepare(`UPDATE conversations SET updated_at = ?, title = COALESCE(?, title)${messagesChanged ? ', active_leaf_id = NULL' : ''} WHERE user_id = ? AND id = ?`)
+      .run(new Date().toISOString(), title ?? null, userId, id).changes > 0;
+  }
+
+  private insertMessages(userId: string, id: string, messages: Message[], firstPosition: number): void {
+    const insert = getSqliteDatabase().prepare(
+      'INSERT INTO conversation_messages (user_id, conversation_id, position, message) VALUES (?, ?, ?, ?)'
+    );
+    messages.forEach((message, index) => insert.run(userId, id, firstPosition + index, JSON.stringify(message)));
+  }
+}
+
+export function createConversationRepository(kind: string = process.env.CONVERSATION_BACKEND || 'sqlite'): ConversationRepository {
+  return kind === 'memory' ? new MemoryConversationRepository() : new SqliteConversationRepository();
+}
+
+export const conversationStore = createConversationRepository();
@@ -0,0 +1,76 @@
+/**
+ * Agreement evaluator
+ * Scores an answer by how much the other models' answers back it up: shared vocabulary (cosine
+ * similarity of stemmed word counts), coverage of the points most answers make, and whether its
+ * figures appear in another answer. Free, but agreement is not correctness when every model is wrong.
+ */
+
+import { countTerms, cosineSimilarity } from '@/lib/textSimilarity';
+import type { ScoreComponent } from '@/types/chat';
+import { AnswerEvaluator, createEvaluation } from './types';
+
+// Independent answers that agree on substance rarely share more than half their wording
+const FULL_AGREEMENT_SIMILARITY = 0.5;
+const MAX_KEY_TERMS = 15;
+
+// Terms at least half the peers use, most widely used first
+function getKeyTerms(peerTerms: Map<string, number>[]): string[] {
+  const documentFrequency = new Map<string, number>();
+  peerTerms.forEach(terms => terms.forEach((_, term) => documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1)));
+
+  return [...documentFrequency.entries()]
+    .filter(([, frequency]) => frequency >= Math.max(1, Math.ceil(peerTerms.length / 2)))
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_KEY_TERMS)
+    .map(([term]) => term);
+}
+
+const extractNumbers = (text: string): string[] => [...new Set(text.match(/\d+(?:[.,]\d+)?/g) || [])];
+
+export const agreementEvaluator: AnswerEvaluator = {
+  name: 'agreement',
+  requiresModelCall: false,
+
+  async evaluate({ answer, peers }) {
+    const others = peers.filter(peer => peer.trim() && peer !== answer);
+    if (others.length === 0 || !answer.trim()) return null;
+
+    const answerTerms = countTerms(answer);
+    const peerTerms = others.map(countTerms);
+
+    const similarity = peerTerms.reduce((sum, terms) => sum + cosineSimilarity(answerTerms, terms), 0) / peerTerms.length;
+    const breakdown: ScoreComponent[] = [{
+      name: 'Shared vocabulary',
+      score: Math.min(1, similarity / FULL_AGREEMENT_SIMILARITY),
+      weight: 0.5,
+      detail: `${Math.round(similarity * 100)}% average similarity to ${others.length} other answer${others.length === 1 ? '' : 's'}`
+    }];
+
+    const keyTerms = getKeyTerms(peerTerms);
+    if (keyTerms.length > 0) {
+      const covered = keyTerms.filter(term => answerTerms.has(term));
+      const missing = keyTerms.filter(term => !answerTerms.has(term)).slice(0, 3);
+      breakdown.push({
+        name: 'Common points',
+        score: covered.length / keyTerms.length,
+        weight: 0.3,
+        detail: `Mentions ${covered.length} of ${keyTerms.length} terms most answers use${missing.length ? ` (missing: ${missing.join(', ')})` : ''}`
+      });
+    }
+
+    // Only answers that state figures are checked; a figure no other model gave is a warning sign
+    const numbers = extractNumbers(answer);
+    if (numbers.length > 0) {
+      const peerNumbers = new Set(others.flatMap(extractNumbers));
+      const confirmed = numbers.filter(number => peerNumbers.has(number));
+      breakdown.push({
+        name: 'Matching figures',
+        score: confirmed.length / numbers.length,
+        weight: 0.2,
+        detail: `${confirmed.length} of ${numbers.length} figures also appear in another answer`
+      });
+    }
+
+    return createEvaluation('agreement', breakdown);
+  }
+};
@@ -0,0 +1,37 @@
+/**
+ * Heuristic evaluator
+ * The original confidence formula: a 50% baseline plus points for length, list structure and
+ * examples. Free and instant, but it only sees the shape of an answer, never whether it is right.
+ */
+
+import { AnswerEvaluator, createEvaluation } from './types';
+
+const MIN_DETAILED_LENGTH = 200;
+
+export const heuristicEvaluator: AnswerEvaluator = {
+  name: 'heuristic',
+  requiresModelCall: false,
+
+  async evaluate({ answer }) {
+    if (!answer.trim()) {
+      return createEvaluation('heuristic', [
+        { name: 'Baseline', score: 0, weight: 1, detail: 'Empty answer' }
+      ]);
+    }
+
+    const hasStructure = /\d+\.|•|\n-|\n\*/.test(answer);
+    const hasExamples = /example|for instance|such as/i.test(answer);
+
+    return createEvaluation('heuristic', [
+      { name: 'Baseline', score: 1, weight: 0.5, detail: 'Every non-empty answer starts at 50%' },
+      {
+        name: 'Length',
+        score: answer.length > MIN_DETAILED_LENGTH ? 1 : 0,
+        weight: 0.2,
+        detail: `${answer.length} characters (over ${MIN_DETAILED_LENGTH} counts as detailed)`
+      },
+      { name: 'Structure', score: hasStructure ? 1 : 0, weight: 0.15, detail: hasStructure ? 'Uses lists or numbered steps' : 'No lists or numbered steps' },
+      { name: 'Examples', score: hasExamples ? 1 : 0, weight: 0.15, detail: hasExamples ? 'Gives examples' : 'No examples' }
+    ]);
+  }
+};
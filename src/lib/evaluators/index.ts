@@ -0,0 +1,84 @@
+/**
+ * Evaluator registry
+ * Scores answers for FusionEngine's confidence, best-answer picks and early completion. Each fusion
+ * strategy has its own evaluators (a request can override them); the report keeps every evaluator's
+ * breakdown so the score shown to users can be explained.
+ */
+
+import type { AnswerEvaluation, QualityReport } from '@/types/chat';
+import { AnswerEvaluator, EvaluationInput, EvaluatorContext, EvaluatorName } from './types';
+import { heuristicEvaluator } from './heuristic';
+import { agreementEvaluator } from './agreement';
+import { judgeEvaluator } from './judge';
+
+export * from './types';
+export type { QualityReport };
+
+// Specialists answer different parts of the query on purpose, so agreement would punish them;
+// single-answer strategies have nothing to agree with and get the judge instead
+export const STRATEGY_EVALUATORS: Record<string, EvaluatorName[]> = {
+  fast: ['heuristic'],
+  consensus: ['agreement', 'heuristic'],
+  adaptive: ['agreement', 'heuristic'],
+  specialized: ['heuristic'],
+  streaming: ['agreement', 'heuristic'],
+  iterative: ['heuristic', 'judge'],
+  debate: ['agreement', 'judge'],
+  structured: ['agreement']
+};
+
+const DEFAULT_EVALUATORS: EvaluatorName[] = ['agreement', 'heuristic'];
+
+export function getStrategyEvaluators(strategy: string): EvaluatorName[] {
+  return STRATEGY_EVALUATORS[strategy] ?? DEFAULT_EVALUATORS;
+}
+
+export class EvaluatorRegistry {
+  private evaluators = new Map<EvaluatorName, AnswerEvaluator>();
+
+  register(evaluator: AnswerEvaluator): void {
+    this.evaluators.set(evaluator.name, evaluator);
+  }
+
+  has(name: string): name is EvaluatorName {
+    return this.evaluators.has(name as EvaluatorName);
+  }
+
+  getNames(): EvaluatorName[] {
+    return [...this.evaluators.keys()];
+  }
+
+  /**
+   * Runs the named evaluators and averages their scores. Evaluators that need a model call are
+   * skipped without context.complete; one that fails is left out with a warning. If none produced
+   * a score, the heuristic is used so there is always an explained score.
+   */
+  async evaluate(input: EvaluationInput, names: EvaluatorName[], context: EvaluatorContext = {}): Promise<QualityReport> {
+    const selected = names
+      .map(name => this.evaluators.get(name))
+      .filter((evaluator): evaluator is AnswerEvaluator => !!evaluator && (!evaluator.requiresModelCall || !!context.complete));
+
+    const results = await Promise.all(selected.map(async evaluator => {
+      try {
+        return await evaluator.evaluate(input, context);
+      } catch (error) {
+        console.warn(`⚠️ ${evaluator.name} evaluator failed:`, (error as Error).message);
+        return null;
+      }
+    }));
+    let evaluations = results.filter((evaluation): evaluation is AnswerEvaluation => !!evaluation);
+
+    if (evaluations.length === 0) {
+      const fallback = await heuristicEvaluator.evaluate(input, context);
+      evaluations = fallback ? [fallback] : [];
+    }
+
+    const score = evaluations.reduce((sum, evaluation) => sum + evaluation.score, 0) / (evaluations.length || 1);
+    return { score: Math.round(score * 100) / 100, evaluations };
+  }
+}
+
+export const evaluatorRegistry = new EvaluatorRegistry();
+evaluatorRegistry.register(heuristicEvaluator);
+evaluatorRegistry.register(agreementEvaluator);
+evaluatorRegistry.register(judgeEvaluator);
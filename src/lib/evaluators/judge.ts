@@ -0,0 +1,69 @@
+/**
+ * LLM-as-judge evaluator
+ * A model grades the answer against a fixed rubric and returns a 1-5 score with a reason for each
+ * criterion, as JSON validated (and repaired) like any structured output. One extra model call per
+ * evaluation, so FusionEngine only runs it on the final answer.
+ */
+
+import { JsonSchema, completeStructured } from '@/lib/structuredOutput';
+import { AnswerEvaluator, createEvaluation } from './types';
+
+const RUBRIC = [
+  { key: 'correctness', name: 'Correctness', weight: 0.4, question: 'Is everything it states accurate?' },
+  { key: 'completeness', name: 'Completeness', weight: 0.25, question: 'Does it cover every part of the query?' },
+  { key: 'relevance', name: 'Relevance', weight: 0.2, question: 'Does it stay on what was asked?' },
+  { key: 'clarity', name: 'Clarity', weight: 0.15, question: 'Is it clear and well organized?' }
+] as const;
+
+const CRITERION_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['score', 'reason'],
+  properties: {
+    score: { type: 'integer', minimum: 1, maximum: 5 },
+    reason: { type: 'string', minLength: 1 }
+  }
+};
+
+const RUBRIC_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: RUBRIC.map(criterion => criterion.key),
+  properties: Object.fromEntries(RUBRIC.map(criterion => [criterion.key, CRITERION_SCHEMA]))
+};
+
+type RubricScores = Record<typeof RUBRIC[number]['key'], { score: number; reason: string }>;
+
+function createJudgePrompt(query: string, answer: string): string {
+  const criteria = RUBRIC.map(criterion => `- ${criterion.key}: ${criterion.question}`).join('\n');
+
+  return `You are grading an answer another AI gave to a user. Score each criterion from 1 (poor) to 5 (excellent) and give a one-sentence reason.
+
+**User Query:** ${query}
+
+**Answer:**
+${answer.substring(0, 4000)}
+
+**Criteria:**
+${criteria}`;
+}
+
+export const judgeEvaluator: AnswerEvaluator = {
+  name: 'judge',
+  requiresModelCall: true,
+
+  async evaluate({ query, answer }, { complete }) {
+    if (!complete || !answer.trim()) return null;
+
+    const output = await completeStructured<RubricScores>(createJudgePrompt(query, answer), RUBRIC_SCHEMA, complete, 1);
+    if (!output.valid || !output.value) {
+      throw new Error(`Judge reply did not match the rubric: ${output.errors[0]}`);
+    }
+
+    const scores = output.value;
+    return createEvaluation('judge', RUBRIC.map(criterion => ({
+      name: criterion.name,
+      score: (scores[criterion.key].score - 1) / 4,
+      weight: criterion.weight,
+      detail: `${scores[criterion.key].score}/5: ${scores[criterion.key].reason}`
+    })));
+  }
+};
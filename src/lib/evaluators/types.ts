@@ -0,0 +1,37 @@
+/**
+ * Evaluator types
+ * An evaluator scores one answer to a query from 0 to 1 and explains the score as a weighted
+ * breakdown. Peers are the other models' answers to the same query, for evaluators that compare.
+ */
+
+import type { AnswerEvaluation, ScoreComponent } from '@/types/chat';
+
+export const EVALUATOR_NAMES = ['heuristic', 'agreement', 'judge'] as const;
+export type EvaluatorName = typeof EVALUATOR_NAMES[number];
+
+export interface EvaluationInput {
+  query: string;
+  answer: string;
+  peers: string[];
+}
+
+export interface EvaluatorContext {
+  /** Model call for evaluators that need one; they are skipped when it is missing */
+  complete?: (prompt: string, attempt: number) => Promise<string>;
+}
+
+export interface AnswerEvaluator {
+  name: EvaluatorName;
+  requiresModelCall: boolean;
+  /** null when the evaluator has nothing to go on (agreement without peers) */
+  evaluate(input: EvaluationInput, context: EvaluatorContext): Promise<AnswerEvaluation | null>;
+}
+
+/** Evaluation whose score is the weighted mean of its breakdown */
+export function createEvaluation(evaluator: EvaluatorName, breakdown: ScoreComponent[]): AnswerEvaluation {
+  const totalWeight = breakdown.reduce((sum, component) => sum + component.weight, 0);
+  const score = totalWeight > 0
+    ? breakdown.reduce((sum, component) => sum + component.score * component.weight, 0) / totalWeight
+    : 0;
+  return { evaluator, score: Math.round(score * 100) / 100, breakdown };
+}
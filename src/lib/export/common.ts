@@ -0,0 +1,38 @@
+/**
+ * Helpers shared by the export formats
+ */
+
+import type { Conversation, Message, WebSource } from '@/types/chat';
+
+/** Messages arrive with Date timestamps from the browser cache and ISO strings from the API */
+export const toDate = (value: Date | string): Date => (value instanceof Date ? value : new Date(value));
+
+export const formatTimestamp = (value: Date | string): string =>
+  toDate(value).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' });
+
+export function getSpeaker(message: Message): string {
+  if (message.role === 'user') return 'You';
+  if (message.role === 'system') return 'System';
+  const model = message.metadata?.fusion ? 'AI Fusion' : message.model || message.metadata?.model;
+  return model ? `ChatQora (${model})` : 'ChatQora';
+}
+
+export const getSources = (message: Message): WebSource[] => message.metadata?.sources ?? [];
+
+export const countMessages = (conversations: Conversation[]): number =>
+  conversations.reduce((sum, conversation) => sum + conversation.messages.length, 0);
+
+export const pluralize = (count: number, noun: string): string => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+// [1], [2] citations in an answer, but not markdown links ("[1](...)") or link definitions ("[1]: ...")
+export const CITATION = /\[(\d{1,2})\](?![(:])/g;
+
+/** Inline markdown reduced to plain text, for formats without rich text */
+export function stripInlineMarkdown(text: string): string {
+  return text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\(([^)]+)\)/g, '$1 ($2)')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/\*([^*\n]+)\*/g, '$1')
+    .replace(/`([^`]+)`/g, '$1');
+}
@@ -0,0 +1,137 @@
+/**
+ * HTML export
+ * A standalone page (inline styles, no scripts) that renders answers from markdown with micromark and
+ * the same typography as RichMessageRenderer, so an export reads like the chat did. Citations link to
+ * the answer's source list. Built from escaped string templates, so it runs in route handlers too.
+ */
+
+import { micromark } from 'micromark';
+import type { Conversation, Message } from '@/types/chat';
+import { countMessages, formatTimestamp, getSources, getSpeaker, pluralize, CITATION } from './common';
+
+// Tailwind values from RichMessageRenderer, written out since the file has no Tailwind
+const STYLES = `
+  :root { color-scheme: light dark; }
+  * { box-sizing: border-box; }
+  body { margin: 0; background: #f9fafb; color: #374151; font: 15px/1.65 ui-sans-serif, system-ui, -apple-system, "Segoe UI", Roboto, sans-serif; }
+  main { max-width: 48rem; margin: 0 auto; padding: 2rem 1rem 4rem; }
+  header.export { color: #6b7280; font-size: 0.8rem; margin-bottom: 2rem; }
+  section.conversation { margin-bottom: 3rem; }
+  section.conversation > h1 { font-size: 1.5rem; color: #111827; margin: 0 0 0.25rem; }
+  .conversation-meta { color: #6b7280; font-size: 0.8rem; margin-bottom: 1.5rem; }
+  article.message { margin: 1.25rem 0; }
+  article.message.user { display: flex; flex-direction: column; align-items: flex-end; }
+  article.message.user .body { background: #f3f4f6; border-radius: 1.5rem; padding: 0.6rem 1.1rem; max-width: 85%; }
+  .speaker { font-size: 0.75rem; color: #6b7280; margin-bottom: 0.25rem; }
+  .fusion-meta, .attachments { font-size: 0.75rem; color: #6b7280; margin-top: 0.5rem; }
+  .content h1 { font-size: 1.5rem; font-weight: 700; color: #111827; margin: 0 0 1rem; padding-bottom: 0.5rem; border-bottom: 1px solid #e5e7eb; }
+  .content h2 { font-size: 1.25rem; font-weight: 700; color: #111827; margin: 1.5rem 0 0.75rem; }
+  .content h3 { font-size: 1.125rem; font-weight: 600; color: #111827; margin: 1rem 0 0.5rem; }
+  .content p { margin: 0.75rem 0; }
+  .content a { color: #9333ea; text-decoration: underline; text-decoration-color: #d8b4fe; }
+  .content blockquote { border-left: 4px solid #a855f7; padding: 0.5rem 1rem; margin: 1rem 0; background: #faf5ff; font-style: italic; }
+  .content ul { list-style: disc inside; margin: 1rem 0; padding: 0; }
+  .content ol { list-style: decimal inside; margin: 1rem 0; padding: 0; }
+  .content li { margin: 0.25rem 0; }
+  .content li > p { display: inline; }
+  .content code { background: #f3f4f6; color: #dc2626; padding: 0.1rem 0.35rem; border-radius: 0.25rem; font: 0.875rem ui-monospace, SFMono-Regular, Menlo, monospace; }
+  .code-block { margin: 1rem 0; background: #f9fafb; border: 1px solid #e5e7eb; border-radius: 0.5rem; overflow: hidden; }
+  .code-block .language { padding: 0.5rem 1rem; background: #f3f4f6; border-bottom: 1px solid #e5e7eb; font-size: 0.8rem; font-weight: 500; }
+  .code-block pre { margin: 0; padding: 1rem; overflow-x: auto; }
+  .code-block code { background: none; color: #111827; padding: 0; }
+  .content table { border-collapse: collapse; margin: 1.5rem 0; width: 100%; }
+  .content th { border: 1px solid #d1d5db; padding: 0.75rem 1rem; text-align: left; font-size: 0.875rem; font-weight: 600; color: #111827; background: #f3f4f6; }
+  .content td { border: 1px solid #d1d5db; padding: 0.75rem 1rem; font-size: 0.875rem; }
+  .sources { margin-top: 0.75rem; padding: 0.75rem 1rem; border: 1px solid #e5e7eb; border-radius: 0.5rem; background: #fff; font-size: 0.85rem; }
+  .sources h4 { margin: 0 0 0.25rem; font-size: 0.8rem; color: #6b7280; text-transform: uppercase; letter-spacing: 0.05em; }
+  .sources ol { margin: 0; padding-left: 1.25rem; }
+  .sources a { color: #9333ea; }
+  .sources .snippet { color: #6b7280; }
+  hr { border: 0; border-top: 1px solid #e5e7eb; margin: 3rem 0; }
+  @media (prefers-color-scheme: dark) {
+    body { background: #111827; color: #d1d5db; }
+    section.conversation > h1, .content h1, .content h2, .content h3, .content th, .code-block code { color: #fff; }
+    article.message.user .body, .content code, .code-block .language, .content th { background: #1f2937; }
+    .code-block, .sources { background: #111827; border-color: #374151; }
+    .content blockquote { background: rgba(88, 28, 135, 0.2); }
+    .content a, .sources a { color: #c084fc; }
+    .content td, .content th { border-color: #4b5563; }
+  }
+  @media print { body { background: #fff; } main { padding: 0; } }
+`;
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+// Source URLs come from web search results; only web links are kept
+const safeUrl = (url: string): string => (/^https?:\/\//i.test(url) ? url : '#');
+
+// micromark escapes raw HTML and unsafe link protocols; external links open in a new tab and fenced
+// code gets the language header RichMessageRenderer shows
+function renderMarkdown(markdown: string): string {
+  return micromark(markdown)
+    .replace(/<a href="(?!#)/g, '<a target="_blank" rel="noopener noreferrer" href="')
+    .replace(/<pre><code(?: class="language-([^"]*)")?>/g, (match, language?: string) => {
+      const label = language && /^\w+$/.test(language) ? `<div class="language">${language.toUpperCase()}</div>` : '';
+      return `<div class="code-block">${label}${match}`;
+    })
+    .replace(/<\/code><\/pre>/g, '</code></pre></div>');
+}
+
+function renderMessage(message: Message, anchor: string): string {
+  const sources = getSources(message);
+  const fusion = message.metadata?.fusion;
+  // [n] becomes a link to the nth source below the answer
+  const content = sources.length === 0 ? message.content : message.content.replace(CITATION, (match, n: string) =>
+    Number(n) >= 1 && Number(n) <= sources.length ? `[[${n}]](#${anchor}-source-${n})` : match
+  );
+  const speaker = `${getSpeaker(message)} · ${formatTimestamp(message.timestamp)}${message.metadata?.cancelled ? ' · stopped' : ''}`;
+
+  const parts = [
+    `<div class="speaker">${escapeHtml(speaker)}</div>`,
+    `<div class="body"><div class="content">${renderMarkdown(content)}</div></div>`
+  ];
+  if (message.attachments && message.attachments.length > 0) {
+    parts.push(`<div class="attachments">📎 ${escapeHtml(message.attachments.map(attachment => attachment.fileName).join(', '))}</div>`);
+  }
+  if (fusion) {
+    const summary = `${fusion.strategy} fusion of ${fusion.modelsUsed.join(', ')} · ${Math.round(fusion.confidence * 100)}% confidence · ${(fusion.processingTime / 1000).toFixed(1)}s`;
+    parts.push(`<div class="fusion-meta">${escapeHtml(summary)}</div>`);
+  }
+  if (sources.length > 0) {
+    const items = sources.map((source, index) =>
+      `<li id="${anchor}-source-${index + 1}"><a href="${escapeHtml(safeUrl(source.url))}" target="_blank" rel="noopener noreferrer">${escapeHtml(source.title)}</a>` +
+      `${source.snippet ? `<span class="snippet"> — ${escapeHtml(source.snippet)}</span>` : ''}</li>`
+    );
+    parts.push(`<div class="sources"><h4>Sources</h4><ol>${items.join('')}</ol></div>`);
+  }
+
+  return `<article class="message ${escapeHtml(message.role)}" id="${anchor}">${parts.join('')}</article>`;
+}
+
+function renderConversation(conversation: Conversation, index: number): string {
+  const meta = `${pluralize(conversation.messages.length, 'message')} · started ${formatTimestamp(conversation.createdAt)}`;
+  const messages = conversation.messages.map((message, messageIndex) => renderMessage(message, `c${index + 1}-m${messageIndex + 1}`));
+  return `<section class="conversation" id="conversation-${escapeHtml(conversation.id)}">` +
+    `<h1>${escapeHtml(conversation.title)}</h1><div class="conversation-meta">${escapeHtml(meta)}</div>${messages.join('')}</section>`;
+}
+
+export function toHtml(conversations: Conversation[], exportedAt: Date): string {
+  const title = conversations.length === 1 ? conversations[0].title : 'ChatQora conversations';
+  const summary = `Exported from ChatQora on ${formatTimestamp(exportedAt)} · ${pluralize(conversations.length, 'conversation')} · ${pluralize(countMessages(conversations), 'message')}`;
+  const body = `<main><header class="export">${escapeHtml(summary)}</header>${conversations.map(renderConversation).join('<hr>')}</main>`;
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="generator" content="ChatQora">
+<title>${escapeHtml(title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
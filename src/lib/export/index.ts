@@ -0,0 +1,79 @@
+/**
+ * Conversation Export
+ * One conversation or all of them as Markdown (sources as footnotes), JSON (lossless, including
+ * fusion, source and analysis metadata, and every branch), standalone HTML or PDF. The readable
+ * formats show the branch that was on show in each conversation. Runs in the browser for the
+ * download buttons and on the server for GET /api/conversations?export=<format>.
+ */
+
+import type { Conversation } from '@/types/chat';
+import { getActiveBranch } from '@/lib/messageTree';
+import { toHtml } from './html';
+import { toMarkdown } from './markdown';
+import { toPdf } from './pdf';
+
+export type ExportFormat = 'markdown' | 'json' | 'html' | 'pdf';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  markdown: { label: 'Markdown', extension: 'md', mimeType: 'text/markdown; charset=utf-8' },
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json; charset=utf-8' },
+  html: { label: 'HTML', extension: 'html', mimeType: 'text/html; charset=utf-8' },
+  pdf: { label: 'PDF', extension: 'pdf', mimeType: 'application/pdf' }
+};
+
+export interface ExportFile {
+  fileName: string;
+  mimeType: string;
+  content: string | Uint8Array<ArrayBuffer>;
+}
+
+/** What a JSON export contains; conversations are exactly as stored */
+export interface ConversationExport {
+  format: 'chatqora.conversations';
+  version: 1;
+  exportedAt: string;
+  conversations: Conversation[];
+}
+
+export const isExportFormat = (value: unknown): value is ExportFormat =>
+  typeof value === 'string' && value in EXPORT_FORMATS;
+
+const slugify = (title: string): string =>
+  title.toLowerCase().normalize('NFKD').replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 50) || 'conversation';
+
+export function getExportFileName(conversations: Conversation[], format: ExportFormat, exportedAt: Date): string {
+  const name = conversations.length === 1 ? slugify(conversations[0].title) : 'conversations';
+  return `chatqora-${name}-${exportedAt.toISOString().slice(0, 10)}.${EXPORT_FORMATS[format].extension}`;
+}
+
+export function exportConversations(conversations: Conversation[], format: ExportFormat, exportedAt: Date = new Date()): ExportFile {
+  const shown = conversations.map(conversation => ({ ...conversation, messages: getActiveBranch(conversation.messages, conversation.activeLeafId) }));
+  let content: string | Uint8Array<ArrayBuffer>;
+  switch (format) {
+    case 'markdown':
+      content = toMarkdown(shown, exportedAt);
+      break;
+    case 'json': {
+      const data: ConversationExport = {
+        format: 'chatqora.conversations',
+        version: 1,
+        exportedAt: exportedAt.toISOString(),
+        conversations
+      };
+      content = JSON.stringify(data, null, 2);
+      break;
+    }
+    case 'html':
+      content = toHtml(shown, exportedAt);
+      break;
+    case 'pdf':
+      content = toPdf(shown, exportedAt);
+      break;
+  }
+
+  return {
+    fileName: getExportFileName(conversations, format, exportedAt),
+    mimeType: EXPORT_FORMATS[format].mimeType,
+    content
+  };
+}
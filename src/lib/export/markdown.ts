@@ -0,0 +1,50 @@
+/**
+ * Markdown export
+ * One section per conversation. Web sources become footnotes: an answer's [n] citations point at
+ * them, and sources it never cites are listed after it so every footnote is referenced.
+ */
+
+import type { Conversation } from '@/types/chat';
+import { countMessages, formatTimestamp, getSources, getSpeaker, pluralize, CITATION } from './common';
+
+export function toMarkdown(conversations: Conversation[], exportedAt: Date): string {
+  let footnoteCount = 0;
+
+  const sections = conversations.map(conversation => {
+    const footnotes: string[] = [];
+    const messages = conversation.messages.map(message => {
+      const sources = getSources(message);
+      const labels = sources.map(() => `^${++footnoteCount}`);
+      const cited = new Set<number>();
+
+      const content = sources.length === 0 ? message.content : message.content.replace(CITATION, (match, n: string) => {
+        const index = Number(n) - 1;
+        if (index < 0 || index >= sources.length) return match;
+        cited.add(index);
+        return `[${labels[index]}]`;
+      });
+
+      sources.forEach((source, index) => {
+        footnotes.push(`[${labels[index]}]: [${source.title.replace(/[[\]]/g, '')}](${source.url})${source.source ? ` (${source.source})` : ''}`);
+      });
+      const uncited = labels.filter((_, index) => !cited.has(index)).map(label => `[${label}]`);
+
+      return [
+        `**${getSpeaker(message)}** · ${formatTimestamp(message.timestamp)}${message.metadata?.cancelled ? ' · stopped' : ''}`,
+        content.trim(),
+        ...(message.attachments?.length ? [`_Attachments: ${message.attachments.map(attachment => attachment.fileName).join(', ')}_`] : []),
+        ...(uncited.length ? [`Sources: ${uncited.join(' ')}`] : [])
+      ].join('\n\n');
+    });
+
+    return [
+      `# ${conversation.title}`,
+      `_${pluralize(conversation.messages.length, 'message')} · started ${formatTimestamp(conversation.createdAt)}_`,
+      messages.join('\n\n---\n\n'),
+      ...(footnotes.length ? [footnotes.join('\n')] : [])
+    ].join('\n\n');
+  });
+
+  const header = `<!-- Exported from ChatQora on ${exportedAt.toISOString()}: ${pluralize(conversations.length, 'conversation')}, ${pluralize(countMessages(conversations), 'message')} -->`;
+  return `${[header, ...sections].join('\n\n')}\n`;
+}
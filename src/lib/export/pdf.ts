@@ -0,0 +1,304 @@
+/**
+ * PDF export
+ * A small PDF writer with no dependencies, so it runs in the browser and on the server alike. It
+ * lays answers out as text using the standard Helvetica and Courier fonts: headings, paragraphs,
+ * lists, quotes, code and tables keep their shape, inline markdown is reduced to plain text, and
+ * sources are listed under each answer. Characters outside Windows-1252 (emoji, CJK) can't be
+ * shown by the standard fonts and are replaced.
+ */
+
+import type { Conversation, Message } from '@/types/chat';
+import { countMessages, formatTimestamp, getSources, getSpeaker, pluralize, stripInlineMarkdown } from './common';
+
+type FontName = 'regular' | 'bold' | 'mono';
+
+interface TextLine {
+  text: string;
+  font: FontName;
+  size: number;
+  indent: number;
+  gapBefore: number;
+  gray?: boolean;
+}
+
+const PAGE_WIDTH = 595; // A4, in points
+const PAGE_HEIGHT = 842;
+const MARGIN = 56;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const LEADING = 1.4;
+const BODY_SIZE = 10.5;
+
+const FONT_RESOURCES: Record<FontName, { key: string; baseFont: string }> = {
+  regular: { key: 'F1', baseFont: 'Helvetica' },
+  bold: { key: 'F2', baseFont: 'Helvetica-Bold' },
+  mono: { key: 'F3', baseFont: 'Courier' }
+};
+
+// Advance widths (per 1000 em) of characters 32-126 from the standard Helvetica metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556,
+  556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778,
+  722, 278, 500, 667, 556, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278,
+  278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556,
+  556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778,
+  722, 278, 556, 722, 611, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333,
+  278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+
+// Unicode punctuation the models like, at its Windows-1252 code
+const WIN_ANSI: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '•': 0x95, '–': 0x96, '—': 0x97, '‘': 0x91, '’': 0x92,
+  '“': 0x93, '”': 0x94, '™': 0x99, '→': 0x3e, '✓': 0x76, '✔': 0x76, '✗': 0x78, '✅': 0x76, '❌': 0x78
+};
+
+/** Text as Windows-1252 bytes (one char per byte); emoji and joiners dropped, the rest replaced */
+function toWinAnsi(text: string): string {
+  let encoded = '';
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if (WIN_ANSI[char] !== undefined) encoded += String.fromCharCode(WIN_ANSI[char]);
+    else if ((code >= 32 && code <= 126) || (code >= 0xa0 && code <= 0xff)) encoded += char;
+    else if (code === 9) encoded += '    ';
+    else if (code >= 0x1f000 || code === 0x200d || (code >= 0xfe00 && code <= 0xfe0f) || (code >= 0x2600 && code <= 0x27bf)) continue;
+    else encoded += '?';
+  }
+  return encoded;
+}
+
+function textWidth(text: string, font: FontName, size: number): number {
+  if (font === 'mono') return text.length * 0.6 * size;
+  const widths = font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let units = 0;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    units += code >= 32 && code <= 126 ? widths[code - 32] : 556;
+  }
+  return (units / 1000) * size;
+}
+
+/** Splits (already encoded) text into lines that fit, breaking words only when one is too long */
+function wrap(text: string, font: FontName, size: number, width: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/ +/)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (textWidth(candidate, font, size) <= width) {
+      line = candidate;
+      continue;
+    }
+    if (line) lines.push(line);
+    line = word;
+    while (textWidth(line, font, size) > width) {
+      let fit = line.length - 1;
+      while (fit > 1 && textWidth(line.slice(0, fit), font, size) > width) fit--;
+      lines.push(line.slice(0, fit));
+      line = line.slice(fit);
+    }
+  }
+  lines.push(line);
+  return lines;
+}
+
+class Layout {
+  readonly lines: TextLine[] = [];
+  private nextGap = 0;
+
+  gap(points: number): void {
+    this.nextGap = Math.max(this.nextGap, points);
+  }
+
+  text(text: string, options: { font?: FontName; size?: number; indent?: number; gray?: boolean; firstPrefix?: string } = {}): void {
+    const { font = 'regular', size = BODY_SIZE, indent = 0, gray, firstPrefix } = options;
+    const prefix = firstPrefix ? toWinAnsi(firstPrefix) : '';
+    const prefixWidth = prefix ? textWidth(prefix, font, size) : 0;
+    const wrapped = wrap(toWinAnsi(text), font, size, CONTENT_WIDTH - indent - prefixWidth);
+    wrapped.forEach((line, index) => {
+      this.lines.push({
+        text: index === 0 ? prefix + line : line,
+        font,
+        size,
+        indent: index === 0 ? indent : indent + prefixWidth,
+        gapBefore: index === 0 ? this.nextGap : 0,
+        gray
+      });
+      this.nextGap = 0;
+    });
+  }
+
+  /** Code keeps its line breaks and indentation; long lines are cut at the margin */
+  code(code: string): void {
+    const size = 8.5;
+    const perLine = Math.floor((CONTENT_WIDTH - 12) / (0.6 * size));
+    for (const line of code.split('\n')) {
+      const encoded = toWinAnsi(line);
+      for (let start = 0; start === 0 || start < encoded.length; start += perLine) {
+        this.lines.push({ text: encoded.slice(start, start + perLine), font: 'mono', size, indent: 12, gapBefore: this.nextGap });
+        this.nextGap = 0;
+      }
+    }
+  }
+}
+
+// Markdown blocks, one at a time; inline formatting is stripped
+function layoutMarkdown(layout: Layout, markdown: string): void {
+  const lines = markdown.replace(/\r\n/g, '\n').split('\n');
+  let paragraph: string[] = [];
+  const flush = () => {
+    if (paragraph.length === 0) return;
+    layout.gap(6);
+    layout.text(stripInlineMarkdown(paragraph.join(' ')));
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const fence = /^\s*```\s*(\S*)/.exec(line);
+    if (fence) {
+      flush();
+      const code: string[] = [];
+      while (++i < lines.length && !/^\s*```/.test(lines[i])) code.push(lines[i]);
+      layout.gap(6);
+      if (fence[1]) layout.text(fence[1].toUpperCase(), { font: 'bold', size: 8, indent: 12, gray: true });
+      layout.code(code.join('\n'));
+      continue;
+    }
+
+    const heading = /^(#{1,6})\s+(.*)$/.exec(line);
+    const listItem = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/.exec(line);
+    const quote = /^\s*>\s?(.*)$/.exec(line);
+    const tableRow = /^\s*\|.*\|\s*$/.test(line);
+
+    if (heading) {
+      flush();
+      layout.gap(10);
+      layout.text(stripInlineMarkdown(heading[2]), { font: 'bold', size: [15, 13, 12, 11, 11, 11][heading[1].length - 1] });
+    } else if (listItem) {
+      flush();
+      layout.gap(3);
+      const depth = Math.min(Math.floor(listItem[1].length / 2), 4);
+      const marker = /\d/.test(listItem[2]) ? `${listItem[2]} ` : '• ';
+      layout.text(stripInlineMarkdown(listItem[3]), { indent: 12 + depth * 12, firstPrefix: marker });
+    } else if (quote) {
+      flush();
+      layout.gap(3);
+      layout.text(stripInlineMarkdown(quote[1]), { indent: 12, gray: true });
+    } else if (tableRow) {
+      flush();
+      if (/^\s*\|[\s:|-]+\|\s*$/.test(line)) continue; // Header separator
+      layout.gap(2);
+      const cells = line.trim().replace(/^\||\|$/g, '').split('|').map(cell => stripInlineMarkdown(cell.trim()));
+      layout.text(cells.join('  |  '), { size: 9, indent: 6 });
+    } else if (!line.trim()) {
+      flush();
+    } else {
+      paragraph.push(line.trim());
+    }
+  }
+  flush();
+}
+
+function layoutMessage(layout: Layout, message: Message): void {
+  layout.gap(16);
+  layout.text(`${getSpeaker(message)} · ${formatTimestamp(message.timestamp)}${message.metadata?.cancelled ? ' · stopped' : ''}`, { font: 'bold', size: 9.5, gray: true });
+  layoutMarkdown(layout, message.content);
+
+  if (message.attachments?.length) {
+    layout.gap(4);
+    layout.text(`Attachments: ${message.attachments.map(attachment => attachment.fileName).join(', ')}`, { size: 8.5, gray: true });
+  }
+
+  const sources = getSources(message);
+  if (sources.length > 0) {
+    layout.gap(8);
+    layout.text('Sources', { font: 'bold', size: 8.5, gray: true });
+    sources.forEach((source, index) => {
+      layout.text(`${source.title} - ${source.url}`, { size: 8.5, indent: 6, gray: true, firstPrefix: `[${index + 1}] ` });
+    });
+  }
+}
+
+const escapePdfString = (text: string): string => text.replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)');
+
+const pdfDate = (date: Date): string => `D:${date.toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z`;
+
+/** Line boxes onto A4 pages, a new page for each conversation after the first */
+function paginate(pages: TextLine[][]): string[] {
+  const streams: string[] = [];
+  for (const lines of pages) {
+    let commands: string[] = [];
+    let y = PAGE_HEIGHT - MARGIN;
+    for (const line of lines) {
+      const height = line.size * LEADING;
+      y -= line.gapBefore + height;
+      if (y < MARGIN) {
+        streams.push(commands.join('\n'));
+        commands = [];
+        y = PAGE_HEIGHT - MARGIN - height;
+      }
+      const color = line.gray ? '0.42 0.45 0.5 rg' : '0.07 0.09 0.15 rg';
+      const { key } = FONT_RESOURCES[line.font];
+      commands.push(`BT ${color} /${key} ${line.size} Tf ${(MARGIN + line.indent).toFixed(2)} ${y.toFixed(2)} Td (${escapePdfString(line.text)}) Tj ET`);
+    }
+    streams.push(commands.join('\n'));
+  }
+
+  // Page numbers, now that the count is known
+  return streams.map((stream, index) => {
+    const footer = `Page ${index + 1} of ${streams.length}`;
+    const x = PAGE_WIDTH - MARGIN - textWidth(footer, 'regular', 8);
+    return `${stream}\nBT 0.6 0.6 0.6 rg /F1 8 Tf ${x.toFixed(2)} ${(MARGIN / 2).toFixed(2)} Td (${footer}) Tj ET`;
+  });
+}
+
+export function toPdf(conversations: Conversation[], exportedAt: Date): Uint8Array<ArrayBuffer> {
+  const pages = conversations.map((conversation, index) => {
+    const layout = new Layout();
+    if (index === 0) {
+      layout.text(`Exported from ChatQora on ${formatTimestamp(exportedAt)} · ${pluralize(conversations.length, 'conversation')} · ${pluralize(countMessages(conversations), 'message')}`, { size: 8, gray: true });
+      layout.gap(12);
+    }
+    layout.text(conversation.title, { font: 'bold', size: 18 });
+    layout.text(`${pluralize(conversation.messages.length, 'message')} · started ${formatTimestamp(conversation.createdAt)}`, { size: 9, gray: true });
+    conversation.messages.forEach(message => layoutMessage(layout, message));
+    return layout.lines;
+  });
+  const streams = paginate(pages.length > 0 ? pages : [[]]);
+
+  // Objects: 1 catalog, 2 page tree, 3-5 fonts, 6 info, then a page and its content stream per page
+  const objects: string[] = [];
+  const pageIds = streams.map((_, index) => 7 + index * 2);
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+  Object.values(FONT_RESOURCES).forEach(({ baseFont }, index) => {
+    objects[3 + index] = `<< /Type /Font /Subtype /Type1 /BaseFont /${baseFont} /Encoding /WinAnsiEncoding >>`;
+  });
+  const title = conversations.length === 1 ? conversations[0].title : 'ChatQora conversations';
+  objects[6] = `<< /Title (${escapePdfString(toWinAnsi(title))}) /Producer (ChatQora) /CreationDate (${pdfDate(exportedAt)}) >>`;
+  const fonts = Object.values(FONT_RESOURCES).map(({ key }, index) => `/${key} ${3 + index} 0 R`).join(' ');
+  streams.forEach((stream, index) => {
+    const pageId = pageIds[index];
+    objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << ${fonts} >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] = `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`;
+  });
+
+  // Every character is one byte, so string offsets are byte offsets
+  let pdf = '%PDF-1.4\n%âãÏÓ\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = pdf.length;
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    pdf += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 6 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Uint8Array.from(pdf, char => char.charCodeAt(0));
+}
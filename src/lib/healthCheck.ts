@@ -2,8 +2,10 @@
  * Shared health check service to prevent multiple simultaneous calls
  */
 
+import type { SystemHealth } from '@/types/chat';
+
 interface HealthStatus {
-  health: 'good' | 'degraded' | 'critical';
+  health: SystemHealth | null;
   timestamp: number;
 }
 
@@ -21,25 +23,26 @@ class HealthCheckService {
   }
 
   private isCacheValid(): boolean {
-    return this.cache !== null && 
+    return this.cache !== null &&
            (Date.now() - this.cache.timestamp) < this.CACHE_DURATION;
   }
 
-  async getHealth(): Promise<'good' | 'degraded' | 'critical'> {
+  /** Latest probe results, or null if the server couldn't be reached; `probe` waits for a fresh round */
+  async getHealth(probe = false): Promise<SystemHealth | null> {
     // Return cached result if valid
-    if (this.isCacheValid()) {
+    if (!probe && this.isCacheValid()) {
       return this.cache!.health;
     }
 
     // If there's already a pending request, wait for it
     if (this.pendingRequest) {
       const result = await this.pendingRequest;
-      return result.health;
+      if (!probe) return result.health;
     }
 
     // Make new request
-    this.pendingRequest = this.fetchHealth();
-    
+    this.pendingRequest = this.fetchHealth(probe);
+
     try {
       const result = await this.pendingRequest;
       this.cache = result;
@@ -49,9 +52,12 @@ class HealthCheckService {
     }
   }
 
-  private async fetchHealth(): Promise<HealthStatus> {
+  private async fetchHealth(probe: boolean): Promise<HealthStatus> {
     try {
-      const response = await fetch('/api/chat?action=health');
+      const response = await fetch(`/api/chat?action=health${probe ? '&probe=true' : ''}`);
+      if (!response.ok) {
+        throw new Error(`Health check returned ${response.status}`);
+      }
       const data = await response.json();
       return {
         health: data.health,
@@ -60,11 +66,11 @@ class HealthCheckService {
     } catch (error) {
       console.error('Failed to fetch system health:', error);
       return {
-        health: 'critical',
+        health: null,
         timestamp: Date.now()
       };
     }
   }
 }
 
-export const healthCheckService = HealthCheckService.getInstance();
\ No newline at end of file
+export const healthCheckService = HealthCheckService.getInstance();
@@ -0,0 +1,228 @@
+/**
+ * Health Prober
+ * Sends every enabled model a tiny prompt each HEALTH_PROBE_INTERVAL_MS (default 5 minutes) and checks
+ * the web search provider, keeping the last PROBE_HISTORY results of each. Status, latency, error rate
+ * and uptime in SystemHealth come from those probes, each model's circuit breaker and recent fusion
+ * requests. Probes go through the resilient provider, so a dead model's failed probes open its circuit
+ * and a probe can be the trial call that closes it again. Each round's model calls are recorded as
+ * usage of the "system:health-probe" subject.
+ *
+ * Probing starts with the first health request; HEALTH_PROBE_ENABLED=false turns it off, leaving
+ * model status to the circuit breakers. Asking for a fresh round gets the last one instead while it
+ * is younger than the interval, so health requests can't be used to spend upstream quota.
+ */
+
+import { getProvider } from '@/lib/providers';
+import { CircuitOpenError, circuitBreakers } from '@/lib/circuitBreaker';
+import { modelRegistry } from '@/lib/modelRegistry';
+import { requestRegistry } from '@/lib/requestRegistry';
+import { searchCache } from '@/lib/responseCache';
+import { FUSION_STRATEGIES } from '@/lib/FusionEngine';
+import { UsageLedger } from '@/lib/usage';
+import { userUsageStore } from '@/lib/userUsage';
+import { probeSearchProvider } from '@/utils/webSearch';
+import type { FusionHealth, ModelHealth, OverallHealth, SearchHealth, SystemHealth } from '@/types/chat';
+
+export type { SystemHealth };
+
+export interface ProbeResult {
+  ok: boolean;
+  latencyMs: number;
+  at: number;
+  error?: string;
+}
+
+interface FusionRun {
+  success: boolean;
+  processingTime: number;
+}
+
+const PROBE_HISTORY = 20;
+const FUSION_HISTORY = 50;
+const PROBE_TIMEOUT_MS = 15_000;
+const SLOW_PROBE_MS = 10_000;
+const DEGRADED_ERROR_RATE = 0.2;
+const PROBE_PROMPT = 'Health check: reply with the single word OK.';
+const PROBE_USAGE_SUBJECT = 'system:health-probe';
+
+// Strategies that need just one working model; the rest compare several answers
+const SINGLE_MODEL_STRATEGIES = ['auto', 'fast', 'iterative'];
+
+const STATUS_SCORE: Record<ModelHealth['status'], number> = { online: 100, degraded: 50, offline: 0 };
+
+const average = (values: number[]): number =>
+  values.length ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : 0;
+
+const pushBounded = <T>(list: T[], item: T, max: number): void => {
+  list.push(item);
+  if (list.length > max) list.shift();
+};
+
+export class HealthProber {
+  private modelProbes = new Map<string, ProbeResult[]>();
+  private searchProbes: Array<ProbeResult & { provider: string }> = [];
+  private fusionRuns: FusionRun[] = [];
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private probing: Promise<void> | null = null;
+  private lastRoundAt = 0;
+
+  constructor(
+    private intervalMs: number = Number(process.env.HEALTH_PROBE_INTERVAL_MS) || 5 * 60_000,
+    private enabled: boolean = process.env.HEALTH_PROBE_ENABLED !== 'false'
+  ) {}
+
+  /** Starts background probing with an immediate first round; later calls do nothing */
+  start(): void {
+    if (!this.enabled || this.timer) return;
+    this.timer = setInterval(() => void this.probeAll(), this.intervalMs);
+    // Probing alone shouldn't keep the process alive
+    this.timer.unref?.();
+    void this.probeAll();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /** Probes every enabled model and the search provider; callers during a round share it */
+  probeAll(): Promise<void> {
+    if (!this.enabled) return Promise.resolve();
+    if (this.probing) return this.probing;
+
+    const ledger = new UsageLedger();
+    this.probing = Promise.all([
+      ...modelRegistry.getEnabled().map(model => this.probeModel(model.id, ledger)),
+      this.probeSearch()
+    ])
+      .then(() => {
+        const usage = ledger.getSummary();
+        if (usage.calls > 0) userUsageStore.record(PROBE_USAGE_SUBJECT, usage);
+      })
+      .finally(() => {
+        this.probing = null;
+        this.lastRoundAt = Date.now();
+      });
+    return this.probing;
+  }
+
+  /** Waits for a round in progress, or starts one if the last finished longer than the interval ago */
+  refresh(): Promise<void> {
+    if (this.probing || Date.now() - this.lastRoundAt >= this.intervalMs) return this.probeAll();
+    return Promise.resolve();
+  }
+
+  /** Called by the chat route for every fusion request that finished without being cancelled */
+  recordFusion(run: FusionRun): void {
+    pushBounded(this.fusionRuns, run, FUSION_HISTORY);
+  }
+
+  getHealth(): SystemHealth {
+    const models = Object.fromEntries(
+      modelRegistry.getEnabled().map(model => [model.id, this.getModelHealth(model.id, model.name)])
+    );
+    return {
+      models,
+      fusion: this.getFusionHealth(models),
+      search: this.getSearchHealth(),
+      overall: this.getOverallHealth(models)
+    };
+  }
+
+  private async probeModel(modelId: string, ledger: UsageLedger): Promise<void> {
+    const start = Date.now();
+    const request = {
+      model: modelId,
+      messages: [{ role: 'user' as const, content: PROBE_PROMPT }],
+      temperature: 0,
+      maxTokens: 5,
+      signal: AbortSignal.timeout(PROBE_TIMEOUT_MS),
+      title: 'AI Chat Hub - Health Check'
+    };
+    try {
+      ledger.record('probe', request, await getProvider().complete(request));
+      this.recordProbe(modelId, { ok: true, latencyMs: Date.now() - start, at: Date.now() });
+    } catch (error) {
+      // The model wasn't called; its open circuit already marks it offline
+      if (error instanceof CircuitOpenError) return;
+      this.recordProbe(modelId, { ok: false, latencyMs: Date.now() - start, at: Date.now(), error: (error as Error).message });
+    }
+  }
+
+  private async probeSearch(): Promise<void> {
+    const result = await probeSearchProvider();
+    pushBounded(this.searchProbes, { ...result, ok: !result.error, at: Date.now() }, PROBE_HISTORY);
+  }
+
+  private recordProbe(modelId: string, probe: ProbeResult): void {
+    const probes = this.modelProbes.get(modelId) ?? [];
+    pushBounded(probes, probe, PROBE_HISTORY);
+    this.modelProbes.set(modelId, probes);
+    if (!probe.ok) console.warn(`⚠️ Health probe failed for ${modelId}:`, probe.error);
+  }
+
+  private getModelHealth(modelId: string, name: string): ModelHealth {
+    const probes = this.modelProbes.get(modelId) ?? [];
+    const failures = probes.filter(probe => !probe.ok).length;
+    const errorRate = probes.length ? failures / probes.length : 0;
+    const responseTime = average(probes.filter(probe => probe.ok).map(probe => probe.latencyMs));
+    const circuit = circuitBreakers.getState(modelId);
+    const last = probes.at(-1);
+    const previous = probes.at(-2);
+
+    let status: ModelHealth['status'] = 'online';
+    if (circuit === 'open' || (last && !last.ok && previous && !previous.ok)) {
+      status = 'offline';
+    } else if (circuit === 'half_open' || (last && !last.ok) || errorRate > DEGRADED_ERROR_RATE || responseTime > SLOW_PROBE_MS) {
+      status = 'degraded';
+    }
+
+    return {
+      name,
+      status,
+      responseTime,
+      errorRate: Math.round(errorRate * 100) / 100,
+      uptime: Math.round((1 - errorRate) * 100),
+      lastCheck: last ? new Date(last.at).toISOString() : undefined,
+      lastError: [...probes].reverse().find(probe => !probe.ok)?.error,
+      circuit
+    };
+  }
+
+  private getFusionHealth(models: Record<string, ModelHealth>): FusionHealth {
+    const working = modelRegistry.getFusionModels().filter(model => models[model.id]?.status !== 'offline').length;
+    const successes = this.fusionRuns.filter(run => run.success);
+
+    return {
+      strategiesAvailable: working >= 2 ? [...FUSION_STRATEGIES] : working === 1 ? SINGLE_MODEL_STRATEGIES : [],
+      averageProcessingTime: average(successes.map(run => run.processingTime)),
+      successRate: this.fusionRuns.length ? Math.round((successes.length / this.fusionRuns.length) * 100) / 100 : 1
+    };
+  }
+
+  // Search falls back to generated sources when the provider is down, so it doesn't count toward the overall score
+  private getSearchHealth(): SearchHealth {
+    const last = this.searchProbes.at(-1);
+    return {
+      providersOnline: last?.ok ? [last.provider] : [],
+      averageQueryTime: average(this.searchProbes.filter(probe => probe.ok).map(probe => probe.latencyMs)),
+      cacheHitRate: searchCache.getStats().hitRate,
+      lastCheck: last ? new Date(last.at).toISOString() : undefined
+    };
+  }
+
+  private getOverallHealth(models: Record<string, ModelHealth>): OverallHealth {
+    const statuses = Object.values(models).map(model => model.status);
+    const score = average(statuses.map(status => STATUS_SCORE[status]));
+    const probes = [...this.modelProbes.values()].flat();
+
+    return {
+      status: statuses.length === 0 ? 'critical' : score === 100 ? 'optimal' : score >= 75 ? 'good' : score >= 40 ? 'degraded' : 'critical',
+      score,
+      uptime: probes.length ? Math.round((probes.filter(probe => probe.ok).length / probes.length) * 100) : 100,
+      activeConnections: requestRegistry.size
+    };
+  }
+}
+
+export const healthProber = new HealthProber();
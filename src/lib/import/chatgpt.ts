@@ -0,0 +1,99 @@
+/**
+ * ChatGPT import
+ * Reads conversations.json from a ChatGPT data export. Each conversation there is a tree of
+ * messages (every edit or regeneration starts a branch); it is flattened to the branch that was
+ * open last, by walking up from current_node. Hidden system prompts, tool calls and their output
+ * are left out, and images are replaced by a placeholder.
+ */
+
+import type { Conversation } from '@/types/chat';
+import { ImportedMessage, isObject, toConversation, toConversationId, toDate, toTitle } from './common';
+
+interface ChatGPTNode {
+  id?: string;
+  parent?: string | null;
+  children?: string[];
+  message?: {
+    id?: string;
+    author?: { role?: string };
+    create_time?: number | null;
+    recipient?: string;
+    content?: { content_type?: string; parts?: unknown[]; text?: string };
+    metadata?: { is_visually_hidden_from_conversation?: boolean; model_slug?: string };
+  } | null;
+}
+
+interface ChatGPTConversation {
+  id?: string;
+  conversation_id?: string;
+  title?: string;
+  create_time?: number;
+  update_time?: number;
+  current_node?: string;
+  mapping: Record<string, ChatGPTNode>;
+}
+
+export const isChatGPTConversation = (value: unknown): value is ChatGPTConversation =>
+  isObject(value) && isObject(value.mapping);
+
+/** Node ids from the root down to current_node, or to the newest leaf when it is missing */
+function getActiveBranch(conversation: ChatGPTConversation): string[] {
+  const { mapping } = conversation;
+  let leaf = conversation.current_node && mapping[conversation.current_node] ? conversation.current_node : undefined;
+
+  if (!leaf) {
+    let node = Object.values(mapping).find(candidate => !candidate.parent || !mapping[candidate.parent]);
+    while (node?.children?.length) node = mapping[node.children[node.children.length - 1]];
+    leaf = node?.id;
+  }
+
+  const branch: string[] = [];
+  const seen = new Set<string>();
+  for (let id = leaf; id && mapping[id] && !seen.has(id); id = mapping[id].parent ?? undefined) {
+    seen.add(id);
+    branch.unshift(id);
+  }
+  return branch;
+}
+
+function getText(content: NonNullable<NonNullable<ChatGPTNode['message']>['content']>): string {
+  if (content.content_type !== 'text' && content.content_type !== 'multimodal_text') return '';
+  return (content.parts ?? [])
+    .map(part => (typeof part === 'string' ? part : isObject(part) && part.content_type === 'image_asset_pointer' ? '[Image]' : ''))
+    .filter(Boolean)
+    .join('\n\n')
+    .trim();
+}
+
+function toMessage(node: ChatGPTNode, nodeId: string): ImportedMessage | undefined {
+  const message = node.message;
+  const role = message?.author?.role;
+  if (!message?.content || (role !== 'user' && role !== 'assistant' && role !== 'system')) return undefined;
+  if (message.metadata?.is_visually_hidden_from_conversation || (message.recipient && message.recipient !== 'all')) return undefined;
+
+  const content = getText(message.content);
+  if (!content) return undefined;
+
+  const model = role === 'assistant' ? message.metadata?.model_slug : undefined;
+  return {
+    id: message.id ?? nodeId,
+    role,
+    content,
+    timestamp: toDate(message.create_time),
+    ...(model && { model })
+  };
+}
+
+export function fromChatGPT(conversation: ChatGPTConversation, index: number): Conversation {
+  const messages = getActiveBranch(conversation)
+    .map(id => toMessage(conversation.mapping[id], id))
+    .filter((message): message is ImportedMessage => !!message);
+
+  return toConversation(
+    toConversationId('chatgpt', conversation.conversation_id ?? conversation.id, index),
+    toTitle(conversation.title),
+    messages,
+    toDate(conversation.create_time),
+    toDate(conversation.update_time)
+  );
+}
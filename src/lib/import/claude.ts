@@ -0,0 +1,76 @@
+/**
+ * Claude import
+ * Reads conversations.json from a Claude data export: conversations with a chat_messages list of
+ * human and assistant turns. Newer exports link each message to its parent, so an edited or retried
+ * thread is flattened to the branch ending in the newest message. Text blocks are kept; tool use
+ * and the content of attached files are not.
+ */
+
+import type { Conversation } from '@/types/chat';
+import { ImportedMessage, isObject, toConversation, toConversationId, toDate, toTitle } from './common';
+
+interface ClaudeMessage {
+  uuid?: string;
+  parent_message_uuid?: string;
+  sender?: string;
+  text?: string;
+  content?: Array<{ type?: string; text?: string }>;
+  created_at?: string;
+}
+
+interface ClaudeConversation {
+  uuid?: string;
+  name?: string;
+  model?: string;
+  created_at?: string;
+  updated_at?: string;
+  chat_messages: ClaudeMessage[];
+}
+
+export const isClaudeConversation = (value: unknown): value is ClaudeConversation =>
+  isObject(value) && Array.isArray(value.chat_messages);
+
+function getActiveBranch(messages: ClaudeMessage[]): ClaudeMessage[] {
+  const byId = new Map(messages.filter(message => message.uuid).map(message => [message.uuid!, message]));
+  if (!messages.some(message => message.parent_message_uuid && byId.has(message.parent_message_uuid))) return messages;
+
+  // ISO timestamps sort as strings
+  const newest = messages.reduce((latest, message) => ((message.created_at ?? '') > (latest.created_at ?? '') ? message : latest));
+  const branch: ClaudeMessage[] = [];
+  const seen = new Set<ClaudeMessage>();
+  for (let message: ClaudeMessage | undefined = newest; message && !seen.has(message); message = byId.get(message.parent_message_uuid ?? '')) {
+    seen.add(message);
+    branch.unshift(message);
+  }
+  return branch;
+}
+
+function getText(message: ClaudeMessage): string {
+  const blocks = (message.content ?? []).filter(block => block.type === 'text' && block.text).map(block => block.text);
+  return (blocks.length > 0 ? blocks.join('\n\n') : message.text ?? '').trim();
+}
+
+export function fromClaude(conversation: ClaudeConversation, index: number): Conversation {
+  const messages = getActiveBranch(conversation.chat_messages.filter(isObject) as ClaudeMessage[])
+    .map((message, position): ImportedMessage | undefined => {
+      const role = message.sender === 'human' ? 'user' : message.sender === 'assistant' ? 'assistant' : undefined;
+      const content = getText(message);
+      if (!role || !content) return undefined;
+      return {
+        id: message.uuid ?? `message-${position}`,
+        role,
+        content,
+        timestamp: toDate(message.created_at),
+        ...(role === 'assistant' && conversation.model && { model: conversation.model })
+      };
+    })
+    .filter((message): message is ImportedMessage => !!message);
+
+  return toConversation(
+    toConversationId('claude', conversation.uuid, index),
+    toTitle(conversation.name),
+    messages,
+    toDate(conversation.created_at),
+    toDate(conversation.updated_at)
+  );
+}
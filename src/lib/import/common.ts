@@ -0,0 +1,53 @@
+/**
+ * Helpers shared by the importers
+ */
+
+import type { Conversation, Message } from '@/types/chat';
+
+// The limits of /api/conversations, so imported chats sync like native ones
+const MAX_TITLE_LENGTH = 200;
+const MAX_ID_LENGTH = 100;
+export const MAX_MESSAGES = 5000;
+
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportError';
+  }
+}
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** A conversation id the server accepts, prefixed by where it came from so a re-import finds it */
+export const toConversationId = (prefix: string, id: unknown, fallback: number): string =>
+  `${prefix}-${String(id ?? fallback).replace(/[^\w-]/g, '')}`.slice(0, MAX_ID_LENGTH);
+
+export const toTitle = (title: unknown): string =>
+  (typeof title === 'string' && title.trim() ? title.trim() : 'Imported chat').slice(0, MAX_TITLE_LENGTH);
+
+/** Unix seconds (ChatGPT) or ISO strings (Claude, ChatQora) as a Date; undefined when missing or invalid */
+export function toDate(value: unknown): Date | undefined {
+  const date = typeof value === 'number' ? new Date(value * 1000) : typeof value === 'string' ? new Date(value) : undefined;
+  return date && !isNaN(date.getTime()) ? date : undefined;
+}
+
+/** A message as read from an export, which may not say when it was sent */
+export type ImportedMessage = Omit<Message, 'timestamp'> & { timestamp?: Date };
+
+/** Fills in the dates the export left out from the conversation's or its neighbours' */
+export function toConversation(id: string, title: string, messages: ImportedMessage[], createdAt?: Date, updatedAt?: Date): Conversation {
+  const first = createdAt ?? messages.find(message => message.timestamp)?.timestamp ?? new Date();
+  let previous = first;
+  const dated = messages.map(message => {
+    previous = message.timestamp ?? previous;
+    return { ...message, timestamp: previous };
+  });
+  return {
+    id,
+    title,
+    messages: dated,
+    createdAt: first.toISOString(),
+    updatedAt: (updatedAt ?? previous).toISOString()
+  };
+}
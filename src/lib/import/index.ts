@@ -0,0 +1,75 @@
+/**
+ * Conversation Import
+ * Turns another chat app's export into ChatQora conversations: ChatGPT's and Claude's
+ * conversations.json, and ChatQora's own JSON export. The format is recognised from the content,
+ * not the file name. Imported ids are derived from the original ones, so importing the same file
+ * again finds the chats it already added.
+ */
+
+import type { Conversation, Message } from '@/types/chat';
+import type { ConversationExport } from '@/lib/export';
+import { fromChatGPT, isChatGPTConversation } from './chatgpt';
+import { fromClaude, isClaudeConversation } from './claude';
+import { ImportError, isObject, MAX_MESSAGES, toConversation, toConversationId, toDate, toTitle } from './common';
+
+export { ImportError };
+
+export type ImportSource = 'chatgpt' | 'claude' | 'chatqora';
+
+export const IMPORT_SOURCES: Record<ImportSource, string> = {
+  chatgpt: 'ChatGPT',
+  claude: 'Claude',
+  chatqora: 'ChatQora'
+};
+
+export interface ImportResult {
+  source: ImportSource;
+  conversations: Conversation[];
+  /** Conversations with nothing left to show once hidden and tool messages are dropped, or too long to sync */
+  skipped: number;
+}
+
+const MESSAGE_ROLES = ['user', 'assistant', 'system'];
+const CONVERSATION_ID = /^[\w-]{1,100}$/;
+
+const isChatQoraExport = (value: unknown): value is ConversationExport =>
+  isObject(value) && value.format === 'chatqora.conversations' && Array.isArray(value.conversations);
+
+// Our own export is already in shape; only dates need reviving and malformed messages dropping
+function fromChatQora(conversation: unknown, index: number): Conversation | undefined {
+  if (!isObject(conversation) || !Array.isArray(conversation.messages)) return undefined;
+  const messages = conversation.messages
+    .filter((message): message is Message => isObject(message) && typeof message.id === 'string'
+      && MESSAGE_ROLES.includes(message.role as string) && typeof message.content === 'string')
+    .map(message => ({ ...message, timestamp: toDate(message.timestamp) }));
+
+  const id = typeof conversation.id === 'string' && CONVERSATION_ID.test(conversation.id)
+    ? conversation.id
+    : toConversationId('chatqora', undefined, index);
+  const imported = toConversation(id, toTitle(conversation.title), messages, toDate(conversation.createdAt), toDate(conversation.updatedAt));
+  const { activeLeafId } = conversation;
+  return typeof activeLeafId === 'string' && messages.some(message => message.id === activeLeafId) ? { ...imported, activeLeafId } : imported;
+}
+
+function detect(data: unknown): { source: ImportSource; conversations: unknown[] } {
+  if (isChatQoraExport(data)) return { source: 'chatqora', conversations: data.conversations };
+
+  const conversations = Array.isArray(data) ? data : [data];
+  if (conversations.length > 0 && conversations.every(isChatGPTConversation)) return { source: 'chatgpt', conversations };
+  if (conversations.length > 0 && conversations.every(isClaudeConversation)) return { source: 'claude', conversations };
+
+  throw new ImportError('Unrecognized file. Expected conversations.json from a ChatGPT or Claude export, or a ChatQora JSON export.');
+}
+
+/** Parsed export file to conversations; throws ImportError when the format isn't recognised */
+export function importConversations(data: unknown): ImportResult {
+  const { source, conversations } = detect(data);
+  const imported = conversations.map((conversation, index) => {
+    if (source === 'chatgpt' && isChatGPTConversation(conversation)) return fromChatGPT(conversation, index);
+    if (source === 'claude' && isClaudeConversation(conversation)) return fromClaude(conversation, index);
+    return source === 'chatqora' ? fromChatQora(conversation, index) : undefined;
+  });
+
+  const usable = imported.filter((conversation): conversation is Conversation => !!conversation && conversation.messages.length > 0 && conversation.messages.length <= MAX_MESSAGES);
+  return { source, conversations: usable, skipped: conversations.length - usable.length };
+}
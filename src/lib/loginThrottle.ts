@@ -0,0 +1,59 @@
+/**
+ * Login Throttle
+ * Slows down password guessing. Failed sign-ins are counted per account, so one account's password
+ * can't be guessed quickly, and per client IP, so one client can't work through many accounts.
+ * Successful sign-ins don't count.
+ *
+ * Uses the rate limiter's token buckets and backend (RATE_LIMIT_BACKEND); RATE_LIMIT_ENABLED=false
+ * turns it off too. Without TRUST_PROXY=true anonymous clients share one IP quota, as for chat.
+ */
+
+import { RateLimiter, createRateLimitBackend, getRateLimitSubject, type RateLimitBackend, type RateLimitRule } from '@/lib/rateLimit';
+
+export const LOGIN_ACCOUNT_LIMITS: RateLimitRule[] = [
+  { dimension: 'requests', window: 'minute', limit: 5 },
+  { dimension: 'requests', window: 'day', limit: 50 }
+];
+
+export const LOGIN_CLIENT_LIMITS: RateLimitRule[] = [
+  { dimension: 'requests', window: 'minute', limit: 20 },
+  { dimension: 'requests', window: 'day', limit: 500 }
+];
+
+export interface LoginAttempt {
+  /** The account's id, or the lowercased login when no account matches */
+  account: string;
+  headers: Headers;
+}
+
+export class LoginThrottle {
+  private accounts: RateLimiter;
+  private clients: RateLimiter;
+
+  constructor(backend: RateLimitBackend = createRateLimitBackend()) {
+    this.accounts = new RateLimiter(backend, LOGIN_ACCOUNT_LIMITS);
+    this.clients = new RateLimiter(backend, LOGIN_CLIENT_LIMITS);
+  }
+
+  /** Seconds to wait before this sign-in may be tried, or 0 when it may be tried now */
+  getRetryAfter(attempt: LoginAttempt): number {
+    return Math.max(0, ...this.getBuckets(attempt).map(([limiter, subject]) => {
+      const decision = limiter.check(subject, false);
+      return decision.allowed ? 0 : decision.retryAfterSeconds ?? 1;
+    }));
+  }
+
+  recordFailure(attempt: LoginAttempt): void {
+    this.getBuckets(attempt).forEach(([limiter, subject]) => limiter.charge(subject));
+  }
+
+  // Prefixed so they never share buckets with the chat limits in the same backend
+  private getBuckets({ account, headers }: LoginAttempt): [RateLimiter, string][] {
+    return [
+      [this.accounts, `login:account:${account}`],
+      [this.clients, `login:${getRateLimitSubject(headers)}`]
+    ];
+  }
+}
+
+export const loginThrottle = new LoginThrottle();
@@ -0,0 +1,61 @@
+/**
+ * Message Tree
+ * A conversation's messages are kept in the order they were written, each pointing at the message
+ * it follows. Editing a question or regenerating an answer adds a sibling instead of replacing what
+ * came after, so every version stays. The branch on show (and sent as context) runs from the first
+ * message to the active leaf: the conversation's activeLeafId when set, otherwise the newest message.
+ * Messages written before branching have no parentId and follow the one before them.
+ */
+
+import type { Message } from '@/types/chat';
+
+export interface MessageTree {
+  byId: Map<string, Message>;
+  parents: Map<string, string | null>;
+  /** In the order they were written; null holds the first messages of the conversation */
+  children: Map<string | null, Message[]>;
+}
+
+export function buildMessageTree(messages: Message[]): MessageTree {
+  const tree: MessageTree = { byId: new Map(), parents: new Map(), children: new Map() };
+  messages.forEach((message, index) => {
+    const parentId = message.parentId !== undefined ? message.parentId : messages[index - 1]?.id ?? null;
+    // A parent that isn't in the conversation (or comes later) makes this a first message
+    const parent = parentId !== null && tree.byId.has(parentId) ? parentId : null;
+    tree.byId.set(message.id, message);
+    tree.parents.set(message.id, parent);
+    tree.children.set(parent, [...(tree.children.get(parent) ?? []), message]);
+  });
+  return tree;
+}
+
+/** The messages from the start of the conversation down to (and including) messageId */
+export function getBranchTo(tree: MessageTree, messageId: string): Message[] {
+  const branch: Message[] = [];
+  for (let id: string | null | undefined = messageId; id && tree.byId.has(id); id = tree.parents.get(id)) {
+    branch.unshift(tree.byId.get(id)!);
+  }
+  return branch;
+}
+
+/** The newest message reached by following the latest reply down from messageId */
+export function getLatestLeaf(tree: MessageTree, messageId: string): string {
+  let id = messageId;
+  for (let replies = tree.children.get(id); replies?.length; replies = tree.children.get(id)) {
+    id = replies[replies.length - 1].id;
+  }
+  return id;
+}
+
+/** The versions of a message: itself and the others written in reply to the same message */
+export function getSiblings(tree: MessageTree, messageId: string): Message[] {
+  const parent = tree.parents.get(messageId);
+  return parent === undefined ? [] : tree.children.get(parent) ?? [];
+}
+
+export function getActiveBranch(messages: Message[], activeLeafId?: string): Message[] {
+  if (messages.length === 0) return [];
+  const tree = buildMessageTree(messages);
+  const leaf = activeLeafId && tree.byId.has(activeLeafId) ? activeLeafId : messages[messages.length - 1].id;
+  return getBranchTo(tree, leaf);
+}
@@ -0,0 +1,267 @@
+/**
+ * Model Registry
+ * Single source of truth for every model the app can call. Loaded from src/config/models.json;
+ * FusionEngine, SmartChatAgent, chat-legacy routing, health and the UI all read from here.
+ */
+
+import defaultConfig from '@/config/models.json';
+
+export type ModelRole =
+  | 'primary'          // Fusion: fast, direct answer
+  | 'creative'         // Fusion: alternative perspectives
+  | 'analytical'       // Fusion: structured, detailed answer
+  | 'synthesis'        // Merges fusion responses into the final answer
+  | 'recommendations'  // Generates follow-up suggestions
+  | 'general'          // Default single-model chat / fallback
+  | 'reasoning'        // Complex and technical single-model chat
+  | 'vision'           // Image understanding
+  | 'routing';         // Candidate for SmartChatAgent routing
+
+export type FusionRole = Extract<ModelRole, 'primary' | 'creative' | 'analytical'>;
+
+export type ModelModality = 'text' | 'image';
+
+export interface ModelPricing {
+  prompt: number;      // USD per 1M prompt tokens
+  completion: number;  // USD per 1M completion tokens
+}
+
+export interface ModelPerformance {
+  priority: number;        // Lower runs first
+  avgResponseTime: number; // ms, used as the initial estimate before stats exist
+  reliability: number;     // 0-1
+}
+
+export interface ModelTraits {
+  speed: 'fast' | 'medium' | 'slow';
+  reasoning: 'basic' | 'advanced' | 'expert';
+  costEfficiency: 'low' | 'medium' | 'high';
+  optimalTokenRange: [number, number];
+}
+
+export interface ModelDefinition {
+  id: string;
+  name: string;
+  shortName: string;
+  codename?: string;
+  description: string;
+  icon: string;
+  color: string;
+  enabled: boolean;
+  roles: ModelRole[];
+  specialties: string[];
+  strengths: string[];
+  weaknesses: string[];
+  modalities: ModelModality[];
+  contextLength: number;
+  pricing: ModelPricing;
+  performance: ModelPerformance;
+  traits: ModelTraits;
+}
+
+export interface ModelRegistryConfig {
+  version: number;
+  models: ModelDefinition[];
+}
+
+export class ModelRegistryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ModelRegistryError';
+  }
+}
+
+const MODEL_ROLES: ModelRole[] = [
+  'primary', 'creative', 'analytical', 'synthesis', 'recommendations', 'general', 'reasoning', 'vision', 'routing'
+];
+const FUSION_ROLES: FusionRole[] = ['primary', 'creative', 'analytical'];
+const MODALITIES: ModelModality[] = ['text', 'image'];
+const SPEEDS = ['fast', 'medium', 'slow'];
+const REASONING_LEVELS = ['basic', 'advanced', 'expert'];
+const COST_LEVELS = ['low', 'medium', 'high'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+function validateModel(raw: unknown, index: number): ModelDefinition {
+  const where = `models[${index}]`;
+  if (!isRecord(raw)) throw new ModelRegistryError(`${where} must be an object`);
+
+  const requireString = (key: string): string => {
+    const value = raw[key];
+    if (typeof value !== 'string' || !value.trim()) {
+      throw new ModelRegistryError(`${where}.${key} must be a non-empty string`);
+    }
+    return value;
+  };
+  const requireNumber = (source: Record<string, unknown>, key: string, path: string): number => {
+    const value = source[key];
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      throw new ModelRegistryError(`${where}.${path} must be a non-negative number`);
+    }
+    return value;
+  };
+  const requireObject = (key: string): Record<string, unknown> => {
+    const value = raw[key];
+    if (!isRecord(value)) throw new ModelRegistryError(`${where}.${key} must be an object`);
+    return value;
+  };
+  const requireOneOf = <T extends string>(source: Record<string, unknown>, key: string, allowed: readonly string[]): T => {
+    const value = source[key];
+    if (typeof value !== 'string' || !allowed.includes(value)) {
+      throw new ModelRegistryError(`${where}.traits.${key} must be one of ${allowed.join(', ')}`);
+    }
+    return value as T;
+  };
+
+  const id = requireString('id');
+  const name = requireString('name');
+
+  const roles = raw.roles;
+  if (!isStringArray(roles) || roles.some(role => !MODEL_ROLES.includes(role as ModelRole))) {
+    throw new ModelRegistryError(`${where}.roles must only contain ${MODEL_ROLES.join(', ')}`);
+  }
+
+  const modalities = raw.modalities ?? ['text'];
+  if (!isStringArray(modalities) || modalities.some(m => !MODALITIES.includes(m as ModelModality))) {
+    throw new ModelRegistryError(`${where}.modalities must only contain ${MODALITIES.join(', ')}`);
+  }
+
+  const pricing = requireObject('pricing');
+  const performance = requireObject('performance');
+  const traits = requireObject('traits');
+  const tokenRange = traits.optimalTokenRange;
+  if (!Array.isArray(tokenRange) || tokenRange.length !== 2 || !tokenRange.every(n => typeof n === 'number')) {
+    throw new ModelRegistryError(`${where}.traits.optimalTokenRange must be [min, max]`);
+  }
+
+  const reliability = requireNumber(performance, 'reliability', 'performance.reliability');
+  if (reliability > 1) {
+    throw new ModelRegistryError(`${where}.performance.reliability must be between 0 and 1`);
+  }
+
+  return {
+    id,
+    name,
+    shortName: typeof raw.shortName === 'string' ? raw.shortName : name,
+    codename: typeof raw.codename === 'string' ? raw.codename : undefined,
+    description: typeof raw.description === 'string' ? raw.description : '',
+    icon: typeof raw.icon === 'string' ? raw.icon : '🤖',
+    color: typeof raw.color === 'string' ? raw.color : 'bg-gray-500',
+    enabled: raw.enabled !== false,
+    roles: roles as ModelRole[],
+    specialties: isStringArray(raw.specialties) ? raw.specialties : [],
+    strengths: isStringArray(raw.strengths) ? raw.strengths : [],
+    weaknesses: isStringArray(raw.weaknesses) ? raw.weaknesses : [],
+    modalities: modalities as ModelModality[],
+    contextLength: requireNumber(raw, 'contextLength', 'contextLength'),
+    pricing: {
+      prompt: requireNumber(pricing, 'prompt', 'pricing.prompt'),
+      completion: requireNumber(pricing, 'completion', 'pricing.completion')
+    },
+    performance: {
+      priority: requireNumber(performance, 'priority', 'performance.priority'),
+      avgResponseTime: requireNumber(performance, 'avgResponseTime', 'performance.avgResponseTime'),
+      reliability
+    },
+    traits: {
+      speed: requireOneOf(traits, 'speed', SPEEDS),
+      reasoning: requireOneOf(traits, 'reasoning', REASONING_LEVELS),
+      costEfficiency: requireOneOf(traits, 'costEfficiency', COST_LEVELS),
+      optimalTokenRange: [tokenRange[0], tokenRange[1]]
+    }
+  };
+}
+
+/**
+ * Validates a raw registry config (parsed JSON) and returns a typed copy.
+ * Throws ModelRegistryError describing the first invalid field.
+ */
+export function parseModelRegistryConfig(raw: unknown): ModelRegistryConfig {
+  if (!isRecord(raw) || !Array.isArray(raw.models)) {
+    throw new ModelRegistryError('Model registry config must have a "models" array');
+  }
+
+  const models = raw.models.map(validateModel);
+  const seen = new Set<string>();
+  models.forEach(model => {
+    if (seen.has(model.id)) throw new ModelRegistryError(`Duplicate model id "${model.id}"`);
+    seen.add(model.id);
+  });
+
+  return {
+    version: typeof raw.version === 'number' ? raw.version : 1,
+    models
+  };
+}
+
+export class ModelRegistry {
+  private models: ModelDefinition[];
+
+  constructor(config: ModelRegistryConfig) {
+    this.models = [...config.models];
+  }
+
+  /** All models, including disabled ones (for admin and health views) */
+  getAll(): ModelDefinition[] {
+    return [...this.models];
+  }
+
+  /** Enabled models only */
+  getEnabled(): ModelDefinition[] {
+    return this.models.filter(model => model.enabled);
+  }
+
+  get(id: string): ModelDefinition | undefined {
+    return this.models.find(model => model.id === id);
+  }
+
+  /** Enabled models with the given role, ordered by priority */
+  getByRole(role: ModelRole): ModelDefinition[] {
+    return this.getEnabled()
+      .filter(model => model.roles.includes(role))
+      .sort((a, b) => a.performance.priority - b.performance.priority);
+  }
+
+  /**
+   * Highest-priority enabled model for a role. Falls back to the 'general' model, then to any
+   * enabled model, so callers always get something to talk to.
+   */
+  getModelForRole(role: ModelRole): ModelDefinition {
+    const model = this.getByRole(role)[0] ?? this.getByRole('general')[0] ?? this.getEnabled()[0];
+    if (!model) throw new ModelRegistryError(`No enabled model available for role "${role}"`);
+    return model;
+  }
+
+  /** The fusion role a model plays, if it participates in fusion */
+  getFusionRole(model: ModelDefinition): FusionRole | undefined {
+    return FUSION_ROLES.find(role => model.roles.includes(role));
+  }
+
+  /** Enabled models that participate in fusion, ordered by priority */
+  getFusionModels(): ModelDefinition[] {
+    return this.getEnabled()
+      .filter(model => this.getFusionRole(model) !== undefined)
+      .sort((a, b) => a.performance.priority - b.performance.priority);
+  }
+
+  supportsModality(id: string, modality: ModelModality): boolean {
+    return this.get(id)?.modalities.includes(modality) ?? false;
+  }
+
+  /** Display name used in the UI: codename if set, otherwise the short name */
+  getDisplayName(id: string): string {
+    const model = this.get(id);
+    return model?.codename || model?.shortName || id.split('/').pop()?.split(':')[0] || id;
+  }
+
+  /** Enables or disables models at runtime without editing the config file */
+  setEnabled(id: string, enabled: boolean): void {
+    this.models = this.models.map(model => model.id === id ? { ...model, enabled } : model);
+  }
+}
+
+export const modelRegistry = new ModelRegistry(parseModelRegistryConfig(defaultConfig));
@@ -0,0 +1,297 @@
+/**
+ * Model Performance Statistics
+ * Process-wide store of per-model latency, error and throughput stats, persisted through a
+ * pluggable backend so FusionEngine's model prioritization keeps learning across requests and restarts.
+ *
+ * Backend is chosen with STATS_BACKEND: "memory" (default), "file" (DATA_DIR/model-stats.json) or "sqlite".
+ */
+
+import { modelRegistry } from '@/lib/modelRegistry';
+import { ProviderError } from '@/lib/providers';
+import { readJsonFile, writeJsonFile } from '@/lib/storage/jsonFile';
+import { getSqliteDatabase } from '@/lib/storage/sqlite';
+
+export type ModelErrorType =
+  | 'timeout'
+  | 'rate_limit'
+  | 'server_error'
+  | 'client_error'
+  | 'network'
+  | 'empty_response'
+  | 'unknown';
+
+export interface ModelCallRecord {
+  modelId: string;
+  latencyMs: number;
+  success: boolean;
+  errorType?: ModelErrorType;
+  completionTokens?: number;
+}
+
+/** Persisted per-model state */
+export interface ModelStatsState {
+  modelId: string;
+  calls: number;
+  successes: number;
+  errorsByType: Partial<Record<ModelErrorType, number>>;
+  latencySamples: number[]; // Most recent successful latencies, newest last
+  avgLatencyEma: number;
+  successRateEma: number;
+  completionTokens: number;
+  generationMs: number; // Latency of the calls that reported completion tokens
+  lastUpdate: number;
+}
+
+/** Read-only view returned by the API */
+export interface ModelStatsSnapshot {
+  modelId: string;
+  name: string;
+  calls: number;
+  successes: number;
+  errorRate: number;
+  errorsByType: Partial<Record<ModelErrorType, number>>;
+  latency: {
+    avg: number;
+    p50: number;
+    p90: number;
+    p99: number;
+    samples: number;
+  };
+  successRateEma: number;
+  tokensPerSecond: number;
+  lastUpdate: number | null;
+}
+
+export interface ModelStatsBackend {
+  readonly name: string;
+  load(): ModelStatsState[];
+  save(states: ModelStatsState[]): void;
+}
+
+const MAX_LATENCY_SAMPLES = 200;
+const PERSIST_DEBOUNCE_MS = 2000;
+
+class MemoryStatsBackend implements ModelStatsBackend {
+  readonly name = 'memory';
+  load(): ModelStatsState[] {
+    return [];
+  }
+  save(): void {
+    // Nothing to persist; the store itself is the process-wide copy
+  }
+}
+
+class FileStatsBackend implements ModelStatsBackend {
+  readonly name = 'file';
+  private fileName = 'model-stats.json';
+
+  load(): ModelStatsState[] {
+    return readJsonFile<ModelStatsState[]>(this.fileName, []);
+  }
+
+  save(states: ModelStatsState[]): void {
+    writeJsonFile(this.fileName, states);
+  }
+}
+
+class SqliteStatsBackend implements ModelStatsBackend {
+  readonly name = 'sqlite';
+
+  constructor() {
+    getSqliteDatabase().exec(`
+      CREATE TABLE IF NOT EXISTS model_stats (
+        model_id TEXT PRIMARY KEY,
+        state TEXT NOT NULL,
+        updated_at INTEGER NOT NULL
+      )
+    `);
+  }
+
+  load(): ModelStatsState[] {
+    const rows = getSqliteDatabase().prepare('SELECT state FROM model_stats').all() as Array<{ state: string }>;
+    return rows.map(row => JSON.parse(row.state) as ModelStatsState);
+  }
+
+  save(states: ModelStatsState[]): void {
+    const db = getSqliteDatabase();
+    const upsert = db.prepare(`
+      INSERT INTO model_stats (model_id, state, updated_at) VALUES (?, ?, ?)
+      ON CONFLICT(model_id) DO UPDATE SET state = excluded.state, updated_at = excluded.updated_at
+    `);
+    db.transaction((rows: ModelStatsState[]) => {
+      rows.forEach(state => upsert.run(state.modelId, JSON.stringify(state), state.lastUpdate));
+    })(states);
+  }
+}
+
+export function createStatsBackend(kind: string = process.env.STATS_BACKEND || 'memory'): ModelStatsBackend {
+  switch (kind) {
+    case 'file':
+      return new FileStatsBackend();
+    case 'sqlite':
+      return new SqliteStatsBackend();
+    default:
+      return new MemoryStatsBackend();
+  }
+}
+
+/**
+ * Maps a failed model call to an error bucket.
+ * AbortErrors are timeouts here; callers skip user cancellations before recording.
+ */
+export function classifyModelError(error: unknown): ModelErrorType {
+  const err = error as Error;
+  if (err?.name === 'AbortError' || /timeout/i.test(err?.message || '')) return 'timeout';
+
+  if (error instanceof ProviderError) {
+    if (error.status === 429) return 'rate_limit';
+    if (error.status && error.status >= 500) return 'server_error';
+    if (error.status && error.status >= 400) return 'client_error';
+    if (!error.status) return 'network';
+    return 'empty_response';
+  }
+
+  return 'unknown';
+}
+
+const percentile = (sorted: number[], p: number): number => {
+  if (sorted.length === 0) return 0;
+  const index = Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1);
+  return Math.round(sorted[Math.max(0, index)]);
+};
+
+export class ModelStatsStore {
+  private states = new Map<string, ModelStatsState>();
+  private persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private backend: ModelStatsBackend) {
+    try {
+      backend.load().forEach(state => this.states.set(state.modelId, state));
+    } catch (error) {
+      console.warn(`⚠️ Failed to load model stats from ${backend.name} backend:`, (error as Error).message);
+    }
+  }
+
+  get backendName(): string {
+    return this.backend.name;
+  }
+
+  record(call: ModelCallRecord): void {
+    const state = this.getOrCreateState(call.modelId);
+
+    state.calls += 1;
+    // Exponential moving averages, same weights FusionEngine has always used
+    state.successRateEma = state.successRateEma * 0.9 + (call.success ? 1 : 0) * 0.1;
+
+    if (call.success) {
+      state.successes += 1;
+      state.avgLatencyEma = state.avgLatencyEma * 0.8 + call.latencyMs * 0.2;
+      state.latencySamples.push(Math.round(call.latencyMs));
+      if (state.latencySamples.length > MAX_LATENCY_SAMPLES) {
+        state.latencySamples.splice(0, state.latencySamples.length - MAX_LATENCY_SAMPLES);
+      }
+      if (call.completionTokens) {
+        state.completionTokens += call.completionTokens;
+        state.generationMs += call.latencyMs;
+      }
+    } else {
+      // Failures count against latency too, so a model that keeps timing out drops in priority
+      state.avgLatencyEma = state.avgLatencyEma * 0.8 + call.latencyMs * 0.2;
+      const errorType = call.errorType || 'unknown';
+      state.errorsByType[errorType] = (state.errorsByType[errorType] || 0) + 1;
+    }
+
+    state.lastUpdate = Date.now();
+    this.schedulePersist();
+  }
+
+  /** Latency/reliability used for routing; registry baselines until a model has been called */
+  getRoutingStats(modelId: string): { avgTime: number; successRate: number } {
+    const state = this.states.get(modelId);
+    if (state) {
+      return { avgTime: state.avgLatencyEma, successRate: state.successRateEma };
+    }
+    const baseline = modelRegistry.get(modelId)?.performance;
+    return {
+      avgTime: baseline?.avgResponseTime ?? 10000,
+      successRate: baseline?.reliability ?? 0.9
+    };
+  }
+
+  getSnapshot(modelId: string): ModelStatsSnapshot {
+    const state = this.states.get(modelId);
+    const sorted = [...(state?.latencySamples || [])].sort((a, b) => a - b);
+    const avg = sorted.length ? sorted.reduce((sum, value) => sum + value, 0) / sorted.length : 0;
+
+    return {
+      modelId,
+      name: modelRegistry.get(modelId)?.name || modelId,
+      calls: state?.calls || 0,
+      successes: state?.successes || 0,
+      errorRate: state?.calls ? (state.calls - state.successes) / state.calls : 0,
+      errorsByType: { ...(state?.errorsByType || {}) },
+      latency: {
+        avg: Math.round(avg),
+        p50: percentile(sorted, 50),
+        p90: percentile(sorted, 90),
+        p99: percentile(sorted, 99),
+        samples: sorted.length
+      },
+      successRateEma: state?.successRateEma ?? this.getRoutingStats(modelId).successRate,
+      tokensPerSecond: state?.generationMs ? Math.round((state.completionTokens / state.generationMs) * 1000 * 10) / 10 : 0,
+      lastUpdate: state?.lastUpdate ?? null
+    };
+  }
+
+  /** Every registry model plus any model that has recorded calls */
+  getAllSnapshots(): ModelStatsSnapshot[] {
+    const ids = new Set([...modelRegistry.getAll().map(model => model.id), ...this.states.keys()]);
+    return [...ids].map(id => this.getSnapshot(id));
+  }
+
+  /** Writes pending changes immediately */
+  flush(): void {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+    }
+    try {
+      this.backend.save([...this.states.values()]);
+    } catch (error) {
+      console.warn(`⚠️ Failed to persist model stats to ${this.backend.name} backend:`, (error as Error).message);
+    }
+  }
+
+  private schedulePersist(): void {
+    if (this.persistTimer) return;
+    this.persistTimer = setTimeout(() => this.flush(), PERSIST_DEBOUNCE_MS);
+    // Never keep the process alive just to write stats
+    this.persistTimer.unref?.();
+  }
+
+  private getOrCreateState(modelId: string): ModelStatsState {
+    let state = this.states.get(modelId);
+    if (!state) {
+      const baseline = this.getRoutingStats(modelId);
+      state = {
+        modelId,
+        calls: 0,
+        successes: 0,
+        errorsByType: {},
+        latencySamples: [],
+        avgLatencyEma: baseline.avgTime,
+        successRateEma: baseline.successRate,
+        completionTokens: 0,
+        generationMs: 0,
+        lastUpdate: Date.now()
+      };
+      this.states.set(modelId, state);
+    }
+    return state;
+  }
+}
+
+// Next bundles each route on its own, so the store lives on globalThis for /api/models/stats to see
+// what the chat route recorded
+const globalStats = globalThis as typeof globalThis & { chatqoraModelStats?: ModelStatsStore };
+export const modelStatsStore = globalStats.chatqoraModelStats ??= new ModelStatsStore(createStatsBackend());
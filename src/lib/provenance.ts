@@ -0,0 +1,81 @@
+/**
+ * Provenance
+ * Links each sentence of the fused answer back to the model answers it came from. Every sentence,
+ * list item and code block is compared with each model's sentences; models whose closest sentence
+ * clears ATTRIBUTION_THRESHOLD are its sources, and a sentence no model resembles is flagged as
+ * added by the synthesis.
+ */
+
+import { countTerms, cosineSimilarity } from '@/lib/textSimilarity';
+import type { FusionAttribution, FusionModelAnswer } from '@/types/chat';
+
+export type { FusionAttribution };
+
+export const ATTRIBUTION_THRESHOLD = 0.35;
+const MIN_SEGMENT_TERMS = 3; // Shorter fragments ("Here's how:") match everything and nothing
+const MAX_MATCHED_TEXT = 300;
+
+export interface TextSegment {
+  text: string;
+  start: number;
+}
+
+const LIST_OR_HEADING_PREFIX = /^\s*(?:[-*+]|\d+[.)]|#{1,6}|>)\s+/;
+const SENTENCE = /\S.*?(?:[.!?]+["')\]*_]*(?=\s|$)|$)/g;
+
+/** Sentences of the text with their offsets; list and heading markers are left out, code blocks stay whole */
+export function splitSegments(text: string): TextSegment[] {
+  const segments: TextSegment[] = [];
+
+  for (const block of text.matchAll(/```[\s\S]*?(?:```|$)|[^\n]+/g)) {
+    const blockStart = block.index ?? 0;
+    if (block[0].startsWith('```')) {
+      segments.push({ text: block[0], start: blockStart });
+      continue;
+    }
+
+    const prefixLength = block[0].match(LIST_OR_HEADING_PREFIX)?.[0].length ?? 0;
+    for (const sentence of block[0].slice(prefixLength).matchAll(SENTENCE)) {
+      segments.push({ text: sentence[0], start: blockStart + prefixLength + (sentence.index ?? 0) });
+    }
+  }
+
+  return segments;
+}
+
+/** Attributions for every fused sentence long enough to compare, in answer order */
+export function attributeSources(
+  fusedResponse: string,
+  responses: Array<Pick<FusionModelAnswer, 'model' | 'modelName' | 'response' | 'status'>>
+): FusionAttribution[] {
+  const sources = responses
+    .filter(response => response.status === 'success' && response.response.trim())
+    .map(response => ({
+      response,
+      segments: splitSegments(response.response).map(segment => ({ text: segment.text, terms: countTerms(segment.text) }))
+    }));
+
+  return splitSegments(fusedResponse).flatMap(segment => {
+    const terms = countTerms(segment.text);
+    if (terms.size < MIN_SEGMENT_TERMS) return [];
+
+    const matches = sources
+      .map(({ response, segments }) => {
+        let best = { similarity: 0, text: '' };
+        for (const candidate of segments) {
+          const similarity = cosineSimilarity(terms, candidate.terms);
+          if (similarity > best.similarity) best = { similarity, text: candidate.text };
+        }
+        return {
+          model: response.model,
+          modelName: response.modelName,
+          similarity: Math.round(best.similarity * 100) / 100,
+          matchedText: best.text.substring(0, MAX_MATCHED_TEXT)
+        };
+      })
+      .filter(match => match.similarity >= ATTRIBUTION_THRESHOLD)
+      .sort((a, b) => b.similarity - a.similarity);
+
+    return [{ text: segment.text, start: segment.start, sources: matches, synthesisOnly: matches.length === 0 }];
+  });
+}
@@ -0,0 +1,212 @@
+/**
+ * Scripted mock provider
+ * Deterministic, offline responses so the whole app (fusion included) runs in dev and CI without an API key.
+ * Rules are checked in order; the first rule whose model and pattern match decides the reply.
+ */
+
+import { createSampleFromSchema, extractSchemaFromPrompt } from '@/lib/structuredOutput';
+import {
+  LLMProvider,
+  CompletionRequest,
+  CompletionResult,
+  TokenHandler,
+  ToolCall,
+  ProviderError,
+  getMessageText
+} from './types';
+
+export interface MockScriptRule {
+  match?: string;       // Case-insensitive regex tested against the last user message
+  model?: string;       // Only apply to this model id
+  response?: string;    // "{{query}}", "{{model}}", "{{imageCount}}" and "{{schemaSample}}" (for structured prompts) are substituted
+  error?: { status: number; message: string; retryAfterMs?: number };
+  delayMs?: number;
+  // Ask for these tools instead of answering; only applies when the request offers all of them.
+  // String arguments get the same substitutions as response, plus "{{expression}}" (first arithmetic in the query)
+  toolCalls?: Array<{ name: string; arguments: Record<string, unknown> }>;
+}
+
+export interface MockProviderOptions {
+  script?: MockScriptRule[];
+  delayMs?: number;      // Latency before the first token
+  tokenDelayMs?: number; // Latency between streamed tokens
+}
+
+// Recommendations are requested as a JSON array; answer with real-looking ones so the UI gets suggestions offline
+const RECOMMENDATIONS_RESPONSE = JSON.stringify([
+  { text: 'Can you show a concrete example of this?', category: 'practical', reasoning: 'Examples make the explanation actionable' },
+  { text: 'What are the most common pitfalls here?', category: 'deeper', reasoning: 'Edge cases are the natural next question' },
+  { text: 'How does this compare to the alternatives?', category: 'alternative', reasoning: 'Helps weigh the options' },
+  { text: 'What should I learn next on this topic?', category: 'follow_up', reasoning: 'Keeps the conversation moving forward' }
+], null, 2);
+
+// Debate strategy: judge verdict in the DISAGREEMENTS / FINAL ANSWER format, and a rebuttal with a stance line
+const DEBATE_JUDGE_RESPONSE = [
+  'DISAGREEMENTS:',
+  JSON.stringify([{
+    topic: 'How much detail the answer needs',
+    positions: [
+      { model: 'Mock Model A', position: 'A short summary is enough.' },
+      { model: 'Mock Model B', position: 'The answer should walk through an example.' }
+    ],
+    resolution: 'Keep the summary and add one short example.'
+  }]),
+  'FINAL ANSWER:',
+  'This is a mock debate verdict for "{{query}}".',
+  '',
+  '- The models were asked to rebut or concede each other\'s points.',
+  '- The judge settled their disagreement and wrote this answer.'
+].join('\n');
+
+// LLM-as-judge evaluator: a fixed rubric grade
+const EVALUATION_RESPONSE = JSON.stringify({
+  correctness: { score: 4, reason: 'Nothing stated is wrong, though the mock answer says little.' },
+  completeness: { score: 4, reason: 'Addresses the query at a high level.' },
+  relevance: { score: 5, reason: 'Stays on the question that was asked.' },
+  clarity: { score: 5, reason: 'Short and clearly formatted.' }
+}, null, 2);
+
+const DEFAULT_SCRIPT: MockScriptRule[] = [
+  { match: 'contextual follow-up questions', response: RECOMMENDATIONS_RESPONSE },
+  { match: 'judging a debate', response: DEBATE_JUDGE_RESPONSE },
+  { match: 'grading an answer', response: EVALUATION_RESPONSE },
+  { match: 'for AI models that cannot see', response: 'Mock description of {{imageCount}} image(s): a red square on a white background, captioned "sample".' },
+  { match: 'STANCE: REBUTTAL', response: 'STANCE: MIXED\n{{model}} agrees with the overall answer but would add a concrete example.' },
+  // Any other structured-output prompt gets the smallest value that satisfies its schema
+  { match: 'JSON SCHEMA:', response: '{{schemaSample}}' },
+  // Tool calling: only when the request offers the tool; the reply after the result quotes it back
+  { match: '\\b(calculate|compute|how much is)\\b', toolCalls: [{ name: 'calculator', arguments: { expression: '{{expression}}' } }] },
+  { match: '\\b(run|execute) (this |the )?(javascript|js|code)\\b', toolCalls: [{ name: 'run_javascript', arguments: { code: '[1, 2, 3].map(n => n * 2)' } }] },
+  { match: '\\b(search the web|look up|latest)\\b', toolCalls: [{ name: 'web_search', arguments: { query: '{{query}}' } }] },
+  {
+    response: [
+      'This is a mock response from **{{model}}**.',
+      '',
+      'You asked: "{{query}}"',
+      '',
+      '- The mock provider is active (`LLM_PROVIDER=mock`), so no real model was called.',
+      '- Responses are deterministic, which keeps tests and offline demos stable.'
+    ].join('\n')
+  }
+];
+
+const abortError = (): Error => {
+  const error = new Error('The operation was aborted');
+  error.name = 'AbortError';
+  return error;
+};
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+export class MockProvider implements LLMProvider {
+  readonly name = 'mock';
+  private script: MockScriptRule[];
+  private delayMs: number;
+  private tokenDelayMs: number;
+
+  constructor(options: MockProviderOptions = {}) {
+    this.script = [...(options.script || []), ...DEFAULT_SCRIPT];
+    this.delayMs = options.delayMs ?? 50;
+    this.tokenDelayMs = options.tokenDelayMs ?? 10;
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const { rule, content, toolCalls } = this.resolve(request);
+    await sleep(rule.delayMs ?? this.delayMs, request.signal);
+    return this.buildResult(request, content, toolCalls);
+  }
+
+  async stream(request: CompletionRequest, onToken: TokenHandler): Promise<CompletionResult> {
+    const { rule, content, toolCalls } = this.resolve(request);
+    await sleep(rule.delayMs ?? this.delayMs, request.signal);
+
+    // Split on whitespace but keep it, so concatenated tokens reproduce the content exactly
+    for (const token of content.match(/\s*\S+\s*/g) || []) {
+      await sleep(this.tokenDelayMs, request.signal);
+      onToken(token);
+    }
+
+    return this.buildResult(request, content, toolCalls);
+  }
+
+  private resolve(request: CompletionRequest): { rule: MockScriptRule; content: string; toolCalls?: ToolCall[] } {
+    const lastUser = [...request.messages].reverse().find(m => m.role === 'user');
+    const lastUserMessage = lastUser ? getMessageText(lastUser) : '';
+    const offeredTools = new Set(request.tools?.map(tool => tool.name));
+
+    // Tool results are in: answer from them rather than asking again
+    const lastMessage = request.messages[request.messages.length - 1];
+    if (lastMessage?.role === 'tool') {
+      const results = request.messages.filter(m => m.role === 'tool').map(getMessageText);
+      return { rule: {}, content: `According to the tools I used:\n\n${results.join('\n\n')}` };
+    }
+
+    const rule = this.script.find(candidate => {
+      if (candidate.model && candidate.model !== request.model) return false;
+      if (candidate.toolCalls && !candidate.toolCalls.every(call => offeredTools.has(call.name))) return false;
+      if (!candidate.match) return true;
+      try {
+        return new RegExp(candidate.match, 'i').test(lastUserMessage);
+      } catch {
+        return lastUserMessage.toLowerCase().includes(candidate.match.toLowerCase());
+      }
+    }) || DEFAULT_SCRIPT[DEFAULT_SCRIPT.length - 1];
+
+    if (rule.error) {
+      throw new ProviderError(rule.error.message, this.name, rule.error.status, rule.error.retryAfterMs);
+    }
+
+    const query = this.extractQuery(lastUserMessage);
+    const substitute = (text: string) => text
+      .replace(/\{\{query\}\}/g, query)
+      .replace(/\{\{model\}\}/g, request.model)
+      .replace(/\{\{imageCount\}\}/g, () => String(Array.isArray(lastUser?.content) ? lastUser.content.filter(part => part.type === 'image_url').length : 0))
+      .replace(/\{\{expression\}\}/g, () => query.match(/[\d.(][\d\s.+\-*/%^()]*[\d)]/)?.[0].trim() ?? '0')
+      .replace(/\{\{schemaSample\}\}/g, () =>
+        JSON.stringify(createSampleFromSchema(extractSchemaFromPrompt(lastUserMessage) ?? {}), null, 2));
+
+    const toolCalls = rule.toolCalls?.map((call, index) => ({
+      id: `mock_call_${index}`,
+      name: call.name,
+      arguments: JSON.stringify(call.arguments, (_, value) => typeof value === 'string' ? substitute(value) : value)
+    }));
+
+    return { rule, content: substitute(rule.response || ''), toolCalls };
+  }
+
+  // Fusion wraps the user's question in a role prompt; pull the quoted query back out when present
+  private extractQuery(message: string): string {
+    const quoted = message.match(/(?:Query|Question):\**\s*"?([^"\n]+)"?/i);
+    const query = (quoted?.[1] || message).trim();
+    return query.length > 120 ? `${query.substring(0, 117)}...` : query;
+  }
+
+  private buildResult(request: CompletionRequest, content: string, toolCalls?: ToolCall[]): CompletionResult {
+    const promptTokens = Math.ceil(request.messages.reduce((sum, m) => sum + getMessageText(m).length, 0) / 4);
+    const completionTokens = Math.ceil(content.length / 4);
+
+    return {
+      content,
+      model: request.model,
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+      finishReason: toolCalls ? 'tool_calls' : 'stop',
+      toolCalls
+    };
+  }
+}
@@ -0,0 +1,228 @@
+/**
+ * OpenAI-compatible provider
+ * Talks to any server exposing POST {baseUrl}/chat/completions (Ollama, llama.cpp, vLLM, LM Studio...)
+ */
+
+import { readSSEStream } from '@/lib/sse';
+import {
+  LLMProvider,
+  CompletionRequest,
+  CompletionResult,
+  CompletionUsage,
+  ProviderMessage,
+  TokenHandler,
+  ToolCall,
+  ProviderError
+} from './types';
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string;
+  apiKey?: string;
+  name?: string;
+  headers?: (request: CompletionRequest) => Record<string, string>; // Per-request extra headers
+}
+
+interface RawUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+interface RawToolCall {
+  index?: number; // Streaming deltas only
+  id?: string;
+  function?: { name?: string; arguments?: string };
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string;
+  protected baseUrl: string;
+  protected apiKey: string;
+  private extraHeaders?: (request: CompletionRequest) => Record<string, string>;
+
+  constructor(config: OpenAICompatibleConfig) {
+    this.name = config.name || 'openai-compatible';
+    this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+    this.apiKey = config.apiKey || '';
+    this.extraHeaders = config.headers;
+  }
+
+  isConfigured(): boolean {
+    // Local servers usually don't need a key
+    return !!this.baseUrl;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const response = await this.post(request, false);
+    const data = await response.json();
+    const choice = data.choices?.[0];
+
+    const toolCalls = this.parseToolCalls(choice?.message?.tool_calls);
+    // A tool-call turn may come with null content
+    if (typeof choice?.message?.content !== 'string' && !toolCalls) {
+      throw new ProviderError(`${this.name} returned no completion for ${request.model}`, this.name, response.status);
+    }
+
+    return {
+      content: choice.message.content || '',
+      model: data.model || request.model,
+      usage: this.parseUsage(data.usage),
+      finishReason: choice.finish_reason,
+      toolCalls
+    };
+  }
+
+  async stream(request: CompletionRequest, onToken: TokenHandler): Promise<CompletionResult> {
+    const response = await this.post(request, true);
+    if (!response.body) {
+      throw new ProviderError(`${this.name} returned an empty stream for ${request.model}`, this.name, response.status);
+    }
+
+    let content = '';
+    let model = request.model;
+    let usage: CompletionUsage | undefined;
+    let finishReason: string | undefined;
+    // Tool calls arrive in fragments keyed by index: id and name first, then pieces of the arguments
+    const toolCallParts: RawToolCall[] = [];
+
+    await readSSEStream(response.body, ({ data }) => {
+      if (data === '[DONE]') return;
+
+      try {
+        const chunk = JSON.parse(data);
+        const choice = chunk.choices?.[0];
+        if (chunk.model) model = chunk.model;
+        if (chunk.usage) usage = this.parseUsage(chunk.usage);
+        if (choice?.finish_reason) finishReason = choice.finish_reason;
+
+        for (const part of (choice?.delta?.tool_calls || []) as RawToolCall[]) {
+          const existing = toolCallParts[part.index ?? 0] ??= { function: { name: '', arguments: '' } };
+          if (part.id) existing.id = part.id;
+          if (part.function?.name) existing.function!.name += part.function.name;
+          if (part.function?.arguments) existing.function!.arguments += part.function.arguments;
+        }
+
+        const delta: string | undefined = choice?.delta?.content;
+        if (!delta) return;
+
+        content += delta;
+        onToken(delta);
+      } catch {
+        // Ignore keep-alive or malformed chunks
+      }
+    });
+
+    return { content, model, usage, finishReason, toolCalls: this.parseToolCalls(toolCallParts.filter(Boolean)) };
+  }
+
+  private buildHeaders(request: CompletionRequest): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      ...(this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {}),
+      ...(this.extraHeaders?.(request) || {})
+    };
+  }
+
+  private async post(request: CompletionRequest, stream: boolean): Promise<Response> {
+    let response: Response;
+
+    try {
+      response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: this.buildHeaders(request),
+        body: JSON.stringify({
+          model: request.model,
+          messages: request.messages.map(message => this.toWireMessage(message)),
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+          top_p: request.topP,
+          ...(request.tools?.length ? {
+            tools: request.tools.map(tool => ({ type: 'function', function: tool }))
+          } : {}),
+          stream,
+          // Without this, streamed responses carry no token counts
+          ...(stream ? { stream_options: { include_usage: true } } : {})
+        }),
+        signal: request.signal
+      });
+    } catch (error) {
+      if ((error as Error).name === 'AbortError') throw error;
+      throw new ProviderError(`${this.name} is unreachable: ${(error as Error).message}`, this.name);
+    }
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new ProviderError(
+        `${request.model} request failed: ${response.status} ${response.statusText}${detail ? ` - ${detail.substring(0, 200)}` : ''}`,
+        this.name,
+        response.status,
+        this.parseRetryAfter(response.headers)
+      );
+    }
+
+    return response;
+  }
+
+  private toWireMessage(message: ProviderMessage) {
+    if (message.role === 'tool') {
+      return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+    }
+    if (message.toolCalls?.length) {
+      return {
+        role: message.role,
+        content: message.content || null,
+        tool_calls: message.toolCalls.map(call => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: call.arguments }
+        }))
+      };
+    }
+    return { role: message.role, content: message.content };
+  }
+
+  private parseToolCalls(raw?: RawToolCall[]): ToolCall[] | undefined {
+    const calls = (raw || [])
+      .filter(call => call.function?.name)
+      .map((call, index) => ({
+        id: call.id || `call_${index}`,
+        name: call.function!.name!,
+        arguments: call.function!.arguments || '{}'
+      }));
+    return calls.length > 0 ? calls : undefined;
+  }
+
+  // Retry-After (seconds or HTTP date), else the rate-limit reset headers OpenRouter and OpenAI send
+  private parseRetryAfter(headers: Headers): number | undefined {
+    const retryAfter = headers.get('retry-after');
+    if (retryAfter) {
+      const seconds = Number(retryAfter);
+      const ms = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(retryAfter) - Date.now();
+      if (Number.isFinite(ms)) return Math.max(0, Math.round(ms));
+    }
+
+    // OpenRouter: epoch milliseconds
+    const reset = Number(headers.get('x-ratelimit-reset'));
+    if (reset > 0) return Math.max(0, reset - Date.now());
+
+    // OpenAI: durations like "1s", "250ms" or "1m30s"
+    const resetIn = headers.get('x-ratelimit-reset-requests');
+    const parts = resetIn ? [...resetIn.matchAll(/(\d+(?:\.\d+)?)(ms|s|m|h)/g)] : [];
+    if (parts.length > 0) {
+      const unitMs: Record<string, number> = { ms: 1, s: 1000, m: 60_000, h: 3_600_000 };
+      return Math.round(parts.reduce((sum, [, value, unit]) => sum + Number(value) * unitMs[unit], 0));
+    }
+    return undefined;
+  }
+
+  private parseUsage(raw?: RawUsage): CompletionUsage | undefined {
+    if (!raw) return undefined;
+    const promptTokens = raw.prompt_tokens ?? 0;
+    const completionTokens = raw.completion_tokens ?? 0;
+    return {
+      promptTokens,
+      completionTokens,
+      totalTokens: raw.total_tokens ?? promptTokens + completionTokens
+    };
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * OpenRouter provider
+ * OpenAI-compatible API plus the attribution headers OpenRouter uses for its dashboards
+ */
+
+import { OpenAICompatibleProvider } from './OpenAICompatibleProvider';
+
+export const OPENROUTER_BASE_URL = 'https://openrouter.ai/api/v1';
+
+export class OpenRouterProvider extends OpenAICompatibleProvider {
+  constructor(apiKey: string, baseUrl: string = OPENROUTER_BASE_URL) {
+    super({
+      baseUrl,
+      apiKey,
+      name: 'openrouter',
+      headers: request => ({
+        'HTTP-Referer': 'https://chatqora.pages.dev',
+        'X-Title': request.title || 'ChatQora'
+      })
+    });
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * Resilient provider
+ * Wraps any provider with retries and per-model circuit breakers. Transient failures (429, 5xx,
+ * network) are retried with jittered exponential backoff, or after the provider's Retry-After when it
+ * sent one. A stream is only retried if no token has reached the caller yet. A call whose signal was
+ * aborted by a timeout counts as a failure of the model; one cancelled by the caller does not.
+ *
+ * PROVIDER_MAX_RETRIES sets the retries per call (default 2).
+ */
+
+import { CircuitBreakerRegistry, CircuitOpenError, circuitBreakers } from '@/lib/circuitBreaker';
+import { LLMProvider, CompletionRequest, CompletionResult, TokenHandler, ProviderError, isTimedOut } from './types';
+
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number; // Longest wait before a retry; a longer Retry-After opens the circuit instead
+}
+
+const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: Number(process.env.PROVIDER_MAX_RETRIES ?? 2),
+  baseDelayMs: 500,
+  maxDelayMs: 8000
+};
+
+const TRANSIENT_STATUSES = [408, 425, 429, 500, 502, 503, 504];
+
+// No status means the server was unreachable
+const isTransient = (error: unknown): error is ProviderError =>
+  error instanceof ProviderError && !(error instanceof CircuitOpenError)
+  && (error.status === undefined || TRANSIENT_STATUSES.includes(error.status));
+
+// Failures that say something about the model; bad requests and auth problems don't
+const countsAgainstModel = (error: unknown): boolean => isTransient(error) || (error as ProviderError)?.status === 404;
+
+const abortError = (): Error => {
+  const error = new Error('The operation was aborted');
+  error.name = 'AbortError';
+  return error;
+};
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+export class ResilientProvider implements LLMProvider {
+  readonly name: string;
+
+  constructor(
+    private inner: LLMProvider,
+    private breakers: CircuitBreakerRegistry = circuitBreakers,
+    private options: RetryOptions = DEFAULT_RETRY_OPTIONS
+  ) {
+    this.name = inner.name;
+  }
+
+  isConfigured(): boolean {
+    return this.inner.isConfigured();
+  }
+
+  complete(request: CompletionRequest): Promise<CompletionResult> {
+    return this.withResilience(request, () => this.inner.complete(request));
+  }
+
+  stream(request: CompletionRequest, onToken: TokenHandler): Promise<CompletionResult> {
+    let streamed = false;
+    return this.withResilience(
+      request,
+      () => this.inner.stream(request, token => {
+        streamed = true;
+        onToken(token);
+      }),
+      // Retrying after tokens went out would show the user a second, different answer
+      () => !streamed
+    );
+  }
+
+  private async withResilience(
+    request: CompletionRequest,
+    call: () => Promise<CompletionResult>,
+    canRetry: () => boolean = () => true
+  ): Promise<CompletionResult> {
+    this.breakers.beforeCall(request.model);
+    let settled = false;
+
+    try {
+      for (let attempt = 0; ; attempt++) {
+        try {
+          const completion = await call();
+          this.breakers.recordSuccess(request.model);
+          settled = true;
+          return completion;
+        } catch (error) {
+          if (request.signal?.aborted || !isTransient(error) || !canRetry() || attempt >= this.options.maxRetries) {
+            if (isTimedOut(request.signal)) {
+              this.breakers.recordFailure(request.model, request.signal!.reason);
+              settled = true;
+            } else if (!request.signal?.aborted && countsAgainstModel(error)) {
+              this.breakers.recordFailure(request.model, error);
+              settled = true;
+            }
+            throw error;
+          }
+
+          // The provider asked us to wait longer than we're willing to: stop calling it until then
+          if (error.retryAfterMs !== undefined && error.retryAfterMs > this.options.maxDelayMs) {
+            this.breakers.recordFailure(request.model, error, error.retryAfterMs);
+            settled = true;
+            throw error;
+          }
+
+          const delay = this.getRetryDelay(attempt, error.retryAfterMs);
+          console.warn(`🔁 ${request.model} failed (${error.message}); retry ${attempt + 1}/${this.options.maxRetries} in ${delay}ms`);
+          await sleep(delay, request.signal);
+        }
+      }
+    } finally {
+      if (!settled) this.breakers.release(request.model);
+    }
+  }
+
+  // Full jitter keeps parallel fusion calls that failed together from retrying in lockstep
+  private getRetryDelay(attempt: number, retryAfterMs?: number): number {
+    if (retryAfterMs !== undefined) {
+      return retryAfterMs + Math.round(Math.random() * 250);
+    }
+    const backoff = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** attempt);
+    return Math.round(backoff / 2 + Math.random() * (backoff / 2));
+  }
+}
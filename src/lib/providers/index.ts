@@ -0,0 +1,67 @@
+/**
+ * Provider selection
+ * LLM_PROVIDER picks the backend: "openrouter" (default), "openai-compatible" or "mock".
+ *
+ *   openrouter         OPENROUTER_API_KEY (or LLM_API_KEY)
+ *   openai-compatible  LLM_BASE_URL (default Ollama at http://localhost:11434/v1), optional LLM_API_KEY
+ *   mock               optional MOCK_PROVIDER_SCRIPT (JSON array of rules) and MOCK_PROVIDER_DELAY_MS
+ *
+ * getProvider() wraps the backend in a ResilientProvider (retries, Retry-After, circuit breakers).
+ */
+
+import { OpenAICompatibleProvider } from './OpenAICompatibleProvider';
+import { OpenRouterProvider, OPENROUTER_BASE_URL } from './OpenRouterProvider';
+import { MockProvider, MockScriptRule } from './MockProvider';
+import { ResilientProvider } from './ResilientProvider';
+import { LLMProvider } from './types';
+
+export * from './types';
+export { OpenAICompatibleProvider, OpenRouterProvider, MockProvider, ResilientProvider };
+export type { MockScriptRule };
+
+export type ProviderKind = 'openrouter' | 'openai-compatible' | 'mock';
+
+const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1';
+
+function parseMockScript(raw?: string): MockScriptRule[] {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.warn('⚠️ Ignoring invalid MOCK_PROVIDER_SCRIPT:', (error as Error).message);
+    return [];
+  }
+}
+
+export function createProvider(kind: ProviderKind = 'openrouter'): LLMProvider {
+  switch (kind) {
+    case 'mock':
+      return new MockProvider({
+        script: parseMockScript(process.env.MOCK_PROVIDER_SCRIPT),
+        delayMs: process.env.MOCK_PROVIDER_DELAY_MS ? Number(process.env.MOCK_PROVIDER_DELAY_MS) : undefined
+      });
+    case 'openai-compatible':
+      return new OpenAICompatibleProvider({
+        baseUrl: process.env.LLM_BASE_URL || DEFAULT_LOCAL_BASE_URL,
+        apiKey: process.env.LLM_API_KEY
+      });
+    case 'openrouter':
+    default:
+      return new OpenRouterProvider(
+        process.env.OPENROUTER_API_KEY || process.env.LLM_API_KEY || '',
+        process.env.LLM_BASE_URL || OPENROUTER_BASE_URL
+      );
+  }
+}
+
+let activeProvider: LLMProvider | null = null;
+
+/** Process-wide provider, created from the environment on first use */
+export function getProvider(): LLMProvider {
+  if (!activeProvider) {
+    activeProvider = new ResilientProvider(createProvider((process.env.LLM_PROVIDER as ProviderKind) || 'openrouter'));
+    console.log(`🔌 LLM provider: ${activeProvider.name}`);
+  }
+  return activeProvider;
+}
@@ -0,0 +1,97 @@
+/**
+ * LLM Provider types
+ * Every model call in the app goes through an LLMProvider so the backend can be swapped
+ * (OpenRouter, any OpenAI-compatible server, or the scripted mock) without touching callers.
+ */
+
+import type { JsonSchema } from '@/lib/structuredOutput';
+
+export type ProviderContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+export interface ProviderMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | ProviderContentPart[];
+  toolCalls?: ToolCall[]; // Assistant turns that asked for tools
+  toolCallId?: string; // Tool turns: the call this result answers
+}
+
+/** A function the model may call; parameters is the JSON Schema of its arguments object */
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: JsonSchema;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: string; // Raw JSON as produced by the model; may be malformed
+}
+
+/** Plain text of a message, ignoring non-text parts */
+export function getMessageText(message: ProviderMessage): string {
+  if (typeof message.content === 'string') return message.content;
+  return message.content
+    .map(part => part.type === 'text' ? part.text : '')
+    .join('\n');
+}
+
+export interface CompletionRequest {
+  model: string;
+  messages: ProviderMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  signal?: AbortSignal;
+  title?: string; // Shown in provider dashboards that support it (OpenRouter X-Title)
+  tools?: ToolDefinition[];
+}
+
+export interface CompletionUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface CompletionResult {
+  content: string;
+  model: string;
+  usage?: CompletionUsage;
+  finishReason?: string;
+  toolCalls?: ToolCall[]; // Set when the model asked for tools instead of (or before) answering
+}
+
+export type TokenHandler = (token: string) => void;
+
+export interface LLMProvider {
+  readonly name: string;
+
+  /** Whether the provider has everything it needs (API key, base URL) to serve requests */
+  isConfigured(): boolean;
+
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+
+  /** Streams content deltas to onToken and resolves with the full completion */
+  stream(request: CompletionRequest, onToken: TokenHandler): Promise<CompletionResult>;
+}
+
+/** Abort reason for a call that ran out of time, so it can be told apart from the caller cancelling */
+export const timeoutReason = (ms: number): DOMException => new DOMException(`Timed out after ${ms}ms`, 'TimeoutError');
+
+/** Whether the signal was aborted by a timeout (timeoutReason or AbortSignal.timeout) rather than a cancellation */
+export const isTimedOut = (signal?: AbortSignal): boolean =>
+  !!signal?.aborted && (signal.reason as Error | undefined)?.name === 'TimeoutError';
+
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: string,
+    public readonly status?: number,
+    public readonly retryAfterMs?: number // From Retry-After / rate-limit reset headers
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
@@ -0,0 +1,265 @@
+/**
+ * Rate Limiting
+ * Token buckets per client, keyed by signed-in user or IP. Each bucket holds up to its limit
+ * and refills evenly over its window (a minute or a day), so clients can burst but not sustain more.
+ *
+ * A request is admitted while every bucket has at least one unit left. The request buckets are charged
+ * up front; upstream model calls and tokens are only known afterwards, so they are charged when the
+ * request finishes and may go negative, holding back the client's next request until they refill.
+ *
+ * Backend is chosen with RATE_LIMIT_BACKEND: "memory" (default) or "sqlite", which keeps quotas across
+ * restarts. RATE_LIMIT_ENABLED=false turns limiting off.
+ *
+ * The client IP comes from X-Forwarded-For / X-Real-IP only with TRUST_PROXY=true, since any client can
+ * send those headers; set it when a proxy in front of the app overwrites them. Without it, anonymous
+ * clients are told apart by their signed anonymous cookie, and only those without one share a quota.
+ */
+
+import { getSqliteDatabase } from '@/lib/storage/sqlite';
+import type { RequestUser } from '@/lib/requestUser';
+import type { RateLimitDimension, RateLimitRule, RateLimitWindow } from '@/types/chat';
+
+export type { RateLimitDimension, RateLimitRule, RateLimitWindow };
+
+export interface BucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Keyed by `${dimension}/${window}`
+export type ClientBuckets = Record<string, BucketState>;
+
+export interface RateLimitBackend {
+  readonly name: string;
+  get(subject: string): ClientBuckets | undefined;
+  set(subject: string, buckets: ClientBuckets): void;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  subject: string;
+  /** Requests left this minute, after this one */
+  remaining: number;
+  limit: number;
+  /** Set when rejected: the rule to wait longest for and how long */
+  exceeded?: RateLimitRule;
+  retryAfterSeconds?: number;
+}
+
+export interface UpstreamUsage {
+  calls: number;
+  tokens: number;
+}
+
+const WINDOW_MS: Record<RateLimitWindow, number> = {
+  minute: 60_000,
+  day: 24 * 60 * 60_000
+};
+
+export const DEFAULT_RATE_LIMITS: RateLimitRule[] = [
+  { dimension: 'requests', window: 'minute', limit: Number(process.env.RATE_LIMIT_REQUESTS_PER_MINUTE) || 20 },
+  { dimension: 'requests', window: 'day', limit: Number(process.env.RATE_LIMIT_REQUESTS_PER_DAY) || 1000 },
+  { dimension: 'calls', window: 'minute', limit: Number(process.env.RATE_LIMIT_CALLS_PER_MINUTE) || 120 },
+  { dimension: 'calls', window: 'day', limit: Number(process.env.RATE_LIMIT_CALLS_PER_DAY) || 5000 },
+  { dimension: 'tokens', window: 'minute', limit: Number(process.env.RATE_LIMIT_TOKENS_PER_MINUTE) || 200_000 },
+  { dimension: 'tokens', window: 'day', limit: Number(process.env.RATE_LIMIT_TOKENS_PER_DAY) || 5_000_000 }
+];
+
+const DIMENSION_LABELS: Record<RateLimitDimension, string> = {
+  requests: 'requests',
+  calls: 'model calls',
+  tokens: 'tokens'
+};
+
+const MAX_MEMORY_SUBJECTS = 10_000;
+
+const bucketKey = (rule: RateLimitRule): string => `${rule.dimension}/${rule.window}`;
+
+const TRUST_PROXY = process.env.TRUST_PROXY === 'true';
+
+/**
+ * Rate limit key for a request: the signed-in user (from a verified session, never a token the client
+ * made up), else the client IP as reported by a trusted proxy, else the anonymous id from a cookie this
+ * server signed. Clients with none of these share one quota.
+ */
+export function getRateLimitSubject(headers: Headers, user?: Pick<RequestUser, 'id' | 'authenticated' | 'signed'>): string {
+  if (user?.authenticated) return `user:${user.id}`;
+
+  const ip = TRUST_PROXY && (headers.get('x-forwarded-for')?.split(',')[0].trim() || headers.get('x-real-ip')?.trim());
+  if (ip) return `ip:${ip}`;
+  if (user?.signed) return `anon:${user.id.replace(/^anon:/, '')}`;
+  return 'ip:unknown';
+}
+
+/** "42 seconds", "3 minutes" or "5 hours" */
+export function describeWait(retryAfterSeconds: number): string {
+  return retryAfterSeconds < 120
+    ? `${retryAfterSeconds} second${retryAfterSeconds === 1 ? '' : 's'}`
+    : retryAfterSeconds < 7200
+      ? `${Math.ceil(retryAfterSeconds / 60)} minutes`
+      : `${Math.ceil(retryAfterSeconds / 3600)} hours`;
+}
+
+/** "Too many model calls this minute. Try again in 42 seconds." */
+export function describeRateLimit(rule: RateLimitRule, retryAfterSeconds: number): string {
+  const period = rule.window === 'minute' ? 'this minute' : 'today';
+  return `Too many ${DIMENSION_LABELS[rule.dimension]} ${period} (limit ${rule.limit.toLocaleString('en-US')}). Try again in ${describeWait(retryAfterSeconds)}.`;
+}
+
+class MemoryRateLimitBackend implements RateLimitBackend {
+  readonly name = 'memory';
+  private subjects = new Map<string, ClientBuckets>();
+
+  get(subject: string): ClientBuckets | undefined {
+    return this.subjects.get(subject);
+  }
+
+  set(subject: string, buckets: ClientBuckets): void {
+    // Re-inserting keeps the map in least recently seen order for pruning
+    this.subjects.delete(subject);
+    this.subjects.set(subject, buckets);
+    while (this.subjects.size > MAX_MEMORY_SUBJECTS) {
+      this.subjects.delete(this.subjects.keys().next().value as string);
+    }
+  }
+}
+
+class SqliteRateLimitBackend implements RateLimitBackend {
+  readonly name = 'sqlite';
+
+  constructor() {
+    getSqliteDatabase().exec(`
+      CREATE TABLE IF NOT EXISTS rate_limits (
+        subject TEXT PRIMARY KEY,
+        buckets TEXT NOT NULL,
+        updated_at INTEGER NOT NULL
+      )
+    `);
+  }
+
+  get(subject: string): ClientBuckets | undefined {
+    const row = getSqliteDatabase()
+      .prepare('SELECT buckets FROM rate_limits WHERE subject = ?')
+      .get(subject) as { buckets: string } | undefined;
+    return row ? JSON.parse(row.buckets) as ClientBuckets : undefined;
+  }
+
+  set(subject: string, buckets: ClientBuckets): void {
+    getSqliteDatabase().prepare(`
+      INSERT INTO rate_limits (subject, buckets, updated_at) VALUES (?, ?, ?)
+      ON CONFLICT(subject) DO UPDATE SET buckets = excluded.buckets, updated_at = excluded.updated_at
+    `).run(subject, JSON.stringify(buckets), Date.now());
+  }
+}
+
+export function createRateLimitBackend(kind: string = process.env.RATE_LIMIT_BACKEND || 'memory'): RateLimitBackend {
+  return kind === 'sqlite' ? new SqliteRateLimitBackend() : new MemoryRateLimitBackend();
+}
+
+export class RateLimiter {
+  constructor(
+    private backend: RateLimitBackend,
+    private rules: RateLimitRule[] = DEFAULT_RATE_LIMITS,
+    private enabled: boolean = process.env.RATE_LIMIT_ENABLED !== 'false'
+  ) {}
+
+  getRules(): RateLimitRule[] {
+    return [...this.rules];
+  }
+
+  /**
+   * Admits the request and charges it to the request buckets, or says which limit to wait for.
+   * With charge=false it only checks; requests that count only when they fail are charged afterwards.
+   */
+  check(subject: string, charge: boolean = true): RateLimitDecision {
+    const requestRule = this.rules.find(rule => rule.dimension === 'requests' && rule.window === 'minute');
+    const limit = requestRule?.limit ?? Infinity;
+    if (!this.enabled) return { allowed: true, subject, remaining: limit, limit };
+
+    const now = Date.now();
+    const buckets = this.refill(subject, now);
+
+    let exceeded: RateLimitRule | undefined;
+    let retryAfterMs = 0;
+    for (const rule of this.rules) {
+      const tokens = buckets[bucketKey(rule)].tokens;
+      if (tokens >= 1) continue;
+      const waitMs = ((1 - tokens) / rule.limit) * WINDOW_MS[rule.window];
+      if (waitMs > retryAfterMs) {
+        exceeded = rule;
+        retryAfterMs = waitMs;
+      }
+    }
+
+    if (!exceeded && charge) {
+      this.rules
+        .filter(rule => rule.dimension === 'requests')
+        .forEach(rule => { buckets[bucketKey(rule)].tokens -= 1; });
+    }
+    this.save(subject, buckets);
+
+    const remaining = requestRule ? Math.max(0, Math.floor(buckets[bucketKey(requestRule)].tokens)) : limit;
+    if (!exceeded) return { allowed: true, subject, remaining, limit };
+
+    console.warn(`⚠️ Rate limit hit for ${subject}: ${exceeded.dimension} per ${exceeded.window}`);
+    return { allowed: false, subject, remaining, limit, exceeded, retryAfterSeconds: Math.max(1, Math.ceil(retryAfterMs / 1000)) };
+  }
+
+  /** Charges a finished request's upstream model calls and tokens */
+  record(subject: string, usage: UpstreamUsage): void {
+    if (!this.enabled || (usage.calls === 0 && usage.tokens === 0)) return;
+
+    const buckets = this.refill(subject, Date.now());
+    for (const rule of this.rules) {
+      if (rule.dimension === 'calls') buckets[bucketKey(rule)].tokens -= usage.calls;
+      if (rule.dimension === 'tokens') buckets[bucketKey(rule)].tokens -= usage.tokens;
+    }
+    this.save(subject, buckets);
+  }
+
+  /** Charges one request after the fact */
+  charge(subject: string): void {
+    if (!this.enabled) return;
+
+    const buckets = this.refill(subject, Date.now());
+    this.rules
+      .filter(rule => rule.dimension === 'requests')
+      .forEach(rule => { buckets[bucketKey(rule)].tokens -= 1; });
+    this.save(subject, buckets);
+  }
+
+  // Current buckets with the refill since their last update; new clients and new rules start full
+  private refill(subject: string, now: number): ClientBuckets {
+    const stored = this.load(subject);
+    const buckets: ClientBuckets = {};
+
+    for (const rule of this.rules) {
+      const bucket = stored?.[bucketKey(rule)];
+      const refilled = bucket
+        ? bucket.tokens + ((now - bucket.updatedAt) / WINDOW_MS[rule.window]) * rule.limit
+        : rule.limit;
+      buckets[bucketKey(rule)] = { tokens: Math.min(rule.limit, refilled), updatedAt: now };
+    }
+    return buckets;
+  }
+
+  // A broken persistent backend should not take the chat API down with it
+  private load(subject: string): ClientBuckets | undefined {
+    try {
+      return this.backend.get(subject);
+    } catch (error) {
+      console.warn(`⚠️ Failed to read rate limits from ${this.backend.name} backend:`, (error as Error).message);
+      return undefined;
+    }
+  }
+
+  private save(subject: string, buckets: ClientBuckets): void {
+    try {
+      this.backend.set(subject, buckets);
+    } catch (error) {
+      console.warn(`⚠️ Failed to save rate limits to ${this.backend.name} backend:`, (error as Error).message);
+    }
+  }
+}
+
+export const rateLimiter = new RateLimiter(createRateLimitBackend());
@@ -0,0 +1,63 @@
+/**
+ * Request Registry
+ * Tracks in-flight chat requests by id so a later request (the Stop button) can abort them.
+ * Process-local: the chat route runs on the Node.js runtime so POST and DELETE share this map.
+ *
+ * Request ids come from the client, so they are scoped by the user that sent them: another user
+ * reusing an id neither cancels nor replaces the request.
+ */
+
+interface ActiveRequest {
+  controller: AbortController;
+  startedAt: number;
+}
+
+const requestKey = (ownerId: string, requestId: string): string => `${ownerId}/${requestId}`;
+
+export class RequestRegistry {
+  private requests = new Map<string, ActiveRequest>();
+
+  /** Registers a request and returns the signal every model call for it should observe */
+  register(ownerId: string, requestId: string): AbortSignal {
+    const key = requestKey(ownerId, requestId);
+    // A retried id replaces the stale entry rather than sharing its (possibly aborted) signal
+    this.requests.get(key)?.controller.abort();
+
+    const controller = new AbortController();
+    this.requests.set(key, { controller, startedAt: Date.now() });
+    return controller.signal;
+  }
+
+  /** Aborts one of the owner's requests. Returns false when the id is unknown or already finished. */
+  cancel(ownerId: string, requestId: string): boolean {
+    const key = requestKey(ownerId, requestId);
+    const active = this.requests.get(key);
+    if (!active) return false;
+
+    active.controller.abort();
+    this.requests.delete(key);
+    console.log(`🛑 Cancelled request ${requestId} after ${Date.now() - active.startedAt}ms`);
+    return true;
+  }
+
+  /**
+   * Forgets a finished request; call from a finally block with the signal register returned.
+   * A request that was replaced by a retry with the same id leaves the newer entry alone.
+   */
+  complete(ownerId: string, requestId: string, signal: AbortSignal): void {
+    const key = requestKey(ownerId, requestId);
+    if (this.requests.get(key)?.controller.signal === signal) {
+      this.requests.delete(key);
+    }
+  }
+
+  isActive(ownerId: string, requestId: string): boolean {
+    return this.requests.has(requestKey(ownerId, requestId));
+  }
+
+  get size(): number {
+    return this.requests.size;
+  }
+}
+
+export const requestRegistry = new RequestRegistry();
@@ -0,0 +1,73 @@
+/**
+ * Request user
+ * Who a request belongs to, for per-user data such as conversations. Browsers get an anonymous id in
+ * an httpOnly cookie on their first request, so each keeps its own conversations without an account.
+ * A signed-in user is their account instead, on whichever browser they sign in from.
+ *
+ * Anonymous ids start with "anon:" and account ids never do, so a forged cookie can't pass for an
+ * account. Cookies set before the prefix are still accepted unless they name an account.
+ *
+ * The cookie is signed (HMAC with AUTH_SECRET) so the rate limiter can key anonymous clients on it.
+ * An unsigned or stale cookie still names its user and is signed again on the response, but doesn't
+ * count as an identity for rate limiting. Without AUTH_SECRET the key lasts as long as the process.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/session';
+import { userStore } from '@/lib/userStore';
+
+export const USER_COOKIE = 'chatqora_uid';
+
+const ANONYMOUS_PREFIX = 'anon:';
+const ANONYMOUS_ID = /^anon:[\w-]{8,64}$/;
+const LEGACY_ANONYMOUS_ID = /^[\w-]{8,64}$/;
+const COOKIE_MAX_AGE = 365 * 24 * 60 * 60; // Seconds
+const COOKIE_SECRET = process.env.AUTH_SECRET || process.env.NEXTAUTH_SECRET || randomBytes(32).toString('hex');
+
+export interface RequestUser {
+  id: string;
+  isNew: boolean; // No validly signed cookie came with the request; the response must set one
+  authenticated: boolean;
+  signed: boolean; // A session or a cookie this server signed vouches for the id
+}
+
+export function getRequestUser(request: NextRequest): RequestUser {
+  const session = getSession(request);
+  if (session) return { id: session.userId, isNew: false, authenticated: true, signed: true };
+
+  // "<id>.<signature>"; ids never contain a dot
+  const [id, signature] = request.cookies.get(USER_COOKIE)?.value.split('.') ?? [];
+  if (!id || !isAnonymousId(id)) {
+    return { id: `${ANONYMOUS_PREFIX}${crypto.randomUUID()}`, isNew: true, authenticated: false, signed: false };
+  }
+  const signed = !!signature && isValidSignature(id, signature);
+  return { id, isNew: !signed, authenticated: false, signed };
+}
+
+function isAnonymousId(id: string): boolean {
+  if (ANONYMOUS_ID.test(id)) return true;
+  return LEGACY_ANONYMOUS_ID.test(id) && !userStore.get(id);
+}
+
+const sign = (id: string): string => createHmac('sha256', COOKIE_SECRET).update(id).digest('base64url');
+
+function isValidSignature(id: string, signature: string): boolean {
+  const expected = Buffer.from(sign(id));
+  const actual = Buffer.from(signature);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/** Sets the signed anonymous id cookie when the request didn't have one */
+export function withUserCookie<T extends NextResponse>(response: T, user: RequestUser): T {
+  if (user.isNew) {
+    response.cookies.set(USER_COOKIE, `${user.id}.${sign(user.id)}`, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      maxAge: COOKIE_MAX_AGE,
+      path: '/'
+    });
+  }
+  return response;
+}
@@ -0,0 +1,281 @@
+/**
+ * Response Cache
+ * Process-wide LRU cache with per-entry TTLs, shared by every FusionEngine instance and the web search.
+ * Identical requests that arrive while the first is still in flight wait for it instead of calling again.
+ *
+ * Backend is chosen with CACHE_BACKEND: "memory" (default), "file" (DATA_DIR/cache-<namespace>.json)
+ * or "sqlite". Size bound is CACHE_MAX_ENTRIES per namespace (default 500).
+ */
+
+import { createHash } from 'node:crypto';
+import { readJsonFile, writeJsonFile } from '@/lib/storage/jsonFile';
+import { getSqliteDatabase } from '@/lib/storage/sqlite';
+import type { CompletionResult } from '@/lib/providers';
+import type { WebSource } from '@/types/chat';
+
+export interface CacheEntry<T> {
+  key: string;
+  value: T;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export interface CacheStats {
+  namespace: string;
+  backend: string;
+  size: number;
+  maxEntries: number;
+  hits: number;
+  misses: number;
+  coalesced: number; // Misses that joined an in-flight request instead of calling again
+  evictions: number;
+  hitRate: number;
+}
+
+export interface CacheBackend {
+  readonly name: string;
+  /** Entries in LRU order, least recently used first */
+  load<T>(namespace: string): CacheEntry<T>[];
+  save<T>(namespace: string, entries: CacheEntry<T>[]): void;
+}
+
+export const CACHE_TTL = {
+  timeSensitive: 2 * 60 * 1000,
+  default: 30 * 60 * 1000
+};
+
+const PERSIST_DEBOUNCE_MS = 2000;
+const DEFAULT_MAX_ENTRIES = 500;
+
+// Answers to these go stale quickly: news, prices, scores, "today", "latest"...
+const TIME_SENSITIVE_PATTERN = /\b(today|tonight|tomorrow|yesterday|now|right now|current(ly)?|latest|recent(ly)?|this (week|month|year)|breaking|news|live|price|stock|weather|forecast|score|trending|20\d{2})\b/i;
+
+/** TTL for a user query; time-sensitive questions expire in minutes rather than half an hour */
+export function getTtlForQuery(query: string): number {
+  return TIME_SENSITIVE_PATTERN.test(query) ? CACHE_TTL.timeSensitive : CACHE_TTL.default;
+}
+
+/** Stable key from any number of parts; prompts can be long, so they are hashed rather than truncated */
+export function createCacheKey(...parts: Array<string | number | undefined>): string {
+  const hash = createHash('sha256');
+  parts.forEach(part => hash.update(`${part ?? ''}\u0000`));
+  return hash.digest('hex');
+}
+
+class MemoryCacheBackend implements CacheBackend {
+  readonly name = 'memory';
+  load<T>(): CacheEntry<T>[] {
+    return [];
+  }
+  save(): void {
+    // Nothing to persist; the cache itself is the process-wide copy
+  }
+}
+
+class FileCacheBackend implements CacheBackend {
+  readonly name = 'file';
+
+  load<T>(namespace: string): CacheEntry<T>[] {
+    return readJsonFile<CacheEntry<T>[]>(`cache-${namespace}.json`, []);
+  }
+
+  save<T>(namespace: string, entries: CacheEntry<T>[]): void {
+    writeJsonFile(`cache-${namespace}.json`, entries);
+  }
+}
+
+class SqliteCacheBackend implements CacheBackend {
+  readonly name = 'sqlite';
+
+  constructor() {
+    getSqliteDatabase().exec(`
+      CREATE TABLE IF NOT EXISTS cache_entries (
+        namespace TEXT NOT NULL,
+        key TEXT NOT NULL,
+        value TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL,
+        position INTEGER NOT NULL,
+        PRIMARY KEY (namespace, key)
+      )
+    `);
+  }
+
+  load<T>(namespace: string): CacheEntry<T>[] {
+    const rows = getSqliteDatabase()
+      .prepare('SELECT key, value, created_at, expires_at FROM cache_entries WHERE namespace = ? ORDER BY position')
+      .all(namespace) as Array<{ key: string; value: string; created_at: number; expires_at: number }>;
+    return rows.map(row => ({
+      key: row.key,
+      value: JSON.parse(row.value) as T,
+      createdAt: row.created_at,
+      expiresAt: row.expires_at
+    }));
+  }
+
+  // The cache is bounded, so replacing the namespace wholesale keeps LRU order without per-hit writes
+  save<T>(namespace: string, entries: CacheEntry<T>[]): void {
+    const db = getSqliteDatabase();
+    const clear = db.prepare('DELETE FROM cache_entries WHERE namespace = ?');
+    const insert = db.prepare(`
+      INSERT INTO cache_entries (namespace, key, value, created_at, expires_at, position) VALUES (?, ?, ?, ?, ?, ?)
+    `);
+    db.transaction((rows: CacheEntry<T>[]) => {
+      clear.run(namespace);
+      rows.forEach((entry, position) => insert.run(
+        namespace, entry.key, JSON.stringify(entry.value), entry.createdAt, entry.expiresAt, position
+      ));
+    })(entries);
+  }
+}
+
+export function createCacheBackend(kind: string = process.env.CACHE_BACKEND || 'memory'): CacheBackend {
+  switch (kind) {
+    case 'file':
+      return new FileCacheBackend();
+    case 'sqlite':
+      return new SqliteCacheBackend();
+    default:
+      return new MemoryCacheBackend();
+  }
+}
+
+export class ResponseCache<T> {
+  // Map iteration order doubles as LRU order: a hit re-inserts the entry at the end
+  private entries = new Map<string, CacheEntry<T>>();
+  private inFlight = new Map<string, Promise<T>>();
+  private persistTimer: ReturnType<typeof setTimeout> | null = null;
+  private hits = 0;
+  private misses = 0;
+  private coalesced = 0;
+  private evictions = 0;
+
+  constructor(
+    private namespace: string,
+    private backend: CacheBackend,
+    private maxEntries: number = DEFAULT_MAX_ENTRIES
+  ) {
+    try {
+      const now = Date.now();
+      backend.load<T>(namespace)
+        .filter(entry => entry.expiresAt > now)
+        .slice(-maxEntries)
+        .forEach(entry => this.entries.set(entry.key, entry));
+    } catch (error) {
+      console.warn(`⚠️ Failed to load ${namespace} cache from ${backend.name} backend:`, (error as Error).message);
+    }
+  }
+
+  get(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      if (entry) this.entries.delete(key); // Expired
+      this.misses += 1;
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits += 1;
+    return entry.value;
+  }
+
+  set(key: string, value: T, ttlMs: number = CACHE_TTL.default): void {
+    const now = Date.now();
+    this.entries.delete(key);
+    this.entries.set(key, { key, value, createdAt: now, expiresAt: now + ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      this.evictions += 1;
+    }
+    this.schedulePersist();
+  }
+
+  /**
+   * Cached value, the result of an identical in-flight call, or a fresh compute() that is then cached.
+   * A follower whose leader was cancelled runs compute() itself unless its own signal is aborted too.
+   */
+  async getOrCompute(
+    key: string,
+    compute: () => Promise<T>,
+    // refresh computes anew even when the key is cached or in flight; the new value replaces the old
+    options: { ttlMs?: number; signal?: AbortSignal; shouldCache?: (value: T) => boolean; refresh?: boolean } = {}
+  ): Promise<T> {
+    const cached = options.refresh ? undefined : this.get(key);
+    if (cached !== undefined) return cached;
+
+    const pending = options.refresh ? undefined : this.inFlight.get(key);
+    if (pending) {
+      this.coalesced += 1;
+      try {
+        return await pending;
+      } catch (error) {
+        if (options.signal?.aborted || (error as Error)?.name !== 'AbortError') throw error;
+      }
+    }
+
+    const promise = compute()
+      .then(value => {
+        if (options.shouldCache?.(value) ?? true) this.set(key, value, options.ttlMs);
+        return value;
+      })
+      .finally(() => {
+        if (this.inFlight.get(key) === promise) this.inFlight.delete(key);
+      });
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+
+  getStats(): CacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      namespace: this.namespace,
+      backend: this.backend.name,
+      size: this.entries.size,
+      maxEntries: this.maxEntries,
+      hits: this.hits,
+      misses: this.misses,
+      coalesced: this.coalesced,
+      evictions: this.evictions,
+      // Joining an in-flight call saves a model call just like a hit does
+      hitRate: lookups ? Math.round(((this.hits + this.coalesced) / lookups) * 1000) / 1000 : 0
+    };
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.flush();
+  }
+
+  /** Writes pending changes immediately */
+  flush(): void {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+    }
+    try {
+      const now = Date.now();
+      this.backend.save(this.namespace, [...this.entries.values()].filter(entry => entry.expiresAt > now));
+    } catch (error) {
+      console.warn(`⚠️ Failed to persist ${this.namespace} cache to ${this.backend.name} backend:`, (error as Error).message);
+    }
+  }
+
+  private schedulePersist(): void {
+    if (this.persistTimer) return;
+    this.persistTimer = setTimeout(() => this.flush(), PERSIST_DEBOUNCE_MS);
+    // Never keep the process alive just to write the cache
+    this.persistTimer.unref?.();
+  }
+}
+
+const cacheBackend = createCacheBackend();
+const maxEntries = Number(process.env.CACHE_MAX_ENTRIES) || DEFAULT_MAX_ENTRIES;
+
+/** Individual model completions, keyed by model + full prompt + conversation context */
+export const responseCache = new ResponseCache<CompletionResult>('responses', cacheBackend, maxEntries);
+
+/** Web search sources, keyed by cleaned query + result count */
+export const searchCache = new ResponseCache<WebSource[]>('search', cacheBackend, maxEntries);
@@ -0,0 +1,81 @@
+/**
+ * Sessions
+ * A signed-in user is a JWT (HS256, signed with AUTH_SECRET) in an httpOnly cookie. The token carries
+ * the user's id and role and expires after AUTH_SESSION_TTL_HOURS, so checking it needs no lookup and
+ * works in the middleware as well as the API routes. API clients may send the same token as
+ * `Authorization: Bearer <token>` instead of the cookie.
+ *
+ * AUTH_ENABLED=true makes the middleware require a session for the chat pages and API; without it
+ * sign-in still works but anonymous use is allowed.
+ */
+
+import jwt from 'jsonwebtoken';
+import { NextRequest, NextResponse } from 'next/server';
+import type { AuthUser, UserRole } from '@/types/chat';
+
+export const SESSION_COOKIE = 'chatqora_session';
+
+export const AUTH_ENABLED = process.env.AUTH_ENABLED === 'true';
+
+const SESSION_TTL = (Number(process.env.AUTH_SESSION_TTL_HOURS) || 24 * 7) * 60 * 60; // Seconds
+
+export interface Session {
+  userId: string;
+  username: string;
+  role: UserRole;
+  expiresAt: number; // Epoch seconds
+}
+
+interface SessionClaims {
+  sub: string;
+  username: string;
+  role: UserRole;
+  exp: number;
+}
+
+const getSecret = (): string | undefined => process.env.AUTH_SECRET || process.env.NEXTAUTH_SECRET;
+
+/** Throws when AUTH_SECRET isn't set, since an unsigned or guessable session is worse than none */
+export function createSessionToken(user: AuthUser): string {
+  const secret = getSecret();
+  if (!secret) throw new Error('AUTH_SECRET is not set');
+  return jwt.sign({ username: user.username, role: user.role }, secret, {
+    algorithm: 'HS256',
+    subject: user.id,
+    expiresIn: SESSION_TTL
+  });
+}
+
+/** The session in a token, or null if it is malformed, tampered with or expired */
+export function verifySessionToken(token: string): Session | null {
+  const secret = getSecret();
+  if (!secret) return null;
+  try {
+    const claims = jwt.verify(token, secret, { algorithms: ['HS256'] }) as SessionClaims;
+    return { userId: claims.sub, username: claims.username, role: claims.role, expiresAt: claims.exp };
+  } catch {
+    return null;
+  }
+}
+
+export function getSession(request: NextRequest): Session | null {
+  const token = request.cookies.get(SESSION_COOKIE)?.value
+    || request.headers.get('authorization')?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  return token ? verifySessionToken(token) : null;
+}
+
+export function setSessionCookie<T extends NextResponse>(response: T, token: string): T {
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    maxAge: SESSION_TTL,
+    path: '/'
+  });
+  return response;
+}
+
+export function clearSessionCookie<T extends NextResponse>(response: T): T {
+  response.cookies.set(SESSION_COOKIE, '', { httpOnly: true, sameSite: 'lax', maxAge: 0, path: '/' });
+  return response;
+}
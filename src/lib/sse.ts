@@ -0,0 +1,116 @@
+/**
+ * Server-Sent Events helpers
+ * Shared by the chat API (writing events) and the chat UI / FusionEngine (reading events)
+ */
+
+export interface SSEMessage {
+  event: string;
+  data: string;
+}
+
+export const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  'Connection': 'keep-alive',
+  'X-Accel-Buffering': 'no'
+};
+
+/**
+ * Creates a writable SSE stream. Events are JSON encoded; writes after close are ignored.
+ * onCancel fires when the client disconnects before the stream is closed.
+ */
+export function createSSEStream(onCancel?: () => void) {
+  const encoder = new TextEncoder();
+  let controller: ReadableStreamDefaultController<Uint8Array> | null = null;
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(c) {
+      controller = c;
+    },
+    cancel() {
+      // Client disconnected
+      closed = true;
+      onCancel?.();
+    }
+  });
+
+  const send = (event: string, data: unknown) => {
+    if (closed || !controller) return;
+    try {
+      controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+    } catch {
+      closed = true;
+    }
+  };
+
+  const close = () => {
+    if (closed || !controller) return;
+    closed = true;
+    try {
+      controller.close();
+    } catch {
+      // Already closed by the runtime
+    }
+  };
+
+  return {
+    stream,
+    send,
+    close,
+    isClosed: () => closed
+  };
+}
+
+/**
+ * Reads an SSE body and invokes onMessage for every complete event.
+ * Comment lines (": keep-alive") are skipped; events without a name default to "message".
+ */
+export async function readSSEStream(
+  body: ReadableStream<Uint8Array>,
+  onMessage: (message: SSEMessage) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const flushEvent = (rawEvent: string) => {
+    let event = 'message';
+    const dataLines: string[] = [];
+
+    rawEvent.split('\n').forEach(line => {
+      if (!line || line.startsWith(':')) return;
+      const separator = line.indexOf(':');
+      const field = separator === -1 ? line : line.slice(0, separator);
+      const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+
+      if (field === 'event') event = value;
+      if (field === 'data') dataLines.push(value);
+    });
+
+    if (dataLines.length > 0) {
+      onMessage({ event, data: dataLines.join('\n') });
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    // Normalised after joining, so a \r\n split across two chunks still ends a line. A trailing \r
+    // waits for the next chunk in case its \n is there.
+    buffer = (buffer + decoder.decode(value, { stream: true })).replace(/\r\n/g, '\n');
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      flushEvent(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+
+  buffer += decoder.decode();
+  if (buffer.trim()) {
+    flushEvent(buffer.replace(/\r\n/g, '\n'));
+  }
+}
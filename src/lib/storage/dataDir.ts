@@ -0,0 +1,19 @@
+/**
+ * Local data directory
+ * File and SQLite backends keep their data under DATA_DIR (default ./.data, git-ignored).
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+
+export function getDataDir(): string {
+  const dir = path.resolve(process.env.DATA_DIR || '.data');
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+  return dir;
+}
+
+export function getDataPath(fileName: string): string {
+  return path.join(getDataDir(), fileName);
+}
@@ -0,0 +1,25 @@
+/**
+ * JSON file helpers for the file-backed stores
+ * Writes go to a temp file and are renamed into place so a crash never leaves half a file.
+ */
+
+import fs from 'node:fs';
+import { getDataPath } from './dataDir';
+
+export function readJsonFile<T>(fileName: string, fallback: T): T {
+  const filePath = getDataPath(fileName);
+  try {
+    if (!fs.existsSync(filePath)) return fallback;
+    return JSON.parse(fs.readFileSync(filePath, 'utf8')) as T;
+  } catch (error) {
+    console.warn(`⚠️ Could not read ${filePath}, starting empty:`, (error as Error).message);
+    return fallback;
+  }
+}
+
+export function writeJsonFile(fileName: string, data: unknown): void {
+  const filePath = getDataPath(fileName);
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(data, null, 2));
+  fs.renameSync(tempPath, filePath);
+}
@@ -0,0 +1,19 @@
+/**
+ * Shared SQLite connection
+ * One database file (DATA_DIR/chatqora.db) for every SQLite-backed store; each store creates its own tables.
+ */
+
+import Database from 'better-sqlite3';
+import { getDataPath } from './dataDir';
+
+let database: Database.Database | null = null;
+
+export function getSqliteDatabase(): Database.Database {
+  if (!database) {
+    database = new Database(process.env.SQLITE_PATH || getDataPath('chatqora.db'));
+    // WAL keeps readers unblocked while a request is writing
+    database.pragma('journal_mode = WAL');
+    database.pragma('busy_timeout = 5000');
+  }
+  return database;
+}
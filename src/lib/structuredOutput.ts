@@ -0,0 +1,303 @@
+/**
+ * Structured Output
+ * JSON Schema prompts, validation and automatic repair for callers that need machine-readable answers.
+ * Covers the commonly used subset of JSON Schema: type, enum, const, properties, required,
+ * additionalProperties, items, minItems/maxItems, minLength/maxLength, pattern, minimum/maximum and anyOf.
+ */
+
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  anyOf?: JsonSchema[];
+}
+
+export interface StructuredOutput<T = unknown> {
+  value: T | null; // Null when no attempt validated
+  valid: boolean;
+  errors: string[]; // Validation errors of the last attempt; empty when valid
+  repairs: number; // Repair prompts sent after the first attempt
+  raw: string; // Model text of the last attempt
+}
+
+export const MAX_REPAIR_ATTEMPTS = 2;
+
+const JSON_TYPES: JsonSchemaType[] = ['string', 'number', 'integer', 'boolean', 'object', 'array', 'null'];
+const VALIDATED_KEYWORDS = new Set([
+  'type', 'enum', 'const', 'properties', 'required', 'additionalProperties', 'items',
+  'minItems', 'maxItems', 'minLength', 'maxLength', 'pattern', 'minimum', 'maximum', 'anyOf'
+]);
+// Annotations models find useful but that don't constrain the value
+const ANNOTATION_KEYWORDS = new Set(['$schema', '$id', 'title', 'description', 'default', 'examples', 'format']);
+
+// The schema is embedded between these markers so it can be found again (mock provider, logs)
+const SCHEMA_START = 'JSON SCHEMA:';
+const SCHEMA_END = 'END SCHEMA';
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const typeOf = (value: unknown): JsonSchemaType => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JsonSchemaType;
+};
+
+/** Problems with a caller-supplied schema (unsupported keywords, bad types); empty when usable */
+export function getSchemaProblems(schema: unknown, path: string = '$'): string[] {
+  if (!isPlainObject(schema)) return [`${path}: schema must be an object`];
+
+  const problems: string[] = [];
+  for (const keyword of Object.keys(schema)) {
+    if (!VALIDATED_KEYWORDS.has(keyword) && !ANNOTATION_KEYWORDS.has(keyword)) {
+      problems.push(`${path}: unsupported keyword "${keyword}"`);
+    }
+  }
+
+  const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+  types.filter(type => !JSON_TYPES.includes(type as JsonSchemaType))
+    .forEach(type => problems.push(`${path}: unknown type "${String(type)}"`));
+
+  if (schema.properties !== undefined) {
+    if (!isPlainObject(schema.properties)) {
+      problems.push(`${path}.properties: must be an object`);
+    } else {
+      Object.entries(schema.properties).forEach(([name, property]) =>
+        problems.push(...getSchemaProblems(property, `${path}.properties.${name}`)));
+    }
+  }
+  if (schema.required !== undefined && !(Array.isArray(schema.required) && schema.required.every(name => typeof name === 'string'))) {
+    problems.push(`${path}.required: must be an array of property names`);
+  }
+  if (schema.items !== undefined) problems.push(...getSchemaProblems(schema.items, `${path}.items`));
+  if (isPlainObject(schema.additionalProperties)) {
+    problems.push(...getSchemaProblems(schema.additionalProperties, `${path}.additionalProperties`));
+  }
+  if (schema.anyOf !== undefined) {
+    if (!Array.isArray(schema.anyOf) || schema.anyOf.length === 0) {
+      problems.push(`${path}.anyOf: must be a non-empty array`);
+    } else {
+      schema.anyOf.forEach((option, index) => problems.push(...getSchemaProblems(option, `${path}.anyOf[${index}]`)));
+    }
+  }
+  if (typeof schema.pattern === 'string') {
+    try {
+      new RegExp(schema.pattern);
+    } catch {
+      problems.push(`${path}.pattern: invalid regular expression`);
+    }
+  }
+
+  return problems;
+}
+
+/** Every way `value` violates `schema`, as "path: message" strings; empty when valid */
+export function validateJson(value: unknown, schema: JsonSchema, path: string = '$'): string[] {
+  const errors: string[] = [];
+  const actual = typeOf(value);
+
+  if (schema.type !== undefined) {
+    const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+    // Integers are numbers too
+    const matches = allowed.includes(actual) || (actual === 'integer' && allowed.includes('number'));
+    if (!matches) return [`${path}: expected ${allowed.join(' or ')}, got ${actual}`];
+  }
+
+  if (schema.enum && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+    errors.push(`${path}: must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+  }
+  if (schema.const !== undefined && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+    errors.push(`${path}: must equal ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) errors.push(`${path}: shorter than ${schema.minLength} characters`);
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) errors.push(`${path}: longer than ${schema.maxLength} characters`);
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) errors.push(`${path}: does not match pattern ${schema.pattern}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path}: less than ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path}: greater than ${schema.maximum}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) errors.push(`${path}: fewer than ${schema.minItems} items`);
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) errors.push(`${path}: more than ${schema.maxItems} items`);
+    if (schema.items) {
+      value.forEach((item, index) => errors.push(...validateJson(item, schema.items!, `${path}[${index}]`)));
+    }
+  }
+
+  if (isPlainObject(value)) {
+    (schema.required || [])
+      .filter(name => !(name in value))
+      .forEach(name => errors.push(`${path}: missing required property "${name}"`));
+
+    for (const [name, propertyValue] of Object.entries(value)) {
+      const propertySchema = schema.properties?.[name];
+      if (propertySchema) {
+        errors.push(...validateJson(propertyValue, propertySchema, `${path}.${name}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}: unexpected property "${name}"`);
+      } else if (isPlainObject(schema.additionalProperties)) {
+        errors.push(...validateJson(propertyValue, schema.additionalProperties, `${path}.${name}`));
+      }
+    }
+  }
+
+  if (schema.anyOf) {
+    const optionErrors = schema.anyOf.map(option => validateJson(value, option, path));
+    if (optionErrors.every(list => list.length > 0)) {
+      errors.push(`${path}: does not match any allowed shape (${optionErrors.map(list => list[0]).join('; ')})`);
+    }
+  }
+
+  return errors;
+}
+
+// First balanced {...} or [...] in the text, skipping brackets inside strings
+function findJsonSpan(text: string): string | null {
+  const start = text.search(/[[{]/);
+  if (start === -1) return null;
+
+  const stack: string[] = [];
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      stack.push(char === '{' ? '}' : ']');
+    } else if (char === '}' || char === ']') {
+      if (stack.pop() !== char) return null;
+      if (stack.length === 0) return text.slice(start, i + 1);
+    }
+  }
+  return null;
+}
+
+/** JSON value from model text: a bare value, a ```json fence, or the first object/array inside prose */
+export function extractJson(text: string): { ok: true; value: unknown } | { ok: false; error: string } {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)\s*```/i);
+  const candidates = [text.trim(), fenced?.[1], findJsonSpan(fenced?.[1] ?? text)]
+    .filter((candidate): candidate is string => !!candidate);
+
+  for (const candidate of candidates) {
+    try {
+      return { ok: true, value: JSON.parse(candidate) };
+    } catch {
+      // Try the next, narrower candidate
+    }
+  }
+  return { ok: false, error: '$: reply is not valid JSON' };
+}
+
+/** Parses and validates one model reply */
+export function parseStructured<T = unknown>(text: string, schema: JsonSchema): { value: T | null; errors: string[] } {
+  const extracted = extractJson(text);
+  if (!extracted.ok) return { value: null, errors: [extracted.error] };
+
+  const errors = validateJson(extracted.value, schema);
+  return { value: errors.length === 0 ? extracted.value as T : null, errors };
+}
+
+/** Task prompt that asks for JSON matching the schema and nothing else */
+export function createStructuredPrompt(task: string, schema: JsonSchema): string {
+  return `${task}
+
+Respond with JSON only: a single value that validates against the schema below. No markdown, no commentary.
+${SCHEMA_START}
+${JSON.stringify(schema, null, 2)}
+${SCHEMA_END}`;
+}
+
+export function createRepairPrompt(task: string, schema: JsonSchema, previous: string, errors: string[]): string {
+  return `${createStructuredPrompt(task, schema)}
+
+Your previous reply did not validate:
+${previous.substring(0, 2000)}
+
+Validation errors:
+${errors.slice(0, 10).map(error => `- ${error}`).join('\n')}
+
+Return the corrected JSON only.`;
+}
+
+/** Schema embedded by createStructuredPrompt, or null for ordinary prompts */
+export function extractSchemaFromPrompt(prompt: string): JsonSchema | null {
+  const start = prompt.lastIndexOf(SCHEMA_START);
+  const end = prompt.indexOf(SCHEMA_END, start);
+  if (start === -1 || end === -1) return null;
+  try {
+    return JSON.parse(prompt.slice(start + SCHEMA_START.length, end)) as JsonSchema;
+  } catch {
+    return null;
+  }
+}
+
+/** Smallest value that satisfies the schema; used by the mock provider to answer structured prompts */
+export function createSampleFromSchema(schema: JsonSchema): unknown {
+  if (schema.const !== undefined) return schema.const;
+  if (schema.enum?.length) return schema.enum[0];
+  if (schema.anyOf?.length) return createSampleFromSchema(schema.anyOf[0]);
+
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type ?? (schema.properties ? 'object' : 'string');
+  switch (type) {
+    case 'object':
+      return Object.fromEntries((schema.required || Object.keys(schema.properties || {}))
+        .map(name => [name, createSampleFromSchema(schema.properties?.[name] ?? {})]));
+    case 'array':
+      return Array.from({ length: schema.minItems ?? 1 }, () => createSampleFromSchema(schema.items ?? {}));
+    case 'number':
+    case 'integer':
+      return schema.minimum ?? 0;
+    case 'boolean':
+      return true;
+    case 'null':
+      return null;
+    default:
+      return 'sample'.padEnd(schema.minLength ?? 0, '.').substring(0, schema.maxLength ?? Infinity);
+  }
+}
+
+/**
+ * Asks for JSON and re-prompts with the validation errors until the reply validates
+ * or the repair budget is spent. `call` receives each prompt and returns the model's text.
+ */
+export async function completeStructured<T = unknown>(
+  task: string,
+  schema: JsonSchema,
+  call: (prompt: string, attempt: number) => Promise<string>,
+  maxRepairs: number = MAX_REPAIR_ATTEMPTS
+): Promise<StructuredOutput<T>> {
+  let raw = await call(createStructuredPrompt(task, schema), 0);
+  let result = parseStructured<T>(raw, schema);
+  let repairs = 0;
+
+  while (result.errors.length > 0 && repairs < maxRepairs) {
+    repairs += 1;
+    raw = await call(createRepairPrompt(task, schema, raw, result.errors), repairs);
+    result = parseStructured<T>(raw, schema);
+  }
+
+  return { value: result.value, valid: result.errors.length === 0, errors: result.errors, repairs, raw };
+}
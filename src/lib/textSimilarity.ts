@@ -0,0 +1,35 @@
+/**
+ * Text similarity
+ * Bag-of-words comparison shared by the agreement evaluator and provenance: stemmed content-word
+ * counts compared by cosine similarity. Cheap and deterministic; it sees shared wording, not meaning.
+ */
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'your', 'with', 'this', 'that', 'these', 'those',
+  'from', 'they', 'them', 'their', 'there', 'have', 'has', 'had', 'was', 'were', 'will', 'would',
+  'can', 'could', 'should', 'may', 'might', 'also', 'more', 'most', 'some', 'such', 'than', 'then',
+  'into', 'onto', 'about', 'over', 'when', 'where', 'which', 'what', 'who', 'how', 'why', 'its',
+  'our', 'all', 'any', 'each', 'other', 'one', 'use', 'used', 'using', 'very', 'just', 'like', 'here'
+]);
+
+// Crude suffix stripping so "caches", "cached" and "caching" count as the same word
+const stem = (word: string): string => word.replace(/(ing|ed|es|s)$/, '') || word;
+
+/** Stemmed content words and how often each occurs */
+export function countTerms(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const word of text.toLowerCase().match(/[a-z][a-z0-9'-]+/g) || []) {
+    if (word.length < 3 || STOP_WORDS.has(word)) continue;
+    const term = stem(word);
+    counts.set(term, (counts.get(term) ?? 0) + 1);
+  }
+  return counts;
+}
+
+export function cosineSimilarity(a: Map<string, number>, b: Map<string, number>): number {
+  let dot = 0;
+  for (const [term, count] of a) dot += count * (b.get(term) ?? 0);
+  const norm = (counts: Map<string, number>) => Math.sqrt([...counts.values()].reduce((sum, count) => sum + count * count, 0));
+  const denominator = norm(a) * norm(b);
+  return denominator > 0 ? dot / denominator : 0;
+}
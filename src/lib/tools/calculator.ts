@@ -0,0 +1,172 @@
+/**
+ * Calculator tool
+ * Recursive-descent arithmetic evaluator; never hands the expression to eval or Function.
+ * Supports + - * / % ^ (or **), parentheses, pi/e and common Math functions.
+ */
+
+import { Tool, ToolError } from './types';
+
+const MAX_EXPRESSION_LENGTH = 500;
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  sqrt: Math.sqrt,
+  cbrt: Math.cbrt,
+  abs: Math.abs,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  log: Math.log10,
+  ln: Math.log,
+  exp: Math.exp,
+  pow: Math.pow,
+  min: Math.min,
+  max: Math.max
+};
+
+type Token = { type: 'number'; value: number } | { type: 'name'; value: string } | { type: 'op'; value: string };
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /\s*(?:(\d+(?:\.\d*)?(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?)|([a-z_][a-z0-9_]*)|(\*\*|[-+*/%^(),]))/iy;
+  let index = 0;
+
+  while (index < expression.length) {
+    if (!expression.slice(index).trim()) break;
+    pattern.lastIndex = index;
+    const match = pattern.exec(expression);
+    if (!match) throw new ToolError(`Unexpected character "${expression.slice(index).trim()[0]}"`);
+
+    if (match[1] !== undefined) tokens.push({ type: 'number', value: Number(match[1]) });
+    else if (match[2] !== undefined) tokens.push({ type: 'name', value: match[2].toLowerCase() });
+    else tokens.push({ type: 'op', value: match[3] === '**' ? '^' : match[3] });
+    index = pattern.lastIndex;
+  }
+  return tokens;
+}
+
+// Grammar: expr := term (('+'|'-') term)*; term := power (('*'|'/'|'%') power)*;
+// power := unary ('^' power)?; unary := '-' unary | '+' unary | primary
+class Parser {
+  private position = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): number {
+    const value = this.expression();
+    if (this.position < this.tokens.length) throw new ToolError('Unexpected input after the expression');
+    return value;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private takeOp(...ops: string[]): string | null {
+    const token = this.peek();
+    if (token?.type === 'op' && ops.includes(token.value)) {
+      this.position++;
+      return token.value;
+    }
+    return null;
+  }
+
+  private expect(op: string): void {
+    if (!this.takeOp(op)) throw new ToolError(`Expected "${op}"`);
+  }
+
+  private expression(): number {
+    let value = this.term();
+    for (let op = this.takeOp('+', '-'); op; op = this.takeOp('+', '-')) {
+      value = op === '+' ? value + this.term() : value - this.term();
+    }
+    return value;
+  }
+
+  private term(): number {
+    let value = this.power();
+    for (let op = this.takeOp('*', '/', '%'); op; op = this.takeOp('*', '/', '%')) {
+      const right = this.power();
+      if ((op === '/' || op === '%') && right === 0) throw new ToolError('Division by zero');
+      value = op === '*' ? value * right : op === '/' ? value / right : value % right;
+    }
+    return value;
+  }
+
+  private power(): number {
+    const base = this.unary();
+    // Right-associative: 2^3^2 = 2^9
+    return this.takeOp('^') ? Math.pow(base, this.power()) : base;
+  }
+
+  private unary(): number {
+    if (this.takeOp('-')) return -this.unary();
+    if (this.takeOp('+')) return this.unary();
+    return this.primary();
+  }
+
+  private primary(): number {
+    const token = this.peek();
+    if (!token) throw new ToolError('Unexpected end of expression');
+    this.position++;
+
+    if (token.type === 'number') return token.value;
+
+    if (token.type === 'name') {
+      if (token.value in CONSTANTS) return CONSTANTS[token.value];
+      const fn = FUNCTIONS[token.value];
+      if (!fn) throw new ToolError(`Unknown name "${token.value}"`);
+
+      this.expect('(');
+      const args = [this.expression()];
+      while (this.takeOp(',')) args.push(this.expression());
+      this.expect(')');
+      return fn(...args);
+    }
+
+    if (token.value === '(') {
+      const value = this.expression();
+      this.expect(')');
+      return value;
+    }
+    throw new ToolError(`Unexpected "${token.value}"`);
+  }
+}
+
+/** Evaluates an arithmetic expression; throws ToolError for anything else */
+export function evaluateExpression(expression: string): number {
+  if (expression.length > MAX_EXPRESSION_LENGTH) {
+    throw new ToolError(`Expression is longer than ${MAX_EXPRESSION_LENGTH} characters`);
+  }
+  const value = new Parser(tokenize(expression)).parse();
+  if (!Number.isFinite(value)) throw new ToolError('Result is not a finite number');
+  return value;
+}
+
+export const calculatorTool: Tool = {
+  definition: {
+    name: 'calculator',
+    description: 'Evaluates an arithmetic expression exactly. Supports + - * / % ^, parentheses, pi, e and sqrt, abs, round, floor, ceil, sin, cos, tan, log (base 10), ln, exp, pow, min, max.',
+    parameters: {
+      type: 'object',
+      required: ['expression'],
+      properties: {
+        expression: { type: 'string', minLength: 1, description: 'For example "(1200 * 0.075) / 12" or "sqrt(2) ^ 2"' }
+      },
+      additionalProperties: false
+    }
+  },
+
+  async execute(args) {
+    const expression = args.expression as string;
+    // Trim binary float noise (0.1 + 0.2) without hiding real precision
+    return `${expression} = ${Number(evaluateExpression(expression).toPrecision(15))}`;
+  }
+};
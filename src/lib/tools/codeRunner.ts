@@ -0,0 +1,135 @@
+/**
+ * JavaScript runner tool
+ * Runs model-written JavaScript in a worker thread, inside a fresh node:vm context: no require, process,
+ * fetch or timers, and string code generation disabled. The worker has its own heap limit and is
+ * terminated if it outlives the time limit, so a runaway script neither blocks other requests nor
+ * takes the server's memory with it. Output is what the code logs plus its final expression value.
+ *
+ * node:vm is a containment measure, not a security boundary, so the tool is off unless
+ * CODE_RUNNER_ENABLED=true; only turn it on for models and deployments you trust.
+ */
+
+import { Worker } from 'node:worker_threads';
+import { Tool, ToolError } from './types';
+
+const RUN_TIMEOUT_MS = 1000;
+// Starting the worker takes a moment; past this it is terminated whatever the code is doing
+const WORKER_GRACE_MS = 1000;
+const MEMORY_LIMIT_MB = 32;
+const MAX_CODE_LENGTH = 10_000;
+const MAX_OUTPUT_LENGTH = 4000;
+const MAX_OUTPUT_LINES = 200;
+
+// Everything the code can touch is created inside the context: a host function or object handed in
+// would lead back to the host's Function constructor (and from there to process).
+// Only strings come back out, and formatting runs under the same timeout as the code.
+const BOOTSTRAP = `
+  var __output = [];
+  var __format = function (value) {
+    if (typeof value === 'string') return value;
+    if (value === undefined) return 'undefined';
+    try { return JSON.stringify(value) ?? String(value); } catch (error) { return String(value); }
+  };
+  var console = {};
+  console.log = console.info = console.warn = console.error = function () {
+    if (__output.length < ${MAX_OUTPUT_LINES}) __output.push(Array.prototype.map.call(arguments, __format).join(' '));
+  };
+`;
+
+// Evaluated as the worker's script rather than loaded from a file, so bundling the app can't break it.
+// Thrown values come from the sandbox: only a plain own data property is read, never a getter or proxy trap.
+const WORKER_SOURCE = `
+  const { parentPort, workerData } = require('node:worker_threads');
+  const vm = require('node:vm');
+  const { types } = require('node:util');
+  const { code, bootstrap, timeoutMs } = workerData;
+
+  const describeThrown = (error) => {
+    if (typeof error === 'string') return error;
+    if (typeof error !== 'object' || error === null || types.isProxy(error)) return 'Execution failed';
+    const message = Object.getOwnPropertyDescriptor(error, 'message')?.value;
+    return typeof message === 'string' ? message : 'Execution failed';
+  };
+
+  const context = vm.createContext(Object.create(null), {
+    codeGeneration: { strings: false, wasm: false },
+    microtaskMode: 'afterEvaluate' // Promise callbacks run inside the timeout too
+  });
+  const run = (source, filename) => new vm.Script(source, { filename }).runInContext(context, { timeout: timeoutMs });
+
+  try {
+    run(bootstrap, 'bootstrap.js');
+    context.__result = run(code, 'tool-code.js');
+    const result = run('__format(__result)', 'format.js');
+    const output = run('__output.join("\\\\n")', 'output.js');
+    parentPort.postMessage({
+      output: typeof output === 'string' && output ? output.split('\\n') : [],
+      result: typeof result === 'string' ? result : 'undefined'
+    });
+  } catch (error) {
+    const message = describeThrown(error);
+    parentPort.postMessage({ error: /timed out/i.test(message) ? 'timeout' : message });
+  }
+`;
+
+const TIMEOUT_MESSAGE = `Execution timed out after ${RUN_TIMEOUT_MS}ms`;
+
+/** Runs the code in a worker and resolves with its console output and result */
+export function runJavaScript(code: string): Promise<{ output: string[]; result: string }> {
+  if (code.length > MAX_CODE_LENGTH) {
+    return Promise.reject(new ToolError(`Code is longer than ${MAX_CODE_LENGTH} characters`));
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(WORKER_SOURCE, {
+      eval: true,
+      workerData: { code, bootstrap: BOOTSTRAP, timeoutMs: RUN_TIMEOUT_MS },
+      resourceLimits: { maxOldGenerationSizeMb: MEMORY_LIMIT_MB, maxYoungGenerationSizeMb: 8, stackSizeMb: 4 },
+      stdout: true, // Nothing the worker writes reaches the server's output
+      stderr: true
+    });
+
+    let settled = false;
+    const settle = (finish: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timeoutId);
+      void worker.terminate();
+      finish();
+    };
+    const timeoutId = setTimeout(() => settle(() => reject(new ToolError(TIMEOUT_MESSAGE))), RUN_TIMEOUT_MS + WORKER_GRACE_MS);
+
+    worker.once('message', (message: { output: string[]; result: string } | { error: string }) => settle(() => {
+      if ('error' in message) reject(new ToolError(message.error === 'timeout' ? TIMEOUT_MESSAGE : message.error));
+      else resolve(message);
+    }));
+    worker.once('error', (error: Error & { code?: string }) => settle(() => reject(new ToolError(
+      error.code === 'ERR_WORKER_OUT_OF_MEMORY' ? `Execution ran out of memory (limit ${MEMORY_LIMIT_MB} MB)` : 'Execution failed'
+    ))));
+    worker.once('exit', () => settle(() => reject(new ToolError('Execution failed'))));
+  });
+}
+
+export const codeRunnerTool: Tool = {
+  definition: {
+    name: 'run_javascript',
+    description: 'Runs JavaScript in an isolated sandbox (no network, files, modules or timers; 1 second and 32 MB limits) and returns console.log output and the value of the last expression. Use it for data processing, algorithms and precise calculations.',
+    parameters: {
+      type: 'object',
+      required: ['code'],
+      properties: {
+        code: { type: 'string', minLength: 1, description: 'Synchronous JavaScript; the last expression is returned' }
+      },
+      additionalProperties: false
+    }
+  },
+
+  async execute(args) {
+    const { output, result } = await runJavaScript(args.code as string);
+    const text = [
+      ...(output.length > 0 ? ['Output:', ...output] : []),
+      `Result: ${result}`
+    ].join('\n');
+    return text.length > MAX_OUTPUT_LENGTH ? `${text.substring(0, MAX_OUTPUT_LENGTH)}\n[output truncated]` : text;
+  }
+};
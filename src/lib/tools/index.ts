@@ -0,0 +1,108 @@
+/**
+ * Tool registry
+ * Tools FusionEngine can offer to models: web_search and calculator are built in, run_javascript
+ * when CODE_RUNNER_ENABLED=true.
+ * Arguments are parsed and validated against each tool's schema before it runs; failures become
+ * error results the model can read and recover from, never exceptions for the caller.
+ */
+
+import type { ToolCall, ToolDefinition } from '@/lib/providers';
+import { validateJson } from '@/lib/structuredOutput';
+import type { ToolInvocation } from '@/types/chat';
+import { Tool, ToolContext, ToolError } from './types';
+import { calculatorTool } from './calculator';
+import { codeRunnerTool } from './codeRunner';
+import { webSearchTool } from './webSearch';
+
+export * from './types';
+export type { ToolInvocation };
+export { evaluateExpression } from './calculator';
+export { runJavaScript } from './codeRunner';
+
+const TOOL_TIMEOUT_MS = 10_000;
+const MAX_RESULT_LENGTH = 4000;
+
+export class ToolRegistry {
+  private tools = new Map<string, Tool>();
+
+  register(tool: Tool): void {
+    this.tools.set(tool.definition.name, tool);
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  getNames(): string[] {
+    return [...this.tools.keys()];
+  }
+
+  /** Definitions to send to the model; all tools when names is omitted, unknown names skipped */
+  getDefinitions(names?: string[]): ToolDefinition[] {
+    return (names ?? this.getNames())
+      .map(name => this.tools.get(name)?.definition)
+      .filter((definition): definition is ToolDefinition => !!definition);
+  }
+
+  async execute(call: ToolCall, context: ToolContext = {}, round: number = 1): Promise<ToolInvocation> {
+    const startTime = Date.now();
+    let args: Record<string, unknown> = {};
+
+    const finish = (status: ToolInvocation['status'], result: string, error?: string): ToolInvocation => ({
+      id: call.id,
+      tool: call.name,
+      arguments: args,
+      result: result.length > MAX_RESULT_LENGTH ? `${result.substring(0, MAX_RESULT_LENGTH)}\n[result truncated]` : result,
+      status,
+      error,
+      durationMs: Date.now() - startTime,
+      round
+    });
+
+    const tool = this.tools.get(call.name);
+    if (!tool) {
+      return finish('error', `Error: unknown tool "${call.name}"`, 'Unknown tool');
+    }
+
+    try {
+      const parsed: unknown = JSON.parse(call.arguments || '{}');
+      if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        throw new ToolError('Arguments must be a JSON object');
+      }
+      args = parsed as Record<string, unknown>;
+    } catch (error) {
+      const message = error instanceof ToolError ? error.message : 'Arguments are not valid JSON';
+      return finish('error', `Error: ${message}`, message);
+    }
+
+    const errors = validateJson(args, tool.definition.parameters);
+    if (errors.length > 0) {
+      return finish('error', `Error: invalid arguments (${errors.join('; ')})`, errors[0]);
+    }
+
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    try {
+      const timeout = new Promise<never>((_, reject) => {
+        timeoutId = setTimeout(() => reject(new ToolError(`Timed out after ${TOOL_TIMEOUT_MS}ms`)), TOOL_TIMEOUT_MS);
+      });
+      const result = await Promise.race([tool.execute(args, context), timeout]);
+      return finish('success', result);
+    } catch (error) {
+      const message = (error as Error).message;
+      if (!(error instanceof ToolError)) {
+        console.warn(`⚠️ Tool ${call.name} failed:`, message);
+      }
+      return finish('error', `Error: ${message}`, message);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
+
+export const toolRegistry = new ToolRegistry();
+toolRegistry.register(webSearchTool);
+toolRegistry.register(calculatorTool);
+// Opt-in: node:vm only contains model-written code, it doesn't isolate it
+if (process.env.CODE_RUNNER_ENABLED === 'true') {
+  toolRegistry.register(codeRunnerTool);
+}
@@ -0,0 +1,24 @@
+/**
+ * Tool types
+ * Functions models can call mid-answer (OpenAI-style tool calling). Each tool declares a JSON Schema
+ * for its arguments; the registry validates arguments before execute() ever sees them.
+ */
+
+import type { ToolDefinition } from '@/lib/providers';
+
+export interface ToolContext {
+  signal?: AbortSignal;
+}
+
+export interface Tool {
+  definition: ToolDefinition;
+  /** Text handed back to the model; throw ToolError for failures the model should see */
+  execute(args: Record<string, unknown>, context: ToolContext): Promise<string>;
+}
+
+export class ToolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ToolError';
+  }
+}
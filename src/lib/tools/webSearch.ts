@@ -0,0 +1,34 @@
+/**
+ * Web search tool
+ * Lets a model search mid-answer instead of relying on the route's keyword-gated pre-search.
+ * Shares the search cache with performWebSearch.
+ */
+
+import { performWebSearch } from '@/utils/webSearch';
+import { Tool, ToolError } from './types';
+
+export const webSearchTool: Tool = {
+  definition: {
+    name: 'web_search',
+    description: 'Searches the web for current information and returns the top results with title, URL and snippet. Use it for recent events, facts that change over time, or anything you are unsure about.',
+    parameters: {
+      type: 'object',
+      required: ['query'],
+      properties: {
+        query: { type: 'string', minLength: 2, description: 'Search terms' },
+        maxResults: { type: 'integer', minimum: 1, maximum: 8, description: 'Defaults to 5' }
+      },
+      additionalProperties: false
+    }
+  },
+
+  async execute(args) {
+    const results = await performWebSearch(args.query as string, (args.maxResults as number | undefined) ?? 5);
+    if (!results.success) throw new ToolError(results.error || 'Web search failed');
+    if (results.sources.length === 0) return 'No results found.';
+
+    return results.sources
+      .map((source, index) => `${index + 1}. ${source.title} (${source.source})\n   ${source.url}\n   ${source.snippet}`)
+      .join('\n');
+  }
+};
@@ -0,0 +1,117 @@
+/**
+ * Usage & Cost Accounting
+ * Per-request ledger of the tokens every model call used, priced from the model registry.
+ * Exact counts come from the provider's usage data; calls without it are estimated and flagged.
+ */
+
+import { modelRegistry } from '@/lib/modelRegistry';
+import { CompletionRequest, CompletionResult, getMessageText } from '@/lib/providers/types';
+import type { UsageSummary } from '@/types/chat';
+
+export type { UsageSummary };
+
+export type UsagePurpose =
+  | 'model'
+  | 'synthesis'
+  | 'critique'
+  | 'revision'
+  | 'rebuttal'
+  | 'judge'
+  | 'repair'
+  | 'evaluation'
+  | 'vision'
+  | 'recommendations'
+  | 'probe'
+  | 'chat';
+
+export interface UsageEntry {
+  modelId: string;
+  purpose: UsagePurpose;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+  estimated: boolean;
+  cached: boolean;
+}
+
+/** Rough count for text the provider didn't report usage for (~4 characters per token) */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/** USD for a call; registry prices are per 1M tokens, unknown models cost nothing */
+export function calculateCost(modelId: string, promptTokens: number, completionTokens: number): number {
+  const pricing = modelRegistry.get(modelId)?.pricing;
+  if (!pricing) return 0;
+  return (promptTokens * pricing.prompt + completionTokens * pricing.completion) / 1_000_000;
+}
+
+// Costs are fractions of a cent; keep enough precision to add up without float noise
+const roundCost = (cost: number): number => Math.round(cost * 1e8) / 1e8;
+
+export class UsageLedger {
+  private entries: UsageEntry[] = [];
+
+  /** Records a completed call; cached completions are counted but cost nothing */
+  record(
+    purpose: UsagePurpose,
+    request: Pick<CompletionRequest, 'model' | 'messages'>,
+    completion: CompletionResult,
+    options: { cached?: boolean } = {}
+  ): UsageEntry {
+    const cached = !!options.cached;
+    const usage = completion.usage;
+    const promptTokens = cached ? 0 : usage?.promptTokens
+      ?? estimateTokens(request.messages.map(getMessageText).join('\n'));
+    const completionTokens = cached ? 0 : usage?.completionTokens ?? estimateTokens(completion.content);
+
+    const entry: UsageEntry = {
+      modelId: request.model,
+      purpose,
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+      cost: calculateCost(request.model, promptTokens, completionTokens),
+      estimated: !cached && !usage,
+      cached
+    };
+    this.entries.push(entry);
+    return entry;
+  }
+
+  getEntries(): UsageEntry[] {
+    return [...this.entries];
+  }
+
+  getSummary(): UsageSummary {
+    const byModel: UsageSummary['byModel'] = {};
+    let promptTokens = 0;
+    let completionTokens = 0;
+    let cost = 0;
+
+    for (const entry of this.entries) {
+      promptTokens += entry.promptTokens;
+      completionTokens += entry.completionTokens;
+      cost += entry.cost;
+
+      const model = byModel[entry.modelId] ??= { promptTokens: 0, completionTokens: 0, cost: 0, calls: 0 };
+      model.promptTokens += entry.promptTokens;
+      model.completionTokens += entry.completionTokens;
+      model.cost = roundCost(model.cost + entry.cost);
+      model.calls += 1;
+    }
+
+    return {
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+      cost: roundCost(cost),
+      currency: 'USD',
+      calls: this.entries.length,
+      cachedCalls: this.entries.filter(entry => entry.cached).length,
+      estimated: this.entries.some(entry => entry.estimated),
+      byModel
+    };
+  }
+}
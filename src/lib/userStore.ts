@@ -0,0 +1,167 @@
+/**
+ * User Store
+ * Accounts that can sign in, with bcrypt password hashes and a role ("admin" or "user"). There is no
+ * sign-up: the first admin comes from AUTH_ADMIN_USERNAME / AUTH_ADMIN_PASSWORD and is created the
+ * first time the store loads without that user.
+ *
+ * Backend is chosen with USER_BACKEND: "sqlite" (default, DATA_DIR/chatqora.db) or "memory".
+ */
+
+import bcrypt from 'bcryptjs';
+import { getSqliteDatabase } from '@/lib/storage/sqlite';
+import type { AuthUser, UserRole } from '@/types/chat';
+
+export type { AuthUser, UserRole };
+
+const BCRYPT_ROUNDS = 10;
+
+export interface NewUser {
+  username: string;
+  email?: string;
+  name?: string;
+  role?: UserRole;
+  password: string;
+}
+
+export interface UserRecord extends AuthUser {
+  passwordHash: string;
+  createdAt: string;
+}
+
+export interface UserRepository {
+  readonly name: string;
+  get(id: string): AuthUser | undefined;
+  /** Username or email, case-insensitively; the hash is only for checking a password */
+  findByLogin(login: string): UserRecord | undefined;
+  /** Throws if the username or email is taken */
+  create(user: NewUser): AuthUser;
+}
+
+const toAuthUser = ({ id, username, email, name, role }: UserRecord): AuthUser => ({ id, username, email, name, role });
+
+const toRecord = ({ username, email = '', name, role = 'user', password }: NewUser): UserRecord => ({
+  id: crypto.randomUUID(),
+  username,
+  email,
+  name: name || username,
+  role,
+  passwordHash: bcrypt.hashSync(password, BCRYPT_ROUNDS),
+  createdAt: new Date().toISOString()
+});
+
+class MemoryUserRepository implements UserRepository {
+  readonly name = 'memory';
+  private users = new Map<string, UserRecord>();
+
+  get(id: string): AuthUser | undefined {
+    const user = this.users.get(id);
+    return user && toAuthUser(user);
+  }
+
+  findByLogin(login: string): UserRecord | undefined {
+    const wanted = login.toLowerCase();
+    return [...this.users.values()].find(user => user.username.toLowerCase() === wanted || (!!user.email && user.email.toLowerCase() === wanted));
+  }
+
+  create(user: NewUser): AuthUser {
+    if (this.findByLogin(user.username) || (user.email && this.findByLogin(user.email))) {
+      throw new Error(`User ${user.username} already exists`);
+    }
+    const record = toRecord(user);
+    this.users.set(record.id, record);
+    return toAuthUser(record);
+  }
+}
+
+interface UserRow {
+  id: string;
+  username: string;
+  email: string;
+  name: string;
+  role: UserRole;
+  password_hash: string;
+  created_at: string;
+}
+
+const fromRow = (row: UserRow): UserRecord => ({
+  id: row.id,
+  username: row.username,
+  email: row.email,
+  name: row.name,
+  role: row.role,
+  passwordHash: row.password_hash,
+  createdAt: row.created_at
+});
+
+class SqliteUserRepository implements UserRepository {
+  readonly name = 'sqlite';
+
+  constructor() {
+    getSqliteDatabase().exec(`
+      CREATE TABLE IF NOT EXISTS users (
+        id TEXT PRIMARY KEY,
+        username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        email TEXT NOT NULL,
+        name TEXT NOT NULL,
+        role TEXT NOT NULL,
+        password_hash TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+      CREATE UNIQUE INDEX IF NOT EXISTS users_by_email ON users (email COLLATE NOCASE) WHERE email <> '';
+    `);
+  }
+
+  get(id: string): AuthUser | undefined {
+    const row = getSqliteDatabase().prepare('SELECT * FROM users WHERE id = ?').get(id) as UserRow | undefined;
+    return row && toAuthUser(fromRow(row));
+  }
+
+  findByLogin(login: string): UserRecord | undefined {
+    const row = getSqliteDatabase()
+      .prepare("SELECT * FROM users WHERE username = ? COLLATE NOCASE OR (email <> '' AND email = ? COLLATE NOCASE)")
+      .get(login, login) as UserRow | undefined;
+    return row && fromRow(row);
+  }
+
+  create(user: NewUser): AuthUser {
+    const record = toRecord(user);
+    try {
+      getSqliteDatabase()
+        .prepare('INSERT INTO users (id, username, email, name, role, password_hash, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)')
+        .run(record.id, record.username, record.email, record.name, record.role, record.passwordHash, record.createdAt);
+    } catch (error) {
+      if ((error as { code?: string }).code?.startsWith('SQLITE_CONSTRAINT')) {
+        throw new Error(`User ${user.username} already exists`);
+      }
+      throw error;
+    }
+    return toAuthUser(record);
+  }
+}
+
+export function createUserRepository(kind: string = process.env.USER_BACKEND || 'sqlite'): UserRepository {
+  return kind === 'memory' ? new MemoryUserRepository() : new SqliteUserRepository();
+}
+
+/** Creates the configured admin account if it doesn't exist yet */
+export function seedAdminUser(repository: UserRepository): void {
+  const username = process.env.AUTH_ADMIN_USERNAME || 'admin';
+  const password = process.env.AUTH_ADMIN_PASSWORD;
+  if (!password || repository.findByLogin(username)) return;
+
+  repository.create({ username, email: process.env.AUTH_ADMIN_EMAIL, name: 'Administrator', role: 'admin', password });
+  console.log(`🔑 Created admin user "${username}"`);
+}
+
+// Compared against when the login matches no one, so unknown users take as long as wrong passwords
+const DUMMY_HASH = bcrypt.hashSync('not a real password', BCRYPT_ROUNDS);
+
+/** The user whose username or email and password match, or null */
+export async function authenticate(repository: UserRepository, login: string, password: string): Promise<AuthUser | null> {
+  const user = repository.findByLogin(login);
+  const matches = await bcrypt.compare(password, user?.passwordHash ?? DUMMY_HASH);
+  return user && matches ? toAuthUser(user) : null;
+}
+
+export const userStore = createUserRepository();
+seedAdminUser(userStore);
@@ -0,0 +1,124 @@
+/**
+ * Per-user Usage
+ * Running totals of what each client has cost upstream, for the admin console. Keyed by the same
+ * subject as rate limiting (user: or ip:), so anonymous traffic is counted too, plus
+ * "system:health-probe" for the background health probes.
+ *
+ * Backend is chosen with USAGE_BACKEND: "sqlite" (default, DATA_DIR/chatqora.db) or "memory".
+ */
+
+import { getSqliteDatabase } from '@/lib/storage/sqlite';
+import type { UsageSummary, UserUsage } from '@/types/chat';
+
+export type { UserUsage };
+
+export interface UserUsageRepository {
+  readonly name: string;
+  /** One chat request and the calls it made */
+  record(subject: string, usage: UsageSummary): void;
+  /** Most recently active first */
+  list(): UserUsage[];
+}
+
+const MAX_MEMORY_SUBJECTS = 10_000;
+
+class MemoryUserUsageRepository implements UserUsageRepository {
+  readonly name = 'memory';
+  private usage = new Map<string, UserUsage>();
+
+  record(subject: string, usage: UsageSummary): void {
+    const now = new Date().toISOString();
+    const current = this.usage.get(subject) ?? {
+      subject, requests: 0, calls: 0, cachedCalls: 0, promptTokens: 0, completionTokens: 0, cost: 0, firstSeen: now, lastSeen: now
+    };
+    // Re-inserted so the Map stays in least recently active order for eviction
+    this.usage.delete(subject);
+    this.usage.set(subject, {
+      ...current,
+      requests: current.requests + 1,
+      calls: current.calls + usage.calls,
+      cachedCalls: current.cachedCalls + usage.cachedCalls,
+      promptTokens: current.promptTokens + usage.promptTokens,
+      completionTokens: current.completionTokens + usage.completionTokens,
+      cost: current.cost + usage.cost,
+      lastSeen: now
+    });
+
+    if (this.usage.size > MAX_MEMORY_SUBJECTS) {
+      this.usage.delete(this.usage.keys().next().value!);
+    }
+  }
+
+  list(): UserUsage[] {
+    return [...this.usage.values()].reverse();
+  }
+}
+
+interface UserUsageRow {
+  subject: string;
+  requests: number;
+  calls: number;
+  cached_calls: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  cost: number;
+  first_seen: string;
+  last_seen: string;
+}
+
+class SqliteUserUsageRepository implements UserUsageRepository {
+  readonly name = 'sqlite';
+
+  constructor() {
+    getSqliteDatabase().exec(`
+      CREATE TABLE IF NOT EXISTS user_usage (
+        subject TEXT PRIMARY KEY,
+        requests INTEGER NOT NULL,
+        calls INTEGER NOT NULL,
+        cached_calls INTEGER NOT NULL,
+        prompt_tokens INTEGER NOT NULL,
+        completion_tokens INTEGER NOT NULL,
+        cost REAL NOT NULL,
+        first_seen TEXT NOT NULL,
+        last_seen TEXT NOT NULL
+      )
+    `);
+  }
+
+  record(subject: string, usage: UsageSummary): void {
+    const now = new Date().toISOString();
+    getSqliteDatabase().prepare(`
+      INSERT INTO user_usage (subject, requests, calls, cached_calls, prompt_tokens, completion_tokens, cost, first_seen, last_seen)
+      VALUES (?, 1, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(subject) DO UPDATE SET
+        requests = requests + 1,
+        calls = calls + excluded.calls,
+        cached_calls = cached_calls + excluded.cached_calls,
+        prompt_tokens = prompt_tokens + excluded.prompt_tokens,
+        completion_tokens = completion_tokens + excluded.completion_tokens,
+        cost = cost + excluded.cost,
+        last_seen = excluded.last_seen
+    `).run(subject, usage.calls, usage.cachedCalls, usage.promptTokens, usage.completionTokens, usage.cost, now, now);
+  }
+
+  list(): UserUsage[] {
+    const rows = getSqliteDatabase().prepare('SELECT * FROM user_usage ORDER BY last_seen DESC').all() as UserUsageRow[];
+    return rows.map(row => ({
+      subject: row.subject,
+      requests: row.requests,
+      calls: row.calls,
+      cachedCalls: row.cached_calls,
+      promptTokens: row.prompt_tokens,
+      completionTokens: row.completion_tokens,
+      cost: row.cost,
+      firstSeen: row.first_seen,
+      lastSeen: row.last_seen
+    }));
+  }
+}
+
+export function createUserUsageRepository(kind: string = process.env.USAGE_BACKEND || 'sqlite'): UserUsageRepository {
+  return kind === 'memory' ? new MemoryUserUsageRepository() : new SqliteUserUsageRepository();
+}
+
+export const userUsageStore = createUserUsageRepository();
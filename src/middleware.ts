@@ -0,0 +1,58 @@
+/**
+ * Auth middleware
+ * With AUTH_ENABLED=true, every page and API route needs a valid session except the landing page,
+ * the sign-in page and the auth API. API requests without one get a 401; page requests are sent to
+ * sign in and come back afterwards. With auth disabled, everything passes through except the admin
+ * console, which always needs an admin session.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AUTH_ENABLED, getSession } from '@/lib/session';
+
+const PUBLIC_PAGES = ['/', '/auth/login'];
+const PUBLIC_API_PREFIX = '/api/auth/';
+const ADMIN_PATHS = ['/admin', '/api/admin'];
+
+const isAdminPath = (pathname: string) => ADMIN_PATHS.some(path => pathname === path || pathname.startsWith(`${path}/`));
+
+function redirectToLogin(request: NextRequest): NextResponse {
+  const { pathname, search } = request.nextUrl;
+  const loginUrl = new URL('/auth/login', request.url);
+  loginUrl.searchParams.set('next', pathname + search);
+  return NextResponse.redirect(loginUrl);
+}
+
+export function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+  const isApi = pathname.startsWith('/api/');
+
+  if (isAdminPath(pathname)) {
+    const session = getSession(request);
+    if (session?.role === 'admin') return NextResponse.next();
+    if (!isApi) return session ? NextResponse.redirect(new URL('/', request.url)) : redirectToLogin(request);
+    return NextResponse.json(
+      { error: session ? 'Forbidden' : 'Authentication required', details: 'Only admins can use the admin console' },
+      { status: session ? 403 : 401 }
+    );
+  }
+
+  if (!AUTH_ENABLED) return NextResponse.next();
+
+  if (PUBLIC_PAGES.includes(pathname) || pathname.startsWith(PUBLIC_API_PREFIX) || getSession(request)) {
+    return NextResponse.next();
+  }
+
+  if (isApi) {
+    return NextResponse.json(
+      { error: 'Authentication required', details: 'Sign in to use ChatQora' },
+      { status: 401 }
+    );
+  }
+  return redirectToLogin(request);
+}
+
+export const config = {
+  // jsonwebtoken needs Node.js; static assets never need a session
+  runtime: 'nodejs',
+  matcher: ['/((?!_next/static|_next/image|favicon.ico|.*\\.(?:png|jpg|jpeg|gif|svg|ico|webp)$).*)']
+};
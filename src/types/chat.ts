@@ -12,6 +12,7 @@ export interface Message {
   model?: string;
   attachments?: Attachment[];
   metadata?: MessageMetadata;
+  parentId?: string | null; // The message this one follows: null starts the conversation, unset means the one before it
 }
 
 export interface Attachment {
@@ -26,13 +27,33 @@ export interface MessageMetadata {
   processingTime?: number;
   confidence?: number;
   model?: string;
-  fusion?: FusionMetadata;
+  fusion?: FusionDetails;
   sources?: WebSource[];
   context?: ContextMetadata;
   analysis?: QueryAnalysis; // QueryAnalysis from SmartChatAgent
   routing?: RoutingDecision; // RoutingDecision from SmartChatAgent
   isCorrection?: boolean; // Flag for user correction messages
   fromCache?: boolean; // Flag for cached/contextual responses
+  cancelled?: boolean; // Stopped by the user; content is the partial answer
+  usage?: UsageSummary;
+  answerOptions?: AnswerOptions; // How a regenerated answer was asked for
+}
+
+// Choices for regenerating an answer; unset fields use the defaults
+export interface AnswerOptions {
+  model?: string; // One model answers, without fusion
+  fusionStrategy?: string;
+  models?: string[]; // Fusion with just these models
+  maxResponseTime?: number; // ms
+  qualityThreshold?: number; // 0-1
+}
+
+// GET /api/models: what a chat request can choose from
+export interface ModelChoices {
+  models: Array<{ id: string; name: string; fusion: boolean }>; // fusion: answers in fusion by default
+  strategies: string[];
+  defaults: { maxResponseTime: number; qualityThreshold: number };
+  limits: { maxResponseTime: { min: number; max: number } };
 }
 
 export interface QueryAnalysis {
@@ -95,6 +116,194 @@ export interface FusionMetadata {
   qualityScore: number;
 }
 
+// `fusion` block of the /api/chat response, kept on the assistant message
+export interface FusionDetails {
+  strategy: string;
+  modelsUsed: string[];
+  individualResponses: FusionModelAnswer[];
+  processingTime: number;
+  confidence: number;
+  qualityScore: number;
+  quality?: QualityReport; // How confidence was scored for the fused answer
+  attributions?: FusionAttribution[];
+  imageDescription?: string; // What text-only models were told the attached images show
+  disagreements?: FusionDisagreement[];
+  rebuttals?: DebateRebuttal[];
+}
+
+export interface FusionModelAnswer {
+  model: string;
+  modelName: string;
+  response: string;
+  confidence: number;
+  processingTime: number;
+  role: string;
+  status: 'success' | 'error' | 'timeout' | 'cancelled';
+  error?: string;
+  toolInvocations?: ToolInvocation[];
+  quality?: QualityReport; // How this answer's confidence was scored
+  imageInput?: 'direct' | 'description'; // With images attached: saw them, or read the vision model's description
+}
+
+// Provenance: one sentence (list item, code block) of the fused answer and the model answers it came from
+export interface FusionAttribution {
+  text: string; // Verbatim from the fused answer
+  start: number; // Offset in the fused answer as the engine produced it
+  sources: AttributionSource[]; // Most similar first; empty when synthesisOnly
+  synthesisOnly: boolean; // No model answer resembles it: the synthesis added it
+}
+
+export interface AttributionSource {
+  model: string;
+  modelName: string;
+  similarity: number; // 0-1, against the model's closest sentence
+  matchedText: string;
+}
+
+// An answer's score and the evaluators behind it; the score is the mean of the evaluation scores
+export interface QualityReport {
+  score: number; // 0-1
+  evaluations: AnswerEvaluation[];
+}
+
+export interface AnswerEvaluation {
+  evaluator: string;
+  score: number; // 0-1, weighted mean of the breakdown
+  breakdown: ScoreComponent[];
+}
+
+export interface ScoreComponent {
+  name: string;
+  score: number; // 0-1
+  weight: number;
+  detail: string; // Why this component scored what it did
+}
+
+// A tool the model called while answering, with the result it was given back
+export interface ToolInvocation {
+  id: string;
+  tool: string;
+  arguments: Record<string, unknown>;
+  result: string;
+  status: 'success' | 'error';
+  error?: string;
+  durationMs: number;
+  round: number; // 1-based tool round within the model's answer
+}
+
+// Debate strategy: a point the models did not agree on and how the judge settled it
+export interface FusionDisagreement {
+  topic: string;
+  positions: Array<{ model: string; position: string }>;
+  resolution: string;
+}
+
+export interface DebateRebuttal {
+  model: string;
+  modelName: string;
+  stance: 'rebuttal' | 'concession' | 'mixed';
+  response: string;
+}
+
+// Token and cost totals for one chat request (every model call, synthesis and recommendations)
+export interface UsageSummary {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number; // USD, from the model registry's price table
+  currency: 'USD';
+  calls: number;
+  cachedCalls: number; // Answered from the response cache, nothing billed
+  estimated: boolean; // At least one provider call reported no usage and was estimated
+  byModel: Record<string, { promptTokens: number; completionTokens: number; cost: number; calls: number }>;
+}
+
+// Rate limits: requests, upstream model calls and tokens, each per minute and per day
+export type RateLimitDimension = 'requests' | 'calls' | 'tokens';
+export type RateLimitWindow = 'minute' | 'day';
+
+export interface RateLimitRule {
+  dimension: RateLimitDimension;
+  window: RateLimitWindow;
+  limit: number;
+}
+
+// Body of a 429 from /api/chat; details is a sentence the UI can show as is
+export interface RateLimitErrorBody {
+  error: 'Rate limit exceeded';
+  details: string;
+  rateLimit: RateLimitRule & { retryAfter: number }; // Seconds, same as the Retry-After header
+}
+
+// Server-side conversations (/api/conversations), one list per user; timestamps are ISO strings
+export interface Conversation {
+  id: string;
+  title: string;
+  messages: Message[];
+  createdAt: string;
+  updatedAt: string;
+  activeLeafId?: string; // Last message of the branch on show; unset means the newest message's branch
+}
+
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  messageCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Accounts
+export type UserRole = 'admin' | 'user';
+
+/** What the auth API returns for a user; never includes the password hash */
+export interface AuthUser {
+  id: string;
+  username: string;
+  email: string;
+  name: string;
+  role: UserRole;
+}
+
+// Admin console: settings applied at runtime, stored server-side
+export interface AppSettings {
+  prompts: {
+    system: string; // Single-model chat system prompt
+    fusionRoles: Record<'primary' | 'analytical' | 'creative', string>; // Instructions for each fusion model's answer
+  };
+  fusion: {
+    maxResponseTime: number; // ms budget for a fusion request; each model call gets the same
+    qualityThreshold: number; // 0-1, an answer scoring this well lets fusion stop waiting for slower models
+  };
+  webSearch: {
+    highTrustDomains: string[];
+    mediumTrustDomains: string[];
+  };
+  models: Record<string, { enabled: boolean }>; // Overrides of models.json, by model id
+}
+
+/** Any subset of AppSettings; sections are merged, lists and prompts replaced */
+export interface AppSettingsPatch {
+  prompts?: { system?: string; fusionRoles?: Partial<AppSettings['prompts']['fusionRoles']> };
+  fusion?: Partial<AppSettings['fusion']>;
+  webSearch?: Partial<AppSettings['webSearch']>;
+  models?: AppSettings['models'];
+}
+
+/** Upstream usage of one rate limit subject (user:, ip: or system:) since it was first seen */
+export interface UserUsage {
+  subject: string;
+  user?: Pick<AuthUser, 'username' | 'name' | 'role'>; // Signed-in users only
+  requests: number;
+  calls: number;
+  cachedCalls: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number; // USD
+  firstSeen: string;
+  lastSeen: string;
+}
+
 // Context Management
 export interface ConversationContext {
   messages: Message[];
@@ -171,7 +380,7 @@ export interface ChatResponse {
   relatedQueries?: string[];
 }
 
-// System Health Types
+// System Health Types (filled by the background health prober, served by GET /api/chat?action=health)
 export interface SystemHealth {
   models: Record<string, ModelHealth>;
   fusion: FusionHealth;
@@ -180,29 +389,34 @@ export interface SystemHealth {
 }
 
 export interface ModelHealth {
+  name: string;
   status: 'online' | 'degraded' | 'offline';
-  responseTime: number;
-  errorRate: number;
-  lastCheck: Date;
+  responseTime: number; // Average probe latency in ms, successful probes only
+  errorRate: number; // 0-1, over the recent probes
+  uptime: number; // % of recent probes that succeeded
+  lastCheck?: string; // ISO time of the last probe; unset until the first one finishes
+  lastError?: string;
+  circuit: 'closed' | 'open' | 'half_open';
 }
 
 export interface FusionHealth {
   strategiesAvailable: string[];
-  averageProcessingTime: number;
-  successRate: number;
+  averageProcessingTime: number; // ms, over recent fusion requests
+  successRate: number; // 0-1; fusion that fell back to a single model counts as a failure
 }
 
 export interface SearchHealth {
   providersOnline: string[];
   averageQueryTime: number;
   cacheHitRate: number;
+  lastCheck?: string;
 }
 
 export interface OverallHealth {
   status: 'optimal' | 'good' | 'degraded' | 'critical';
   score: number; // 0-100
-  uptime: number;
-  activeConnections: number;
+  uptime: number; // % of recent model probes that succeeded, across all models
+  activeConnections: number; // Chat requests in flight
 }
 
 // UI State Types
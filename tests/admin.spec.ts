@@ -0,0 +1,52 @@
+import { test, expect } from '@playwright/test';
+
+// playwright.config seeds this admin
+const ADMIN = { username: 'admin', password: 'playwright-admin-password' };
+
+test.describe('Admin API', () => {
+  test('is closed to anyone who is not signed in as an admin', async ({ request }) => {
+    expect((await request.get('/api/admin/settings')).status()).toBe(401);
+    expect((await request.get('/api/admin/usage')).status()).toBe(401);
+  });
+
+  test.describe('as an admin', () => {
+    test.beforeEach(async ({ request }) => {
+      expect((await request.post('/api/auth/login', { data: ADMIN })).ok()).toBeTruthy();
+    });
+
+    test('changes and resets the fusion settings', async ({ request }) => {
+      const updated = await request.patch('/api/admin/settings', { data: { fusion: { maxResponseTime: 20000 } } });
+      expect(updated.ok()).toBeTruthy();
+      expect((await updated.json()).settings.fusion.maxResponseTime).toBe(20000);
+
+      const reset = await request.delete('/api/admin/settings?section=fusion');
+      const { settings, overrides } = await reset.json();
+      expect(settings.fusion.maxResponseTime).toBe(15000);
+      expect(overrides.fusion).toBeUndefined();
+    });
+
+    test('rejects invalid settings', async ({ request }) => {
+      const response = await request.patch('/api/admin/settings', {
+        data: { fusion: { qualityThreshold: 2 }, webSearch: { highTrustDomains: ['not a domain'] } }
+      });
+      expect(response.status()).toBe(400);
+      const { details } = await response.json();
+      expect(details).toContain('fusion.qualityThreshold');
+      expect(details).toContain('webSearch.highTrustDomains[0]');
+    });
+
+    test('will not disable every model', async ({ request }) => {
+      const { models } = await (await request.get('/api/admin/settings')).json();
+      const allOff = Object.fromEntries(models.map((model: { id: string }) => [model.id, { enabled: false }]));
+      expect((await request.patch('/api/admin/settings', { data: { models: allOff } })).status()).toBe(400);
+    });
+
+    test('reports usage per user after a chat request', async ({ request }) => {
+      await request.post('/api/chat', { data: { message: 'Count this request for the admin', enableWebSearch: false } });
+
+      const { usage, totals } = await (await request.get('/api/admin/usage')).json();
+      expect(totals.requests).toBeGreaterThan(0);
+      expect(usage).toContainEqual(expect.objectContaining({ user: expect.objectContaining({ username: 'admin' }) }));
+    });
+  });
+});
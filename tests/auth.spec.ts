@@ -0,0 +1,79 @@
+import { test, expect } from '@playwright/test';
+
+// playwright.config seeds this admin and leaves AUTH_ENABLED off, so anonymous use still works
+const ADMIN = { username: 'admin', password: 'playwright-admin-password' };
+
+test.describe('Authentication API', () => {
+  test('sign in, load the current user and sign out', async ({ request }) => {
+    expect((await request.get('/api/auth/me')).status()).toBe(401);
+
+    const login = await request.post('/api/auth/login', { data: ADMIN });
+    expect(login.ok()).toBeTruthy();
+    expect(login.headers()['set-cookie']).toMatch(/chatqora_session=.+HttpOnly/i);
+    const { user } = await login.json();
+    expect(user).toMatchObject({ username: 'admin', role: 'admin' });
+    expect(user.passwordHash).toBeUndefined();
+
+    const me = await request.get('/api/auth/me');
+    expect(me.ok()).toBeTruthy();
+    expect((await me.json()).user.id).toBe(user.id);
+
+    expect((await request.post('/api/auth/logout')).ok()).toBeTruthy();
+    expect((await request.get('/api/auth/me')).status()).toBe(401);
+  });
+
+  test('rejects a wrong password and an unknown user alike', async ({ request }) => {
+    const wrongPassword = await request.post('/api/auth/login', { data: { ...ADMIN, password: 'not-it' } });
+    const unknownUser = await request.post('/api/auth/login', { data: { username: 'nobody', password: 'not-it' } });
+    expect(wrongPassword.status()).toBe(401);
+    expect(unknownUser.status()).toBe(401);
+    expect(await wrongPassword.json()).toEqual(await unknownUser.json());
+  });
+
+  test('throttles failed sign-ins per account and per client IP', async ({ request }) => {
+    // playwright.config sets TRUST_PROXY=true, so each X-Forwarded-For stands in for its own client
+    const run = Date.now() % 0xffff;
+    const ip = (n: number) => ({ 'X-Forwarded-For': `10.${run >> 8}.${run & 0xff}.${n}` });
+    const attempt = (username: string, headers: Record<string, string>) =>
+      request.post('/api/auth/login', { headers, data: { username, password: 'not-it' } });
+
+    // 5 failures a minute per account, whichever IPs they come from
+    const account = `guessed-${run}`;
+    for (let n = 1; n <= 5; n++) expect((await attempt(account, ip(n))).status()).toBe(401);
+    const locked = await attempt(account, ip(6));
+    expect(locked.status()).toBe(429);
+    expect(Number(locked.headers()['retry-after'])).toBeGreaterThan(0);
+
+    // 20 failures a minute per IP, whichever accounts they try; the bucket refills a little meanwhile
+    const statuses: number[] = [];
+    for (let n = 1; n <= 25; n++) statuses.push((await attempt(`sprayed-${run}-${n}`, ip(100))).status());
+    expect(statuses.slice(0, 20).every(status => status === 401)).toBeTruthy();
+    expect(statuses.slice(20)).toContain(429);
+    expect((await attempt(`sprayed-${run}-0`, ip(101))).status()).toBe(401);
+  });
+
+  test('requires a username and password', async ({ request }) => {
+    const response = await request.post('/api/auth/login', { data: { username: 'admin' } });
+    expect(response.status()).toBe(400);
+  });
+
+  test('ignores a tampered session cookie', async ({ request }) => {
+    const response = await request.get('/api/auth/me', {
+      headers: { cookie: 'chatqora_session=eyJhbGciOiJIUzI1NiJ9.eyJzdWIiOiJhZG1pbiIsInJvbGUiOiJhZG1pbiJ9.forged' }
+    });
+    expect(response.status()).toBe(401);
+  });
+
+  test('signed-in users keep their conversations across browsers', async ({ request, playwright }) => {
+    await request.post('/api/auth/login', { data: ADMIN });
+    const id = `chat-account-${Date.now()}`;
+    await request.post('/api/conversations', { data: { id, title: 'From the first browser' } });
+
+    const otherBrowser = await playwright.request.newContext({ baseURL: 'http://localhost:3007' });
+    await otherBrowser.post('/api/auth/login', { data: ADMIN });
+    expect((await otherBrowser.get(`/api/conversations/${id}`)).ok()).toBeTruthy();
+    await otherBrowser.dispose();
+
+    await request.delete(`/api/conversations/${id}`);
+  });
+});
@@ -0,0 +1,88 @@
+import { test, expect, type APIRequestContext } from '@playwright/test';
+
+const at = (minute: number) => `2025-03-01T10:0${minute}:00.000Z`;
+
+// The answer was regenerated, then the question edited: three versions of the thread
+const messages = [
+  { id: 'q', role: 'user', content: 'Why is the sky blue?', timestamp: at(0), parentId: null },
+  { id: 'a', role: 'assistant', content: 'Because of Rayleigh scattering.', timestamp: at(1), parentId: 'q' },
+  { id: 'a-retry', role: 'assistant', content: 'Sunlight scatters off air molecules, blue the most.', timestamp: at(2), parentId: 'q' },
+  { id: 'q-edit', role: 'user', content: 'Why is the sunset red?', timestamp: at(3), parentId: null },
+  { id: 'a-edit', role: 'assistant', content: 'At sunset light crosses more air, so the blue is scattered away.', timestamp: at(4), parentId: 'q-edit' }
+];
+
+async function seed(request: APIRequestContext) {
+  const id = `chat-branching-${Date.now()}`;
+  expect((await request.post('/api/conversations', { data: { id, title: 'Sky colours', messages } })).status()).toBe(201);
+  return id;
+}
+
+test.describe('Conversation Branches API', () => {
+  test('the branch on show is remembered until a message is added', async ({ request }) => {
+    const id = await seed(request);
+
+    const patched = await request.patch(`/api/conversations/${id}`, { data: { activeLeafId: 'a' } });
+    expect(patched.status()).toBe(200);
+    expect((await patched.json()).conversation.activeLeafId).toBe('a');
+
+    await request.post(`/api/conversations/${id}/messages`, {
+      data: { messages: [{ id: 'q2', role: 'user', content: 'And on Mars?', timestamp: at(5), parentId: 'a' }] }
+    });
+    const { conversation } = await (await request.get(`/api/conversations/${id}`)).json();
+    expect(conversation.activeLeafId).toBeUndefined();
+    expect(conversation.messages).toHaveLength(6);
+  });
+
+  test('only messages of the conversation can be shown', async ({ request }) => {
+    const id = await seed(request);
+    expect((await request.patch(`/api/conversations/${id}`, { data: { activeLeafId: 'elsewhere' } })).status()).toBe(400);
+    expect((await request.patch(`/api/conversations/${id}`, { data: {} })).status()).toBe(400);
+  });
+
+  test('readable exports follow the branch on show, JSON keeps every branch', async ({ request }) => {
+    const id = await seed(request);
+    await request.patch(`/api/conversations/${id}`, { data: { activeLeafId: 'a-retry' } });
+
+    const markdown = await (await request.get(`/api/conversations/${id}?export=markdown`)).text();
+    expect(markdown).toContain('Sunlight scatters off air molecules');
+    expect(markdown).not.toContain('Rayleigh');
+    expect(markdown).not.toContain('sunset');
+
+    const json = await (await request.get(`/api/conversations/${id}?export=json`)).json();
+    expect(json.conversations[0].messages).toHaveLength(5);
+    expect(json.conversations[0].activeLeafId).toBe('a-retry');
+  });
+});
+
+test.describe('Conversation Branches UI', () => {
+  test('flipping between versions of a question shows their answers', async ({ page }) => {
+    const id = await seed(page.request);
+    await page.goto('/improved-chat');
+    await page.getByText('Sky colours').click();
+
+    // The newest version is on show
+    await expect(page.getByText('Why is the sunset red?')).toBeVisible();
+    await expect(page.getByRole('group', { name: 'Versions' })).toContainText('2/2');
+
+    await page.getByRole('button', { name: 'Previous version' }).click();
+    await expect(page.getByText('Why is the sky blue?')).toBeVisible();
+    await expect(page.getByText('Sunlight scatters off air molecules')).toBeVisible();
+    await expect(page.getByText('Why is the sunset red?')).toHaveCount(0);
+
+    await expect(async () => {
+      const { conversation } = await (await page.request.get(`/api/conversations/${id}`)).json();
+      expect(conversation.activeLeafId).toBe('a-retry');
+    }).toPass();
+  });
+
+  test('forking a branch starts a new chat with it', async ({ page }) => {
+    await seed(page.request);
+    await page.goto('/improved-chat');
+    await page.getByText('Sky colours').click();
+
+    await page.locator('#message-a-edit').getByRole('button', { name: 'Fork' }).click();
+    await expect(page.getByText('Sky colours (fork)')).toBeVisible();
+    await expect(page.getByText('Why is the sunset red?')).toBeVisible();
+    await expect(page.getByRole('group', { name: 'Versions' })).toHaveCount(0);
+  });
+});
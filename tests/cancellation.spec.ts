@@ -0,0 +1,69 @@
+import { test, expect } from '@playwright/test';
+
+// Runs against the mock provider (see playwright.config.ts); "slow mock request" takes 8s to answer
+test.describe('Request Cancellation', () => {
+  test('cancel endpoint rejects unknown request ids', async ({ request }) => {
+    const response = await request.delete('/api/chat?action=cancel&requestId=does-not-exist');
+    expect(response.status()).toBe(404);
+
+    const missingId = await request.delete('/api/chat?action=cancel');
+    expect(missingId.status()).toBe(400);
+  });
+
+  test('cancelling returns the partial result instead of waiting for the models', async ({ request }) => {
+    // Requests are cancelled by the user that sent them, so get an anonymous user cookie first
+    await request.get('/api/conversations');
+    const requestId = `spec_${Date.now()}`;
+    const startedAt = Date.now();
+
+    const chat = request.post('/api/chat', {
+      data: { message: 'Please answer this slow mock request in detail', requestId }
+    });
+
+    // Give the server a moment to register the request, then stop it
+    await expect.poll(async () => {
+      const cancel = await request.delete(`/api/chat?action=cancel&requestId=${requestId}`);
+      return cancel.status();
+    }, { timeout: 5000 }).toBe(200);
+
+    const response = await chat;
+    expect(response.ok()).toBeTruthy();
+
+    const data = await response.json();
+    expect(data.requestId).toBe(requestId);
+    expect(data.cancelled).toBe(true);
+    expect(Date.now() - startedAt).toBeLessThan(8000);
+  });
+
+  test('another user cannot cancel a request by its id', async ({ request, playwright }) => {
+    await request.get('/api/conversations');
+    const requestId = `spec_owned_${Date.now()}`;
+    const chat = request.post('/api/chat', {
+      data: { message: 'Please answer this slow mock request briefly', requestId }
+    });
+
+    const stranger = await playwright.request.newContext({ baseURL: 'http://localhost:3007' });
+    await stranger.get('/api/conversations');
+    // Reusing the id registers the stranger's own request instead of replacing the first one
+    await stranger.post('/api/chat', { data: { message: 'What is a request id?', requestId } });
+    expect((await stranger.delete(`/api/chat?action=cancel&requestId=${requestId}`)).status()).toBe(404);
+    await stranger.dispose();
+
+    await expect.poll(async () => (await request.delete(`/api/chat?action=cancel&requestId=${requestId}`)).status(), { timeout: 5000 }).toBe(200);
+    expect((await (await chat).json()).cancelled).toBe(true);
+  });
+
+  test('stop button ends generation in the chat UI', async ({ page }) => {
+    await page.goto('/improved-chat');
+
+    const input = page.locator('#message-input');
+    await input.fill('Please answer this slow mock request in detail');
+    await input.press('Enter');
+
+    const stopButton = page.getByRole('button', { name: 'Stop generating' });
+    await expect(stopButton).toBeVisible();
+    await stopButton.click();
+
+    await expect(page.getByRole('button', { name: 'Send message' })).toBeVisible({ timeout: 5000 });
+  });
+});
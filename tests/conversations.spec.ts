@@ -0,0 +1,75 @@
+import { test, expect } from '@playwright/test';
+
+const message = (id: string, role: 'user' | 'assistant', content: string) => ({ id, role, content, timestamp: new Date().toISOString() });
+
+// Each test's request context has its own cookie jar, so its own anonymous user
+test.describe('Conversation Store API', () => {
+  test('create, append, rename and delete a conversation', async ({ request }) => {
+    const id = `chat-${Date.now()}`;
+
+    const created = await request.post('/api/conversations', {
+      data: { id, title: 'Photosynthesis', messages: [message('m1', 'user', 'How do plants make food?')] }
+    });
+    expect(created.status()).toBe(201);
+
+    const appended = await request.post(`/api/conversations/${id}/messages`, {
+      data: { messages: [message('m2', 'assistant', 'Through photosynthesis.')] }
+    });
+    expect(appended.ok()).toBeTruthy();
+    const { conversation } = await appended.json();
+    expect(conversation.messages.map((m: { id: string }) => m.id)).toEqual(['m1', 'm2']);
+
+    const renamed = await request.patch(`/api/conversations/${id}`, { data: { title: 'Plants' } });
+    expect((await renamed.json()).conversation.title).toBe('Plants');
+
+    const list = await (await request.get('/api/conversations')).json();
+    expect(list.conversations).toContainEqual(expect.objectContaining({ id, title: 'Plants', messageCount: 2 }));
+
+    expect((await request.delete(`/api/conversations/${id}`)).ok()).toBeTruthy();
+    expect((await request.get(`/api/conversations/${id}`)).status()).toBe(404);
+  });
+
+  test('conversations are private to the user that created them', async ({ request, playwright }) => {
+    const id = `chat-private-${Date.now()}`;
+    await request.post('/api/conversations', { data: { id, messages: [message('m1', 'user', 'Secret question')] } });
+
+    const stranger = await playwright.request.newContext({ baseURL: 'http://localhost:3007' });
+    expect((await stranger.get(`/api/conversations/${id}`)).status()).toBe(404);
+    expect((await (await stranger.get('/api/conversations')).json()).conversations).toHaveLength(0);
+    await stranger.dispose();
+  });
+
+  test('an anonymous cookie cannot claim an account', async ({ request, playwright }) => {
+    const login = await request.post('/api/auth/login', { data: { username: 'admin', password: 'playwright-admin-password' } });
+    const { user } = await login.json();
+    const id = `chat-account-${Date.now()}`;
+    await request.post('/api/conversations', { data: { id, messages: [message('m1', 'user', 'Account question')] } });
+
+    const forger = await playwright.request.newContext({ baseURL: 'http://localhost:3007', extraHTTPHeaders: { cookie: `chatqora_uid=${user.id}` } });
+    const response = await forger.get(`/api/conversations/${id}`);
+    expect(response.status()).toBe(404);
+    expect(response.headers()['set-cookie']).toMatch(/chatqora_uid=anon/);
+    await forger.dispose();
+  });
+
+  test('clearing a chat session empties its stored messages', async ({ request }) => {
+    const id = `chat-clear-${Date.now()}`;
+    await request.post('/api/conversations', { data: { id, messages: [message('m1', 'user', 'Hello')] } });
+
+    expect((await request.delete(`/api/chat?action=clear&sessionId=${id}`)).ok()).toBeTruthy();
+    const { conversation } = await (await request.get(`/api/conversations/${id}`)).json();
+    expect(conversation.messages).toHaveLength(0);
+  });
+
+  test('invalid input is rejected', async ({ request }) => {
+    expect((await request.post('/api/conversations', { data: { id: 'not valid!' } })).status()).toBe(400);
+    expect((await request.post('/api/conversations', { data: { messages: [{ role: 'robot' }] } })).status()).toBe(400);
+    expect((await request.post('/api/conversations', { data: { createdAt: 'yesterday' } })).status()).toBe(400);
+    const tooMany = Array.from({ length: 5001 }, (_, n) => message(`m${n}`, 'user', 'Hi'));
+    expect((await request.post('/api/conversations', { data: { messages: tooMany } })).status()).toBe(400);
+    for (const body of ['null', '{not json', '[]']) {
+      expect((await request.post('/api/conversations', { data: body, headers: { 'Content-Type': 'application/json' } })).status()).toBe(400);
+    }
+    expect((await request.post('/api/conversations/missing/messages', { data: { messages: [message('m1', 'user', 'Hi')] } })).status()).toBe(404);
+  });
+});
@@ -0,0 +1,46 @@
+import { test, expect } from '@playwright/test';
+
+interface Evaluation {
+  evaluator: string;
+  score: number;
+  breakdown: Array<{ name: string; score: number; weight: number; detail: string }>;
+}
+
+// Runs against the mock provider (see playwright.config.ts), which grades every answer with the same rubric
+test.describe('Answer Evaluators', () => {
+  test('rejects unknown evaluators', async ({ request }) => {
+    const response = await request.post('/api/chat', {
+      data: { message: 'Explain recursion', evaluators: ['vibes'] }
+    });
+    expect(response.status()).toBe(400);
+  });
+
+  test('confidence comes with a breakdown from the strategy evaluators', async ({ request }) => {
+    const response = await request.post('/api/chat', {
+      data: { message: 'Explain how DNS resolution works', fusionStrategy: 'consensus' }
+    });
+    expect(response.ok()).toBeTruthy();
+
+    const { fusion } = await response.json();
+    expect(fusion.confidence).toBe(fusion.quality.score);
+    expect(fusion.quality.evaluations.map((evaluation: Evaluation) => evaluation.evaluator)).toEqual(['agreement', 'heuristic']);
+    for (const evaluation of fusion.quality.evaluations as Evaluation[]) {
+      expect(evaluation.breakdown.length).toBeGreaterThan(0);
+      expect(evaluation.breakdown[0].detail).toBeTruthy();
+    }
+
+    const answer = fusion.individualResponses.find((r: { status: string }) => r.status === 'success');
+    expect(answer.confidence).toBe(answer.quality.score);
+  });
+
+  test('the judge grades the final answer against its rubric', async ({ request }) => {
+    const response = await request.post('/api/chat', {
+      data: { message: 'Explain how TLS handshakes work', fusionStrategy: 'consensus', evaluators: ['judge'] }
+    });
+    const { fusion } = await response.json();
+
+    const judge = fusion.quality.evaluations.find((evaluation: Evaluation) => evaluation.evaluator === 'judge');
+    expect(judge.breakdown.map((component: { name: string }) => component.name))
+      .toEqual(['Correctness', 'Completeness', 'Relevance', 'Clarity']);
+  });
+});
@@ -0,0 +1,85 @@
+import { test, expect, type APIRequestContext } from '@playwright/test';
+
+const sources = [
+  { title: 'NASA: Photosynthesis', url: 'https://science.nasa.gov/photosynthesis', snippet: 'Plants turn light into sugar' },
+  { title: 'Britannica', url: 'https://www.britannica.com/science/photosynthesis', snippet: 'Chlorophyll absorbs light' }
+];
+
+const messages = [
+  { id: 'm1', role: 'user', content: 'How do plants make food?', timestamp: '2025-03-01T09:00:00.000Z' },
+  {
+    id: 'm2',
+    role: 'assistant',
+    content: '## Photosynthesis\n\nPlants use light [1] and chlorophyll [2].\n\n```python\nprint("sugar")\n```',
+    timestamp: '2025-03-01T09:00:05.000Z',
+    metadata: {
+      sources,
+      fusion: { strategy: 'parallel', modelsUsed: ['gpt-4o', 'claude-3.5'], confidence: 0.91, processingTime: 2400, individualResponses: [] },
+      analysis: { intent: 'explanatory', complexity: 'simple', domain: 'science' }
+    }
+  }
+];
+
+// Each test's request context has its own cookie jar, so its own anonymous user
+test.describe('Conversation Export', () => {
+  const create = async (request: APIRequestContext, id: string) => {
+    const created = await request.post('/api/conversations', { data: { id, title: 'Plants & Light', messages } });
+    expect(created.status()).toBe(201);
+  };
+
+  test('markdown turns citations into footnotes', async ({ request }) => {
+    const id = `chat-export-md-${Date.now()}`;
+    await create(request, id);
+
+    const response = await request.get(`/api/conversations/${id}?export=markdown`);
+    expect(response.ok()).toBeTruthy();
+    expect(response.headers()['content-disposition']).toMatch(/attachment; filename="chatqora-plants-light-\d{4}-\d{2}-\d{2}\.md"/);
+
+    const markdown = await response.text();
+    expect(markdown).toContain('# Plants & Light');
+    expect(markdown).toContain('Plants use light [^1] and chlorophyll [^2].');
+    expect(markdown).toContain('[^1]: [NASA: Photosynthesis](https://science.nasa.gov/photosynthesis)');
+    expect(markdown).toContain('```python');
+  });
+
+  test('json keeps fusion, source and analysis metadata', async ({ request }) => {
+    const id = `chat-export-json-${Date.now()}`;
+    await create(request, id);
+
+    const data = await (await request.get(`/api/conversations/${id}?export=json`)).json();
+    expect(data).toMatchObject({ format: 'chatqora.conversations', version: 1 });
+    expect(data.conversations[0].messages).toEqual(messages);
+  });
+
+  test('html and pdf are complete documents', async ({ request }) => {
+    const id = `chat-export-doc-${Date.now()}`;
+    await create(request, id);
+
+    const html = await request.get(`/api/conversations/${id}?export=html`);
+    expect(html.headers()['content-type']).toContain('text/html');
+    const page = await html.text();
+    expect(page.startsWith('<!DOCTYPE html>')).toBeTruthy();
+    expect(page).toContain('<title>Plants &amp; Light</title>');
+    expect(page).toContain('href="#c1-m2-source-1"');
+
+    const pdf = await request.get(`/api/conversations/${id}?export=pdf`);
+    expect(pdf.headers()['content-type']).toBe('application/pdf');
+    const body = await pdf.body();
+    expect(body.subarray(0, 5).toString('latin1')).toBe('%PDF-');
+    expect(body.subarray(-6).toString('latin1')).toBe('%%EOF\n');
+  });
+
+  test('all conversations can be exported at once', async ({ request }) => {
+    await create(request, `chat-export-a-${Date.now()}`);
+    await create(request, `chat-export-b-${Date.now()}`);
+
+    const response = await request.get('/api/conversations?export=json');
+    expect(response.headers()['content-disposition']).toContain('chatqora-conversations-');
+    expect((await response.json()).conversations).toHaveLength(2);
+  });
+
+  test('unknown formats are rejected', async ({ request }) => {
+    expect((await request.get('/api/conversations?export=docx')).status()).toBe(400);
+    expect((await request.get('/api/conversations/missing?export=pdf')).status()).toBe(404);
+  });
+});
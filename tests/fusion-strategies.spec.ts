@@ -0,0 +1,66 @@
+import { test, expect } from '@playwright/test';
+
+// Runs against the mock provider (see playwright.config.ts)
+test.describe('Fusion Strategies', () => {
+  test('rejects unknown strategies and out-of-range rounds', async ({ request }) => {
+    const unknown = await request.post('/api/chat', {
+      data: { message: 'Explain recursion', fusionStrategy: 'telepathic' }
+    });
+    expect(unknown.status()).toBe(400);
+
+    const tooManyRounds = await request.post('/api/chat', {
+      data: { message: 'Explain recursion', fusionStrategy: 'iterative', iterativeRounds: 99 }
+    });
+    expect(tooManyRounds.status()).toBe(400);
+  });
+
+  test('requested strategy is used instead of the automatic choice', async ({ request }) => {
+    const response = await request.post('/api/chat', {
+      data: { message: 'Explain recursion', fusionStrategy: 'specialized' }
+    });
+    expect(response.ok()).toBeTruthy();
+
+    const data = await response.json();
+    expect(data.fusion.strategy).toBe('specialized');
+  });
+
+  test('adaptive asks fewer models for a simple question while consensus asks them all', async ({ request }) => {
+    const ask = async (fusionStrategy: string) => (await (await request.post('/api/chat', {
+      data: { message: 'What is DNS?', fusionStrategy }
+    })).json()).fusion;
+
+    const consensus = await ask('consensus');
+    const adaptive = await ask('adaptive');
+    expect(consensus.strategy).toBe('consensus');
+    expect(adaptive.strategy).toBe('adaptive');
+    expect(adaptive.modelsUsed.length).toBeLessThan(consensus.modelsUsed.length);
+  });
+
+  test('iterative strategy records each critique and revision round', async ({ request }) => {
+    const response = await request.post('/api/chat', {
+      data: { message: 'Explain recursion', fusionStrategy: 'iterative', iterativeRounds: 2 }
+    });
+    expect(response.ok()).toBeTruthy();
+
+    const data = await response.json();
+    expect(data.fusion.strategy).toBe('iterative');
+    expect(data.fusion.iterations).toHaveLength(2);
+    expect(data.fusion.iterations[0]).toMatchObject({ round: 1 });
+    expect(data.fusion.iterations[0].critique).toBeTruthy();
+    expect(data.fusion.iterations[1].revision).toBeTruthy();
+  });
+
+  test('debate strategy returns rebuttals and the disagreements the judge settled', async ({ request }) => {
+    const response = await request.post('/api/chat', {
+      data: { message: 'Is Rust better than Go for web servers?', fusionStrategy: 'debate' }
+    });
+    expect(response.ok()).toBeTruthy();
+
+    const data = await response.json();
+    expect(data.fusion.strategy).toBe('debate');
+    expect(data.fusion.rebuttals.length).toBeGreaterThan(0);
+    expect(data.fusion.disagreements[0]).toMatchObject({ topic: expect.any(String), resolution: expect.any(String) });
+    // The disagreement list is metadata, never part of the answer itself
+    expect(data.response).not.toContain('DISAGREEMENTS:');
+  });
+});
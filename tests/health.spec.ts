@@ -0,0 +1,48 @@
+import { test, expect } from '@playwright/test';
+
+// Runs against the mock provider (see playwright.config.ts), where every model answers its probe
+test.describe('System Health', () => {
+  test('a probe round fills in status, latency and uptime for every model', async ({ request }) => {
+    const response = await request.get('/api/chat?action=health&probe=true');
+    expect(response.ok()).toBeTruthy();
+
+    const { health } = await response.json();
+    const models = Object.values(health.models) as Array<{ status: string; responseTime: number; errorRate: number; uptime: number; lastCheck?: string }>;
+    expect(models.length).toBeGreaterThan(0);
+    for (const model of models) {
+      expect(model.status).toBe('online');
+      expect(model.lastCheck).toBeTruthy();
+      expect(model.errorRate).toBe(0);
+      expect(model.uptime).toBe(100);
+      expect(model.responseTime).toBeGreaterThanOrEqual(0);
+    }
+
+    expect(health.overall.score).toBe(100);
+    expect(health.overall.uptime).toBe(100);
+    expect(typeof health.overall.activeConnections).toBe('number');
+    expect(health.search.lastCheck).toBeTruthy();
+  });
+
+  test('fusion health reflects completed requests', async ({ request }) => {
+    const chat = await request.post('/api/chat', { data: { message: 'Why do services need health checks?' } });
+    expect(chat.ok()).toBeTruthy();
+
+    const { health } = await (await request.get('/api/chat?action=health')).json();
+    expect(health.fusion.strategiesAvailable).toContain('consensus');
+    expect(health.fusion.successRate).toBeGreaterThan(0);
+    expect(health.fusion.averageProcessingTime).toBeGreaterThan(0);
+  });
+
+  test('probe calls are counted as usage and rounds are not repeated on demand', async ({ request }) => {
+    const { health } = await (await request.get('/api/chat?action=health&probe=true')).json();
+    const checks = Object.values(health.models).map(model => (model as { lastCheck?: string }).lastCheck);
+
+    // A second ask within the probe interval gets the same round
+    const again = await (await request.get('/api/chat?action=health&probe=true')).json();
+    expect(Object.values(again.health.models).map(model => (model as { lastCheck?: string }).lastCheck)).toEqual(checks);
+
+    await request.post('/api/auth/login', { data: { username: 'admin', password: 'playwright-admin-password' } });
+    const { usage } = await (await request.get('/api/admin/usage')).json();
+    expect(usage).toContainEqual(expect.objectContaining({ subject: 'system:health-probe', calls: expect.any(Number) }));
+  });
+});
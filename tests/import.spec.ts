@@ -0,0 +1,73 @@
+import { test, expect } from '@playwright/test';
+
+// A ChatGPT conversations.json where the answer was regenerated: only the newer branch is kept
+const chatgptExport = [{
+  conversation_id: 'b7c1e2a4-0d1f-4f4e-9a51-3c2d0e9f7a10',
+  title: 'Tide tables',
+  create_time: 1704067200,
+  update_time: 1704067500,
+  current_node: 'answer-2',
+  mapping: {
+    root: { id: 'root', parent: null, children: ['question'], message: null },
+    question: {
+      id: 'question', parent: 'root', children: ['answer-1', 'answer-2'],
+      message: { id: 'question', author: { role: 'user' }, create_time: 1704067260, content: { content_type: 'text', parts: ['Why are there two tides a day?'] } }
+    },
+    'answer-1': {
+      id: 'answer-1', parent: 'question', children: [],
+      message: { id: 'answer-1', author: { role: 'assistant' }, create_time: 1704067270, content: { content_type: 'text', parts: ['First draft'] } }
+    },
+    'answer-2': {
+      id: 'answer-2', parent: 'question', children: [],
+      message: { id: 'answer-2', author: { role: 'assistant' }, create_time: 1704067300, content: { content_type: 'text', parts: ['The Moon pulls on both sides of the Earth.'] }, metadata: { model_slug: 'gpt-4o' } }
+    }
+  }
+}];
+
+const claudeExport = [{
+  uuid: '5d0c8a63-9f3e-4c1b-8a55-7e2f4b1d9c01',
+  name: 'Sourdough starter',
+  created_at: '2024-02-01T08:00:00.000Z',
+  updated_at: '2024-02-01T08:05:00.000Z',
+  chat_messages: [
+    { uuid: 'm1', sender: 'human', text: 'How often should I feed it?', created_at: '2024-02-01T08:00:00.000Z' },
+    { uuid: 'm2', sender: 'assistant', text: 'Once a day at room temperature.', created_at: '2024-02-01T08:01:00.000Z' }
+  ]
+}];
+
+const upload = (name: string, data: unknown) => ({ name, mimeType: 'application/json', buffer: Buffer.from(JSON.stringify(data)) });
+
+test.describe('Conversation Import', () => {
+  test('a ChatGPT export appears in the sidebar and is saved with its dates', async ({ page }) => {
+    await page.goto('/improved-chat');
+    await page.getByLabel('Import chats').setInputFiles(upload('conversations.json', chatgptExport));
+
+    await expect(page.getByText('Imported 1 chat from ChatGPT')).toBeVisible();
+    await expect(page.getByText('Tide tables')).toBeVisible();
+
+    await expect(async () => {
+      const { conversation } = await (await page.request.get('/api/conversations/chatgpt-b7c1e2a4-0d1f-4f4e-9a51-3c2d0e9f7a10')).json();
+      expect(conversation.createdAt).toBe('2024-01-01T00:00:00.000Z');
+      expect(conversation.messages.map((m: { content: string }) => m.content)).toEqual([
+        'Why are there two tides a day?',
+        'The Moon pulls on both sides of the Earth.'
+      ]);
+    }).toPass();
+  });
+
+  test('importing the same Claude export twice adds its chats once', async ({ page }) => {
+    await page.goto('/improved-chat');
+    await page.getByLabel('Import chats').setInputFiles(upload('conversations.json', claudeExport));
+    await expect(page.getByText('Imported 1 chat from Claude')).toBeVisible();
+
+    await page.getByLabel('Import chats').setInputFiles(upload('conversations.json', claudeExport));
+    await expect(page.getByText('Imported 0 chats from Claude (1 already here)')).toBeVisible();
+    await expect(page.getByText('Sourdough starter')).toHaveCount(1);
+  });
+
+  test('files that are not chat exports are rejected', async ({ page }) => {
+    await page.goto('/improved-chat');
+    await page.getByLabel('Import chats').setInputFiles(upload('notes.json', { notes: [] }));
+    await expect(page.getByText(/Unrecognized file/)).toBeVisible();
+  });
+});
@@ -0,0 +1,29 @@
+import { test, expect } from '@playwright/test';
+import registry from '../src/config/models.json';
+
+// Every consumer reads the same registry, so what the API reports must match src/config/models.json
+const enabled = registry.models.filter(model => model.enabled);
+type RegistryModel = (typeof enabled)[number] & { codename?: string };
+const displayNameForRole = (role: string) => {
+  const model: RegistryModel = enabled.find(model => model.roles.includes(role))!;
+  return model.codename ?? model.shortName;
+};
+
+test.describe('Model Registry', () => {
+  test('health reports every enabled model by its registry name', async ({ request }) => {
+    const { health } = await (await request.get('/api/chat?action=health')).json();
+
+    expect(Object.keys(health.models).sort()).toEqual(enabled.map(model => model.id).sort());
+    for (const model of enabled) {
+      expect(health.models[model.id].name).toBe(model.name);
+    }
+  });
+
+  test('legacy chat routes to the models the registry gives each role', async ({ request }) => {
+    const ask = async (message: string) => (await (await request.post('/api/chat-legacy', { data: { message } })).json()).metadata.modelUsed;
+
+    expect(await ask('Hi there')).toBe(displayNameForRole('general'));
+    expect(await ask('Please analyze this programming problem')).toBe(displayNameForRole('reasoning'));
+    expect(await ask('What is in this picture?')).toBe(displayNameForRole('vision'));
+  });
+});
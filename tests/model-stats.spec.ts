@@ -0,0 +1,31 @@
+import { test, expect } from '@playwright/test';
+
+// Runs against the mock provider (see playwright.config.ts); stats are shared by every request
+test.describe('Model Stats API', () => {
+  test('model calls are recorded with latency percentiles, error rates and throughput', async ({ request }) => {
+    const chat = await (await request.post('/api/chat', { data: { message: `How are latency percentiles computed? (${Date.now()})`, fusionStrategy: 'consensus' } })).json();
+    const [answer] = chat.fusion.individualResponses;
+
+    const response = await request.get('/api/models/stats');
+    expect(response.ok()).toBeTruthy();
+    const { backend, models } = await response.json();
+    expect(typeof backend).toBe('string');
+
+    const stats = models.find((model: { modelId: string }) => model.modelId === answer.model);
+    expect(stats.calls).toBeGreaterThan(0);
+    expect(stats.successes).toBeGreaterThan(0);
+    expect(stats.errorRate).toBeGreaterThanOrEqual(0);
+    expect(stats.errorRate).toBeLessThanOrEqual(1);
+    expect(stats.latency.samples).toBeGreaterThan(0);
+    expect(stats.latency.p50).toBeLessThanOrEqual(stats.latency.p90);
+    expect(stats.latency.p90).toBeLessThanOrEqual(stats.latency.p99);
+    expect(stats.tokensPerSecond).toBeGreaterThan(0);
+  });
+
+  test('one model can be asked for by id', async ({ request }) => {
+    const { models } = await (await request.get('/api/models/stats')).json();
+    const { model } = await (await request.get(`/api/models/stats?modelId=${encodeURIComponent(models[0].modelId)}`)).json();
+    expect(model.modelId).toBe(models[0].modelId);
+    expect(model.latency).toEqual(expect.objectContaining({ p50: expect.any(Number), p90: expect.any(Number), p99: expect.any(Number) }));
+  });
+});
@@ -0,0 +1,44 @@
+import { test, expect } from '@playwright/test';
+
+// 1x1 transparent PNG
+const IMAGE = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+// Runs against the mock provider (see playwright.config.ts); the default registry's fusion models are text-only
+test.describe('Multimodal Fusion', () => {
+  test('image attachments reach fusion: the vision model sees them, text-only models get its description', async ({ request }) => {
+    const response = await request.post('/api/chat', {
+      data: {
+        message: 'What is in this picture?',
+        fusionStrategy: 'consensus',
+        attachments: [{ base64: IMAGE, mimeType: 'image/png' }]
+      }
+    });
+    expect(response.ok()).toBeTruthy();
+
+    const { fusion } = await response.json();
+    expect(fusion.imageDescription).toContain('red square');
+
+    const inputs = fusion.individualResponses.map((answer: { imageInput?: string }) => answer.imageInput);
+    expect(inputs).toContain('direct');
+    expect(inputs).toContain('description');
+  });
+
+  test('an image with no message is still answered by fusion', async ({ request }) => {
+    const response = await request.post('/api/chat', {
+      data: { attachments: [{ base64: IMAGE, mimeType: 'image/png' }] }
+    });
+    expect(response.ok()).toBeTruthy();
+
+    const data = await response.json();
+    expect(data.fusion.imageDescription).toBeTruthy();
+  });
+
+  test('requests without attachments are unchanged', async ({ request }) => {
+    const response = await request.post('/api/chat', {
+      data: { message: 'Explain photosynthesis', fusionStrategy: 'consensus' }
+    });
+    const { fusion } = await response.json();
+    expect(fusion.imageDescription).toBeUndefined();
+    expect(fusion.individualResponses.every((answer: { imageInput?: string }) => !answer.imageInput)).toBeTruthy();
+  });
+});
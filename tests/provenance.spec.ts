@@ -0,0 +1,46 @@
+import { test, expect } from '@playwright/test';
+
+interface Attribution {
+  text: string;
+  sources: Array<{ model: string; similarity: number }>;
+  synthesisOnly: boolean;
+}
+
+// Runs against the mock provider (see playwright.config.ts), where every model gives the same scripted answer
+test.describe('Fusion Provenance', () => {
+  test('each sentence of the fused answer is traced to the models it came from', async ({ request }) => {
+    const response = await request.post('/api/chat', {
+      data: { message: 'Explain how garbage collection works', fusionStrategy: 'fast' }
+    });
+    expect(response.ok()).toBeTruthy();
+
+    const { fusion } = await response.json();
+    const attributions: Attribution[] = fusion.attributions;
+    expect(attributions.length).toBeGreaterThan(0);
+
+    const answeringModels = fusion.individualResponses
+      .filter((r: { status: string }) => r.status === 'success')
+      .map((r: { model: string }) => r.model);
+    for (const attribution of attributions) {
+      expect(attribution.synthesisOnly).toBe(attribution.sources.length === 0);
+      for (const source of attribution.sources) {
+        expect(answeringModels).toContain(source.model);
+        expect(source.similarity).toBeGreaterThan(0);
+      }
+    }
+
+    // The fast strategy returns one model's answer verbatim, so nothing is synthesis-only
+    expect(attributions.filter(attribution => attribution.synthesisOnly)).toHaveLength(0);
+  });
+
+  test('structured output has no provenance', async ({ request }) => {
+    const response = await request.post('/api/chat', {
+      data: {
+        message: 'List two colors',
+        responseSchema: { type: 'object', required: ['colors'], properties: { colors: { type: 'array', items: { type: 'string' } } } }
+      }
+    });
+    const { fusion } = await response.json();
+    expect(fusion.attributions).toBeUndefined();
+  });
+});
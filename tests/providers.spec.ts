@@ -0,0 +1,29 @@
+import { test, expect } from '@playwright/test';
+
+// playwright.config.ts runs the app on the scripted mock provider, so no API key or network is needed
+test.describe('LLM Providers', () => {
+  test('health reports the configured provider', async ({ request }) => {
+    const { health } = await (await request.get('/api/chat?action=health')).json();
+    expect(health.provider).toBe('mock');
+    expect(health.apiConfigured).toBe(true);
+  });
+
+  test('a single model answers through the provider', async ({ request }) => {
+    const { models } = await (await request.get('/api/models')).json();
+    const chat = await (await request.post('/api/chat', { data: { message: 'What does a provider layer do?', model: models[0].id } })).json();
+
+    expect(chat.model).toBe(models[0].id);
+    expect(chat.response).toContain('mock response');
+    expect(chat.response).toContain('What does a provider layer do?');
+  });
+
+  test('fusion runs every model through the provider', async ({ request }) => {
+    const chat = await (await request.post('/api/chat', { data: { message: 'Why do providers need a common interface?', fusionStrategy: 'consensus' } })).json();
+
+    expect(chat.fusion.modelsUsed.length).toBeGreaterThan(1);
+    for (const answer of chat.fusion.individualResponses) {
+      expect(answer.status).toBe('success');
+      expect(answer.response).toContain('mock response');
+    }
+  });
+});
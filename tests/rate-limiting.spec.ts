@@ -0,0 +1,70 @@
+import { test, expect, type APIResponse } from '@playwright/test';
+
+// Runs against the mock provider with TRUST_PROXY=true (see playwright.config.ts), so each test
+// stands in for a proxy and sends its own client IP to get a fresh quota
+let clients = 0;
+const clientIp = () => {
+  const n = (Date.now() + clients++) % 0xffffff;
+  return { 'X-Forwarded-For': `10.${n >> 16}.${(n >> 8) & 0xff}.${n & 0xff}` };
+};
+
+const remaining = (response: APIResponse) => Number(response.headers()['x-ratelimit-remaining']);
+const limit = (response: APIResponse) => Number(response.headers()['x-ratelimit-limit']);
+
+// playwright.config raises the limit so the specs can share localhost's quota, which refills a request
+// every few dozen milliseconds. Sent together, a burst is charged faster than that, so a shared quota
+// shows up as remaining dropping below limit - 1; one request at a time it would refill in between.
+const burst = (send: (n: number) => Promise<APIResponse>) => Promise.all(Array.from({ length: 5 }, (_, n) => send(n)));
+
+test.describe('Rate Limiting', () => {
+  test('responses report the per-minute request quota', async ({ request }) => {
+    const headers = clientIp();
+
+    const first = await request.post('/api/chat', { headers, data: { message: 'What is a token bucket?' } });
+    expect(first.ok()).toBeTruthy();
+    expect(limit(first)).toBeGreaterThan(0);
+    expect(remaining(first)).toBe(limit(first) - 1);
+
+    const responses = await burst(n => request.post('/api/chat', { headers, data: { message: `How does a leaky bucket differ? (${n})` } }));
+    expect(responses.every(response => limit(response) === limit(first))).toBeTruthy();
+    expect(Math.min(...responses.map(remaining))).toBeLessThan(limit(first) - 1);
+  });
+
+  test('each client IP has its own quota', async ({ request }) => {
+    await request.post('/api/chat', { headers: clientIp(), data: { message: 'Why rate limit an API?' } });
+
+    const other = await request.post('/api/chat', { headers: clientIp(), data: { message: 'What does HTTP 429 mean?' } });
+    expect(remaining(other)).toBe(limit(other) - 1);
+  });
+
+  test('a made-up bearer token does not get a quota of its own', async ({ request }) => {
+    const ip = clientIp();
+
+    // Each token would start a full quota of its own, leaving limit - 1 on every response
+    const responses = await burst(n => request.post('/api/chat', { headers: { ...ip, Authorization: `Bearer made-up-${n}` }, data: { message: `What is a bearer token? (${n})` } }));
+    expect(Math.min(...responses.map(remaining))).toBeLessThan(limit(responses[0]) - 1);
+  });
+
+  test('a session token counts against the user, not the IP', async ({ playwright, request }) => {
+    const login = await request.post('/api/auth/login', { data: { username: 'admin', password: 'playwright-admin-password' } });
+    const token = login.headers()['set-cookie'].match(/chatqora_session=([^;]+)/)![1];
+
+    // A context of its own, so only the bearer token says who is asking
+    const api = await playwright.request.newContext({ baseURL: 'http://localhost:3007' });
+    const ip = clientIp();
+    expect((await api.post('/api/chat', { headers: { ...ip, Authorization: `Bearer ${token}` }, data: { message: 'What is a session?' } })).ok()).toBeTruthy();
+
+    const anonymous = await api.post('/api/chat', { headers: ip, data: { message: 'What is a cookie?' } });
+    expect(remaining(anonymous)).toBe(limit(anonymous) - 1);
+    await api.dispose();
+  });
+
+  test('invalid requests do not use up the quota', async ({ request }) => {
+    const headers = clientIp();
+    const invalid = await request.post('/api/chat', { headers, data: { message: 'Hi', fusionStrategy: 'nonsense' } });
+    expect(invalid.status()).toBe(400);
+
+    const valid = await request.post('/api/chat', { headers, data: { message: 'What is a quota?' } });
+    expect(remaining(valid)).toBe(limit(valid) - 1);
+  });
+});
@@ -0,0 +1,81 @@
+import { test, expect } from '@playwright/test';
+
+// Runs against the mock provider (see playwright.config.ts)
+test.describe('Regenerate API', () => {
+  test('lists the models, strategies and defaults to choose from', async ({ request }) => {
+    const response = await request.get('/api/models');
+    expect(response.ok()).toBeTruthy();
+
+    const { models, strategies, defaults, limits } = await response.json();
+    expect(models.length).toBeGreaterThan(0);
+    expect(models.some((model: { fusion: boolean }) => model.fusion)).toBeTruthy();
+    expect(strategies).toContain('auto');
+    expect(strategies).toContain('consensus');
+    expect(defaults.maxResponseTime).toBeGreaterThanOrEqual(limits.maxResponseTime.min);
+    expect(defaults.maxResponseTime).toBeLessThanOrEqual(limits.maxResponseTime.max);
+  });
+
+  test('a single model answers without fusion', async ({ request }) => {
+    const { models } = await (await request.get('/api/models')).json();
+    const chat = await (await request.post('/api/chat', { data: { message: 'Why do leaves change colour?', model: models[0].id } })).json();
+    expect(chat.model).toBe(models[0].id);
+    expect(chat.fusion).toBeUndefined();
+  });
+
+  test('fusion is limited to the chosen models and regenerating skips the cache', async ({ request }) => {
+    const { models } = await (await request.get('/api/models')).json();
+    const data = { message: 'Why do cats purr?', models: [models[0].id], fusionStrategy: 'consensus', maxResponseTime: 30000 };
+
+    const first = await (await request.post('/api/chat', { data })).json();
+    expect(first.fusion.individualResponses.map((answer: { model: string }) => answer.model)).toEqual([models[0].id]);
+    expect(first.metadata.targetResponseTime).toBe('30 seconds');
+
+    const repeated = await (await request.post('/api/chat', { data })).json();
+    expect(repeated.usage.cachedCalls).toBeGreaterThan(0);
+
+    const regenerated = await (await request.post('/api/chat', { data: { ...data, regenerate: true } })).json();
+    expect(regenerated.usage.cachedCalls).toBe(0);
+  });
+
+  test('invalid options are rejected', async ({ request }) => {
+    const ask = (options: object) => request.post('/api/chat', { data: { message: 'Hello', ...options } });
+
+    expect((await ask({ model: 'no-such-model' })).status()).toBe(400);
+    expect((await ask({ models: [] })).status()).toBe(400);
+    expect((await ask({ models: ['no-such-model'] })).status()).toBe(400);
+    expect((await ask({ maxResponseTime: 500 })).status()).toBe(400);
+    expect((await ask({ qualityThreshold: 2 })).status()).toBe(400);
+  });
+});
+
+test.describe('Regenerate UI', () => {
+  test('the dialog offers fusion or a single model', async ({ page }) => {
+    const id = `chat-regenerate-${Date.now()}`;
+    const timestamp = new Date().toISOString();
+    expect((await page.request.post('/api/conversations', {
+      data: {
+        id,
+        title: 'Cat sounds',
+        messages: [
+          { id: 'q', role: 'user', content: 'Why do cats purr?', timestamp },
+          { id: 'a', role: 'assistant', content: 'Purring comes from the larynx muscles.', timestamp }
+        ]
+      }
+    })).status()).toBe(201);
+
+    await page.goto('/improved-chat');
+    await page.getByText('Cat sounds').click();
+    await page.locator('#message-a').getByRole('button', { name: 'Regenerate' }).click();
+
+    const dialog = page.getByRole('dialog', { name: 'Regenerate' });
+    await expect(dialog.getByRole('radiogroup', { name: 'Mode' })).toBeVisible();
+    await expect(dialog.getByLabel('Strategy')).toBeVisible();
+
+    await dialog.getByLabel('Single model').check();
+    await expect(dialog.getByLabel('Model', { exact: true })).toBeVisible();
+    await expect(dialog.getByLabel('Strategy')).toHaveCount(0);
+
+    await dialog.getByRole('button', { name: 'Cancel' }).click();
+    await expect(dialog).toHaveCount(0);
+  });
+});
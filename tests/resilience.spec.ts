@@ -0,0 +1,25 @@
+import { test, expect } from '@playwright/test';
+
+// Runs against the mock provider (see playwright.config.ts), where every model answers
+test.describe('Provider Resilience', () => {
+  test('health check reports each model circuit', async ({ request }) => {
+    const response = await request.get('/api/chat?action=health');
+    expect(response.ok()).toBeTruthy();
+
+    const { health } = await response.json();
+    expect(Array.isArray(health.circuits)).toBeTruthy();
+    for (const model of Object.values(health.models) as { circuit: string }[]) {
+      expect(['closed', 'half_open', 'open']).toContain(model.circuit);
+    }
+  });
+
+  test('healthy models keep their circuits closed after a fusion request', async ({ request }) => {
+    const chat = await request.post('/api/chat', { data: { message: 'Explain what a circuit breaker is' } });
+    expect(chat.ok()).toBeTruthy();
+
+    const { health } = await (await request.get('/api/chat?action=health')).json();
+    const open = health.circuits.filter((circuit: { state: string }) => circuit.state !== 'closed');
+    expect(open).toHaveLength(0);
+    expect(health.overall.status).toBe('optimal');
+  });
+});
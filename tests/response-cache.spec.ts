@@ -0,0 +1,31 @@
+import { test, expect, type APIRequestContext } from '@playwright/test';
+
+// Runs against the mock provider (see playwright.config.ts); the cache is shared by every request
+const cacheStats = async (request: APIRequestContext) => (await (await request.get('/api/chat?action=health')).json()).health.cache;
+
+test.describe('Response Cache', () => {
+  test('health reports the size and hit rate of both caches', async ({ request }) => {
+    const { responses, search } = await cacheStats(request);
+    for (const cache of [responses, search]) {
+      expect(cache.size).toBeLessThanOrEqual(cache.maxEntries);
+      expect(cache.hitRate).toBeGreaterThanOrEqual(0);
+      expect(cache.hitRate).toBeLessThanOrEqual(1);
+      expect(typeof cache.backend).toBe('string');
+    }
+  });
+
+  test('asking the same question again is answered from the cache', async ({ request }) => {
+    const data = { message: `What does an LRU cache evict first? (${Date.now()})`, fusionStrategy: 'consensus' };
+
+    const first = await (await request.post('/api/chat', { data })).json();
+    expect(first.usage.cachedCalls).toBe(0);
+    const before = (await cacheStats(request)).responses;
+
+    const repeated = await (await request.post('/api/chat', { data })).json();
+    expect(repeated.usage.cachedCalls).toBeGreaterThan(0);
+    expect(repeated.usage.cost).toBeLessThanOrEqual(first.usage.cost);
+
+    const after = (await cacheStats(request)).responses;
+    expect(after.hits).toBeGreaterThan(before.hits);
+  });
+});
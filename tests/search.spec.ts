@@ -0,0 +1,86 @@
+import { test, expect, type APIRequestContext } from '@playwright/test';
+
+const at = (day: string) => `${day}T10:00:00.000Z`;
+
+// Each test's request context has its own cookie jar, so its own anonymous user
+async function seed(request: APIRequestContext) {
+  const conversations = [
+    {
+      id: `chat-search-bread-${Date.now()}`,
+      title: 'Sourdough starter',
+      createdAt: at('2025-02-01'),
+      messages: [
+        { id: 'bread-q', role: 'user', content: 'How often should I feed my starter?', timestamp: at('2025-02-01') },
+        {
+          id: 'bread-a', role: 'assistant', content: 'Feed the starter once a day with equal weights of flour and water.', timestamp: at('2025-02-01'),
+          model: 'gpt-4o', metadata: { sources: [{ title: 'King Arthur Baking guide', url: 'https://www.kingarthurbaking.com', snippet: '' }] }
+        }
+      ]
+    },
+    {
+      id: `chat-search-tides-${Date.now()}`,
+      title: 'Tides',
+      createdAt: at('2024-06-01'),
+      messages: [
+        { id: 'tides-q', role: 'user', content: 'Why are there two tides a day?', timestamp: at('2024-06-01') },
+        { id: 'tides-a', role: 'assistant', content: 'The Moon pulls on both sides of the Earth, so water piles up twice.', timestamp: at('2024-06-01'), model: 'claude-3.5' }
+      ]
+    }
+  ];
+  for (const conversation of conversations) {
+    expect((await request.post('/api/conversations', { data: conversation })).status()).toBe(201);
+  }
+  return conversations;
+}
+
+test.describe('Conversation Search API', () => {
+  test('ranks messages and highlights the matching words', async ({ request }) => {
+    const [bread] = await seed(request);
+
+    const { hits, total, models } = await (await request.get('/api/conversations?q=feed starter')).json();
+    expect(total).toBe(2);
+    expect(hits[0]).toMatchObject({ conversationId: bread.id, conversationTitle: 'Sourdough starter' });
+    expect(hits[0].snippet).toContainEqual({ text: 'starter', highlight: true });
+    expect(models).toEqual(['claude-3.5', 'gpt-4o']);
+  });
+
+  test('matches titles, source titles and word prefixes', async ({ request }) => {
+    await seed(request);
+
+    expect((await (await request.get('/api/conversations?q=king arthur')).json()).hits[0].messageId).toBe('bread-a');
+    expect((await (await request.get('/api/conversations?q=moo')).json()).hits[0].messageId).toBe('tides-a');
+    expect((await (await request.get('/api/conversations?q=tides')).json()).total).toBe(2);
+  });
+
+  test('filters by date, model and web search', async ({ request }) => {
+    await seed(request);
+    const ids = async (query: string) => (await (await request.get(`/api/conversations?${query}`)).json()).hits.map((hit: { messageId: string }) => hit.messageId).sort();
+
+    expect(await ids('q=day&from=2025-01-01')).toEqual(['bread-a']);
+    expect(await ids('q=day&to=2024-06-01')).toEqual(['tides-q']);
+    expect(await ids('q=day&model=claude-3.5')).toEqual([]);
+    expect(await ids('q=earth&model=claude-3.5')).toEqual(['tides-a']);
+    expect(await ids('q=starter&webSearch=true')).toEqual(['bread-a', 'bread-q']);
+    expect(await ids('q=starter&webSearch=false')).toEqual([]);
+  });
+
+  test('invalid filters are rejected', async ({ request }) => {
+    expect((await request.get('/api/conversations?q=x&from=soon')).status()).toBe(400);
+    expect((await request.get('/api/conversations?q=x&webSearch=maybe')).status()).toBe(400);
+    expect((await request.get('/api/conversations?q=x&limit=1000')).status()).toBe(400);
+  });
+});
+
+test.describe('Conversation Search UI', () => {
+  test('opening a hit shows its chat at that message', async ({ page }) => {
+    await seed(page.request);
+    await page.goto('/improved-chat');
+
+    await page.getByLabel('Search chats').fill('moon');
+    await expect(page.getByText('1 match')).toBeVisible();
+    await page.getByRole('button', { name: /Tides/ }).click();
+
+    await expect(page.locator('#message-tides-a')).toBeInViewport();
+    await expect(page.locator('#message-tides-a')).toContainText('The Moon pulls on both sides');
+  });
+});
@@ -0,0 +1,42 @@
+import { test, expect, type APIResponse } from '@playwright/test';
+
+// Runs against the mock provider (see playwright.config.ts), which streams its answers token by token
+async function readEvents(response: APIResponse) {
+  return (await response.text())
+    .split('\n\n')
+    .filter(block => block.trim())
+    .map(block => {
+      const event = block.match(/^event: (.*)$/m)?.[1] ?? 'message';
+      const data = block.match(/^data: (.*)$/m)?.[1] ?? '';
+      return { event, data: JSON.parse(data) };
+    });
+}
+
+test.describe('Streaming Chat API', () => {
+  test('a fast answer streams its tokens before the final payload', async ({ request }) => {
+    const response = await request.post('/api/chat', { data: { message: 'What is a server-sent event?', stream: true } });
+    expect(response.ok()).toBeTruthy();
+    expect(response.headers()['content-type']).toContain('text/event-stream');
+
+    const events = await readEvents(response);
+    expect(events[0].event).toBe('start');
+    expect(events.some(({ event }) => event === 'progress')).toBeTruthy();
+
+    const tokens = events.filter(({ event }) => event === 'token');
+    expect(tokens.length).toBeGreaterThan(1);
+
+    const done = events.at(-1)!;
+    expect(done.event).toBe('done');
+    expect(done.data.fusion.strategy).toBe('fast');
+    expect(tokens.map(({ data }) => data.text).join('')).toBe(done.data.response);
+  });
+
+  test('a synthesised answer streams the synthesis', async ({ request }) => {
+    const response = await request.post('/api/chat', { data: { message: 'How do rainbows form?', stream: true, fusionStrategy: 'consensus' } });
+    const events = await readEvents(response);
+
+    const tokens = events.filter(({ event }) => event === 'token');
+    expect(tokens.length).toBeGreaterThan(1);
+    expect(tokens.map(({ data }) => data.text).join('')).toBe(events.at(-1)!.data.response);
+  });
+});
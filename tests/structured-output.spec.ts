@@ -0,0 +1,39 @@
+import { test, expect } from '@playwright/test';
+
+const PERSON_SCHEMA = {
+  type: 'object',
+  required: ['name', 'age'],
+  properties: {
+    name: { type: 'string' },
+    age: { type: 'integer', minimum: 0 }
+  },
+  additionalProperties: false
+};
+
+// Runs against the mock provider (see playwright.config.ts), which answers schema prompts with a valid sample
+test.describe('Structured Output', () => {
+  test('rejects schemas the validator cannot enforce', async ({ request }) => {
+    const response = await request.post('/api/chat', {
+      data: { message: 'Extract the person', responseSchema: { $ref: '#/definitions/person' } }
+    });
+    expect(response.status()).toBe(400);
+
+    const data = await response.json();
+    expect(data.details).toContain('$ref');
+  });
+
+  test('returns fused JSON that matches the schema', async ({ request }) => {
+    const response = await request.post('/api/chat', {
+      data: { message: 'Extract the person: Ada Lovelace, 36 years old', responseSchema: PERSON_SCHEMA }
+    });
+    expect(response.ok()).toBeTruthy();
+
+    const data = await response.json();
+    expect(data.fusion.strategy).toBe('structured');
+    expect(data.structured.valid).toBe(true);
+    expect(JSON.parse(data.response)).toEqual(data.structured.value);
+    expect(data.structured.value).toMatchObject({ name: expect.any(String), age: expect.any(Number) });
+    // Extraction requests don't get follow-up suggestions
+    expect(data.dynamicRecommendations).toEqual([]);
+  });
+});
@@ -0,0 +1,42 @@
+import { test, expect } from '@playwright/test';
+
+// Runs against the mock provider (see playwright.config.ts), which calls the calculator for "calculate" prompts
+test.describe('Tool Calling', () => {
+  test('rejects unknown tool names', async ({ request }) => {
+    const response = await request.post('/api/chat', {
+      data: { message: 'Calculate 2 + 2', tools: ['shell'] }
+    });
+    expect(response.status()).toBe(400);
+  });
+
+  test('models call the calculator and each invocation is logged', async ({ request }) => {
+    const response = await request.post('/api/chat', {
+      data: { message: 'Calculate 17 * 23 + 4', tools: ['calculator'] }
+    });
+    expect(response.ok()).toBeTruthy();
+
+    const data = await response.json();
+    const invocations = data.fusion.individualResponses.flatMap(
+      (answer: { toolInvocations?: unknown[] }) => answer.toolInvocations || []
+    );
+    expect(invocations.length).toBeGreaterThan(0);
+    expect(invocations[0]).toMatchObject({
+      tool: 'calculator',
+      arguments: { expression: '17 * 23 + 4' },
+      status: 'success',
+      round: 1
+    });
+    expect(invocations[0].result).toContain('395');
+  });
+
+  test('no tools are offered unless the request asks for them', async ({ request }) => {
+    const response = await request.post('/api/chat', {
+      data: { message: 'Calculate 17 * 23 + 4' }
+    });
+    const data = await response.json();
+    const invocations = data.fusion.individualResponses.flatMap(
+      (answer: { toolInvocations?: unknown[] }) => answer.toolInvocations || []
+    );
+    expect(invocations).toHaveLength(0);
+  });
+});
@@ -0,0 +1,37 @@
+import { test, expect } from '@playwright/test';
+
+// Runs against the mock provider (see playwright.config.ts), which reports token usage like a real one
+interface ModelUsage { promptTokens: number; completionTokens: number; cost: number; calls: number }
+
+test.describe('Usage & Cost Accounting', () => {
+  test('a fused answer reports the tokens and cost of every call it made', async ({ request }) => {
+    const chat = await (await request.post('/api/chat', { data: { message: `How is token usage counted? (${Date.now()})`, fusionStrategy: 'consensus' } })).json();
+    const { usage } = chat;
+
+    expect(usage.currency).toBe('USD');
+    expect(usage.promptTokens).toBeGreaterThan(0);
+    expect(usage.completionTokens).toBeGreaterThan(0);
+    expect(usage.totalTokens).toBe(usage.promptTokens + usage.completionTokens);
+    expect(usage.cost).toBeGreaterThanOrEqual(0);
+    expect(usage.estimated).toBe(false);
+
+    // Every model answer, the synthesis and the follow-up suggestions are billed
+    const byModel = Object.values(usage.byModel) as ModelUsage[];
+    expect(byModel.reduce((sum, model) => sum + model.calls, 0)).toBe(usage.calls);
+    expect(byModel.reduce((sum, model) => sum + model.promptTokens + model.completionTokens, 0)).toBe(usage.totalTokens);
+    expect(usage.calls).toBeGreaterThan(chat.fusion.modelsUsed.length);
+
+    // Fusion metadata is built before the follow-up suggestions are requested
+    expect(chat.metadata.totalTokens).toBe(chat.metadata.usage.totalTokens);
+    expect(chat.metadata.totalTokens).toBeLessThan(usage.totalTokens);
+  });
+
+  test('a single model answer reports its usage too', async ({ request }) => {
+    const { models } = await (await request.get('/api/models')).json();
+    const { usage } = await (await request.post('/api/chat', { data: { message: `What does a prompt token cost? (${Date.now()})`, model: models[0].id } })).json();
+
+    expect(usage.calls).toBeGreaterThan(0);
+    expect(usage.totalTokens).toBe(usage.promptTokens + usage.completionTokens);
+    expect(Object.keys(usage.byModel)).toContain(models[0].id);
+  });
+});